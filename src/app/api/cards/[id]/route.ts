@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { reviveCard, reviveCardPatch } from '@/providers/httpApi'
+import { DataProviderError } from '@/providers/types'
+import { badRequest, errorResponse, hasId, readJson, withProvider } from '../../mongodb'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Returns a single card
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+
+  try {
+    const card = await withProvider(request, provider => provider.getCard(id))
+    if (!card) {
+      return NextResponse.json(
+        { error: `Card with ID ${id} not found`, type: DataProviderError.OPERATION_FAILED },
+        { status: 404 }
+      )
+    }
+    return NextResponse.json(card)
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+/**
+ * Replaces an existing card
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  const body = await readJson(request)
+  if (!hasId(body) || body.id !== id) {
+    return badRequest('Request body must be the card with the id in the URL')
+  }
+
+  try {
+    return NextResponse.json(await withProvider(request, provider => provider.updateCard(reviveCard(body))))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+/**
+ * Changes some fields of an existing card
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  const body = await readJson(request)
+  if (!body || typeof body !== 'object' || Array.isArray(body) || (hasId(body) && body.id !== id)) {
+    return badRequest('Request body must be the fields to change')
+  }
+
+  try {
+    return await withProvider(request, async provider => {
+      if (!(await provider.getCard(id))) {
+        return NextResponse.json(
+          { error: `Card with ID ${id} not found`, type: DataProviderError.OPERATION_FAILED },
+          { status: 404 }
+        )
+      }
+      return NextResponse.json(await provider.patchCard(id, reviveCardPatch(body)))
+    })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+/**
+ * Deletes a card
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+
+  try {
+    await withProvider(request, provider => provider.deleteCard(id))
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
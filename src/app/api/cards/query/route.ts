@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { parseCardQuery } from '@/providers/httpApi'
+import { badRequest, errorResponse, withProvider } from '../../mongodb'
+
+/**
+ * One page of the cards matching the query parameters
+ */
+export async function GET(request: NextRequest) {
+  const query = parseCardQuery(request.nextUrl.searchParams)
+  if (!query) {
+    return badRequest('Invalid card query')
+  }
+
+  try {
+    return NextResponse.json(await withProvider(request, provider => provider.queryCards(query)))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
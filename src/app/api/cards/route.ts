@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { reviveCard, reviveCardPatch } from '@/providers/httpApi'
+import { badRequest, errorResponse, hasId, readJson, withProvider } from '../mongodb'
+
+/**
+ * Lists all cards
+ */
+export async function GET(request: NextRequest) {
+  try {
+    return NextResponse.json(await withProvider(request, provider => provider.getCards()))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+/**
+ * Creates a card
+ */
+export async function POST(request: NextRequest) {
+  const body = await readJson(request)
+  if (!hasId(body)) {
+    return badRequest('Request body must be a card')
+  }
+
+  try {
+    const card = await withProvider(request, provider => provider.saveCard(reviveCard(body)))
+    return NextResponse.json(card, { status: 201 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+/**
+ * Bulk upsert: inserts new cards and replaces existing ones
+ */
+export async function PUT(request: NextRequest) {
+  const body = await readJson(request)
+  if (!Array.isArray(body) || !body.every(hasId)) {
+    return badRequest('Request body must be an array of cards')
+  }
+
+  try {
+    return NextResponse.json(await withProvider(request, provider => provider.upsertCards(body.map(reviveCard))))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+/**
+ * Bulk patch: changes some fields of many cards, reporting the ones that failed
+ */
+export async function PATCH(request: NextRequest) {
+  const body = await readJson(request)
+  const isPatchEntry = (entry: any) => entry && typeof entry.cardId === 'string' &&
+    entry.changes && typeof entry.changes === 'object' && !Array.isArray(entry.changes)
+  if (!Array.isArray(body) || !body.every(isPatchEntry)) {
+    return badRequest('Request body must be an array of card patches')
+  }
+
+  try {
+    const patches = body.map(entry => ({ cardId: entry.cardId, changes: reviveCardPatch(entry.changes) }))
+    return NextResponse.json(await withProvider(request, provider => provider.patchCards(patches)))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+/**
+ * Bulk delete: removes many cards, reporting the ones that failed
+ */
+export async function DELETE(request: NextRequest) {
+  const body = await readJson(request)
+  if (!Array.isArray(body) || !body.every(id => typeof id === 'string')) {
+    return badRequest('Request body must be an array of card ids')
+  }
+
+  try {
+    return NextResponse.json(await withProvider(request, provider => provider.deleteCards(body)))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { reviveDeck } from '@/providers/httpApi'
+import { badRequest, errorResponse, hasId, readJson, withProvider } from '../../mongodb'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Replaces an existing deck
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  const body = await readJson(request)
+  if (!hasId(body) || body.id !== id) {
+    return badRequest('Request body must be the deck with the id in the URL')
+  }
+
+  try {
+    return NextResponse.json(await withProvider(request, provider => provider.updateDeck(reviveDeck(body))))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+/**
+ * Deletes a deck and its cards
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+
+  try {
+    await withProvider(request, provider => provider.deleteDeck(id))
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { reviveDeck } from '@/providers/httpApi'
+import { badRequest, errorResponse, hasId, readJson, withProvider } from '../mongodb'
+
+/**
+ * Lists all decks
+ */
+export async function GET(request: NextRequest) {
+  try {
+    return NextResponse.json(await withProvider(request, provider => provider.getDecks()))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+/**
+ * Creates a deck
+ */
+export async function POST(request: NextRequest) {
+  const body = await readJson(request)
+  if (!hasId(body)) {
+    return badRequest('Request body must be a deck')
+  }
+
+  try {
+    const deck = await withProvider(request, provider => provider.saveDeck(reviveDeck(body)))
+    return NextResponse.json(deck, { status: 201 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { MongoDBProvider } from '@/providers/MongoDBProvider'
+import { ApiErrorBody, MONGODB_CONFIG_HEADERS } from '@/providers/httpApi'
+import { DataProviderError, MongoDBConfig, ProviderError } from '@/providers/types'
+
+const STATUS_CODES: Record<DataProviderError, number> = {
+  [DataProviderError.INVALID_CONFIGURATION]: 400,
+  [DataProviderError.CONNECTION_FAILED]: 503,
+  [DataProviderError.PROVIDER_UNAVAILABLE]: 503,
+  [DataProviderError.OPERATION_FAILED]: 500
+}
+
+// Client settings can point at any host, so only a few of their connections are kept open
+const MAX_CACHED_PROVIDERS = 5
+
+interface CachedProvider {
+  provider: MongoDBProvider
+  users: number // requests using the provider right now
+  evicted: boolean // closed once the last of those requests is done
+}
+
+// One provider per configuration, so connections are reused across requests.
+// Kept in the order of last use, the least recently used one is closed first
+const providers = new Map<string, CachedProvider>()
+
+const closeProvider = ({ provider }: CachedProvider) => {
+  provider.disconnect().catch(error => console.error('Failed to close MongoDB connection:', error))
+}
+
+/**
+ * MongoDB settings for a request. Server environment variables take precedence.
+ * The settings sent by the browser are only used when the server opts in with
+ * MONGODB_ALLOW_CLIENT_CONFIG=true, since they make the server connect to any host
+ */
+export function getMongoConfig(request: NextRequest): MongoDBConfig {
+  if (process.env.MONGODB_URI) {
+    return {
+      connectionString: process.env.MONGODB_URI,
+      databaseName: process.env.MONGODB_DATABASE || 'flashcards',
+      collectionName: process.env.MONGODB_COLLECTION || 'cards'
+    }
+  }
+
+  if (process.env.MONGODB_ALLOW_CLIENT_CONFIG !== 'true') {
+    throw new ProviderError(
+      DataProviderError.INVALID_CONFIGURATION,
+      'MongoDB is not configured on the server. Set MONGODB_URI, or MONGODB_ALLOW_CLIENT_CONFIG=true to use the settings from the app',
+      'mongodb'
+    )
+  }
+
+  return {
+    connectionString: request.headers.get(MONGODB_CONFIG_HEADERS.connectionString) || '',
+    databaseName: request.headers.get(MONGODB_CONFIG_HEADERS.databaseName) || '',
+    collectionName: request.headers.get(MONGODB_CONFIG_HEADERS.collectionName) || ''
+  }
+}
+
+/**
+ * Runs a request's work with the MongoDB provider for its configuration. A provider
+ * that falls out of the cache meanwhile is closed only after the work is done
+ */
+export async function withProvider<T>(request: NextRequest, use: (provider: MongoDBProvider) => Promise<T>): Promise<T> {
+  const config = getMongoConfig(request)
+  const key = JSON.stringify(config)
+
+  let cached = providers.get(key)
+  if (cached) {
+    providers.delete(key)
+  } else {
+    cached = { provider: new MongoDBProvider(config), users: 0, evicted: false }
+  }
+  providers.set(key, cached)
+
+  while (providers.size > MAX_CACHED_PROVIDERS) {
+    const [oldestKey, oldest] = providers.entries().next().value as [string, CachedProvider]
+    providers.delete(oldestKey)
+    oldest.evicted = true
+    if (oldest.users === 0) {
+      closeProvider(oldest)
+    }
+  }
+
+  const entry = cached
+  entry.users++
+  try {
+    return await use(entry.provider)
+  } finally {
+    entry.users--
+    if (entry.evicted && entry.users === 0) {
+      closeProvider(entry)
+    }
+  }
+}
+
+/**
+ * JSON error response in the shape HttpProvider expects
+ */
+export function errorResponse(error: unknown): NextResponse<ApiErrorBody> {
+  if (error instanceof ProviderError) {
+    return NextResponse.json({ error: error.message, type: error.type }, { status: STATUS_CODES[error.type] })
+  }
+
+  return NextResponse.json(
+    { error: error instanceof Error ? error.message : 'Unknown error', type: DataProviderError.OPERATION_FAILED },
+    { status: 500 }
+  )
+}
+
+/**
+ * 400 response for request bodies that cannot be used
+ */
+export function badRequest(message: string): NextResponse<ApiErrorBody> {
+  return NextResponse.json({ error: message, type: DataProviderError.OPERATION_FAILED }, { status: 400 })
+}
+
+/**
+ * Parses the JSON body of a request, or returns undefined when it is not valid JSON
+ */
+export async function readJson(request: NextRequest): Promise<any> {
+  try {
+    return await request.json()
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Whether a request body looks like a record with an id
+ */
+export function hasId(value: unknown): value is { id: string } {
+  return !!value && typeof value === 'object' && typeof (value as { id?: unknown }).id === 'string'
+}
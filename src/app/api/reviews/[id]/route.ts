@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { errorResponse, withProvider } from '../../mongodb'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Deletes a review log
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+
+  try {
+    await withProvider(request, provider => provider.deleteReviewLog(id))
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
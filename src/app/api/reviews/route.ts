@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { reviveReviewLog } from '@/providers/httpApi'
+import { badRequest, errorResponse, hasId, readJson, withProvider } from '../mongodb'
+
+/**
+ * Lists review logs, only those of one card with ?cardId=
+ */
+export async function GET(request: NextRequest) {
+  const cardId = request.nextUrl.searchParams.get('cardId') || undefined
+
+  try {
+    return NextResponse.json(await withProvider(request, provider => provider.getReviewLogs(cardId)))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+/**
+ * Saves one review log, or several when the body is an array
+ */
+export async function POST(request: NextRequest) {
+  const body = await readJson(request)
+
+  try {
+    if (Array.isArray(body) && body.every(hasId)) {
+      const logs = await withProvider(request, provider => provider.saveReviewLogs(body.map(reviveReviewLog)))
+      return NextResponse.json(logs, { status: 201 })
+    }
+
+    if (hasId(body)) {
+      const log = await withProvider(request, provider => provider.saveReviewLog(reviveReviewLog(body)))
+      return NextResponse.json(log, { status: 201 })
+    }
+
+    return badRequest('Request body must be a review log or an array of review logs')
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
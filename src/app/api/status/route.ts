@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ApiStatusBody } from '@/providers/httpApi'
+import { ProviderError, ProviderStatus } from '@/providers/types'
+import { withProvider } from '../mongodb'
+
+/**
+ * Reports whether the server can reach the database
+ */
+export async function GET(request: NextRequest) {
+  try {
+    return await withProvider(request, async provider => {
+      const available = await provider.isAvailable()
+      const { status, message } = await provider.getStatus()
+
+      return NextResponse.json<ApiStatusBody>({ available, status, message })
+    })
+  } catch (error) {
+    // Invalid settings mean the database cannot be reached, not that the route failed
+    return NextResponse.json<ApiStatusBody>({
+      available: false,
+      status: error instanceof ProviderError ? ProviderStatus.ERROR : ProviderStatus.UNAVAILABLE,
+      message: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
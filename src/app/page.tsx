@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect, useRef, useMemo } from 'react'
 import {
     Container,
     Typography,
@@ -15,6 +15,10 @@ import {
     MenuItem,
     IconButton,
     Divider,
+    TextField,
+    Select,
+    SelectChangeEvent,
+    Autocomplete,
 } from '@mui/material'
 import {
     NavigateNext as NextIcon,
@@ -27,20 +31,56 @@ import {
     Shuffle as ShuffleIcon,
     CloudDownload as CloudDownloadIcon,
     CloudUpload as CloudUploadIcon,
+    FileDownload as FileDownloadIcon,
+    FileUpload as FileUploadIcon,
     School as SchoolIcon,
     Settings as SettingsIcon,
     Add as AddIcon,
     Translate as TranslateIcon,
+    Folder as FolderIcon,
+    Edit as EditIcon,
+    Delete as DeleteIcon,
+    Keyboard as KeyboardIcon,
+    Style as StyleIcon,
+    Quiz as QuizIcon,
+    Hearing as HearingIcon,
+    ShortText as ShortTextIcon,
+    Storage as StorageIcon,
 } from '@mui/icons-material'
 import { FlashCard } from '@/components/FlashCard'
+import { TypingCard } from '@/components/TypingCard'
+import { QuizCard } from '@/components/QuizCard'
+import { DictationCard } from '@/components/DictationCard'
+import { ClozeCard } from '@/components/ClozeCard'
+import { SyncStatusIndicator } from '@/components/SyncStatusIndicator'
+import { UndoSnackbar } from '@/components/UndoSnackbar'
 import { ImportDialog } from '@/components/ImportDialog'
 import { AddWordDialog } from '@/components/AddWordDialog'
 import { EditWordDialog } from '@/components/EditWordDialog'
 import { WordList } from '@/components/WordList'
+import { TrashList } from '@/components/TrashList'
 import { GameStats } from '@/components/GameStats'
+import { DeckDialog, DeckFormData } from '@/components/DeckDialog'
 import { useCards } from '@/hooks/useCards'
 import { useSettings } from '@/contexts/SettingsContext'
 import { Card, Example } from '@/types/card'
+import { Deck, DEFAULT_DECK_ID } from '@/types/deck'
+import { StudyMode } from '@/types/review'
+import { ReviewGrade } from '@/utils/scheduler'
+import { getDeckProgress } from '@/utils/decks'
+import { hasClozeExercise } from '@/utils/cloze'
+import { ImportFormat } from '@/utils/wordListImport'
+
+const ALL_DECKS = '__all__'
+const NEW_DECK = '__new__'
+
+const STUDY_MODES: Record<StudyMode, { label: string, icon: typeof StyleIcon }> = {
+    flashcard: { label: 'Flashcards', icon: StyleIcon },
+    typing: { label: 'Typing', icon: KeyboardIcon },
+    quiz: { label: 'Quiz', icon: QuizIcon },
+    dictation: { label: 'Listening', icon: HearingIcon },
+    cloze: { label: 'Fill the Gap', icon: ShortTextIcon },
+}
 
 export default function Home() {
     const {
@@ -48,9 +88,16 @@ export default function Home() {
         currentCardIndex,
         setCurrentCardIndex,
         importCards,
+        findImportConflicts,
+        reviewCard,
         markAsKnown,
         markAsUnknown,
+        markCardsAsKnown,
+        markCardsAsUnknown,
         getActiveCards,
+        studyCounts,
+        isQueueComplete,
+        rebuildStudyQueue,
         resetProgress,
         isShuffled,
         toggleShuffle,
@@ -58,26 +105,99 @@ export default function Home() {
         toggleIncludeKnownWords,
         exportProgress,
         importProgress,
+        exportAnkiNotes,
         deleteCard,
+        deleteCards,
+        mergeCards,
+        trashedCards,
+        restoreCards,
+        purgeCards,
+        undo,
+        redo,
+        lastRecordedChange,
         updateCard,
+        patchCards,
         navigateToNext,
         navigateToPrevious,
+        decks,
+        selectedDeckId,
+        selectDeck,
+        deckCards,
+        createDeck,
+        updateDeck,
+        deleteDeck,
+        availableTags,
+        selectedTags,
+        selectTags,
+        migrateToIndexedDB,
+        error,
+        clearError,
+        syncState,
+        syncNow,
+        queryCards,
     } = useCards()
 
-    const { showTranslationFirst, setShowTranslationFirst } = useSettings()
+    const {
+        showTranslationFirst,
+        setShowTranslationFirst,
+        newCardsPerDay,
+        setNewCardsPerDay,
+        studyMode,
+        setStudyMode,
+        maxAnswerDistance,
+        setMaxAnswerDistance,
+        wordListSort,
+        setWordListSort,
+        trashRetentionDays,
+        setTrashRetentionDays,
+        dataProvider,
+    } = useSettings()
 
     const [importDialogOpen, setImportDialogOpen] = useState(false)
+    const [importFormat, setImportFormat] = useState<ImportFormat>('auto')
     const [addWordDialogOpen, setAddWordDialogOpen] = useState(false)
     const [editWordDialogOpen, setEditWordDialogOpen] = useState(false)
     const [editingCard, setEditingCard] = useState<Card | null>(null)
-    const [viewMode, setViewMode] = useState<'cards' | 'list'>('cards')
+    const [viewMode, setViewMode] = useState<'cards' | 'list' | 'trash'>('cards')
     const [settingsAnchorEl, setSettingsAnchorEl] = useState<null | HTMLElement>(null)
+    const [deckDialogOpen, setDeckDialogOpen] = useState(false)
+    const [editingDeck, setEditingDeck] = useState<Deck | null>(null)
     const settingsOpen = Boolean(settingsAnchorEl)
 
     const activeCards = getActiveCards()
     const currentCard = activeCards[currentCardIndex]
-    const unknownCards = cards.filter(card => !card.isKnown)
-    const progress = cards.length > 0 ? ((cards.length - unknownCards.length) / cards.length) * 100 : 0
+    const cardShownAtRef = useRef(Date.now())
+
+    // Measure response time from the moment a card is shown
+    useEffect(() => {
+        cardShownAtRef.current = Date.now()
+    }, [currentCard?.id])
+
+    // Failures are already shown through the hook's error state
+    const handleUndo = () => {
+        undo().catch(error => console.error('Failed to undo:', error))
+    }
+
+    // Ctrl+Z undoes the latest card change and Ctrl+Shift+Z redoes it, text fields keep their own undo
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return
+
+            const target = event.target as HTMLElement | null
+            if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return
+
+            event.preventDefault()
+            const applyChange = event.shiftKey ? redo : undo
+            applyChange().catch(error => console.error('Failed to undo or redo:', error))
+        }
+
+        window.addEventListener('keydown', handleKeyDown)
+        return () => window.removeEventListener('keydown', handleKeyDown)
+    }, [undo, redo])
+    const unknownCards = deckCards.filter(card => !card.isKnown)
+    const progress = deckCards.length > 0 ? ((deckCards.length - unknownCards.length) / deckCards.length) * 100 : 0
+    const selectedDeck = decks.find(deck => deck.id === selectedDeckId) || null
+    const deckProgress = useMemo(() => getDeckProgress(decks, cards), [decks, cards])
 
     const handleNext = () => {
         navigateToNext()
@@ -87,27 +207,20 @@ export default function Home() {
         navigateToPrevious()
     }
 
-    const handleMarkKnown = async () => {
-        if (currentCard) {
-            await markAsKnown(currentCard.id)
-            // Navigate to next card after marking
-            navigateToNext()
-        }
-    }
-
-    const handleMarkUnknown = async () => {
+    const handleReview = async (grade: ReviewGrade, responseTimeMs = Date.now() - cardShownAtRef.current) => {
         if (currentCard) {
-            await markAsUnknown(currentCard.id)
-            // Navigate to next card after marking
+            await reviewCard(currentCard.id, grade, { responseTimeMs, studyMode })
+            // Navigate to next card after grading
             navigateToNext()
         }
     }
 
-    const handleAddSingleWord = (word: string, translation: string, examples: Example[]) => {
+    const handleAddSingleWord = (word: string, translation: string, examples: Example[], tags: string[]) => {
         const cardData = [{
             word,
             translation,
-            examples
+            examples,
+            tags
         }]
         importCards(cardData)
     }
@@ -132,6 +245,18 @@ export default function Home() {
         setSettingsAnchorEl(null)
     }
 
+    const handleExportAnki = () => {
+        exportAnkiNotes()
+        setSettingsAnchorEl(null)
+    }
+
+    // Anki files go through the import dialog, which shows the duplicates and what was imported
+    const handleImportAnki = () => {
+        setImportFormat('anki')
+        setImportDialogOpen(true)
+        setSettingsAnchorEl(null)
+    }
+
     const handleSettingsClick = (event: React.MouseEvent<HTMLElement>) => {
         setSettingsAnchorEl(event.currentTarget)
     }
@@ -140,11 +265,44 @@ export default function Home() {
         setSettingsAnchorEl(null)
     }
 
+    const handleNewCardsPerDayChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const value = parseInt(event.target.value, 10)
+        setNewCardsPerDay(Number.isNaN(value) ? 0 : Math.max(0, value))
+    }
+
+    const handleMaxAnswerDistanceChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const value = parseInt(event.target.value, 10)
+        setMaxAnswerDistance(Number.isNaN(value) ? 0 : Math.max(0, value))
+    }
+
+    const handleTrashRetentionDaysChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const value = parseInt(event.target.value, 10)
+        setTrashRetentionDays(Number.isNaN(value) ? 1 : Math.max(1, value))
+    }
+
+    const handleRestoreCards = (cardIds: string[]) => {
+        restoreCards(cardIds).catch(error => console.error('Failed to restore cards:', error))
+    }
+
+    const handlePurgeCards = (cardIds: string[]) => {
+        purgeCards(cardIds).catch(error => console.error('Failed to delete cards:', error))
+    }
+
     const handleExportProgress = () => {
         exportProgress()
         setSettingsAnchorEl(null)
     }
 
+    const handleMoveToIndexedDB = async () => {
+        setSettingsAnchorEl(null)
+        try {
+            await migrateToIndexedDB()
+        } catch (error) {
+            // The hook shows the error, the cards stay in localStorage
+            console.error('Failed to move cards to IndexedDB:', error)
+        }
+    }
+
     const handleResetProgress = () => {
         resetProgress()
         setSettingsAnchorEl(null)
@@ -156,10 +314,44 @@ export default function Home() {
     }
 
     const handleImportWordsFromSettings = () => {
+        setImportFormat('auto')
         setImportDialogOpen(true)
         setSettingsAnchorEl(null)
     }
 
+    const handleDeckChange = (event: SelectChangeEvent) => {
+        const value = event.target.value
+        if (value === NEW_DECK) {
+            setEditingDeck(null)
+            setDeckDialogOpen(true)
+            return
+        }
+        selectDeck(value === ALL_DECKS ? null : value)
+    }
+
+    const handleSaveDeck = async (deckData: DeckFormData) => {
+        if (editingDeck) {
+            await updateDeck({ ...editingDeck, ...deckData })
+        } else {
+            const deck = await createDeck(deckData)
+            selectDeck(deck.id)
+        }
+    }
+
+    const handleEditDeck = () => {
+        setEditingDeck(selectedDeck)
+        setDeckDialogOpen(true)
+        setSettingsAnchorEl(null)
+    }
+
+    const handleDeleteDeck = async () => {
+        setSettingsAnchorEl(null)
+        // New, imported and migrated cards fall back to the default deck, so it is always kept
+        if (selectedDeck && selectedDeck.id !== DEFAULT_DECK_ID && window.confirm(`Delete the deck "${selectedDeck.name}" and move its cards to the trash?`)) {
+            await deleteDeck(selectedDeck.id)
+        }
+    }
+
     const handleEditCard = () => {
         if (currentCard) {
             setEditingCard(currentCard)
@@ -205,6 +397,38 @@ export default function Home() {
                         gap: { xs: 1, sm: 2 },
                         flexWrap: 'wrap'
                     }}>
+                        <Select
+                            value={selectedDeckId || ALL_DECKS}
+                            onChange={handleDeckChange}
+                            size="small"
+                            variant="outlined"
+                            aria-label="Deck"
+                            renderValue={(value) => (
+                                <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.75 }}>
+                                    <FolderIcon sx={{ fontSize: { xs: '1rem', sm: '1.1rem' } }} />
+                                    {value === ALL_DECKS ? 'All Decks' : selectedDeck?.name}
+                                </Box>
+                            )}
+                            sx={{
+                                color: 'white',
+                                fontSize: { xs: '0.7rem', sm: '0.875rem' },
+                                height: { xs: 28, sm: 32 },
+                                maxWidth: { xs: 130, sm: 200 },
+                                '& .MuiOutlinedInput-notchedOutline': { borderColor: 'white' },
+                                '&:hover .MuiOutlinedInput-notchedOutline': { borderColor: 'white' },
+                                '& .MuiSvgIcon-root': { color: 'white' }
+                            }}
+                        >
+                            <MenuItem value={ALL_DECKS}>All Decks</MenuItem>
+                            {decks.map(deck => (
+                                <MenuItem key={deck.id} value={deck.id}>{deck.name}</MenuItem>
+                            ))}
+                            <Divider />
+                            <MenuItem value={NEW_DECK}>
+                                <AddIcon sx={{ mr: 1, fontSize: '1rem' }} />
+                                New Deck
+                            </MenuItem>
+                        </Select>
                         <Button
                             variant={viewMode === 'cards' ? 'contained' : 'outlined'}
                             size="small"
@@ -237,8 +461,25 @@ export default function Home() {
                         >
                             <Box sx={{ display: { xs: 'none', sm: 'inline' } }}>List</Box>
                         </Button>
+                        <Button
+                            variant={viewMode === 'trash' ? 'contained' : 'outlined'}
+                            size="small"
+                            startIcon={<DeleteIcon sx={{ fontSize: { xs: '1rem', sm: '1.2rem' } }} />}
+                            onClick={() => setViewMode('trash')}
+                            sx={{
+                                color: viewMode === 'trash' ? 'inherit' : 'white',
+                                borderColor: 'white',
+                                '&:hover': { borderColor: 'white' },
+                                fontSize: { xs: '0.7rem', sm: '0.875rem' },
+                                px: { xs: 1, sm: 2 },
+                                minWidth: { xs: 'auto', sm: 'auto' }
+                            }}
+                        >
+                            <Box sx={{ display: { xs: 'none', sm: 'inline' } }}>Trash</Box>
+                        </Button>
+                        {syncState && <SyncStatusIndicator state={syncState} onSync={syncNow} />}
                         <Chip
-                            label={`${cards.length - unknownCards.length}/${cards.length}`}
+                            label={`${studyCounts.due} due / ${studyCounts.new} new`}
                             color="secondary"
                             variant="outlined"
                             sx={{
@@ -262,7 +503,13 @@ export default function Home() {
             </AppBar>
 
             <Container maxWidth="md" sx={{ py: { xs: 2, sm: 4 }, px: { xs: 2, sm: 3 } }}>
-                {cards.length > 0 && (
+                {error && (
+                    <Alert severity="error" onClose={clearError} sx={{ mb: 3 }}>
+                        {error}
+                    </Alert>
+                )}
+
+                {deckCards.length > 0 && (
                     <Box sx={{ mb: 3 }}>
                         <LinearProgress
                             variant="determinate"
@@ -286,22 +533,57 @@ export default function Home() {
                     </Box>
                 )}
 
+                {viewMode === 'cards' && availableTags.length > 0 && (
+                    <Autocomplete
+                        multiple
+                        size="small"
+                        options={availableTags}
+                        value={selectedTags}
+                        onChange={(_, tags) => selectTags(tags)}
+                        renderInput={(params) => (
+                            <TextField
+                                {...params}
+                                label="Filter by tags"
+                                placeholder={selectedTags.length === 0 ? 'All tags' : undefined}
+                            />
+                        )}
+                        sx={{ mb: 3 }}
+                    />
+                )}
+
                 {viewMode === 'list' ? (
                     <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 3, width: '100%' }}>
 
                         <WordList
-                            cards={cards}
+                            cards={deckCards}
+                            deckId={selectedDeckId ?? undefined}
+                            decks={decks}
+                            queryCards={queryCards}
+                            sort={wordListSort}
+                            onSortChange={setWordListSort}
                             onMarkKnown={markAsKnown}
                             onMarkUnknown={markAsUnknown}
                             onDeleteCard={deleteCard}
                             onUpdateCard={updateCard}
+                            onMarkCardsKnown={markCardsAsKnown}
+                            onMarkCardsUnknown={markCardsAsUnknown}
+                            onPatchCards={patchCards}
+                            onDeleteCards={deleteCards}
+                            onMergeCards={mergeCards}
                         />
                     </Box>
+                ) : viewMode === 'trash' ? (
+                    <TrashList
+                        cards={trashedCards}
+                        retentionDays={trashRetentionDays}
+                        onRestore={handleRestoreCards}
+                        onDeleteForever={handlePurgeCards}
+                    />
                 ) : (
                     <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 3 }}>
-                        {activeCards.length === 0 ? (
+                        {activeCards.length === 0 || isQueueComplete ? (
                             <Box sx={{ textAlign: 'center', py: { xs: 4, sm: 8 }, px: { xs: 1, sm: 2 } }}>
-                                {cards.length === 0 ? (
+                                {deckCards.length === 0 ? (
                                     <Alert severity="info" sx={{ mb: 3 }}>
                                         <Typography variant="h6" gutterBottom>
                                             Welcome to English Cards!
@@ -310,13 +592,22 @@ export default function Home() {
                                             Start by importing some flashcards to begin learning.
                                         </Typography>
                                     </Alert>
+                                ) : studyMode === 'cloze' && !deckCards.some(hasClozeExercise) ? (
+                                    <Alert severity="info" sx={{ mb: 3 }}>
+                                        <Typography variant="h6" gutterBottom>
+                                            Nothing to fill in
+                                        </Typography>
+                                        <Typography>
+                                            None of the example sentences contain their word. Add examples to your words, or switch back to flashcards.
+                                        </Typography>
+                                    </Alert>
                                 ) : !includeKnownWords ? (
                                     <Alert severity="success" sx={{ mb: 3 }}>
                                         <Typography variant="h6" gutterBottom>
-                                            Congratulations! 🎉
+                                            All caught up! 🎉
                                         </Typography>
                                         <Typography>
-                                            You've learned all your cards! You can reset your progress to review them again, or toggle "All Words" to practice known words.
+                                            No cards are due right now. Come back later for your next reviews, or toggle "All Words" to practice every card.
                                         </Typography>
                                     </Alert>
                                 ) : (
@@ -348,6 +639,24 @@ export default function Home() {
                                     >
                                         Add Word
                                     </Button>
+                                    {deckCards.length > 0 && !includeKnownWords && (
+                                        <Button
+                                            variant="outlined"
+                                            startIcon={<RefreshIcon />}
+                                            onClick={rebuildStudyQueue}
+                                        >
+                                            Check for Due Cards
+                                        </Button>
+                                    )}
+                                    {studyMode === 'cloze' && (
+                                        <Button
+                                            variant="outlined"
+                                            startIcon={<StyleIcon />}
+                                            onClick={() => setStudyMode('flashcard')}
+                                        >
+                                            Back to Flashcards
+                                        </Button>
+                                    )}
 
 
                                 </Box>
@@ -508,22 +817,77 @@ export default function Home() {
                                     >
                                         {showTranslationFirst ? 'Translation First' : 'Word First'}
                                     </Button>
+
+                                    <Select
+                                        value={studyMode}
+                                        onChange={(event) => setStudyMode(event.target.value as StudyMode)}
+                                        size="small"
+                                        aria-label="Study mode"
+                                        renderValue={(value) => {
+                                            const { label, icon: ModeIcon } = STUDY_MODES[value]
+                                            return (
+                                                <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.75 }}>
+                                                    <ModeIcon sx={{ fontSize: { xs: '0.8rem', sm: '0.9rem' } }} />
+                                                    {label}
+                                                </Box>
+                                            )
+                                        }}
+                                        sx={{
+                                            fontSize: { xs: '0.65rem', sm: '0.75rem' },
+                                            minWidth: { xs: 90, sm: 110 },
+                                            height: { xs: 28, sm: 32 },
+                                            borderRadius: 2,
+                                            fontWeight: 500
+                                        }}
+                                    >
+                                        {(Object.keys(STUDY_MODES) as StudyMode[]).map(mode => (
+                                            <MenuItem key={mode} value={mode}>{STUDY_MODES[mode].label}</MenuItem>
+                                        ))}
+                                    </Select>
                                 </Box>
 
-                                <FlashCard
-                                    card={currentCard}
-                                    onMarkKnown={handleMarkKnown}
-                                    onMarkUnknown={handleMarkUnknown}
-                                    onEdit={handleEditCard}
-                                    onDelete={handleDeleteCard}
-                                    showTranslationFirst={showTranslationFirst}
-                                />
+                                {studyMode === 'typing' ? (
+                                    <TypingCard
+                                        card={currentCard}
+                                        onReview={handleReview}
+                                        showTranslationFirst={showTranslationFirst}
+                                        maxDistance={maxAnswerDistance}
+                                    />
+                                ) : studyMode === 'quiz' ? (
+                                    <QuizCard
+                                        card={currentCard}
+                                        cards={cards}
+                                        onReview={handleReview}
+                                        showTranslationFirst={showTranslationFirst}
+                                    />
+                                ) : studyMode === 'dictation' ? (
+                                    <DictationCard
+                                        card={currentCard}
+                                        onReview={handleReview}
+                                        maxDistance={maxAnswerDistance}
+                                    />
+                                ) : studyMode === 'cloze' ? (
+                                    <ClozeCard
+                                        card={currentCard}
+                                        onReview={handleReview}
+                                        maxDistance={maxAnswerDistance}
+                                    />
+                                ) : (
+                                    <FlashCard
+                                        card={currentCard}
+                                        onReview={handleReview}
+                                        onEdit={handleEditCard}
+                                        onDelete={handleDeleteCard}
+                                        showTranslationFirst={showTranslationFirst}
+                                    />
+                                )}
 
                                 <Box sx={{ display: { xs: 'none', sm: 'block' } }}>
                                     <GameStats
-                                        cards={cards}
+                                        cards={deckCards}
                                         activeCards={activeCards}
                                         includeKnownWords={includeKnownWords}
+                                        deckProgress={selectedDeckId ? [] : deckProgress}
                                     />
                                 </Box>
                             </>
@@ -536,6 +900,8 @@ export default function Home() {
                 open={addWordDialogOpen}
                 onClose={() => setAddWordDialogOpen(false)}
                 onAddWord={handleAddSingleWord}
+                availableTags={availableTags}
+                existingCards={deckCards}
             />
 
             <EditWordDialog
@@ -546,12 +912,30 @@ export default function Home() {
                     setEditingCard(null)
                 }}
                 onUpdateWord={handleUpdateCard}
+                availableTags={availableTags}
             />
 
             <ImportDialog
                 open={importDialogOpen}
                 onClose={() => setImportDialogOpen(false)}
                 onImport={importCards}
+                findConflicts={findImportConflicts}
+                decks={decks}
+                defaultDeckId={selectedDeckId}
+                onCreateDeck={createDeck}
+                defaultFormat={importFormat}
+            />
+
+            <UndoSnackbar change={lastRecordedChange} onUndo={handleUndo} />
+
+            <DeckDialog
+                open={deckDialogOpen}
+                deck={editingDeck}
+                onClose={() => {
+                    setDeckDialogOpen(false)
+                    setEditingDeck(null)
+                }}
+                onSave={handleSaveDeck}
             />
 
             {/* Settings Menu */}
@@ -586,7 +970,60 @@ export default function Home() {
                     <UploadIcon sx={{ mr: 2, color: 'secondary.main' }} />
                     Import Words
                 </MenuItem>
+                {selectedDeck && [
+                    <Divider key="deck-divider" />,
+                    <MenuItem key="edit-deck" onClick={handleEditDeck}>
+                        <EditIcon sx={{ mr: 2, color: 'primary.main' }} />
+                        Edit Deck
+                    </MenuItem>,
+                    <MenuItem
+                        key="delete-deck"
+                        onClick={handleDeleteDeck}
+                        disabled={selectedDeck.id === DEFAULT_DECK_ID}
+                        sx={{ color: 'error.main' }}
+                    >
+                        <DeleteIcon sx={{ mr: 2 }} />
+                        Delete Deck
+                    </MenuItem>
+                ]}
                 <Divider />
+                <Box sx={{ px: 2, py: 1 }}>
+                    <TextField
+                        label="New cards per day"
+                        type="number"
+                        size="small"
+                        fullWidth
+                        value={newCardsPerDay}
+                        onChange={handleNewCardsPerDayChange}
+                        onKeyDown={(e) => e.stopPropagation()}
+                        inputProps={{ min: 0 }}
+                    />
+                </Box>
+                <Box sx={{ px: 2, py: 1 }}>
+                    <TextField
+                        label="Accepted typing mistakes"
+                        type="number"
+                        size="small"
+                        fullWidth
+                        value={maxAnswerDistance}
+                        onChange={handleMaxAnswerDistanceChange}
+                        onKeyDown={(e) => e.stopPropagation()}
+                        inputProps={{ min: 0 }}
+                        helperText="Used when typing answers"
+                    />
+                </Box>
+                <Box sx={{ px: 2, py: 1 }}>
+                    <TextField
+                        label="Days to keep deleted words"
+                        type="number"
+                        size="small"
+                        fullWidth
+                        value={trashRetentionDays}
+                        onChange={handleTrashRetentionDaysChange}
+                        onKeyDown={(e) => e.stopPropagation()}
+                        inputProps={{ min: 1 }}
+                    />
+                </Box>
                 {[
                     <Divider key="divider1" />,
                     <MenuItem key="export" onClick={handleExportProgress}>
@@ -597,6 +1034,20 @@ export default function Home() {
                         <CloudUploadIcon sx={{ mr: 2, color: 'warning.main' }} />
                         Import Progress
                     </MenuItem>,
+                    <MenuItem key="export-anki" onClick={handleExportAnki}>
+                        <FileDownloadIcon sx={{ mr: 2, color: 'info.main' }} />
+                        Export to Anki
+                    </MenuItem>,
+                    <MenuItem key="import-anki" onClick={handleImportAnki}>
+                        <FileUploadIcon sx={{ mr: 2, color: 'warning.main' }} />
+                        Import from Anki
+                    </MenuItem>,
+                    dataProvider === 'localhost' && (
+                        <MenuItem key="indexeddb" onClick={handleMoveToIndexedDB}>
+                            <StorageIcon sx={{ mr: 2, color: 'success.main' }} />
+                            Move Cards to IndexedDB
+                        </MenuItem>
+                    ),
                     <Divider key="divider2" />,
                     <MenuItem key="reset" onClick={handleResetProgress} sx={{ color: 'error.main' }}>
                         <RefreshIcon sx={{ mr: 2 }} />
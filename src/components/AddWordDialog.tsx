@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useMemo } from 'react'
 import {
   Dialog,
   DialogTitle,
@@ -15,19 +15,34 @@ import {
   Divider,
 } from '@mui/material'
 import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material'
-import { Example } from '@/types/card'
+import { Card, Example } from '@/types/card'
+import { useDebounce } from '@/hooks/useDebounce'
+import { createSimilarCardFinder } from '@/utils/similarity'
+import { TagInput } from './TagInput'
+
+const MAX_SIMILAR_WORDS = 5
+const NO_CARDS: Card[] = []
 
 interface AddWordDialogProps {
   open: boolean
   onClose: () => void
-  onAddWord: (word: string, translation: string, examples: Example[]) => void
+  onAddWord: (word: string, translation: string, examples: Example[], tags: string[]) => void
+  availableTags?: string[] // existing tags offered for autocomplete
+  existingCards?: Card[] // the deck's words, checked for similar ones while typing
 }
 
-export const AddWordDialog = ({ open, onClose, onAddWord }: AddWordDialogProps) => {
+export const AddWordDialog = ({ open, onClose, onAddWord, availableTags = [], existingCards = NO_CARDS }: AddWordDialogProps) => {
   const [word, setWord] = useState('')
   const [translation, setTranslation] = useState('')
   const [examples, setExamples] = useState<Example[]>([])
+  const [tags, setTags] = useState<string[]>([])
   const [error, setError] = useState('')
+  const debouncedWord = useDebounce(word, 200)
+  const findSimilarCards = useMemo(() => createSimilarCardFinder(existingCards), [existingCards])
+  const similarCards = useMemo(
+    () => findSimilarCards(debouncedWord).slice(0, MAX_SIMILAR_WORDS),
+    [debouncedWord, findSimilarCards]
+  )
 
   const generateId = () => Math.random().toString(36).substr(2, 9)
 
@@ -58,10 +73,11 @@ export const AddWordDialog = ({ open, onClose, onAddWord }: AddWordDialogProps)
     // Filter out empty examples
     const validExamples = examples.filter(ex => ex.text.trim() && ex.translation.trim())
 
-    onAddWord(word.trim(), translation.trim(), validExamples)
+    onAddWord(word.trim(), translation.trim(), validExamples, tags)
     setWord('')
     setTranslation('')
     setExamples([])
+    setTags([])
     setError('')
     onClose()
   }
@@ -70,6 +86,7 @@ export const AddWordDialog = ({ open, onClose, onAddWord }: AddWordDialogProps)
     setWord('')
     setTranslation('')
     setExamples([])
+    setTags([])
     setError('')
     onClose()
   }
@@ -86,7 +103,7 @@ export const AddWordDialog = ({ open, onClose, onAddWord }: AddWordDialogProps)
       <DialogContent>
         <Box sx={{ pt: 1 }}>
           <Typography variant="body2" color="text.secondary" gutterBottom>
-            Add a word with its translation and multiple examples.
+            Add a word with its translation, tags, and multiple examples.
           </Typography>
           
           <TextField
@@ -100,6 +117,19 @@ export const AddWordDialog = ({ open, onClose, onAddWord }: AddWordDialogProps)
             sx={{ mb: 2, mt: 2 }}
             autoFocus
           />
+
+          {word.trim() && similarCards.length > 0 && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              {similarCards[0].distance === 0
+                ? 'This word is already in the deck and will not be added again:'
+                : 'Similar words are already in the deck:'}
+              {similarCards.map(({ card }) => (
+                <Typography key={card.id} variant="body2" component="div">
+                  <strong>{card.word}</strong> — {card.translation}
+                </Typography>
+              ))}
+            </Alert>
+          )}
           
           <TextField
             fullWidth
@@ -109,9 +139,13 @@ export const AddWordDialog = ({ open, onClose, onAddWord }: AddWordDialogProps)
             onKeyPress={handleKeyPress}
             placeholder="e.g., hola"
             variant="outlined"
-            sx={{ mb: 3 }}
+            sx={{ mb: 2 }}
           />
 
+          <Box sx={{ mb: 3 }}>
+            <TagInput value={tags} onChange={setTags} options={availableTags} />
+          </Box>
+
           <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2 }}>
             <Typography variant="h6">Examples</Typography>
             <Button
@@ -0,0 +1,50 @@
+'use client'
+
+import { Alert, Box, Typography } from '@mui/material'
+import { AnswerCheckResult, AnswerVerdict, DiffSegment } from '@/utils/answerChecking'
+
+const VERDICT_MESSAGES: Record<AnswerVerdict, { title: string, severity: 'success' | 'warning' | 'error' }> = {
+  exact: { title: 'Correct!', severity: 'success' },
+  close: { title: 'Almost - accepted with a typo', severity: 'warning' },
+  wrong: { title: 'Not quite', severity: 'error' },
+}
+
+const SEGMENT_STYLES: Record<DiffSegment['type'], object> = {
+  match: {},
+  extra: { color: 'error.main', textDecoration: 'line-through' },
+  missing: { color: 'success.main', textDecoration: 'underline', fontWeight: 600 },
+}
+
+interface AnswerFeedbackProps {
+  result: AnswerCheckResult
+  answer: string // expected answer shown below the diff
+  translation?: string
+}
+
+/**
+ * Verdict of a typed answer with a character-level diff against the expected one
+ */
+export const AnswerFeedback = ({ result, answer, translation }: AnswerFeedbackProps) => {
+  return (
+    <Alert severity={VERDICT_MESSAGES[result.verdict].severity} sx={{ mt: 2 }}>
+      <Typography variant="subtitle2">{VERDICT_MESSAGES[result.verdict].title}</Typography>
+      {result.verdict !== 'exact' && (
+        <Typography variant="body2" component="div" sx={{ mt: 0.5, fontFamily: 'monospace' }} data-testid="answer-diff">
+          {result.diff.map((segment, index) => (
+            <Box key={index} component="span" sx={SEGMENT_STYLES[segment.type]}>
+              {segment.text}
+            </Box>
+          ))}
+        </Typography>
+      )}
+      <Typography variant="body2" sx={{ mt: 0.5 }}>
+        Answer: {answer}
+      </Typography>
+      {translation && (
+        <Typography variant="body2" sx={{ opacity: 0.8 }}>
+          Translation: {translation}
+        </Typography>
+      )}
+    </Alert>
+  )
+}
@@ -0,0 +1,156 @@
+'use client'
+
+import { useState, useEffect, useMemo, useRef } from 'react'
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Button,
+  TextField,
+} from '@mui/material'
+import { Card as CardType } from '@/types/card'
+import { ReviewGrade } from '@/utils/scheduler'
+import { AnswerCheckResult, DEFAULT_MAX_ANSWER_DISTANCE, gradeAnswer } from '@/utils/answerChecking'
+import { checkCloze, CLOZE_BLANK, pickClozeExercise } from '@/utils/cloze'
+import { AnswerFeedback } from './AnswerFeedback'
+
+interface ClozeCardProps {
+  card: CardType
+  onReview: (grade: ReviewGrade, responseTimeMs: number) => void
+  maxDistance?: number
+}
+
+export const ClozeCard = ({ card, onReview, maxDistance = DEFAULT_MAX_ANSWER_DISTANCE }: ClozeCardProps) => {
+  const [answer, setAnswer] = useState('')
+  const [result, setResult] = useState<AnswerCheckResult | null>(null)
+  const [responseTimeMs, setResponseTimeMs] = useState(0)
+  const shownAtRef = useRef(Date.now())
+
+  // Blank one of the examples containing the word, picked again for every card
+  const exercise = useMemo(() => pickClozeExercise(card), [card.id])
+
+  // Start over when another card is shown
+  useEffect(() => {
+    setAnswer('')
+    setResult(null)
+    shownAtRef.current = Date.now()
+  }, [card.id])
+
+  const handleCheck = () => {
+    if (!exercise || !answer.trim()) return
+    setResponseTimeMs(Date.now() - shownAtRef.current)
+    setResult(checkCloze(answer, exercise, maxDistance))
+  }
+
+  // The grade follows from the checked answer, there is no self-assessment
+  const handleContinue = () => {
+    if (!result) return
+    const grade = gradeAnswer(result)
+    setAnswer('')
+    setResult(null)
+    shownAtRef.current = Date.now()
+    onReview(grade, responseTimeMs)
+  }
+
+  // The answer field stays focused (read-only) after checking, so Enter moves on
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      if (result) {
+        handleContinue()
+      } else {
+        handleCheck()
+      }
+    }
+  }
+
+  if (!exercise) {
+    return (
+      <Typography color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
+        This word has no example sentence containing it.
+      </Typography>
+    )
+  }
+
+  return (
+    <Box sx={{
+      width: '100%',
+      maxWidth: { xs: '100%', sm: 400 },
+      mx: 'auto'
+    }}>
+      <Card>
+        <CardContent
+          sx={{
+            display: 'flex',
+            flexDirection: 'column',
+            justifyContent: 'center',
+            alignItems: 'center',
+            textAlign: 'center',
+            minHeight: { xs: 160, sm: 200 },
+            background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+            color: 'white',
+            p: { xs: 2, sm: 3 }
+          }}
+        >
+          <Typography
+            variant="h6"
+            component="div"
+            data-testid="cloze-sentence"
+            sx={{
+              fontSize: { xs: '1.1rem', sm: '1.25rem' },
+              wordBreak: 'break-word'
+            }}
+          >
+            {exercise.before}
+            <Box component="span" sx={{ fontWeight: 600, mx: 0.5 }}>
+              {result ? exercise.answer : CLOZE_BLANK}
+            </Box>
+            {exercise.after}
+          </Typography>
+          {exercise.hint && (
+            <Typography
+              variant="body2"
+              sx={{
+                opacity: 0.8,
+                mt: { xs: 1, sm: 2 },
+                fontSize: { xs: '0.8rem', sm: '0.875rem' },
+                fontStyle: 'italic'
+              }}
+            >
+              💡 {exercise.hint}
+            </Typography>
+          )}
+        </CardContent>
+
+        <CardContent sx={{ p: { xs: 2, sm: 3 } }}>
+          <TextField
+            fullWidth
+            label="Missing word"
+            value={answer}
+            onChange={(e) => setAnswer(e.target.value)}
+            onKeyDown={handleKeyDown}
+            InputProps={{ readOnly: result !== null }}
+            autoComplete="off"
+            autoFocus
+            variant="outlined"
+          />
+
+          {result && <AnswerFeedback result={result} answer={exercise.answer} translation={card.translation} />}
+
+          <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 2 }}>
+            {result ? (
+              <Button variant="contained" onClick={handleContinue}>
+                Next
+              </Button>
+            ) : (
+              <Button variant="contained" onClick={handleCheck} disabled={!answer.trim()}>
+                Check
+              </Button>
+            )}
+          </Box>
+        </CardContent>
+      </Card>
+    </Box>
+  )
+}
@@ -0,0 +1,146 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Typography,
+  Box,
+  Alert,
+} from '@mui/material'
+import { Deck } from '@/types/deck'
+
+export type DeckFormData = Omit<Deck, 'id' | 'createdAt'>
+
+interface DeckDialogProps {
+  open: boolean
+  deck?: Deck | null // edit this deck, or create a new one when omitted
+  onClose: () => void
+  onSave: (deckData: DeckFormData) => void | Promise<void>
+}
+
+export const DeckDialog = ({ open, deck, onClose, onSave }: DeckDialogProps) => {
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [sourceLanguage, setSourceLanguage] = useState('English')
+  const [targetLanguage, setTargetLanguage] = useState('')
+  const [error, setError] = useState('')
+
+  // Update form fields when the edited deck changes
+  useEffect(() => {
+    if (deck) {
+      setName(deck.name)
+      setDescription(deck.description)
+      setSourceLanguage(deck.sourceLanguage)
+      setTargetLanguage(deck.targetLanguage)
+      setError('')
+    }
+  }, [deck])
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setError('Please enter a deck name')
+      return
+    }
+
+    try {
+      await onSave({
+        name: name.trim(),
+        description: description.trim(),
+        sourceLanguage: sourceLanguage.trim(),
+        targetLanguage: targetLanguage.trim(),
+      })
+      handleClose()
+    } catch (err) {
+      setError('Failed to save deck')
+    }
+  }
+
+  const handleClose = () => {
+    setName('')
+    setDescription('')
+    setSourceLanguage('English')
+    setTargetLanguage('')
+    setError('')
+    onClose()
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && name.trim()) {
+      e.preventDefault()
+      handleSave()
+    }
+  }
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{deck ? 'Edit Deck' : 'New Deck'}</DialogTitle>
+      <DialogContent>
+        <Box sx={{ pt: 1 }}>
+          <Typography variant="body2" color="text.secondary" gutterBottom>
+            Group related words into a deck to study them separately.
+          </Typography>
+
+          <TextField
+            fullWidth
+            label="Name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="e.g., Travel phrases"
+            variant="outlined"
+            sx={{ mb: 2, mt: 2 }}
+            autoFocus
+          />
+
+          <TextField
+            fullWidth
+            label="Description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            variant="outlined"
+            multiline
+            rows={2}
+            sx={{ mb: 2 }}
+          />
+
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <TextField
+              fullWidth
+              label="Word language"
+              value={sourceLanguage}
+              onChange={(e) => setSourceLanguage(e.target.value)}
+              onKeyDown={handleKeyDown}
+              variant="outlined"
+            />
+            <TextField
+              fullWidth
+              label="Translation language"
+              value={targetLanguage}
+              onChange={(e) => setTargetLanguage(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="e.g., Spanish"
+              variant="outlined"
+            />
+          </Box>
+
+          {error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {error}
+            </Alert>
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose}>Cancel</Button>
+        <Button onClick={handleSave} variant="contained" disabled={!name.trim()}>
+          {deck ? 'Save' : 'Create'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -0,0 +1,119 @@
+'use client'
+
+import {
+  Box,
+  Checkbox,
+  FormControlLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material'
+import { DelimitedImportRow, IMPORT_COLUMN_LABELS, ImportColumn } from '@/utils/delimitedImport'
+
+// Enough rows to check the mapping without drawing a whole spreadsheet
+const PREVIEW_ROW_LIMIT = 100
+
+interface DelimitedImportPreviewProps {
+  header: string[] | null // first row, when it names the columns
+  mapping: ImportColumn[]
+  rows: DelimitedImportRow[]
+  hasHeader: boolean
+  onHasHeaderChange: (hasHeader: boolean) => void
+  onMappingChange: (mapping: ImportColumn[]) => void
+}
+
+/**
+ * Column mapping and row-by-row preview for spreadsheet text, shown before importing
+ */
+export const DelimitedImportPreview = ({
+  header,
+  mapping,
+  rows,
+  hasHeader,
+  onHasHeaderChange,
+  onMappingChange,
+}: DelimitedImportPreviewProps) => {
+  const invalidCount = rows.filter(row => row.errors.length > 0).length
+
+  // A column can only be mapped once, choosing it again takes it from the other column
+  const handleColumnChange = (index: number, column: ImportColumn) => {
+    onMappingChange(mapping.map((current, i) => {
+      if (i === index) return column
+      return column !== 'ignore' && current === column ? 'ignore' : current
+    }))
+  }
+
+  return (
+    <Box sx={{ mb: 2 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', mb: 1 }}>
+        <Typography variant="subtitle2">
+          {rows.length} {rows.length === 1 ? 'row' : 'rows'}
+          {invalidCount > 0 && `, ${invalidCount} with errors will be skipped`}
+        </Typography>
+        <FormControlLabel
+          control={<Checkbox size="small" checked={hasHeader} onChange={(e) => onHasHeaderChange(e.target.checked)} />}
+          label="First row is a header"
+        />
+      </Box>
+
+      <TableContainer component={Paper} variant="outlined" sx={{ maxHeight: 320 }}>
+        <Table size="small" stickyHeader>
+          <TableHead>
+            <TableRow>
+              <TableCell sx={{ width: 48 }}>Line</TableCell>
+              {mapping.map((column, index) => (
+                <TableCell key={index} sx={{ minWidth: 140 }}>
+                  <Select
+                    size="small"
+                    fullWidth
+                    value={column}
+                    onChange={(e) => handleColumnChange(index, e.target.value as ImportColumn)}
+                    inputProps={{ 'aria-label': `Column ${index + 1}` }}
+                  >
+                    {(Object.keys(IMPORT_COLUMN_LABELS) as ImportColumn[]).map(option => (
+                      <MenuItem key={option} value={option}>{IMPORT_COLUMN_LABELS[option]}</MenuItem>
+                    ))}
+                  </Select>
+                  {header && (
+                    <Typography variant="caption" color="text.secondary" component="div" noWrap>
+                      {header[index]}
+                    </Typography>
+                  )}
+                </TableCell>
+              ))}
+              <TableCell sx={{ minWidth: 160 }}>Status</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rows.slice(0, PREVIEW_ROW_LIMIT).map(row => (
+              <TableRow key={row.line}>
+                <TableCell sx={{ color: 'text.secondary' }}>{row.line}</TableCell>
+                {mapping.map((column, index) => (
+                  <TableCell key={index} sx={{ color: column === 'ignore' ? 'text.disabled' : 'inherit' }}>
+                    {row.values[index]}
+                  </TableCell>
+                ))}
+                <TableCell sx={{ color: row.errors.length > 0 ? 'error.main' : 'success.main' }}>
+                  {row.errors.length > 0 ? row.errors.join(', ') : 'OK'}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {rows.length > PREVIEW_ROW_LIMIT && (
+        <Typography variant="caption" color="text.secondary">
+          Showing the first {PREVIEW_ROW_LIMIT} rows
+        </Typography>
+      )}
+    </Box>
+  )
+}
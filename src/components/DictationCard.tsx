@@ -0,0 +1,162 @@
+'use client'
+
+import { useState, useEffect, useMemo, useRef } from 'react'
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Button,
+  TextField,
+  Alert,
+} from '@mui/material'
+import {
+  VolumeUp as VolumeUpIcon,
+  SlowMotionVideo as SlowMotionVideoIcon,
+} from '@mui/icons-material'
+import { Card as CardType } from '@/types/card'
+import { useTextToSpeech } from '@/hooks/useTextToSpeech'
+import { ReviewGrade } from '@/utils/scheduler'
+import { AnswerCheckResult, DEFAULT_MAX_ANSWER_DISTANCE, gradeAnswer } from '@/utils/answerChecking'
+import { checkDictation, pickDictationItem, SLOW_SPEECH_RATE } from '@/utils/dictation'
+import { AnswerFeedback } from './AnswerFeedback'
+
+interface DictationCardProps {
+  card: CardType
+  onReview: (grade: ReviewGrade, responseTimeMs: number) => void
+  maxDistance?: number // typing mistakes accepted per dictated word
+}
+
+export const DictationCard = ({ card, onReview, maxDistance = DEFAULT_MAX_ANSWER_DISTANCE }: DictationCardProps) => {
+  const [answer, setAnswer] = useState('')
+  const [result, setResult] = useState<AnswerCheckResult | null>(null)
+  const [responseTimeMs, setResponseTimeMs] = useState(0)
+  const shownAtRef = useRef(Date.now())
+  const { speak, isSupported, isLoading } = useTextToSpeech()
+  const { speak: speakSlowly } = useTextToSpeech({ rate: SLOW_SPEECH_RATE })
+
+  // Dictate the word or one of its examples, picked again for every card
+  const item = useMemo(() => pickDictationItem(card), [card.id])
+
+  // Start over and read the new text out when another card is shown
+  useEffect(() => {
+    setAnswer('')
+    setResult(null)
+    shownAtRef.current = Date.now()
+    speak(item.text, 'en-US')
+  }, [item, speak])
+
+  const handleCheck = () => {
+    if (!answer.trim()) return
+    setResponseTimeMs(Date.now() - shownAtRef.current)
+    setResult(checkDictation(answer, item, maxDistance))
+  }
+
+  // The grade follows from the checked answer, there is no self-assessment
+  const handleContinue = () => {
+    if (!result) return
+    const grade = gradeAnswer(result)
+    setAnswer('')
+    setResult(null)
+    shownAtRef.current = Date.now()
+    onReview(grade, responseTimeMs)
+  }
+
+  // The answer field stays focused (read-only) after checking, so Enter moves on
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      if (result) {
+        handleContinue()
+      } else {
+        handleCheck()
+      }
+    }
+  }
+
+  return (
+    <Box sx={{
+      width: '100%',
+      maxWidth: { xs: '100%', sm: 400 },
+      mx: 'auto'
+    }}>
+      <Card>
+        <CardContent
+          sx={{
+            display: 'flex',
+            flexDirection: 'column',
+            justifyContent: 'center',
+            alignItems: 'center',
+            textAlign: 'center',
+            minHeight: { xs: 160, sm: 200 },
+            background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+            color: 'white',
+            p: { xs: 2, sm: 3 }
+          }}
+        >
+          <Typography
+            variant="h6"
+            component="div"
+            sx={{ fontSize: { xs: '1.1rem', sm: '1.25rem' }, mb: 2 }}
+          >
+            🎧 Type the {item.kind === 'word' ? 'word' : 'sentence'} you hear
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Button
+              variant="contained"
+              startIcon={<VolumeUpIcon />}
+              onClick={() => speak(item.text, 'en-US')}
+              disabled={!isSupported || isLoading}
+              sx={{ bgcolor: 'rgba(255,255,255,0.2)', '&:hover': { bgcolor: 'rgba(255,255,255,0.3)' } }}
+            >
+              Replay
+            </Button>
+            <Button
+              variant="contained"
+              startIcon={<SlowMotionVideoIcon />}
+              onClick={() => speakSlowly(item.text, 'en-US')}
+              disabled={!isSupported || isLoading}
+              sx={{ bgcolor: 'rgba(255,255,255,0.2)', '&:hover': { bgcolor: 'rgba(255,255,255,0.3)' } }}
+            >
+              Slow
+            </Button>
+          </Box>
+        </CardContent>
+
+        <CardContent sx={{ p: { xs: 2, sm: 3 } }}>
+          {!isSupported && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              Your browser does not support speech synthesis, so nothing can be read out.
+            </Alert>
+          )}
+
+          <TextField
+            fullWidth
+            label="What did you hear?"
+            value={answer}
+            onChange={(e) => setAnswer(e.target.value)}
+            onKeyDown={handleKeyDown}
+            InputProps={{ readOnly: result !== null }}
+            autoComplete="off"
+            autoFocus
+            variant="outlined"
+          />
+
+          {result && <AnswerFeedback result={result} answer={item.text} translation={item.translation} />}
+
+          <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 2 }}>
+            {result ? (
+              <Button variant="contained" onClick={handleContinue}>
+                Next
+              </Button>
+            ) : (
+              <Button variant="contained" onClick={handleCheck} disabled={!answer.trim()}>
+                Check
+              </Button>
+            )}
+          </Box>
+        </CardContent>
+      </Card>
+    </Box>
+  )
+}
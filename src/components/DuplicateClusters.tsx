@@ -0,0 +1,152 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Paper,
+  Radio,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material'
+import { MergeType as MergeIcon } from '@mui/icons-material'
+import { Card } from '@/types/card'
+import { findDuplicateClusters } from '@/utils/similarity'
+
+interface DuplicateClustersProps {
+  cards: Card[]
+  onMerge: (keptCardId: string, mergedCardIds: string[]) => Promise<void>
+}
+
+// The card studied the most is kept by default, the oldest when none was studied more
+const getDefaultKeptCard = (cluster: Card[]) => cluster.reduce((best, card) =>
+  card.repetitions > best.repetitions ||
+  (card.repetitions === best.repetitions && card.createdAt.getTime() < best.createdAt.getTime())
+    ? card
+    : best)
+
+/**
+ * Groups of similar words in the deck. For each group the user picks the card
+ * to keep and the ones merged into it
+ */
+export const DuplicateClusters = ({ cards, onMerge }: DuplicateClustersProps) => {
+  const clusters = useMemo(() => findDuplicateClusters(cards), [cards])
+  // Choices by the id of the group's first card
+  const [keptIds, setKeptIds] = useState<Record<string, string>>({})
+  const [excludedIds, setExcludedIds] = useState<Set<string>>(new Set())
+  const [mergingId, setMergingId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  const toggleExcluded = (cardId: string) => {
+    const next = new Set(excludedIds)
+    if (next.has(cardId)) {
+      next.delete(cardId)
+    } else {
+      next.add(cardId)
+    }
+    setExcludedIds(next)
+  }
+
+  const handleMerge = (clusterId: string, keptId: string, mergedIds: string[]) => {
+    setMergingId(clusterId)
+    setError('')
+    onMerge(keptId, mergedIds)
+      .catch(() => setError('Failed to merge the words'))
+      .then(() => setMergingId(null))
+  }
+
+  if (clusters.length === 0) {
+    return (
+      <Box sx={{ textAlign: 'center', py: { xs: 4, sm: 8 } }}>
+        <Typography variant="h6" color="text.secondary" sx={{ fontSize: { xs: '1rem', sm: '1.25rem' } }}>
+          No similar words found
+        </Typography>
+      </Box>
+    )
+  }
+
+  return (
+    <Box sx={{ mb: 3 }}>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2, textAlign: 'center' }}>
+        {clusters.length} {clusters.length === 1 ? 'group' : 'groups'} of similar words. Merging adds the
+        examples, tags and translations to the kept word and moves the others to the trash.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      {clusters.map(cluster => {
+        const clusterId = cluster[0].id
+        const keptId = keptIds[clusterId] && cluster.some(card => card.id === keptIds[clusterId])
+          ? keptIds[clusterId]
+          : getDefaultKeptCard(cluster).id
+        const mergedIds = cluster
+          .filter(card => card.id !== keptId && !excludedIds.has(card.id))
+          .map(card => card.id)
+
+        return (
+          <Paper key={clusterId} variant="outlined" sx={{ mb: 2, overflowX: 'auto' }} data-testid="duplicate-cluster">
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell sx={{ width: 56 }}>Keep</TableCell>
+                  <TableCell sx={{ width: 56 }}>Merge</TableCell>
+                  <TableCell>Word</TableCell>
+                  <TableCell>Translation</TableCell>
+                  <TableCell>Examples</TableCell>
+                  <TableCell>Tags</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {cluster.map(card => (
+                  <TableRow key={card.id}>
+                    <TableCell>
+                      <Radio
+                        size="small"
+                        checked={card.id === keptId}
+                        onChange={() => setKeptIds({ ...keptIds, [clusterId]: card.id })}
+                        inputProps={{ 'aria-label': `Keep ${card.word}` }}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Checkbox
+                        size="small"
+                        checked={card.id !== keptId && !excludedIds.has(card.id)}
+                        disabled={card.id === keptId}
+                        onChange={() => toggleExcluded(card.id)}
+                        inputProps={{ 'aria-label': `Merge ${card.word}` }}
+                      />
+                    </TableCell>
+                    <TableCell sx={{ fontWeight: 600 }}>{card.word}</TableCell>
+                    <TableCell sx={{ color: 'text.secondary' }}>{card.translation}</TableCell>
+                    <TableCell>{card.examples.length}</TableCell>
+                    <TableCell>{card.tags.join(', ')}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <Box sx={{ display: 'flex', justifyContent: 'flex-end', p: 1 }}>
+              <Button
+                size="small"
+                startIcon={<MergeIcon />}
+                disabled={mergedIds.length === 0 || mergingId !== null}
+                onClick={() => handleMerge(clusterId, keptId, mergedIds)}
+              >
+                Merge {mergedIds.length + 1} words
+              </Button>
+            </Box>
+          </Paper>
+        )
+      })}
+    </Box>
+  )
+}
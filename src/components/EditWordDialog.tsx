@@ -15,18 +15,21 @@ import {
 } from '@mui/material'
 import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material'
 import { Card, Example } from '@/types/card'
+import { TagInput } from './TagInput'
 
 interface EditWordDialogProps {
   open: boolean
   card: Card | null
   onClose: () => void
   onUpdateWord: (updatedCard: Card) => void
+  availableTags?: string[] // existing tags offered for autocomplete
 }
 
-export const EditWordDialog = ({ open, card, onClose, onUpdateWord }: EditWordDialogProps) => {
+export const EditWordDialog = ({ open, card, onClose, onUpdateWord, availableTags = [] }: EditWordDialogProps) => {
   const [word, setWord] = useState('')
   const [translation, setTranslation] = useState('')
   const [examples, setExamples] = useState<Example[]>([])
+  const [tags, setTags] = useState<string[]>([])
   const [error, setError] = useState('')
 
   const generateId = () => Math.random().toString(36).substr(2, 9)
@@ -37,6 +40,7 @@ export const EditWordDialog = ({ open, card, onClose, onUpdateWord }: EditWordDi
       setWord(card.word)
       setTranslation(card.translation)
       setExamples(card.examples || [])
+      setTags(card.tags || [])
       setError('')
     }
   }, [card])
@@ -77,6 +81,7 @@ export const EditWordDialog = ({ open, card, onClose, onUpdateWord }: EditWordDi
       word: word.trim(),
       translation: translation.trim(),
       examples: validExamples,
+      tags,
     }
 
     onUpdateWord(updatedCard)
@@ -87,6 +92,7 @@ export const EditWordDialog = ({ open, card, onClose, onUpdateWord }: EditWordDi
     setWord('')
     setTranslation('')
     setExamples([])
+    setTags([])
     setError('')
     onClose()
   }
@@ -104,7 +110,7 @@ export const EditWordDialog = ({ open, card, onClose, onUpdateWord }: EditWordDi
       <DialogContent>
         <Box sx={{ pt: 1 }}>
           <Typography variant="body2" color="text.secondary" gutterBottom>
-            Update the word, translation, and examples.
+            Update the word, translation, tags, and examples.
           </Typography>
           
           <TextField
@@ -127,9 +133,13 @@ export const EditWordDialog = ({ open, card, onClose, onUpdateWord }: EditWordDi
             onKeyDown={handleKeyDown}
             placeholder="e.g., hola"
             variant="outlined"
-            sx={{ mb: 3 }}
+            sx={{ mb: 2 }}
           />
 
+          <Box sx={{ mb: 3 }}>
+            <TagInput value={tags} onChange={setTags} options={availableTags} />
+          </Box>
+
           <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2 }}>
             <Typography variant="h6">Examples</Typography>
             <Button
@@ -1,11 +1,12 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useMemo } from 'react'
 import {
   Card,
   CardContent,
   Typography,
   Box,
+  Button,
   IconButton,
   Tooltip,
   CircularProgress,
@@ -15,8 +16,6 @@ import {
   ListItemText,
 } from '@mui/material'
 import {
-  Check as CheckIcon,
-  Close as CloseIcon,
   VolumeUp as VolumeUpIcon,
   Stop as StopIcon,
   MoreVert as MoreVertIcon,
@@ -25,21 +24,31 @@ import {
 } from '@mui/icons-material'
 import { Card as CardType } from '@/types/card'
 import { useTextToSpeech } from '@/hooks/useTextToSpeech'
+import { formatInterval, previewIntervals, REVIEW_GRADES, ReviewGrade } from '@/utils/scheduler'
+
+const GRADE_BUTTONS: Record<ReviewGrade, { label: string, tooltip: string, color: string }> = {
+  again: { label: 'Again', tooltip: 'Forgot it - show it again soon', color: '244,67,54' },
+  hard: { label: 'Hard', tooltip: 'Remembered with serious difficulty', color: '255,152,0' },
+  good: { label: 'Good', tooltip: 'Remembered after some thought', color: '76,175,80' },
+  easy: { label: 'Easy', tooltip: 'Remembered instantly', color: '33,150,243' },
+}
 
 interface FlashCardProps {
   card: CardType
-  onMarkKnown: () => void
-  onMarkUnknown: () => void
+  onReview: (grade: ReviewGrade) => void
   onEdit?: () => void
   onDelete?: () => void
   showTranslationFirst?: boolean
 }
 
-export const FlashCard = ({ card, onMarkKnown, onMarkUnknown, onEdit, onDelete, showTranslationFirst = false }: FlashCardProps) => {
+export const FlashCard = ({ card, onReview, onEdit, onDelete, showTranslationFirst = false }: FlashCardProps) => {
   const [isFlipped, setIsFlipped] = useState(false)
   const [menuAnchorEl, setMenuAnchorEl] = useState<null | HTMLElement>(null)
   const { toggle, isSupported, isLoading, isSpeaking } = useTextToSpeech()
 
+  // Next interval each grade would give, shown on the answer buttons
+  const intervals = useMemo(() => previewIntervals(card), [card])
+
   const isMenuOpen = Boolean(menuAnchorEl)
 
   const handleCardClick = () => {
@@ -50,6 +59,11 @@ export const FlashCard = ({ card, onMarkKnown, onMarkUnknown, onEdit, onDelete,
     setIsFlipped(false)
   }
 
+  const handleReview = (grade: ReviewGrade) => {
+    onReview(grade)
+    handleReset()
+  }
+
   const handleToggleSpeak = (text: string, isEnglish: boolean = true) => {
     // Let the hook auto-detect language, but provide hint for English
     const lang = isEnglish ? 'en-US' : undefined
@@ -253,60 +267,6 @@ export const FlashCard = ({ card, onMarkKnown, onMarkUnknown, onEdit, onDelete,
             >
               👆 Tap to reveal {showTranslationFirst ? 'original word' : 'translation'}
             </Typography>
-
-            <Typography
-              variant="caption"
-              sx={{
-                opacity: 0.7,
-                mb: { xs: 1, sm: 2 },
-                textAlign: 'center',
-                fontSize: { xs: '0.7rem', sm: '0.75rem' }
-              }}
-            >
-              Know this word already?
-            </Typography>
-
-            <Box sx={{ display: 'flex', gap: { xs: 2, sm: 1 } }}>
-              <Tooltip title="I know this word! ✓" arrow placement="top">
-                <IconButton
-                  onClick={(e) => {
-                    e.stopPropagation()
-                    onMarkKnown()
-                    handleReset()
-                  }}
-                  sx={{
-                    bgcolor: 'rgba(255,255,255,0.2)',
-                    color: 'white',
-                    '&:hover': { bgcolor: 'rgba(76,175,80,0.3)' },
-                    '&:active': { bgcolor: 'rgba(76,175,80,0.4)' },
-                    width: { xs: 48, sm: 40 },
-                    height: { xs: 48, sm: 40 }
-                  }}
-                >
-                  <CheckIcon sx={{ fontSize: { xs: '1.5rem', sm: '1.25rem' } }} />
-                </IconButton>
-              </Tooltip>
-
-              <Tooltip title="Need to review this again" arrow placement="top">
-                <IconButton
-                  onClick={(e) => {
-                    e.stopPropagation()
-                    onMarkUnknown()
-                    handleReset()
-                  }}
-                  sx={{
-                    bgcolor: 'rgba(255,255,255,0.2)',
-                    color: 'white',
-                    '&:hover': { bgcolor: 'rgba(244,67,54,0.3)' },
-                    '&:active': { bgcolor: 'rgba(244,67,54,0.4)' },
-                    width: { xs: 48, sm: 40 },
-                    height: { xs: 48, sm: 40 }
-                  }}
-                >
-                  <CloseIcon sx={{ fontSize: { xs: '1.5rem', sm: '1.25rem' } }} />
-                </IconButton>
-              </Tooltip>
-            </Box>
           </CardContent>
         ) : (
           /* Back Side - shows translation or word based on setting */
@@ -464,46 +424,48 @@ export const FlashCard = ({ card, onMarkKnown, onMarkUnknown, onEdit, onDelete,
               {showTranslationFirst ? 'Translation' : 'Original'}: {showTranslationFirst ? card.translation : card.word}
             </Typography>
 
-            <Box sx={{ display: 'flex', gap: { xs: 2, sm: 1 } }}>
-              <Tooltip title="I know this word! ✓" arrow placement="top">
-                <IconButton
-                  onClick={(e) => {
-                    e.stopPropagation()
-                    onMarkKnown()
-                    handleReset()
-                  }}
-                  sx={{
-                    bgcolor: 'rgba(255,255,255,0.2)',
-                    color: 'white',
-                    '&:hover': { bgcolor: 'rgba(76,175,80,0.3)' },
-                    '&:active': { bgcolor: 'rgba(76,175,80,0.4)' },
-                    width: { xs: 48, sm: 40 },
-                    height: { xs: 48, sm: 40 }
-                  }}
-                >
-                  <CheckIcon sx={{ fontSize: { xs: '1.5rem', sm: '1.25rem' } }} />
-                </IconButton>
-              </Tooltip>
+            <Typography
+              variant="caption"
+              sx={{
+                opacity: 0.7,
+                mb: { xs: 1, sm: 1.5 },
+                textAlign: 'center',
+                fontSize: { xs: '0.7rem', sm: '0.75rem' }
+              }}
+            >
+              How well did you remember it?
+            </Typography>
 
-              <Tooltip title="Need to review this again" arrow placement="top">
-                <IconButton
-                  onClick={(e) => {
-                    e.stopPropagation()
-                    onMarkUnknown()
-                    handleReset()
-                  }}
-                  sx={{
-                    bgcolor: 'rgba(255,255,255,0.2)',
-                    color: 'white',
-                    '&:hover': { bgcolor: 'rgba(244,67,54,0.3)' },
-                    '&:active': { bgcolor: 'rgba(244,67,54,0.4)' },
-                    width: { xs: 48, sm: 40 },
-                    height: { xs: 48, sm: 40 }
-                  }}
-                >
-                  <CloseIcon sx={{ fontSize: { xs: '1.5rem', sm: '1.25rem' } }} />
-                </IconButton>
-              </Tooltip>
+            <Box sx={{ display: 'flex', gap: { xs: 1, sm: 0.75 }, flexWrap: 'wrap', justifyContent: 'center' }}>
+              {REVIEW_GRADES.map(grade => (
+                <Tooltip key={grade} title={GRADE_BUTTONS[grade].tooltip} arrow placement="top">
+                  <Button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      handleReview(grade)
+                    }}
+                    sx={{
+                      display: 'flex',
+                      flexDirection: 'column',
+                      bgcolor: 'rgba(255,255,255,0.2)',
+                      color: 'white',
+                      '&:hover': { bgcolor: `rgba(${GRADE_BUTTONS[grade].color},0.3)` },
+                      '&:active': { bgcolor: `rgba(${GRADE_BUTTONS[grade].color},0.4)` },
+                      minWidth: { xs: 64, sm: 72 },
+                      py: 0.5,
+                      textTransform: 'none',
+                      lineHeight: 1.2
+                    }}
+                  >
+                    <Box component="span" sx={{ fontSize: { xs: '0.85rem', sm: '0.8rem' }, fontWeight: 600 }}>
+                      {GRADE_BUTTONS[grade].label}
+                    </Box>
+                    <Box component="span" sx={{ fontSize: '0.7rem', opacity: 0.8 }}>
+                      {formatInterval(intervals[grade])}
+                    </Box>
+                  </Button>
+                </Tooltip>
+              ))}
             </Box>
           </CardContent>
         )}
@@ -1,6 +1,6 @@
 'use client';
 
-import { Box, Chip, Paper, Typography } from '@mui/material';
+import { Box, Chip, LinearProgress, Paper, Typography } from '@mui/material';
 import {
   EmojiEvents as TrophyIcon,
   School as SchoolIcon,
@@ -8,14 +8,16 @@ import {
   TrendingUp as TrendingUpIcon,
 } from '@mui/icons-material';
 import { Card } from '@/types/card';
+import { DeckProgress } from '@/utils/decks';
 
 interface GameStatsProps {
   cards: Card[];
   activeCards: Card[];
   includeKnownWords?: boolean;
+  deckProgress?: DeckProgress[]; // shown when there is more than one deck
 }
 
-export const GameStats = ({ cards, activeCards, includeKnownWords = false }: GameStatsProps) => {
+export const GameStats = ({ cards, activeCards, includeKnownWords = false, deckProgress = [] }: GameStatsProps) => {
   const knownCards = cards.filter(card => card.isKnown);
   const totalCards = cards.length;
   const learningCards = activeCards.length;
@@ -152,6 +154,35 @@ export const GameStats = ({ cards, activeCards, includeKnownWords = false }: Gam
           ))}
         </Box>
 
+        {/* Per-deck progress */}
+        {deckProgress.length > 1 && (
+          <Box sx={{ mt: { xs: 0.5, sm: 0.75 }, display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+            {deckProgress.map(({ deck, totalCards: deckTotal, knownCards: deckKnown, completionRate: deckRate }) => (
+              <Box key={deck.id} sx={{ display: 'flex', alignItems: 'center', gap: 0.75 }}>
+                <Typography
+                  variant="caption"
+                  noWrap
+                  sx={{ width: 90, fontSize: { xs: '0.6rem', sm: '0.7rem' } }}
+                >
+                  {deck.name}
+                </Typography>
+                <LinearProgress
+                  variant="determinate"
+                  value={deckRate}
+                  sx={{ flex: 1, height: 4, borderRadius: 2 }}
+                />
+                <Typography
+                  variant="caption"
+                  color="text.secondary"
+                  sx={{ fontSize: { xs: '0.55rem', sm: '0.65rem' }, minWidth: 36, textAlign: 'right' }}
+                >
+                  {deckKnown}/{deckTotal}
+                </Typography>
+              </Box>
+            ))}
+          </Box>
+        )}
+
         {/* Compact achievement badges */}
         {(knownCards.length >= 5 || completionRate >= 50 || completionRate === 100) && (
           <Box sx={{
@@ -0,0 +1,93 @@
+'use client'
+
+import {
+  Box,
+  Button,
+  MenuItem,
+  Paper,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material'
+import { DuplicateResolution, DuplicateResolutions, ImportConflict } from '@/types/import'
+import { DUPLICATE_RESOLUTION_LABELS } from '@/utils/importDuplicates'
+
+interface ImportConflictListProps {
+  conflicts: ImportConflict[]
+  resolutions: DuplicateResolutions
+  onChange: (resolutions: DuplicateResolutions) => void
+}
+
+const RESOLUTIONS = Object.keys(DUPLICATE_RESOLUTION_LABELS) as DuplicateResolution[]
+
+/**
+ * Imported words that are already in the deck, or spelled similarly, each with the resolution chosen for it
+ */
+export const ImportConflictList = ({ conflicts, resolutions, onChange }: ImportConflictListProps) => {
+  const applyToAll = (resolution: DuplicateResolution) => {
+    const updated: DuplicateResolutions = {}
+    conflicts.forEach(conflict => { updated[conflict.index] = resolution })
+    onChange(updated)
+  }
+
+  return (
+    <Box sx={{ mb: 2 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: 1, mb: 1 }}>
+        <Typography variant="subtitle2">
+          {conflicts.length} {conflicts.length === 1 ? 'word is' : 'words are'} already in the deck
+        </Typography>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+          <Typography variant="caption" color="text.secondary">All:</Typography>
+          {RESOLUTIONS.map(resolution => (
+            <Button key={resolution} size="small" onClick={() => applyToAll(resolution)}>
+              {DUPLICATE_RESOLUTION_LABELS[resolution]}
+            </Button>
+          ))}
+        </Box>
+      </Box>
+
+      <TableContainer component={Paper} variant="outlined" sx={{ maxHeight: 360 }}>
+        <Table size="small" stickyHeader>
+          <TableHead>
+            <TableRow>
+              <TableCell>Word</TableCell>
+              <TableCell>In the deck</TableCell>
+              <TableCell>Imported</TableCell>
+              <TableCell sx={{ width: 150 }}>Action</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {conflicts.map(conflict => (
+              <TableRow key={conflict.index}>
+                <TableCell sx={{ fontWeight: 600 }}>{conflict.incoming.word}</TableCell>
+                <TableCell sx={{ color: 'text.secondary' }}>
+                  {conflict.existing.word !== conflict.incoming.word && `${conflict.existing.word}: `}
+                  {conflict.existing.translation}
+                </TableCell>
+                <TableCell>{conflict.incoming.translation}</TableCell>
+                <TableCell>
+                  <Select
+                    size="small"
+                    fullWidth
+                    value={resolutions[conflict.index] || 'skip'}
+                    onChange={(e) => onChange({ ...resolutions, [conflict.index]: e.target.value as DuplicateResolution })}
+                    inputProps={{ 'aria-label': `Action for ${conflict.incoming.word}` }}
+                  >
+                    {RESOLUTIONS.map(resolution => (
+                      <MenuItem key={resolution} value={resolution}>{DUPLICATE_RESOLUTION_LABELS[resolution]}</MenuItem>
+                    ))}
+                  </Select>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Box>
+  )
+}
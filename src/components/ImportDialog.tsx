@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect, useMemo, useRef } from 'react'
 import {
   Dialog,
   DialogTitle,
@@ -13,24 +13,285 @@ import {
   Alert,
   IconButton,
   Tooltip,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Divider,
 } from '@mui/material'
 import ContentCopyIcon from '@mui/icons-material/ContentCopy'
 import CheckIcon from '@mui/icons-material/Check'
-import { Example } from '@/types/card'
+import UploadFileIcon from '@mui/icons-material/UploadFile'
+import { Deck } from '@/types/deck'
+import { DuplicateResolutions, ImportConflict, ImportData, ImportResult, ImportSummary } from '@/types/import'
+import {
+  buildDelimitedImportRows,
+  detectDelimiter,
+  guessColumnMapping,
+  hasHeaderRow,
+  ImportColumn,
+  parseDelimitedText,
+  validateColumnMapping,
+} from '@/utils/delimitedImport'
+import { detectImportFormat, IMPORT_FORMAT_LABELS, ImportFormat, parseWordList } from '@/utils/wordListImport'
+import { parseAnkiNotes } from '@/utils/anki'
+import { DelimitedImportPreview } from './DelimitedImportPreview'
+import { ImportConflictList } from './ImportConflictList'
+import { WordListImportPreview } from './WordListImportPreview'
 
 interface ImportDialogProps {
   open: boolean
   onClose: () => void
-  onImport: (data: Record<string, string> | Array<{word: string, translation: string, examples?: Example[]}>) => Promise<{imported: number, skipped: number}>
+  onImport: (data: ImportData, deckId?: string, resolutions?: DuplicateResolutions) => Promise<ImportResult>
+  // Words already in the deck, offered a resolution before importing when provided
+  findConflicts?: (data: ImportData, deckId?: string) => ImportConflict[]
+  // Deck selection is shown when decks are provided
+  decks?: Deck[]
+  defaultDeckId?: string | null
+  onCreateDeck?: (deckData: Omit<Deck, 'id' | 'createdAt'>) => Promise<Deck>
+  defaultFormat?: ImportFormat // format chosen when the dialog opens
+}
+
+const NEW_DECK = '__new__'
+
+const SUMMARY_LABELS: Record<keyof ImportSummary, string> = {
+  added: 'Added',
+  keptBoth: 'Added as separate cards',
+  merged: 'Merged',
+  overwritten: 'Overwritten',
+  skipped: 'Skipped',
+}
+
+interface PendingImport {
+  data: ImportData
+  deckId?: string
+  conflicts: ImportConflict[]
+  unreadable: number
 }
 
-export const ImportDialog = ({ open, onClose, onImport }: ImportDialogProps) => {
+export const ImportDialog = ({
+  open,
+  onClose,
+  onImport,
+  findConflicts,
+  decks,
+  defaultDeckId,
+  onCreateDeck,
+  defaultFormat = 'auto',
+}: ImportDialogProps) => {
   const [jsonText, setJsonText] = useState('')
   const [error, setError] = useState('')
-  const [importResult, setImportResult] = useState<{imported: number, skipped: number} | null>(null)
+  const [importResult, setImportResult] = useState<ImportResult | null>(null)
   const [copied, setCopied] = useState(false)
+  const [targetDeckId, setTargetDeckId] = useState('')
+  const [newDeckName, setNewDeckName] = useState('')
+  // Choices made in the column mapping step, null while the guesses are used
+  const [hasHeaderChoice, setHasHeaderChoice] = useState<boolean | null>(null)
+  const [mappingChoice, setMappingChoice] = useState<ImportColumn[] | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  // Import waiting for the duplicates to be resolved
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null)
+  const [resolutions, setResolutions] = useState<DuplicateResolutions>({})
+  const [format, setFormat] = useState<ImportFormat>(defaultFormat)
+  // Rows, lines or notes left out of the last import because they could not be read
+  const [unreadableCount, setUnreadableCount] = useState(0)
+
+  const textFormat = format === 'auto' ? detectImportFormat(jsonText) : format
+
+  const spreadsheet = useMemo(() => {
+    if (!jsonText.trim() || textFormat !== 'spreadsheet') return null
+
+    const rows = parseDelimitedText(jsonText, detectDelimiter(jsonText))
+    const hasHeader = hasHeaderChoice ?? hasHeaderRow(rows)
+    const mapping = mappingChoice ?? guessColumnMapping(rows, hasHeader)
+    return {
+      header: hasHeader && rows.length > 0 ? rows[0] : null,
+      hasHeader,
+      mapping,
+      mappingErrors: validateColumnMapping(mapping),
+      rows: buildDelimitedImportRows(rows, mapping, hasHeader),
+    }
+  }, [jsonText, textFormat, hasHeaderChoice, mappingChoice])
+
+  const wordList = useMemo(
+    () => jsonText.trim() && textFormat === 'wordList' ? parseWordList(jsonText) : null,
+    [jsonText, textFormat]
+  )
+
+  const ankiNotes = useMemo(
+    () => jsonText.trim() && textFormat === 'anki' ? parseAnkiNotes(jsonText) : null,
+    [jsonText, textFormat]
+  )
+
+  useEffect(() => {
+    if (open) {
+      setFormat(defaultFormat)
+    }
+  }, [open, defaultFormat])
+
+  // Preselect the deck that is currently being studied
+  useEffect(() => {
+    if (open && decks && decks.length > 0) {
+      setTargetDeckId(defaultDeckId && decks.some(deck => deck.id === defaultDeckId)
+        ? defaultDeckId
+        : decks[0].id)
+    }
+  }, [open, decks, defaultDeckId])
+
+  // Resolve the chosen deck, creating it first when a new deck was requested
+  const resolveTargetDeck = async (): Promise<string | undefined> => {
+    if (!decks) return undefined
+    if (targetDeckId !== NEW_DECK) return targetDeckId
+
+    if (!onCreateDeck) {
+      throw new Error('Creating decks is not supported')
+    }
+    const deck = await onCreateDeck({
+      name: newDeckName.trim(),
+      description: '',
+      sourceLanguage: '',
+      targetLanguage: ''
+    })
+    return deck.id
+  }
+
+  const finishImport = (result: ImportResult, unreadable: number) => {
+    setImportResult(result)
+    setUnreadableCount(unreadable)
+    setJsonText('')
+    setHasHeaderChoice(null)
+    setMappingChoice(null)
+    setError('')
+
+    // Show result for a moment before closing, a summary of resolved duplicates or skipped entries stays until closed
+    const summary = result.summary
+    const hasDuplicates = !!summary &&
+      summary.skipped.length + summary.overwritten.length + summary.merged.length + summary.keptBoth.length > 0
+    if (!hasDuplicates && unreadable === 0) {
+      setTimeout(() => {
+        setImportResult(null)
+        onClose()
+      }, 2000)
+    }
+  }
+
+  // Words already in the deck are shown for resolving first, otherwise the import runs right away
+  const importIntoDeck = async (data: ImportData, unreadable = 0) => {
+    const deckId = await resolveTargetDeck()
+    const conflicts = findConflicts ? findConflicts(data, deckId) : []
+    if (conflicts.length > 0) {
+      setPendingImport({ data, deckId, conflicts, unreadable })
+      setResolutions({})
+      return
+    }
+
+    finishImport(deckId ? await onImport(data, deckId) : await onImport(data), unreadable)
+  }
+
+  const handleResolvedImport = async () => {
+    if (!pendingImport) return
+
+    try {
+      const result = await onImport(pendingImport.data, pendingImport.deckId, resolutions)
+      setPendingImport(null)
+      finishImport(result, pendingImport.unreadable)
+    } catch {
+      setError('Failed to import cards')
+    }
+  }
+
+  const handleTextChange = (text: string) => {
+    setJsonText(text)
+    setPendingImport(null)
+    setHasHeaderChoice(null)
+    setMappingChoice(null)
+    setError('')
+  }
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files && event.target.files[0]
+    event.target.value = ''
+    if (!file) return
+
+    const reader = new FileReader()
+    reader.onload = () => handleTextChange(String(reader.result || ''))
+    reader.onerror = () => setError('Failed to read the file')
+    reader.readAsText(file)
+  }
+
+  // A different header choice changes which columns can be recognised, so the mapping is guessed again
+  const handleHasHeaderChange = (hasHeader: boolean) => {
+    setHasHeaderChoice(hasHeader)
+    setMappingChoice(null)
+  }
+
+  const handleSpreadsheetImport = async () => {
+    if (!spreadsheet) return
+
+    if (spreadsheet.mappingErrors.length > 0) {
+      setError(spreadsheet.mappingErrors.join('. '))
+      return
+    }
+
+    const validCards = spreadsheet.rows.flatMap(row => row.card ? [row.card] : [])
+    if (validCards.length === 0) {
+      setError('None of the rows can be imported')
+      return
+    }
+
+    try {
+      await importIntoDeck(validCards, spreadsheet.rows.length - validCards.length)
+    } catch {
+      setError('Failed to import cards')
+    }
+  }
+
+  // Lines that cannot be read are highlighted in the preview and left out
+  const handleWordListImport = async () => {
+    if (!wordList) return
+
+    if (wordList.cards.length === 0) {
+      setError('None of the lines can be imported')
+      return
+    }
+
+    try {
+      await importIntoDeck(wordList.cards, wordList.lines.filter(line => line.kind === 'error').length)
+    } catch {
+      setError('Failed to import cards')
+    }
+  }
+
+  // Notes without a word or translation are left out
+  const handleAnkiImport = async () => {
+    if (!ankiNotes) return
+
+    if (ankiNotes.cards.length === 0) {
+      setError('None of the notes can be imported')
+      return
+    }
+
+    try {
+      await importIntoDeck(ankiNotes.cards, ankiNotes.invalid)
+    } catch {
+      setError('Failed to import cards')
+    }
+  }
 
   const handleImport = async () => {
+    if (spreadsheet) {
+      await handleSpreadsheetImport()
+      return
+    }
+    if (wordList) {
+      await handleWordListImport()
+      return
+    }
+    if (ankiNotes) {
+      await handleAnkiImport()
+      return
+    }
+
     try {
       const data = JSON.parse(jsonText)
       
@@ -48,9 +309,18 @@ export const ImportDialog = ({ open, onClose, onImport }: ImportDialogProps) =>
           setError('Array items must have "word" and "translation" strings')
           return
         }
+
+        const hasValidTags = data.every(item =>
+          item.tags === undefined ||
+          (Array.isArray(item.tags) && item.tags.every((tag: unknown) => typeof tag === 'string'))
+        )
+
+        if (!hasValidTags) {
+          setError('"tags" must be an array of strings')
+          return
+        }
         
-        const result = await onImport(data)
-        setImportResult(result)
+        await importIntoDeck(data)
       } else if (typeof data === 'object' && data !== null) {
         // Simple object format (backward compatibility)
         const isValid = Object.entries(data).every(([key, value]) =>
@@ -62,23 +332,12 @@ export const ImportDialog = ({ open, onClose, onImport }: ImportDialogProps) =>
           return
         }
         
-        const result = await onImport(data)
-        setImportResult(result)
+        await importIntoDeck(data)
       } else {
         setError('JSON must be an object with word-translation pairs or an array of card objects')
-        return
       }
-
-      setJsonText('')
-      setError('')
-      
-      // Show result for a moment before closing
-      setTimeout(() => {
-        setImportResult(null)
-        onClose()
-      }, 2000)
     } catch (err) {
-      setError('Invalid JSON format')
+      setError(err instanceof SyntaxError ? 'Invalid JSON format' : 'Failed to import cards')
     }
   }
 
@@ -86,6 +345,12 @@ export const ImportDialog = ({ open, onClose, onImport }: ImportDialogProps) =>
     setJsonText('')
     setError('')
     setImportResult(null)
+    setNewDeckName('')
+    setHasHeaderChoice(null)
+    setMappingChoice(null)
+    setPendingImport(null)
+    setResolutions({})
+    setUnreadableCount(0)
     onClose()
   }
 
@@ -107,24 +372,113 @@ export const ImportDialog = ({ open, onClose, onImport }: ImportDialogProps) =>
 
   return (
     <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
-      <DialogTitle>Import Cards from JSON</DialogTitle>
+      <DialogTitle>Import Cards</DialogTitle>
       <DialogContent>
-        <Box sx={{ mb: 2 }}>
-          <Typography variant="body2" color="text.secondary" gutterBottom>
-            Import flashcards by pasting JSON data. Supports both simple word-translation pairs and advanced format with examples.
+        <Box sx={{ mb: 2, display: 'flex', alignItems: 'center', gap: 2 }}>
+          <Typography variant="body2" color="text.secondary" sx={{ flex: 1 }}>
+            Import flashcards by pasting JSON data, a CSV or TSV spreadsheet with a column for the words and one for the translations, a word list with one "word - translation" per line, or notes exported from Anki as plain text. JSON supports both simple word-translation pairs and advanced format with examples and tags.
           </Typography>
+          <Button
+            variant="outlined"
+            size="small"
+            startIcon={<UploadFileIcon />}
+            onClick={() => fileInputRef.current?.click()}
+            sx={{ flexShrink: 0 }}
+          >
+            Upload file
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.tsv,.txt,.json,text/csv,text/tab-separated-values,application/json"
+            hidden
+            onChange={handleFileChange}
+            data-testid="import-file-input"
+          />
         </Box>
         
-        <TextField
-          fullWidth
-          multiline
-          rows={12}
-          value={jsonText}
-          onChange={(e) => setJsonText(e.target.value)}
-          placeholder={exampleSimpleJson}
-          variant="outlined"
-          sx={{ mb: 2 }}
-        />
+        {pendingImport ? (
+          <ImportConflictList
+            conflicts={pendingImport.conflicts}
+            resolutions={resolutions}
+            onChange={setResolutions}
+          />
+        ) : (
+          <>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, mb: 2 }}>
+              <FormControl size="small" sx={{ minWidth: 200 }}>
+                <InputLabel id="import-format-label">Format</InputLabel>
+                <Select
+                  labelId="import-format-label"
+                  label="Format"
+                  value={format}
+                  onChange={(e) => setFormat(e.target.value as ImportFormat)}
+                >
+                  {(Object.keys(IMPORT_FORMAT_LABELS) as ImportFormat[]).map(option => (
+                    <MenuItem key={option} value={option}>{IMPORT_FORMAT_LABELS[option]}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              {decks && decks.length > 0 && (
+                <FormControl size="small" sx={{ minWidth: 200 }}>
+                  <InputLabel id="import-deck-label">Deck</InputLabel>
+                  <Select
+                    labelId="import-deck-label"
+                    label="Deck"
+                    value={targetDeckId}
+                    onChange={(e) => setTargetDeckId(e.target.value)}
+                  >
+                    {decks.map(deck => (
+                      <MenuItem key={deck.id} value={deck.id}>{deck.name}</MenuItem>
+                    ))}
+                    {onCreateDeck && <Divider />}
+                    {onCreateDeck && <MenuItem value={NEW_DECK}>New deck…</MenuItem>}
+                  </Select>
+                </FormControl>
+              )}
+              {decks && targetDeckId === NEW_DECK && (
+                <TextField
+                  size="small"
+                  label="New deck name"
+                  value={newDeckName}
+                  onChange={(e) => setNewDeckName(e.target.value)}
+                  sx={{ flex: 1 }}
+                />
+              )}
+            </Box>
+
+            <TextField
+              fullWidth
+              multiline
+              rows={spreadsheet || wordList || ankiNotes ? 6 : 12}
+              value={jsonText}
+              onChange={(e) => handleTextChange(e.target.value)}
+              placeholder={exampleSimpleJson}
+              variant="outlined"
+              sx={{ mb: 2 }}
+            />
+
+            {spreadsheet && (
+              <DelimitedImportPreview
+                header={spreadsheet.header}
+                mapping={spreadsheet.mapping}
+                rows={spreadsheet.rows}
+                hasHeader={spreadsheet.hasHeader}
+                onHasHeaderChange={handleHasHeaderChange}
+                onMappingChange={setMappingChoice}
+              />
+            )}
+
+            {wordList && <WordListImportPreview lines={wordList.lines} wordCount={wordList.cards.length} />}
+
+            {ankiNotes && (
+              <Typography variant="subtitle2" sx={{ mb: 2 }}>
+                {ankiNotes.cards.length} {ankiNotes.cards.length === 1 ? 'note' : 'notes'}
+                {ankiNotes.invalid > 0 && `, ${ankiNotes.invalid} without a word or translation will be skipped`}
+              </Typography>
+            )}
+          </>
+        )}
         
         {error && (
           <Alert severity="error" sx={{ mb: 2 }}>
@@ -136,37 +490,60 @@ export const ImportDialog = ({ open, onClose, onImport }: ImportDialogProps) =>
           <Alert severity="success" sx={{ mb: 2 }}>
             Import completed! {importResult.imported} words imported
             {importResult.skipped > 0 && `, ${importResult.skipped} duplicates skipped`}
+            {unreadableCount > 0 && `, ${unreadableCount} ${unreadableCount === 1 ? 'entry' : 'entries'} that could not be read skipped`}
+            {importResult.summary && (Object.keys(SUMMARY_LABELS) as Array<keyof ImportSummary>)
+              .filter(key => importResult.summary![key].length > 0)
+              .map(key => (
+                <Typography key={key} variant="body2" sx={{ mt: 0.5, maxHeight: 120, overflowY: 'auto' }}>
+                  <strong>{SUMMARY_LABELS[key]}:</strong> {importResult.summary![key].join(', ')}
+                </Typography>
+              ))}
           </Alert>
         )}
         
-        <Box sx={{ p: 2, bgcolor: 'grey.50', borderRadius: 1, position: 'relative' }}>
-          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
-            <Typography variant="subtitle2">
-              Simple format (word-translation pairs):
+        {!pendingImport && (
+          <Box sx={{ p: 2, bgcolor: 'grey.50', borderRadius: 1, position: 'relative' }}>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+              <Typography variant="subtitle2">
+                Simple format (word-translation pairs):
+              </Typography>
+              <Tooltip title={copied ? "Copied!" : "Copy example"}>
+                <IconButton
+                  onClick={handleCopyExample}
+                  size="small"
+                  sx={{
+                    color: copied ? 'success.main' : 'text.secondary',
+                    '&:hover': { bgcolor: 'action.hover' }
+                  }}
+                >
+                  {copied ? <CheckIcon fontSize="small" /> : <ContentCopyIcon fontSize="small" />}
+                </IconButton>
+              </Tooltip>
+            </Box>
+            <Typography variant="body2" component="pre" sx={{ fontSize: '0.75rem', mb: 0 }}>
+              {exampleSimpleJson}
             </Typography>
-            <Tooltip title={copied ? "Copied!" : "Copy example"}>
-              <IconButton
-                onClick={handleCopyExample}
-                size="small"
-                sx={{
-                  color: copied ? 'success.main' : 'text.secondary',
-                  '&:hover': { bgcolor: 'action.hover' }
-                }}
-              >
-                {copied ? <CheckIcon fontSize="small" /> : <ContentCopyIcon fontSize="small" />}
-              </IconButton>
-            </Tooltip>
           </Box>
-          <Typography variant="body2" component="pre" sx={{ fontSize: '0.75rem', mb: 0 }}>
-            {exampleSimpleJson}
-          </Typography>
-        </Box>
+        )}
       </DialogContent>
       <DialogActions>
-        <Button onClick={handleClose}>Cancel</Button>
-        <Button onClick={handleImport} variant="contained" disabled={!jsonText.trim()}>
-          Import
-        </Button>
+        <Button onClick={handleClose}>{importResult ? 'Close' : 'Cancel'}</Button>
+        {pendingImport ? (
+          <>
+            <Button onClick={() => setPendingImport(null)}>Back</Button>
+            <Button onClick={handleResolvedImport} variant="contained">
+              Import
+            </Button>
+          </>
+        ) : (
+          <Button
+            onClick={handleImport}
+            variant="contained"
+            disabled={!jsonText.trim() || (targetDeckId === NEW_DECK && !newDeckName.trim())}
+          >
+            Import
+          </Button>
+        )}
       </DialogActions>
     </Dialog>
   )
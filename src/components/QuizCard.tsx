@@ -0,0 +1,147 @@
+'use client'
+
+import { useState, useEffect, useMemo, useRef } from 'react'
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Button,
+} from '@mui/material'
+import {
+  CheckCircle as CheckCircleIcon,
+  Cancel as CancelIcon,
+} from '@mui/icons-material'
+import { Card as CardType } from '@/types/card'
+import { ReviewGrade } from '@/utils/scheduler'
+import { buildQuizOptions, getQuizAnswer, gradeQuizAnswer } from '@/utils/quiz'
+
+interface QuizCardProps {
+  card: CardType
+  cards: CardType[] // pool the wrong answers are drawn from
+  onReview: (grade: ReviewGrade, responseTimeMs: number) => void
+  showTranslationFirst?: boolean // pick the word for the shown translation instead
+}
+
+export const QuizCard = ({ card, cards, onReview, showTranslationFirst = false }: QuizCardProps) => {
+  const [selected, setSelected] = useState<string | null>(null)
+  const [responseTimeMs, setResponseTimeMs] = useState(0)
+  const shownAtRef = useRef(Date.now())
+
+  const prompt = showTranslationFirst ? card.translation : card.word
+  const answer = getQuizAnswer(card, showTranslationFirst)
+
+  // Draw new options only when another card is asked, not when the pool changes
+  const options = useMemo(() => buildQuizOptions(card, cards, { reverse: showTranslationFirst }), [card.id, showTranslationFirst])
+
+  // Start over when another card is shown
+  useEffect(() => {
+    setSelected(null)
+    shownAtRef.current = Date.now()
+  }, [card.id])
+
+  const handleSelect = (option: string) => {
+    if (selected !== null) return
+    setResponseTimeMs(Date.now() - shownAtRef.current)
+    setSelected(option)
+  }
+
+  // The grade follows from the chosen answer, there is no self-assessment
+  const handleContinue = () => {
+    if (selected === null) return
+    const grade = gradeQuizAnswer(selected === answer)
+    setSelected(null)
+    shownAtRef.current = Date.now()
+    onReview(grade, responseTimeMs)
+  }
+
+  const getOptionColor = (option: string) => {
+    if (selected === null) return 'primary'
+    if (option === answer) return 'success'
+    return option === selected ? 'error' : 'primary'
+  }
+
+  return (
+    <Box sx={{
+      width: '100%',
+      maxWidth: { xs: '100%', sm: 400 },
+      mx: 'auto'
+    }}>
+      <Card>
+        <CardContent
+          sx={{
+            display: 'flex',
+            flexDirection: 'column',
+            justifyContent: 'center',
+            alignItems: 'center',
+            textAlign: 'center',
+            minHeight: { xs: 160, sm: 200 },
+            background: showTranslationFirst
+              ? 'linear-gradient(135deg, #f093fb 0%, #f5576c 100%)'
+              : 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+            color: 'white',
+            p: { xs: 2, sm: 3 }
+          }}
+        >
+          <Typography
+            variant="h4"
+            component="div"
+            sx={{
+              fontSize: { xs: '1.8rem', sm: '2.125rem' },
+              wordBreak: 'break-word',
+              hyphens: 'auto'
+            }}
+          >
+            {prompt}
+          </Typography>
+          <Typography
+            variant="body2"
+            sx={{
+              opacity: 0.8,
+              mt: { xs: 1, sm: 2 },
+              fontSize: { xs: '0.8rem', sm: '0.875rem' }
+            }}
+          >
+            🎯 Pick the {showTranslationFirst ? 'original word' : 'translation'}
+          </Typography>
+        </CardContent>
+
+        <CardContent sx={{ display: 'flex', flexDirection: 'column', gap: 1, p: { xs: 2, sm: 3 } }}>
+          {options.map(option => {
+            const isAnswer = selected !== null && option === answer
+            const isWrongChoice = selected === option && option !== answer
+
+            return (
+              <Button
+                key={option}
+                variant={isAnswer || isWrongChoice ? 'contained' : 'outlined'}
+                color={getOptionColor(option)}
+                onClick={() => handleSelect(option)}
+                endIcon={isAnswer ? <CheckCircleIcon /> : isWrongChoice ? <CancelIcon /> : undefined}
+                sx={{
+                  justifyContent: 'space-between',
+                  textTransform: 'none',
+                  fontSize: { xs: '0.9rem', sm: '1rem' },
+                  py: 1
+                }}
+              >
+                {option}
+              </Button>
+            )
+          })}
+
+          {selected !== null && (
+            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mt: 1 }}>
+              <Typography variant="subtitle2" color={selected === answer ? 'success.main' : 'error.main'}>
+                {selected === answer ? 'Correct!' : 'Not quite'}
+              </Typography>
+              <Button variant="contained" onClick={handleContinue} autoFocus>
+                Next
+              </Button>
+            </Box>
+          )}
+        </CardContent>
+      </Card>
+    </Box>
+  )
+}
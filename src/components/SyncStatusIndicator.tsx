@@ -0,0 +1,57 @@
+'use client'
+
+import { Chip, Tooltip } from '@mui/material'
+import {
+  CloudDone as CloudDoneIcon,
+  CloudOff as CloudOffIcon,
+  CloudQueue as CloudQueueIcon,
+  Sync as SyncIcon,
+  SyncProblem as SyncProblemIcon,
+} from '@mui/icons-material'
+import { SyncState, SyncStatus } from '@/providers/SyncProvider'
+
+const STATUS_DISPLAY: Record<SyncStatus, { label: string, icon: typeof SyncIcon }> = {
+  synced: { label: 'Synced', icon: CloudDoneIcon },
+  pending: { label: 'Not synced', icon: CloudQueueIcon },
+  syncing: { label: 'Syncing', icon: SyncIcon },
+  offline: { label: 'Offline', icon: CloudOffIcon },
+  error: { label: 'Sync failed', icon: SyncProblemIcon },
+}
+
+interface SyncStatusIndicatorProps {
+  state: SyncState
+  onSync: () => void
+}
+
+/**
+ * Header chip showing whether local changes have reached the remote storage, click to sync now
+ */
+export const SyncStatusIndicator = ({ state, onSync }: SyncStatusIndicatorProps) => {
+  const { label, icon: Icon } = STATUS_DISPLAY[state.status]
+  const details = [
+    state.pendingChanges > 0 ? `${state.pendingChanges} change${state.pendingChanges === 1 ? '' : 's'} waiting` : null,
+    state.error,
+    state.lastSyncedAt ? `Last synced ${state.lastSyncedAt.toLocaleTimeString()}` : null,
+  ].filter(Boolean).join(' · ')
+
+  return (
+    <Tooltip title={details || 'Click to sync now'}>
+      <Chip
+        icon={<Icon sx={{ fontSize: '1rem' }} />}
+        label={state.pendingChanges > 0 ? `${label} (${state.pendingChanges})` : label}
+        onClick={onSync}
+        disabled={state.status === 'syncing'}
+        variant="outlined"
+        color={state.status === 'error' ? 'error' : 'default'}
+        data-testid="sync-status"
+        sx={{
+          color: 'white',
+          borderColor: 'white',
+          '& .MuiChip-icon': { color: 'white' },
+          fontSize: { xs: '0.7rem', sm: '0.8rem' },
+          height: { xs: 24, sm: 32 }
+        }}
+      />
+    </Tooltip>
+  )
+}
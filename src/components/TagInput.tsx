@@ -0,0 +1,40 @@
+'use client'
+
+import { Autocomplete, Chip, TextField } from '@mui/material'
+import { normalizeTags } from '@/utils/tags'
+
+interface TagInputProps {
+  value: string[]
+  onChange: (tags: string[]) => void
+  options: string[] // existing tags offered for autocomplete
+  label?: string
+  placeholder?: string
+}
+
+export const TagInput = ({ value, onChange, options, label = 'Tags', placeholder = 'e.g., phrasal verbs' }: TagInputProps) => {
+  return (
+    <Autocomplete
+      multiple
+      freeSolo
+      autoSelect
+      options={options.filter(option => !value.some(tag => tag.toLowerCase() === option.toLowerCase()))}
+      value={value}
+      onChange={(_, newValue) => onChange(normalizeTags(newValue))}
+      renderTags={(tags, getTagProps) =>
+        tags.map((tag, index) => {
+          const { key, ...tagProps } = getTagProps({ index })
+          return <Chip key={key} label={tag} size="small" {...tagProps} />
+        })
+      }
+      renderInput={(params) => (
+        <TextField
+          {...params}
+          label={label}
+          placeholder={value.length === 0 ? placeholder : undefined}
+          variant="outlined"
+          helperText="Press Enter to add a tag"
+        />
+      )}
+    />
+  )
+}
@@ -0,0 +1,124 @@
+'use client'
+
+import {
+  Box,
+  Button,
+  IconButton,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material'
+import {
+  RestoreFromTrash as RestoreIcon,
+  DeleteForever as DeleteForeverIcon,
+} from '@mui/icons-material'
+import { Card } from '@/types/card'
+import { getTrashPurgeDate } from '@/utils/trash'
+
+interface TrashListProps {
+  cards: Card[] // the deck's trashed cards
+  retentionDays: number
+  onRestore: (cardIds: string[]) => void
+  onDeleteForever: (cardIds: string[]) => void
+}
+
+/**
+ * Words moved to the trash, which can be restored or deleted for good until
+ * they are purged at the end of the retention period
+ */
+export const TrashList = ({ cards, retentionDays, onRestore, onDeleteForever }: TrashListProps) => {
+  const handleDeleteForever = (card: Card) => {
+    if (window.confirm(`Delete "${card.word}" forever?`)) {
+      onDeleteForever([card.id])
+    }
+  }
+
+  const handleEmptyTrash = () => {
+    if (window.confirm(`Delete all ${cards.length} words in the trash forever?`)) {
+      onDeleteForever(cards.map(card => card.id))
+    }
+  }
+
+  return (
+    <Box sx={{ width: '100%', px: { xs: 1, sm: 0 } }}>
+      <Typography
+        variant="h6"
+        gutterBottom
+        sx={{
+          mb: 1,
+          textAlign: 'center',
+          fontSize: { xs: '1.1rem', sm: '1.25rem' }
+        }}
+      >
+        Trash ({cards.length})
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: { xs: 2, sm: 3 }, textAlign: 'center' }}>
+        Deleted words are removed for good after {retentionDays} {retentionDays === 1 ? 'day' : 'days'}
+      </Typography>
+
+      {cards.length > 0 ? (
+        <>
+          <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1, mb: 2 }}>
+            <Button size="small" startIcon={<RestoreIcon />} onClick={() => onRestore(cards.map(card => card.id))}>
+              Restore all
+            </Button>
+            <Button size="small" color="error" startIcon={<DeleteForeverIcon />} onClick={handleEmptyTrash}>
+              Empty trash
+            </Button>
+          </Box>
+          <TableContainer component={Paper} sx={{ mb: 3 }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell sx={{ fontWeight: 600 }}>Word</TableCell>
+                  <TableCell sx={{ fontWeight: 600 }}>Translation</TableCell>
+                  <TableCell sx={{ fontWeight: 600 }}>Deleted</TableCell>
+                  <TableCell sx={{ fontWeight: 600 }}>Removed on</TableCell>
+                  <TableCell sx={{ width: 96 }} />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {cards.map(card => (
+                  <TableRow key={card.id} hover>
+                    <TableCell sx={{ fontWeight: 600 }}>{card.word}</TableCell>
+                    <TableCell sx={{ color: 'text.secondary' }}>{card.translation}</TableCell>
+                    <TableCell>{card.deletedAt?.toLocaleDateString()}</TableCell>
+                    <TableCell>{getTrashPurgeDate(card, retentionDays)?.toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      <Tooltip title="Restore" arrow>
+                        <IconButton size="small" color="primary" onClick={() => onRestore([card.id])} aria-label={`Restore ${card.word}`}>
+                          <RestoreIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Delete forever" arrow>
+                        <IconButton size="small" color="error" onClick={() => handleDeleteForever(card)} aria-label={`Delete ${card.word} forever`}>
+                          <DeleteForeverIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </>
+      ) : (
+        <Box sx={{ textAlign: 'center', py: { xs: 4, sm: 8 } }}>
+          <Typography
+            variant="h6"
+            color="text.secondary"
+            sx={{ fontSize: { xs: '1rem', sm: '1.25rem' } }}
+          >
+            The trash is empty
+          </Typography>
+        </Box>
+      )}
+    </Box>
+  )
+}
@@ -0,0 +1,143 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Button,
+  TextField,
+} from '@mui/material'
+import { Card as CardType } from '@/types/card'
+import { ReviewGrade } from '@/utils/scheduler'
+import { AnswerCheckResult, checkAnswer, DEFAULT_MAX_ANSWER_DISTANCE, gradeAnswer } from '@/utils/answerChecking'
+import { AnswerFeedback } from './AnswerFeedback'
+
+interface TypingCardProps {
+  card: CardType
+  onReview: (grade: ReviewGrade, responseTimeMs: number) => void
+  showTranslationFirst?: boolean // type the word for the shown translation instead
+  maxDistance?: number
+}
+
+export const TypingCard = ({ card, onReview, showTranslationFirst = false, maxDistance = DEFAULT_MAX_ANSWER_DISTANCE }: TypingCardProps) => {
+  const [answer, setAnswer] = useState('')
+  const [result, setResult] = useState<AnswerCheckResult | null>(null)
+  const [responseTimeMs, setResponseTimeMs] = useState(0)
+  const shownAtRef = useRef(Date.now())
+
+  const prompt = showTranslationFirst ? card.translation : card.word
+  const expected = showTranslationFirst ? card.word : card.translation
+
+  // Start over when another card is shown
+  useEffect(() => {
+    setAnswer('')
+    setResult(null)
+    shownAtRef.current = Date.now()
+  }, [card.id])
+
+  const handleCheck = () => {
+    if (!answer.trim()) return
+    setResponseTimeMs(Date.now() - shownAtRef.current)
+    setResult(checkAnswer(answer, expected, maxDistance))
+  }
+
+  // The grade follows from the checked answer, there is no self-assessment
+  const handleContinue = () => {
+    if (!result) return
+    const grade = gradeAnswer(result)
+    setAnswer('')
+    setResult(null)
+    shownAtRef.current = Date.now()
+    onReview(grade, responseTimeMs)
+  }
+
+  // The answer field stays focused (read-only) after checking, so Enter moves on
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      if (result) {
+        handleContinue()
+      } else {
+        handleCheck()
+      }
+    }
+  }
+
+  return (
+    <Box sx={{
+      width: '100%',
+      maxWidth: { xs: '100%', sm: 400 },
+      mx: 'auto'
+    }}>
+      <Card>
+        <CardContent
+          sx={{
+            display: 'flex',
+            flexDirection: 'column',
+            justifyContent: 'center',
+            alignItems: 'center',
+            textAlign: 'center',
+            minHeight: { xs: 160, sm: 200 },
+            background: showTranslationFirst
+              ? 'linear-gradient(135deg, #f093fb 0%, #f5576c 100%)'
+              : 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+            color: 'white',
+            p: { xs: 2, sm: 3 }
+          }}
+        >
+          <Typography
+            variant="h4"
+            component="div"
+            sx={{
+              fontSize: { xs: '1.8rem', sm: '2.125rem' },
+              wordBreak: 'break-word',
+              hyphens: 'auto'
+            }}
+          >
+            {prompt}
+          </Typography>
+          <Typography
+            variant="body2"
+            sx={{
+              opacity: 0.8,
+              mt: { xs: 1, sm: 2 },
+              fontSize: { xs: '0.8rem', sm: '0.875rem' }
+            }}
+          >
+            ⌨️ Type the {showTranslationFirst ? 'original word' : 'translation'}
+          </Typography>
+        </CardContent>
+
+        <CardContent sx={{ p: { xs: 2, sm: 3 } }}>
+          <TextField
+            fullWidth
+            label="Your answer"
+            value={answer}
+            onChange={(e) => setAnswer(e.target.value)}
+            onKeyDown={handleKeyDown}
+            InputProps={{ readOnly: result !== null }}
+            autoComplete="off"
+            autoFocus
+            variant="outlined"
+          />
+
+          {result && <AnswerFeedback result={result} answer={expected} />}
+
+          <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 2 }}>
+            {result ? (
+              <Button variant="contained" onClick={handleContinue}>
+                Next
+              </Button>
+            ) : (
+              <Button variant="contained" onClick={handleCheck} disabled={!answer.trim()}>
+                Check
+              </Button>
+            )}
+          </Box>
+        </CardContent>
+      </Card>
+    </Box>
+  )
+}
@@ -0,0 +1,47 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button, Snackbar } from '@mui/material'
+import { CardChange } from '@/types/history'
+
+interface UndoSnackbarProps {
+  change: CardChange | null // the latest recorded change
+  onUndo: () => void
+}
+
+/**
+ * Offers to undo a destructive change right after it is made. Other changes can
+ * still be undone with Ctrl+Z
+ */
+export const UndoSnackbar = ({ change, onUndo }: UndoSnackbarProps) => {
+  const [openChangeId, setOpenChangeId] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (change?.destructive) {
+      setOpenChangeId(change.id)
+    }
+  }, [change])
+
+  const handleUndo = () => {
+    setOpenChangeId(null)
+    onUndo()
+  }
+
+  return (
+    <Snackbar
+      open={!!change && openChangeId === change.id}
+      autoHideDuration={6000}
+      onClose={(_, reason) => {
+        if (reason !== 'clickaway') {
+          setOpenChangeId(null)
+        }
+      }}
+      message={change?.label}
+      action={
+        <Button color="secondary" size="small" onClick={handleUndo}>
+          Undo
+        </Button>
+      }
+    />
+  )
+}
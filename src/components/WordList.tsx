@@ -1,23 +1,30 @@
 'use client'
 
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useEffect, useRef, ReactNode } from 'react'
 import { useDebounce } from '@/hooks/useDebounce'
 import {
+  Alert,
   Box,
-  Paper,
+  Button,
   Typography,
   IconButton,
   Tooltip,
   Chip,
-  List,
-  ListItem,
-  Divider,
   Menu,
   MenuItem,
   ListItemIcon,
   ListItemText,
   TextField,
   InputAdornment,
+  Paper,
+  Checkbox,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TableSortLabel,
 } from '@mui/material'
 import {
   Check as CheckIcon,
@@ -26,19 +33,127 @@ import {
   Edit as EditIcon,
   Search as SearchIcon,
   Clear as ClearIcon,
+  MergeType as MergeIcon,
+  ArrowBack as BackIcon,
 } from '@mui/icons-material'
-import { Card } from '@/types/card'
+import { Card, CardPatch, CardQuery, CardQueryResult, CardSort, CardSortField } from '@/types/card'
+import { Deck } from '@/types/deck'
+import { BulkOperationResult } from '@/providers/types'
+import { getAllTags } from '@/utils/tags'
 import { EditWordDialog } from './EditWordDialog'
+import { WordListBatchBar } from './WordListBatchBar'
+import { DuplicateClusters } from './DuplicateClusters'
+
+const PAGE_SIZE = 50
+const ROW_HEIGHT = 64
+const VIEWPORT_HEIGHT = 640
+const OVERSCAN = 5 // rows rendered above and below the visible ones
+
+const formatDate = (date?: Date) => date ? date.toLocaleDateString() : 'Never'
+
+interface WordListColumn {
+  field: CardSortField
+  label: string
+  width?: number
+  render: (card: Card) => ReactNode
+}
+
+const COLUMNS: WordListColumn[] = [
+  {
+    field: 'word',
+    label: 'Word',
+    render: card => (
+      <>
+        <Typography
+          noWrap
+          sx={{
+            fontWeight: 600,
+            color: card.isKnown ? 'success.700' : 'text.primary',
+            textDecoration: card.isKnown ? 'line-through' : 'none',
+          }}
+        >
+          {card.word}
+        </Typography>
+        {card.tags.length > 0 && (
+          <Typography variant="caption" color="primary" noWrap component="div">
+            {card.tags.join(' · ')}
+          </Typography>
+        )}
+      </>
+    ),
+  },
+  {
+    field: 'translation',
+    label: 'Translation',
+    render: card => (
+      <>
+        <Typography noWrap color="text.secondary">{card.translation}</Typography>
+        {card.examples.length > 0 && (
+          <Typography variant="caption" color="text.secondary" noWrap component="div" sx={{ fontStyle: 'italic' }}>
+            "{card.examples[0].text}"
+          </Typography>
+        )}
+      </>
+    ),
+  },
+  { field: 'createdAt', label: 'Added', width: 110, render: card => formatDate(card.createdAt) },
+  { field: 'lastReviewed', label: 'Last reviewed', width: 130, render: card => formatDate(card.lastReviewed) },
+  { field: 'dueAt', label: 'Due', width: 110, render: card => formatDate(card.dueAt) },
+  {
+    field: 'isKnown',
+    label: 'Status',
+    width: 110,
+    render: card => (
+      <Chip
+        label={card.isKnown ? 'Known' : 'Learning'}
+        color={card.isKnown ? 'success' : 'default'}
+        variant={card.isKnown ? 'filled' : 'outlined'}
+        size="small"
+      />
+    ),
+  },
+]
 
 interface WordListProps {
-  cards: Card[]
+  cards: Card[] // the deck's cards, used for counts and tags, changes are applied to the shown rows
+  deckId?: string
+  decks: Deck[]
+  queryCards: (query: CardQuery) => Promise<CardQueryResult>
+  sort: CardSort
+  onSortChange: (sort: CardSort) => void
   onMarkKnown: (cardId: string) => void
   onMarkUnknown: (cardId: string) => void
   onDeleteCard: (cardId: string) => void
   onUpdateCard: (updatedCard: Card) => void
+  onMarkCardsKnown: (cardIds: string[]) => Promise<BulkOperationResult>
+  onMarkCardsUnknown: (cardIds: string[]) => Promise<BulkOperationResult>
+  onPatchCards: (cardIds: string[], getChanges: (card: Card) => CardPatch) => Promise<BulkOperationResult>
+  onDeleteCards: (cardIds: string[]) => Promise<BulkOperationResult>
+  onMergeCards: (keptCardId: string, mergedCardIds: string[]) => Promise<void>
 }
 
-export const WordList = ({ cards, onMarkKnown, onMarkUnknown, onDeleteCard, onUpdateCard }: WordListProps) => {
+/**
+ * Table of the deck's words. Pages are read through the data provider as the
+ * table scrolls, and only the rows in view are rendered. Selected words can be
+ * changed together from the batch bar
+ */
+export const WordList = ({
+  cards,
+  deckId,
+  decks,
+  queryCards,
+  sort,
+  onSortChange,
+  onMarkKnown,
+  onMarkUnknown,
+  onDeleteCard,
+  onUpdateCard,
+  onMarkCardsKnown,
+  onMarkCardsUnknown,
+  onPatchCards,
+  onDeleteCards,
+  onMergeCards,
+}: WordListProps) => {
   const [contextMenu, setContextMenu] = useState<{
     mouseX: number
     mouseY: number
@@ -48,18 +163,166 @@ export const WordList = ({ cards, onMarkKnown, onMarkUnknown, onDeleteCard, onUp
   const [cardToEdit, setCardToEdit] = useState<Card | null>(null)
   const [searchTerm, setSearchTerm] = useState('')
   const debouncedSearchTerm = useDebounce(searchTerm, 300)
+  const availableTags = useMemo(() => getAllTags(cards), [cards])
+  const [results, setResults] = useState<CardQueryResult | null>(null)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const [loadMoreError, setLoadMoreError] = useState<string | null>(null) // no more pages are read until a retry
+  const [scrollTop, setScrollTop] = useState(0)
+  const scrollContainer = useRef<HTMLDivElement>(null)
+  const latestRequest = useRef(0)
+  const shownCount = useRef(0)
+  const previousCards = useRef(cards)
+  const [reloadKey, setReloadKey] = useState(0) // bumped when new words need the pages read again
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const selectionAnchor = useRef<number | null>(null) // row a shift-click selects from
+  const [showDuplicates, setShowDuplicates] = useState(false)
 
-  const filteredCards = useMemo(() => {
-    if (!debouncedSearchTerm.trim()) return cards
-    
-    const term = debouncedSearchTerm.toLowerCase().trim()
-    return cards.filter(card => 
-      card.word.toLowerCase().includes(term) ||
-      card.translation.toLowerCase().includes(term) ||
-      (card.example && card.example.toLowerCase().includes(term)) ||
-      (card.exampleTranslation && card.exampleTranslation.toLowerCase().includes(term))
-    )
-  }, [cards, debouncedSearchTerm])
+  const query = useMemo<CardQuery>(() => ({
+    text: debouncedSearchTerm.trim() || undefined,
+    deckId,
+    sort,
+  }), [debouncedSearchTerm, deckId, sort])
+
+  // New filters start again from the top of the first page
+  useEffect(() => {
+    shownCount.current = 0
+    setLoadMoreError(null)
+    setScrollTop(0)
+    if (scrollContainer.current) {
+      scrollContainer.current.scrollTop = 0
+    }
+  }, [query])
+
+  // Reload when the filters change, keeping the pages already shown
+  useEffect(() => {
+    const request = ++latestRequest.current
+    queryCards({ ...query, limit: Math.max(PAGE_SIZE, shownCount.current) })
+      .then(result => {
+        if (request === latestRequest.current) {
+          shownCount.current = result.cards.length
+          setResults(result)
+        }
+      })
+      .catch(error => console.error('Failed to load words:', error))
+  }, [query, reloadKey, queryCards])
+
+  // Changed words are updated in the rows already shown and removed ones dropped,
+  // only new words need the pages read again to find their place
+  useEffect(() => {
+    const previousIds = new Set(previousCards.current.map(card => card.id))
+    previousCards.current = cards
+    if (cards.some(card => !previousIds.has(card.id))) {
+      setReloadKey(key => key + 1)
+      return
+    }
+
+    const cardsById = new Map(cards.map(card => [card.id, card] as [string, Card]))
+    setResults(previous => {
+      if (!previous || previous.cards.every(card => cardsById.get(card.id) === card)) return previous
+
+      const kept = previous.cards.filter(card => cardsById.has(card.id))
+      return {
+        cards: kept.map(card => cardsById.get(card.id) as Card),
+        total: previous.total - (previous.cards.length - kept.length),
+        nextCursor: previous.nextCursor,
+      }
+    })
+  }, [cards])
+
+  const shownCards = results ? results.cards : []
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN)
+  const lastRow = Math.min(shownCards.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN)
+  const visibleCards = shownCards.slice(firstRow, lastRow)
+
+  // Read the next page once the rows in view get close to the end of the loaded ones
+  const nextCursor = results ? results.nextCursor : null
+  const needsMore = nextCursor !== null && lastRow >= shownCards.length - OVERSCAN
+  useEffect(() => {
+    if (!needsMore || isLoadingMore || !nextCursor || loadMoreError) return
+
+    const request = ++latestRequest.current
+    setIsLoadingMore(true)
+    queryCards({ ...query, limit: PAGE_SIZE, cursor: nextCursor })
+      .then(page => {
+        if (request === latestRequest.current) {
+          shownCount.current += page.cards.length
+          setResults(previous => {
+            // A word edited since the last page may come again
+            const shownIds = new Set(previous ? previous.cards.map(card => card.id) : [])
+            return {
+              cards: [...(previous ? previous.cards : []), ...page.cards.filter(card => !shownIds.has(card.id))],
+              total: page.total,
+              nextCursor: page.nextCursor,
+            }
+          })
+        }
+        setIsLoadingMore(false)
+      })
+      .catch(error => {
+        console.error('Failed to load more words:', error)
+        if (request === latestRequest.current) {
+          setLoadMoreError(error instanceof Error ? error.message : 'Unknown error')
+        }
+        setIsLoadingMore(false)
+      })
+  }, [needsMore, isLoadingMore, nextCursor, loadMoreError, query, queryCards])
+
+  // Forget selected words that were deleted or are no longer in the deck
+  useEffect(() => {
+    const cardIds = new Set(cards.map(card => card.id))
+    setSelectedIds(prev => {
+      const kept = Array.from(prev).filter(cardId => cardIds.has(cardId))
+      return kept.length === prev.size ? prev : new Set(kept)
+    })
+  }, [cards])
+
+  const selectedCards = useMemo(() => cards.filter(card => selectedIds.has(card.id)), [cards, selectedIds])
+  const allFilteredSelected = !!results && results.total > 0 &&
+    selectedIds.size >= results.total && shownCards.every(card => selectedIds.has(card.id))
+
+  // Shift-click applies the clicked row's new state to every loaded row since the previous click
+  const handleSelectRow = (index: number, shiftKey: boolean) => {
+    const select = !selectedIds.has(shownCards[index].id)
+    const anchor = selectionAnchor.current
+    const [from, to] = shiftKey && anchor !== null && anchor < shownCards.length
+      ? [Math.min(anchor, index), Math.max(anchor, index)]
+      : [index, index]
+
+    const next = new Set(selectedIds)
+    shownCards.slice(from, to + 1).forEach(card => {
+      if (select) {
+        next.add(card.id)
+      } else {
+        next.delete(card.id)
+      }
+    })
+    setSelectedIds(next)
+    selectionAnchor.current = index
+  }
+
+  // Selects every word matching the search, including the pages not loaded yet
+  const handleSelectAll = () => {
+    if (allFilteredSelected) {
+      setSelectedIds(new Set())
+      return
+    }
+
+    queryCards(query)
+      .then(result => setSelectedIds(prev => new Set(Array.from(prev).concat(result.cards.map(card => card.id)))))
+      .catch(error => console.error('Failed to select words:', error))
+  }
+
+  const handleSelectionChange = (cardIds: string[]) => {
+    setSelectedIds(new Set(cardIds))
+    selectionAnchor.current = null
+  }
+
+  const handleSort = (field: CardSortField) => {
+    onSortChange({
+      field,
+      direction: sort.field === field && sort.direction === 'asc' ? 'desc' : 'asc',
+    })
+  }
 
   const handleToggleKnown = (card: Card) => {
     if (card.isKnown) {
@@ -95,7 +358,7 @@ export const WordList = ({ cards, onMarkKnown, onMarkUnknown, onDeleteCard, onUp
 
   const handleEditCard = () => {
     if (contextMenu) {
-      const card = cards.find(c => c.id === contextMenu.cardId)
+      const card = shownCards.find(c => c.id === contextMenu.cardId)
       if (card) {
         setCardToEdit(card)
         setEditDialogOpen(true)
@@ -119,26 +382,47 @@ export const WordList = ({ cards, onMarkKnown, onMarkUnknown, onDeleteCard, onUp
     setSearchTerm('')
   }
 
+  if (showDuplicates) {
+    return (
+      <Box sx={{ width: '100%', px: { xs: 1, sm: 0 } }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', mb: { xs: 2, sm: 3 } }}>
+          <Button size="small" startIcon={<BackIcon />} onClick={() => setShowDuplicates(false)}>
+            All words
+          </Button>
+          <Typography variant="h6" sx={{ flex: 1, textAlign: 'center', fontSize: { xs: '1.1rem', sm: '1.25rem' } }}>
+            Similar Words
+          </Typography>
+        </Box>
+        <DuplicateClusters cards={cards} onMerge={onMergeCards} />
+      </Box>
+    )
+  }
+
   return (
-    <Box sx={{ width: '100%', maxWidth: 800, px: { xs: 1, sm: 0 } }}>
+    <Box sx={{ width: '100%', px: { xs: 1, sm: 0 } }}>
       <Typography 
         variant="h6" 
         gutterBottom 
         sx={{ 
-          mb: { xs: 2, sm: 3 }, 
+          mb: 1, 
           textAlign: 'center',
           fontSize: { xs: '1.1rem', sm: '1.25rem' }
         }}
       >
         All Words ({cards.length})
       </Typography>
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end', mb: { xs: 1, sm: 2 } }}>
+        <Button size="small" startIcon={<MergeIcon />} onClick={() => setShowDuplicates(true)} disabled={cards.length < 2}>
+          Find duplicates
+        </Button>
+      </Box>
 
       {/* Search Field */}
       <Box sx={{ mb: { xs: 2, sm: 3 } }}>
         <TextField
           fullWidth
           variant="outlined"
-          placeholder="Search words, translations, or examples..."
+          placeholder="Search words, translations, tags, or examples..."
           value={searchTerm}
           onChange={(e) => setSearchTerm(e.target.value)}
           InputProps={{
@@ -172,176 +456,134 @@ export const WordList = ({ cards, onMarkKnown, onMarkUnknown, onDeleteCard, onUp
             },
           }}
         />
-        {debouncedSearchTerm && (
+        {debouncedSearchTerm && results && (
           <Typography 
             variant="body2" 
             color="text.secondary" 
             sx={{ mt: 1, textAlign: 'center' }}
           >
-            Showing {filteredCards.length} of {cards.length} words
+            Showing {results.total} of {cards.length} words
           </Typography>
         )}
       </Box>
-      
-      <List sx={{ width: '100%' }}>
-        {filteredCards.map((card, index) => (
-          <Box key={card.id}>
-            <ListItem
-              sx={{
-                py: { xs: 1, sm: 2 },
-                px: { xs: 1, sm: 3 },
-                '&:hover .word-controls': {
-                  opacity: { xs: 1, sm: 1 },
-                },
-              }}
-            >
-              <Paper
-                elevation={1}
-                onContextMenu={(e) => handleContextMenu(e, card.id)}
-                sx={{
-                  width: '100%',
-                  p: { xs: 2, sm: 3 },
-                  display: 'flex',
-                  flexDirection: { xs: 'column', sm: 'row' },
-                  alignItems: { xs: 'stretch', sm: 'center' },
-                  justifyContent: 'space-between',
-                  bgcolor: card.isKnown ? 'success.50' : 'background.paper',
-                  border: card.isKnown ? '1px solid' : 'none',
-                  borderColor: card.isKnown ? 'success.200' : 'transparent',
-                  transition: 'all 0.2s ease-in-out',
-                  gap: { xs: 2, sm: 0 },
-                  '&:hover': {
-                    transform: { xs: 'none', sm: 'translateY(-2px)' },
-                    boxShadow: { xs: 1, sm: 3 },
-                  },
-                }}
-              >
-                <Box sx={{ 
-                  flex: 1, 
-                  display: 'flex', 
-                  flexDirection: { xs: 'column', sm: 'row' },
-                  alignItems: { xs: 'stretch', sm: 'center' }, 
-                  gap: { xs: 1, sm: 3 }
-                }}>
-                  <Box sx={{ minWidth: 0, flex: 1 }}>
-                    <Typography 
-                      variant="h6" 
-                      component="div" 
-                      sx={{ 
-                        fontWeight: 600,
-                        color: card.isKnown ? 'success.700' : 'text.primary',
-                        textDecoration: card.isKnown ? 'line-through' : 'none',
-                        fontSize: { xs: '1rem', sm: '1.25rem' },
-                        wordBreak: 'break-word'
-                      }}
-                    >
-                      {card.word}
-                    </Typography>
-                    <Typography 
-                      variant="body1" 
-                      color="text.secondary"
-                      sx={{ 
-                        mt: 0.5,
-                        fontSize: { xs: '0.875rem', sm: '1rem' },
-                        wordBreak: 'break-word'
-                      }}
+
+      <WordListBatchBar
+        selectedCards={selectedCards}
+        decks={decks}
+        availableTags={availableTags}
+        onMarkKnown={onMarkCardsKnown}
+        onMarkUnknown={onMarkCardsUnknown}
+        onPatchCards={onPatchCards}
+        onDeleteCards={onDeleteCards}
+        onSelectionChange={handleSelectionChange}
+      />
+
+      {shownCards.length > 0 && (
+        <TableContainer
+          component={Paper}
+          ref={scrollContainer}
+          onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+          data-testid="word-list-scroll"
+          sx={{ maxHeight: VIEWPORT_HEIGHT, mb: 3 }}
+        >
+          <Table stickyHeader size="small" sx={{ tableLayout: 'fixed', minWidth: 860 }}>
+            <TableHead>
+              <TableRow>
+                <TableCell padding="checkbox" sx={{ width: 48 }}>
+                  <Checkbox
+                    size="small"
+                    checked={allFilteredSelected}
+                    indeterminate={selectedIds.size > 0 && !allFilteredSelected}
+                    onChange={handleSelectAll}
+                    inputProps={{ 'aria-label': 'Select all matching words' }}
+                  />
+                </TableCell>
+                {COLUMNS.map(column => (
+                  <TableCell key={column.field} sx={{ width: column.width, fontWeight: 600 }}>
+                    <TableSortLabel
+                      active={sort.field === column.field}
+                      direction={sort.field === column.field ? sort.direction : 'asc'}
+                      onClick={() => handleSort(column.field)}
                     >
-                      {card.translation}
-                    </Typography>
-                    
-                    {card.example && (
-                      <Typography 
-                        variant="body2" 
-                        color="text.secondary"
-                        sx={{ 
-                          mt: 1,
-                          fontSize: { xs: '0.75rem', sm: '0.875rem' },
-                          fontStyle: 'italic',
-                          opacity: 0.8,
-                          wordBreak: 'break-word'
-                        }}
-                      >
-                        Example: "{card.example}"
-                        {card.exampleTranslation && (
-                          <span style={{ display: 'block', marginTop: '0.25rem' }}>
-                            → "{card.exampleTranslation}"
-                          </span>
-                        )}
-                      </Typography>
-                    )}
-                  </Box>
-                  
-                  <Box sx={{ 
-                    display: 'flex', 
-                    justifyContent: { xs: 'space-between', sm: 'flex-end' },
-                    alignItems: 'center',
-                    gap: { xs: 1, sm: 2 }
-                  }}>
-                    <Chip
-                      label={card.isKnown ? 'Known' : 'Learning'}
-                      color={card.isKnown ? 'success' : 'default'}
-                      variant={card.isKnown ? 'filled' : 'outlined'}
+                      {column.label}
+                    </TableSortLabel>
+                  </TableCell>
+                ))}
+                <TableCell sx={{ width: 64 }} />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {firstRow > 0 && (
+                <TableRow sx={{ height: firstRow * ROW_HEIGHT }}>
+                  <TableCell colSpan={COLUMNS.length + 2} sx={{ p: 0, border: 0 }} />
+                </TableRow>
+              )}
+              {visibleCards.map((card, index) => (
+                <TableRow
+                  key={card.id}
+                  hover
+                  selected={selectedIds.has(card.id)}
+                  onContextMenu={(e) => handleContextMenu(e, card.id)}
+                  sx={{
+                    height: ROW_HEIGHT,
+                    bgcolor: card.isKnown ? 'success.50' : 'inherit',
+                    '&:hover .word-controls': { opacity: 1 },
+                  }}
+                >
+                  <TableCell padding="checkbox">
+                    <Checkbox
                       size="small"
-                      sx={{ 
-                        fontSize: { xs: '0.7rem', sm: '0.75rem' },
-                        height: { xs: 24, sm: 32 }
-                      }}
+                      checked={selectedIds.has(card.id)}
+                      onClick={(e) => handleSelectRow(firstRow + index, e.shiftKey)}
+                      inputProps={{ 'aria-label': `Select ${card.word}` }}
                     />
-
-                    <Box 
+                  </TableCell>
+                  {COLUMNS.map(column => (
+                    <TableCell key={column.field} sx={{ overflow: 'hidden' }}>
+                      {column.render(card)}
+                    </TableCell>
+                  ))}
+                  <TableCell>
+                    <Box
                       className="word-controls"
-                      sx={{ 
-                        display: 'flex', 
-                        gap: 1,
+                      sx={{
                         opacity: { xs: 1, sm: 0 },
                         transition: 'opacity 0.2s ease-in-out',
                       }}
                     >
-                      {card.isKnown ? (
-                        <Tooltip title="Mark as unknown" arrow>
-                          <IconButton
-                            onClick={() => handleToggleKnown(card)}
-                            sx={{
-                              color: 'warning.main',
-                              width: { xs: 36, sm: 40 },
-                              height: { xs: 36, sm: 40 },
-                              '&:hover': { 
-                                bgcolor: 'warning.50',
-                                transform: 'scale(1.1)',
-                              },
-                            }}
-                          >
-                            <UndoIcon sx={{ fontSize: { xs: '1rem', sm: '1.25rem' } }} />
-                          </IconButton>
-                        </Tooltip>
-                      ) : (
-                        <Tooltip title="Mark as known" arrow>
-                          <IconButton
-                            onClick={() => onMarkKnown(card.id)}
-                            sx={{
-                              color: 'success.main',
-                              width: { xs: 36, sm: 40 },
-                              height: { xs: 36, sm: 40 },
-                              '&:hover': { 
-                                bgcolor: 'success.50',
-                                transform: 'scale(1.1)',
-                              },
-                            }}
-                          >
-                            <CheckIcon sx={{ fontSize: { xs: '1rem', sm: '1.25rem' } }} />
-                          </IconButton>
-                        </Tooltip>
-                      )}
+                      <Tooltip title={card.isKnown ? 'Mark as unknown' : 'Mark as known'} arrow>
+                        <IconButton
+                          onClick={() => handleToggleKnown(card)}
+                          size="small"
+                          sx={{ color: card.isKnown ? 'warning.main' : 'success.main' }}
+                        >
+                          {card.isKnown ? <UndoIcon fontSize="small" /> : <CheckIcon fontSize="small" />}
+                        </IconButton>
+                      </Tooltip>
                     </Box>
-                  </Box>
-                </Box>
-              </Paper>
-            </ListItem>
-            {index < filteredCards.length - 1 && <Divider variant="middle" />}
-          </Box>
-        ))}
-      </List>
-      
+                  </TableCell>
+                </TableRow>
+              ))}
+              {lastRow < shownCards.length && (
+                <TableRow sx={{ height: (shownCards.length - lastRow) * ROW_HEIGHT }}>
+                  <TableCell colSpan={COLUMNS.length + 2} sx={{ p: 0, border: 0 }} />
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {loadMoreError && (
+        <Alert
+          severity="error"
+          sx={{ mb: 3 }}
+          action={<Button color="inherit" size="small" onClick={() => setLoadMoreError(null)}>Retry</Button>}
+        >
+          Failed to load more words: {loadMoreError}
+        </Alert>
+      )}
+
       {cards.length === 0 && (
         <Box sx={{ textAlign: 'center', py: { xs: 4, sm: 8 } }}>
           <Typography 
@@ -364,7 +606,7 @@ export const WordList = ({ cards, onMarkKnown, onMarkUnknown, onDeleteCard, onUp
         </Box>
       )}
 
-      {cards.length > 0 && filteredCards.length === 0 && (
+      {cards.length > 0 && results?.total === 0 && (
         <Box sx={{ textAlign: 'center', py: { xs: 4, sm: 8 } }}>
           <Typography 
             variant="h6" 
@@ -432,6 +674,7 @@ export const WordList = ({ cards, onMarkKnown, onMarkUnknown, onDeleteCard, onUp
         card={cardToEdit}
         onClose={handleEditDialogClose}
         onUpdateWord={handleUpdateCard}
+        availableTags={availableTags}
       />
     </Box>
   )
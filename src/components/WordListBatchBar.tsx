@@ -0,0 +1,226 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Menu,
+  MenuItem,
+  Paper,
+  Typography,
+} from '@mui/material'
+import {
+  Check as CheckIcon,
+  Undo as UndoIcon,
+  Delete as DeleteIcon,
+  DriveFileMove as MoveIcon,
+  LocalOffer as TagIcon,
+  Download as DownloadIcon,
+} from '@mui/icons-material'
+import { Card, CardPatch } from '@/types/card'
+import { Deck } from '@/types/deck'
+import { BulkOperationResult } from '@/providers/types'
+import { getAllTags, normalizeTags } from '@/utils/tags'
+import { TagInput } from './TagInput'
+
+interface BatchReport {
+  action: string
+  result?: BulkOperationResult
+  error?: string
+}
+
+interface WordListBatchBarProps {
+  selectedCards: Card[]
+  decks: Deck[]
+  availableTags: string[]
+  onMarkKnown: (cardIds: string[]) => Promise<BulkOperationResult>
+  onMarkUnknown: (cardIds: string[]) => Promise<BulkOperationResult>
+  onPatchCards: (cardIds: string[], getChanges: (card: Card) => CardPatch) => Promise<BulkOperationResult>
+  onDeleteCards: (cardIds: string[]) => Promise<BulkOperationResult>
+  onSelectionChange: (cardIds: string[]) => void
+}
+
+// Writes the cards in the format the import dialog reads
+const downloadCards = (cards: Card[]) => {
+  const exportData = cards.map(card => ({
+    word: card.word,
+    translation: card.translation,
+    examples: card.examples,
+    tags: card.tags,
+  }))
+
+  const dataBlob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' })
+  const url = URL.createObjectURL(dataBlob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `english-cards-selection-${new Date().toISOString().split('T')[0]}.json`
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Actions for the words selected in the word list. Each action is one bulk
+ * call, the words it could not change stay selected
+ */
+export const WordListBatchBar = ({
+  selectedCards,
+  decks,
+  availableTags,
+  onMarkKnown,
+  onMarkUnknown,
+  onPatchCards,
+  onDeleteCards,
+  onSelectionChange,
+}: WordListBatchBarProps) => {
+  const [isRunning, setIsRunning] = useState(false)
+  const [report, setReport] = useState<BatchReport | null>(null)
+  const [deckMenuAnchor, setDeckMenuAnchor] = useState<HTMLElement | null>(null)
+  const [removeTagMenuAnchor, setRemoveTagMenuAnchor] = useState<HTMLElement | null>(null)
+  const [addTagsDialogOpen, setAddTagsDialogOpen] = useState(false)
+  const [tagsToAdd, setTagsToAdd] = useState<string[]>([])
+
+  const selectedIds = selectedCards.map(card => card.id)
+  const selectedTags = getAllTags(selectedCards)
+
+  const runAction = async (action: string, operation: (cardIds: string[]) => Promise<BulkOperationResult>) => {
+    setIsRunning(true)
+    setReport(null)
+    try {
+      const result = await operation(selectedIds)
+      setReport({ action, result })
+      onSelectionChange(result.failed.map(failure => failure.cardId))
+    } catch (error) {
+      setReport({ action, error: error instanceof Error ? error.message : 'Unknown error' })
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const handleDelete = () => {
+    const count = selectedIds.length
+    if (window.confirm(`Move ${count} selected ${count === 1 ? 'word' : 'words'} to the trash?`)) {
+      runAction('Moved to the trash', onDeleteCards)
+    }
+  }
+
+  const handleMoveToDeck = (deck: Deck) => {
+    setDeckMenuAnchor(null)
+    runAction(`Moved to ${deck.name}`, cardIds => onPatchCards(cardIds, () => ({ deckId: deck.id })))
+  }
+
+  const handleAddTags = () => {
+    const tags = tagsToAdd
+    setAddTagsDialogOpen(false)
+    setTagsToAdd([])
+    if (tags.length === 0) return
+
+    runAction(`Tagged with ${tags.join(', ')}`, cardIds =>
+      onPatchCards(cardIds, card => ({ tags: normalizeTags(card.tags.concat(tags)) })))
+  }
+
+  const handleRemoveTag = (tag: string) => {
+    setRemoveTagMenuAnchor(null)
+    runAction(`Removed tag ${tag}`, cardIds =>
+      onPatchCards(cardIds, card => ({ tags: card.tags.filter(existing => existing.toLowerCase() !== tag.toLowerCase()) })))
+  }
+
+  const failed = report?.result ? report.result.failed : []
+
+  return (
+    <Box sx={{ mb: 2 }}>
+      {selectedCards.length > 0 && (
+        <Paper
+          variant="outlined"
+          data-testid="word-list-batch-bar"
+          sx={{ p: 1, display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1 }}
+        >
+          <Typography variant="body2" sx={{ fontWeight: 600, mr: 1 }}>
+            {selectedCards.length} selected
+          </Typography>
+          <Button size="small" startIcon={<CheckIcon />} disabled={isRunning} onClick={() => runAction('Marked as known', onMarkKnown)}>
+            Mark known
+          </Button>
+          <Button size="small" startIcon={<UndoIcon />} disabled={isRunning} onClick={() => runAction('Marked as unknown', onMarkUnknown)}>
+            Mark unknown
+          </Button>
+          <Button size="small" startIcon={<MoveIcon />} disabled={isRunning} onClick={(e) => setDeckMenuAnchor(e.currentTarget)}>
+            Move to deck
+          </Button>
+          <Button size="small" startIcon={<TagIcon />} disabled={isRunning} onClick={() => setAddTagsDialogOpen(true)}>
+            Add tag
+          </Button>
+          <Button
+            size="small"
+            startIcon={<TagIcon />}
+            disabled={isRunning || selectedTags.length === 0}
+            onClick={(e) => setRemoveTagMenuAnchor(e.currentTarget)}
+          >
+            Remove tag
+          </Button>
+          <Button size="small" startIcon={<DownloadIcon />} disabled={isRunning} onClick={() => downloadCards(selectedCards)}>
+            Export
+          </Button>
+          <Button size="small" color="error" startIcon={<DeleteIcon />} disabled={isRunning} onClick={handleDelete}>
+            Delete
+          </Button>
+          <Button size="small" color="inherit" disabled={isRunning} onClick={() => onSelectionChange([])} sx={{ ml: 'auto' }}>
+            Clear selection
+          </Button>
+        </Paper>
+      )}
+
+      {report && (
+        <Alert
+          severity={report.error ? 'error' : failed.length > 0 ? 'warning' : 'success'}
+          onClose={() => setReport(null)}
+          sx={{ mt: 1 }}
+        >
+          {report.error
+            ? `${report.action} failed: ${report.error}`
+            : `${report.action}: ${report.result!.succeeded.length} succeeded, ${failed.length} failed`}
+          {failed.slice(0, 5).map(failure => (
+            <Typography key={failure.cardId} variant="caption" component="div">
+              {failure.error}
+            </Typography>
+          ))}
+        </Alert>
+      )}
+
+      <Menu anchorEl={deckMenuAnchor} open={deckMenuAnchor !== null} onClose={() => setDeckMenuAnchor(null)}>
+        {decks.map(deck => (
+          <MenuItem key={deck.id} onClick={() => handleMoveToDeck(deck)}>
+            {deck.name}
+          </MenuItem>
+        ))}
+      </Menu>
+
+      <Menu anchorEl={removeTagMenuAnchor} open={removeTagMenuAnchor !== null} onClose={() => setRemoveTagMenuAnchor(null)}>
+        {selectedTags.map(tag => (
+          <MenuItem key={tag} onClick={() => handleRemoveTag(tag)}>
+            {tag}
+          </MenuItem>
+        ))}
+      </Menu>
+
+      <Dialog open={addTagsDialogOpen} onClose={() => setAddTagsDialogOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>Add tags to {selectedCards.length} words</DialogTitle>
+        <DialogContent sx={{ pt: '8px !important' }}>
+          <TagInput value={tagsToAdd} onChange={setTagsToAdd} options={availableTags} />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setAddTagsDialogOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleAddTags} disabled={tagsToAdd.length === 0}>
+            Add
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  )
+}
@@ -0,0 +1,65 @@
+'use client'
+
+import {
+  Box,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableRow,
+  Typography,
+} from '@mui/material'
+import { WordListLine } from '@/utils/wordListImport'
+
+// Enough lines to spot the mistakes without drawing the whole list
+const PREVIEW_LINE_LIMIT = 100
+
+interface WordListImportPreviewProps {
+  lines: WordListLine[]
+  wordCount: number
+}
+
+/**
+ * Line-by-line preview of a plain-text word list, with the lines that cannot be read highlighted
+ */
+export const WordListImportPreview = ({ lines, wordCount }: WordListImportPreviewProps) => {
+  const invalidCount = lines.filter(line => line.kind === 'error').length
+
+  return (
+    <Box sx={{ mb: 2 }}>
+      <Typography variant="subtitle2" sx={{ mb: 1 }}>
+        {wordCount} {wordCount === 1 ? 'word' : 'words'}
+        {invalidCount > 0 && `, ${invalidCount} ${invalidCount === 1 ? 'line' : 'lines'} cannot be read and will be skipped`}
+      </Typography>
+
+      <TableContainer component={Paper} variant="outlined" sx={{ maxHeight: 320 }}>
+        <Table size="small">
+          <TableBody>
+            {lines.slice(0, PREVIEW_LINE_LIMIT).map(line => (
+              <TableRow
+                key={line.line}
+                data-testid={line.kind === 'error' ? 'word-list-error-line' : undefined}
+                sx={{ bgcolor: line.kind === 'error' ? 'error.light' : 'inherit' }}
+              >
+                <TableCell sx={{ width: 48, color: 'text.secondary' }}>{line.line}</TableCell>
+                <TableCell sx={{ pl: line.kind === 'example' ? 4 : undefined, whiteSpace: 'pre-wrap' }}>
+                  {line.text.trim()}
+                </TableCell>
+                <TableCell sx={{ minWidth: 160, color: line.kind === 'error' ? 'error.contrastText' : 'success.main' }}>
+                  {line.kind === 'error' ? line.error : line.kind === 'example' ? 'Example' : 'OK'}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {lines.length > PREVIEW_LINE_LIMIT && (
+        <Typography variant="caption" color="text.secondary">
+          Showing the first {PREVIEW_LINE_LIMIT} lines
+        </Typography>
+      )}
+    </Box>
+  )
+}
@@ -43,6 +43,7 @@ describe('AddWordDialog', () => {
       expect(mockOnAddWord).toHaveBeenCalledWith(
         'hello',
         'hola',
+        [],
         []
       )
     })
@@ -78,11 +79,38 @@ describe('AddWordDialog', () => {
       expect(mockOnAddWord).toHaveBeenCalledWith(
         'hello',
         'hola',
-        [{ id: expect.any(String), text: 'Hello, how are you?', translation: 'Hola, ¿cómo estás?' }]
+        [{ id: expect.any(String), text: 'Hello, how are you?', translation: 'Hola, ¿cómo estás?' }],
+        []
       )
     })
   })
 
+  it('should pass entered tags to onAddWord', async () => {
+    render(
+      <AddWordDialog
+        open={true}
+        onClose={mockOnClose}
+        onAddWord={mockOnAddWord}
+        availableTags={['travel']}
+      />
+    )
+
+    fireEvent.change(screen.getByLabelText('Word'), { target: { value: 'hello' } })
+    fireEvent.change(screen.getByLabelText('Translation'), { target: { value: 'hola' } })
+
+    const tagInput = screen.getByLabelText('Tags')
+    fireEvent.change(tagInput, { target: { value: 'greetings' } })
+    fireEvent.keyDown(tagInput, { key: 'Enter' })
+
+    expect(screen.getByText('greetings')).toBeInTheDocument()
+
+    fireEvent.click(screen.getByText('Add Word'))
+
+    await waitFor(() => {
+      expect(mockOnAddWord).toHaveBeenCalledWith('hello', 'hola', [], ['greetings'])
+    })
+  })
+
   it('should clear all fields when dialog is closed', () => {
     render(
       <AddWordDialog
@@ -99,4 +127,39 @@ describe('AddWordDialog', () => {
 
     expect(mockOnClose).toHaveBeenCalled()
   })
-})
\ No newline at end of file
+
+  it('should warn while typing a word similar to one in the deck', async () => {
+    const existingCards = [{
+      id: 'card-1',
+      deckId: 'default',
+      word: 'colour',
+      translation: 'color',
+      examples: [],
+      tags: [],
+      isKnown: false,
+      createdAt: new Date(2024, 0, 1),
+      easeFactor: 2.5,
+      interval: 0,
+      repetitions: 0,
+      dueAt: new Date(2024, 0, 1)
+    }]
+    render(
+      <AddWordDialog
+        open={true}
+        onClose={mockOnClose}
+        onAddWord={mockOnAddWord}
+        existingCards={existingCards}
+      />
+    )
+
+    fireEvent.change(screen.getByLabelText('Word'), { target: { value: 'color' } })
+    await waitFor(() => expect(screen.getByText('Similar words are already in the deck:')).toBeTruthy())
+
+    fireEvent.change(screen.getByLabelText('Word'), { target: { value: 'the Colour' } })
+    await waitFor(() => expect(screen.getByText('This word is already in the deck and will not be added again:')).toBeTruthy())
+
+    fireEvent.change(screen.getByLabelText('Word'), { target: { value: 'flavour' } })
+    await waitFor(() => expect(screen.queryByText('This word is already in the deck and will not be added again:')).toBeNull())
+    expect(screen.queryByText('Similar words are already in the deck:')).toBeNull()
+  })
+})
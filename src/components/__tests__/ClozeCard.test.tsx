@@ -0,0 +1,58 @@
+import React from 'react'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { ClozeCard } from '../ClozeCard'
+import { Card } from '@/types/card'
+import { createInitialSchedule } from '@/utils/scheduler'
+
+describe('ClozeCard', () => {
+  const mockOnReview = jest.fn()
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  const card: Card = {
+    id: '1',
+    word: 'run',
+    translation: 'correr',
+    isKnown: false,
+    createdAt: new Date(),
+    examples: [{ id: 'ex1', text: 'She runs every morning.', translation: 'Ella corre cada mañana.' }],
+    deckId: 'default',
+    tags: [],
+    ...createInitialSchedule(),
+  }
+
+  const typeAnswer = (answer: string) => {
+    fireEvent.change(screen.getByLabelText('Missing word'), { target: { value: answer } })
+    fireEvent.click(screen.getByText('Check'))
+  }
+
+  it('should blank the word in the example and show its translation as a hint', () => {
+    render(<ClozeCard card={card} onReview={mockOnReview} />)
+
+    expect(screen.getByTestId('cloze-sentence').textContent).toBe('She _____ every morning.')
+    expect(screen.getByText('💡 Ella corre cada mañana.')).toBeInTheDocument()
+  })
+
+  it('should record a correct answer as good', () => {
+    render(<ClozeCard card={card} onReview={mockOnReview} />)
+
+    typeAnswer('runs')
+    expect(screen.getByText('Correct!')).toBeInTheDocument()
+    expect(screen.getByTestId('cloze-sentence').textContent).toBe('She runs every morning.')
+
+    fireEvent.click(screen.getByText('Next'))
+    expect(mockOnReview).toHaveBeenCalledWith('good', expect.any(Number))
+  })
+
+  it('should record a wrong answer as again', () => {
+    render(<ClozeCard card={card} onReview={mockOnReview} />)
+
+    typeAnswer('walks')
+    expect(screen.getByText('Not quite')).toBeInTheDocument()
+
+    fireEvent.click(screen.getByText('Next'))
+    expect(mockOnReview).toHaveBeenCalledWith('again', expect.any(Number))
+  })
+})
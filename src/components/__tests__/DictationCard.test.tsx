@@ -0,0 +1,86 @@
+import React from 'react'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { DictationCard } from '../DictationCard'
+import { Card } from '@/types/card'
+import { createInitialSchedule } from '@/utils/scheduler'
+
+const mockSpeak = jest.fn()
+const mockSpeakSlowly = jest.fn()
+
+// Mock the text-to-speech hook, slow playback uses a second instance with a lower rate
+jest.mock('@/hooks/useTextToSpeech', () => ({
+  useTextToSpeech: (options: { rate?: number } = {}) => ({
+    speak: options.rate && options.rate < 1 ? mockSpeakSlowly : mockSpeak,
+    stop: jest.fn(),
+    toggle: jest.fn(),
+    isSupported: true,
+    isLoading: false,
+    isSpeaking: false,
+    voices: []
+  })
+}))
+
+describe('DictationCard', () => {
+  const mockOnReview = jest.fn()
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  const card: Card = {
+    id: '1',
+    word: 'hello',
+    translation: 'hola',
+    isKnown: false,
+    createdAt: new Date(),
+    examples: [],
+    deckId: 'default',
+    tags: [],
+    ...createInitialSchedule(),
+  }
+
+  it('should read the word out without showing it', () => {
+    render(<DictationCard card={card} onReview={mockOnReview} />)
+
+    expect(mockSpeak).toHaveBeenCalledWith('hello', 'en-US')
+    expect(screen.queryByText('hello')).not.toBeInTheDocument()
+  })
+
+  it('should replay at normal and slow speed', () => {
+    render(<DictationCard card={card} onReview={mockOnReview} />)
+    mockSpeak.mockClear()
+
+    fireEvent.click(screen.getByText('Replay'))
+    expect(mockSpeak).toHaveBeenCalledWith('hello', 'en-US')
+
+    fireEvent.click(screen.getByText('Slow'))
+    expect(mockSpeakSlowly).toHaveBeenCalledWith('hello', 'en-US')
+  })
+
+  it('should score the typed text and record it as a review', () => {
+    render(<DictationCard card={card} onReview={mockOnReview} />)
+
+    fireEvent.change(screen.getByLabelText('What did you hear?'), { target: { value: 'Hello' } })
+    fireEvent.click(screen.getByText('Check'))
+
+    expect(screen.getByText('Correct!')).toBeInTheDocument()
+    expect(screen.getByText('Translation: hola')).toBeInTheDocument()
+
+    fireEvent.click(screen.getByText('Next'))
+    expect(mockOnReview).toHaveBeenCalledWith('good', expect.any(Number))
+  })
+
+  it('should dictate example sentences of the card', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.99)
+    render(
+      <DictationCard
+        card={{ ...card, examples: [{ id: 'ex1', text: 'Hello, how are you?', translation: 'Hola, ¿cómo estás?' }] }}
+        onReview={mockOnReview}
+      />
+    )
+    jest.spyOn(Math, 'random').mockRestore()
+
+    expect(mockSpeak).toHaveBeenCalledWith('Hello, how are you?', 'en-US')
+    expect(screen.getByText('🎧 Type the sentence you hear')).toBeInTheDocument()
+  })
+})
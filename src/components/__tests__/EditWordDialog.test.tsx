@@ -1,6 +1,7 @@
 import { render, screen, fireEvent, waitFor } from '@testing-library/react'
 import { EditWordDialog } from '../EditWordDialog'
 import { Card } from '@/types/card'
+import { createInitialSchedule } from '@/utils/scheduler'
 
 const mockCard: Card = {
   id: 'test-card-1',
@@ -11,6 +12,9 @@ const mockCard: Card = {
   ],
   isKnown: false,
   createdAt: new Date('2023-01-01'),
+  deckId: 'default',
+  tags: [],
+  ...createInitialSchedule(new Date('2023-01-01')),
 }
 
 const mockOnClose = jest.fn()
@@ -2,6 +2,7 @@ import React from 'react'
 import { render, screen, fireEvent } from '@testing-library/react'
 import { FlashCard } from '../FlashCard'
 import { Card } from '@/types/card'
+import { createInitialSchedule } from '@/utils/scheduler'
 
 // Mock the text-to-speech hook
 jest.mock('@/hooks/useTextToSpeech', () => ({
@@ -28,8 +29,7 @@ Object.defineProperty(window, 'speechSynthesis', {
 })
 
 describe('FlashCard', () => {
-  const mockOnMarkKnown = jest.fn()
-  const mockOnMarkUnknown = jest.fn()
+  const mockOnReview = jest.fn()
 
   beforeEach(() => {
     jest.clearAllMocks()
@@ -42,6 +42,9 @@ describe('FlashCard', () => {
     isKnown: false,
     createdAt: new Date(),
     examples: [],
+    deckId: 'default',
+    tags: [],
+    ...createInitialSchedule(),
   }
 
   it('should display example on front side when available', () => {
@@ -53,8 +56,7 @@ describe('FlashCard', () => {
     render(
       <FlashCard
         card={cardWithExample}
-        onMarkKnown={mockOnMarkKnown}
-        onMarkUnknown={mockOnMarkUnknown}
+        onReview={mockOnReview}
       />
     )
 
@@ -71,8 +73,7 @@ describe('FlashCard', () => {
     render(
       <FlashCard
         card={cardWithExampleTranslation}
-        onMarkKnown={mockOnMarkKnown}
-        onMarkUnknown={mockOnMarkUnknown}
+        onReview={mockOnReview}
       />
     )
 
@@ -87,8 +88,7 @@ describe('FlashCard', () => {
     render(
       <FlashCard
         card={baseCard}
-        onMarkKnown={mockOnMarkKnown}
-        onMarkUnknown={mockOnMarkUnknown}
+        onReview={mockOnReview}
       />
     )
 
@@ -105,8 +105,7 @@ describe('FlashCard', () => {
     render(
       <FlashCard
         card={cardWithBothExamples}
-        onMarkKnown={mockOnMarkKnown}
-        onMarkUnknown={mockOnMarkUnknown}
+        onReview={mockOnReview}
       />
     )
 
@@ -118,4 +117,39 @@ describe('FlashCard', () => {
 
     expect(screen.getByText('"Hola, ¿cómo estás?"')).toBeInTheDocument()
   })
-})
\ No newline at end of file
+
+  it('should show grade buttons with interval previews only after flipping', () => {
+    render(
+      <FlashCard
+        card={baseCard}
+        onReview={mockOnReview}
+      />
+    )
+
+    expect(screen.queryByText('Good')).not.toBeInTheDocument()
+
+    fireEvent.click(screen.getByText('hello'))
+
+    expect(screen.getByText('Again')).toBeInTheDocument()
+    expect(screen.getByText('Hard')).toBeInTheDocument()
+    expect(screen.getByText('Good')).toBeInTheDocument()
+    expect(screen.getByText('Easy')).toBeInTheDocument()
+    expect(screen.getByText('now')).toBeInTheDocument()
+    expect(screen.getByText('4d')).toBeInTheDocument()
+  })
+
+  it('should report the selected grade and flip back to the front', () => {
+    render(
+      <FlashCard
+        card={baseCard}
+        onReview={mockOnReview}
+      />
+    )
+
+    fireEvent.click(screen.getByText('hello'))
+    fireEvent.click(screen.getByText('Good'))
+
+    expect(mockOnReview).toHaveBeenCalledWith('good')
+    expect(screen.queryByText('Good')).not.toBeInTheDocument()
+  })
+})
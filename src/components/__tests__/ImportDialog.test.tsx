@@ -90,7 +90,7 @@ describe('ImportDialog', () => {
       />
     )
 
-    fireEvent.change(screen.getByRole('textbox'), { target: { value: 'invalid json' } })
+    fireEvent.change(screen.getByRole('textbox'), { target: { value: '{ invalid json' } })
     fireEvent.click(screen.getByText('Import'))
 
     await waitFor(() => {
@@ -150,4 +150,155 @@ describe('ImportDialog', () => {
       expect(screen.getByText('Import completed! 1 words imported, 1 duplicates skipped')).toBeInTheDocument()
     })
   })
-})
\ No newline at end of file
+
+  it('should preview spreadsheet rows and import only the valid ones', async () => {
+    render(
+      <ImportDialog
+        open={true}
+        onClose={mockOnClose}
+        onImport={mockOnImport}
+      />
+    )
+
+    const csv = 'Word,Translation,Tags\n"hello, friend",hola,greetings\nbye,,'
+
+    fireEvent.change(screen.getByRole('textbox'), { target: { value: csv } })
+
+    expect(screen.getByText('2 rows, 1 with errors will be skipped')).toBeTruthy()
+    expect(screen.getByText('Translation is missing')).toBeTruthy()
+
+    fireEvent.click(screen.getByText('Import'))
+
+    await waitFor(() => {
+      expect(mockOnImport).toHaveBeenCalledWith([
+        { word: 'hello, friend', translation: 'hola', examples: [], tags: ['greetings'] }
+      ])
+    })
+  })
+
+  it('should ask for the translation column when it is not mapped', async () => {
+    render(
+      <ImportDialog
+        open={true}
+        onClose={mockOnClose}
+        onImport={mockOnImport}
+      />
+    )
+
+    fireEvent.change(screen.getByRole('textbox'), { target: { value: 'hello\tnotes\nbye\tnotes' } })
+    fireEvent.click(screen.getByLabelText('First row is a header'))
+    fireEvent.click(screen.getByText('Import'))
+
+    expect(screen.getByText('Choose the column holding the words. Choose the column holding the translations')).toBeTruthy()
+    expect(mockOnImport).not.toHaveBeenCalled()
+  })
+
+  it('should import a word list and highlight the lines that cannot be read', async () => {
+    render(
+      <ImportDialog
+        open={true}
+        onClose={mockOnClose}
+        onImport={mockOnImport}
+      />
+    )
+
+    const text = 'apple - яблоко, яблоня\n> I like apples.\nnot a word pair\npear: груша'
+
+    fireEvent.change(screen.getByRole('textbox'), { target: { value: text } })
+
+    expect(screen.getByText('2 words, 1 line cannot be read and will be skipped')).toBeTruthy()
+    expect(screen.getAllByTestId('word-list-error-line')).toHaveLength(1)
+    expect(screen.getByText('No separator found, use -, —, : or =')).toBeTruthy()
+
+    fireEvent.click(screen.getByText('Import'))
+
+    await waitFor(() => {
+      expect(mockOnImport).toHaveBeenCalledWith([
+        {
+          word: 'apple',
+          translation: 'яблоко, яблоня',
+          examples: [{ id: 'example-2', text: 'I like apples.', translation: '' }],
+        },
+        { word: 'pear', translation: 'груша', examples: [] },
+      ])
+    })
+  })
+
+  it('should import Anki notes and report the ones that cannot be read', async () => {
+    const onClose = jest.fn()
+    mockOnImport.mockResolvedValue({ imported: 1, skipped: 0 })
+    render(
+      <ImportDialog
+        open={true}
+        onClose={onClose}
+        onImport={mockOnImport}
+        defaultFormat="anki"
+      />
+    )
+
+    const notes = '#separator:tab\n#html:true\nhello\thola\n\tsin palabra'
+
+    fireEvent.change(screen.getByRole('textbox'), { target: { value: notes } })
+
+    expect(screen.getByText('1 note, 1 without a word or translation will be skipped')).toBeTruthy()
+
+    fireEvent.click(screen.getByText('Import'))
+
+    await waitFor(() => {
+      expect(screen.getByText('Import completed! 1 words imported, 1 entry that could not be read skipped')).toBeTruthy()
+    })
+    expect(mockOnImport).toHaveBeenCalledWith([
+      { word: 'hello', translation: 'hola', examples: [], tags: [] }
+    ])
+    expect(onClose).not.toHaveBeenCalled()
+  })
+
+  it('should let duplicates be resolved and list the affected words', async () => {
+    const existing = {
+      id: 'card-1',
+      deckId: 'default',
+      word: 'hello',
+      translation: 'hola',
+      examples: [],
+      tags: [],
+      isKnown: false,
+      createdAt: new Date(2024, 0, 1),
+      easeFactor: 2.5,
+      interval: 0,
+      repetitions: 0,
+      dueAt: new Date(2024, 0, 1)
+    }
+    const mockFindConflicts = jest.fn().mockReturnValue([
+      { index: 0, incoming: { word: 'hello', translation: 'buenas' }, existing }
+    ])
+    mockOnImport.mockResolvedValue({
+      imported: 1,
+      skipped: 0,
+      summary: { added: ['goodbye'], skipped: [], overwritten: [], merged: ['hello'], keptBoth: [] }
+    })
+    const onClose = jest.fn()
+    render(
+      <ImportDialog
+        open={true}
+        onClose={onClose}
+        onImport={mockOnImport}
+        findConflicts={mockFindConflicts}
+      />
+    )
+
+    const data = { hello: 'buenas', goodbye: 'adiós' }
+    fireEvent.change(screen.getByRole('textbox'), { target: { value: JSON.stringify(data) } })
+    fireEvent.click(screen.getByText('Import'))
+
+    await waitFor(() => expect(screen.getByText('1 word is already in the deck')).toBeTruthy())
+    expect(mockOnImport).not.toHaveBeenCalled()
+
+    fireEvent.click(screen.getByRole('button', { name: 'Merge' }))
+    fireEvent.click(screen.getByText('Import'))
+
+    await waitFor(() => expect(mockOnImport).toHaveBeenCalledWith(data, undefined, { 0: 'merge' }))
+    expect(screen.getByText('Merged:')).toBeTruthy()
+    expect(screen.getByText('Close')).toBeTruthy()
+    expect(onClose).not.toHaveBeenCalled()
+  })
+})
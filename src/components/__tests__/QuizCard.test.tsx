@@ -0,0 +1,50 @@
+import React from 'react'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { QuizCard } from '../QuizCard'
+import { Card } from '@/types/card'
+import { createTestCard } from '@/test/cards'
+
+describe('QuizCard', () => {
+  const mockOnReview = jest.fn()
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  const createCard = (id: string, word: string, translation: string): Card => createTestCard(id, { word, translation })
+
+  const card = createCard('1', 'cat', 'gato')
+  const cards = [card, createCard('2', 'dog', 'perro'), createCard('3', 'bird', 'pájaro'), createCard('4', 'fish', 'pez')]
+
+  it('should show the word and four candidate translations', () => {
+    render(<QuizCard card={card} cards={cards} onReview={mockOnReview} />)
+
+    expect(screen.getByText('cat')).toBeInTheDocument()
+    for (const translation of ['gato', 'perro', 'pájaro', 'pez']) {
+      expect(screen.getByText(translation)).toBeInTheDocument()
+    }
+  })
+
+  it('should record a correct answer as good', () => {
+    render(<QuizCard card={card} cards={cards} onReview={mockOnReview} />)
+
+    fireEvent.click(screen.getByText('gato'))
+    expect(screen.getByText('Correct!')).toBeInTheDocument()
+    expect(mockOnReview).not.toHaveBeenCalled()
+
+    fireEvent.click(screen.getByText('Next'))
+    expect(mockOnReview).toHaveBeenCalledWith('good', expect.any(Number))
+  })
+
+  it('should record a wrong answer as again', () => {
+    render(<QuizCard card={card} cards={cards} onReview={mockOnReview} />)
+
+    fireEvent.click(screen.getByText('perro'))
+    expect(screen.getByText('Not quite')).toBeInTheDocument()
+
+    // Only the first choice counts
+    fireEvent.click(screen.getByText('gato'))
+    fireEvent.click(screen.getByText('Next'))
+    expect(mockOnReview).toHaveBeenCalledWith('again', expect.any(Number))
+  })
+})
@@ -0,0 +1,25 @@
+import React from 'react'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { SyncStatusIndicator } from '../SyncStatusIndicator'
+
+describe('SyncStatusIndicator', () => {
+  const mockOnSync = jest.fn()
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('should show how many changes are waiting', () => {
+    render(<SyncStatusIndicator state={{ status: 'offline', pendingChanges: 3, lastSyncedAt: null }} onSync={mockOnSync} />)
+
+    expect(screen.getByTestId('sync-status').textContent).toBe('Offline (3)')
+  })
+
+  it('should sync when clicked', () => {
+    render(<SyncStatusIndicator state={{ status: 'synced', pendingChanges: 0, lastSyncedAt: new Date() }} onSync={mockOnSync} />)
+
+    fireEvent.click(screen.getByText('Synced'))
+
+    expect(mockOnSync).toHaveBeenCalledTimes(1)
+  })
+})
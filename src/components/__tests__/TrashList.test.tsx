@@ -0,0 +1,57 @@
+import { render, screen, fireEvent } from '@testing-library/react'
+import { TrashList } from '../TrashList'
+import { Card } from '@/types/card'
+import { createTestCard } from '@/test/cards'
+
+const createCard = (word: string, deletedAt: Date): Card =>
+  createTestCard(`card-${word}`, { word, translation: `${word} translation`, deletedAt })
+
+describe('TrashList', () => {
+  const mockOnRestore = jest.fn()
+  const mockOnDeleteForever = jest.fn()
+  const cards = [createCard('apple', new Date(2024, 2, 1)), createCard('pear', new Date(2024, 1, 1))]
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  const renderTrashList = (trashed = cards) => render(
+    <TrashList cards={trashed} retentionDays={30} onRestore={mockOnRestore} onDeleteForever={mockOnDeleteForever} />
+  )
+
+  it('shows when each word will be removed', () => {
+    renderTrashList()
+
+    expect(screen.getByText('Trash (2)')).toBeTruthy()
+    expect(screen.getByText(new Date(2024, 2, 31).toLocaleDateString())).toBeTruthy()
+  })
+
+  it('restores a single word or the whole trash', () => {
+    renderTrashList()
+
+    fireEvent.click(screen.getByLabelText('Restore apple'))
+    fireEvent.click(screen.getByText('Restore all'))
+
+    expect(mockOnRestore).toHaveBeenNthCalledWith(1, ['card-apple'])
+    expect(mockOnRestore).toHaveBeenNthCalledWith(2, ['card-apple', 'card-pear'])
+  })
+
+  it('deletes forever only after confirming', () => {
+    const confirm = jest.spyOn(window, 'confirm').mockReturnValueOnce(false).mockReturnValueOnce(true)
+    renderTrashList()
+
+    fireEvent.click(screen.getByLabelText('Delete pear forever'))
+    fireEvent.click(screen.getByText('Empty trash'))
+
+    expect(confirm).toHaveBeenCalledTimes(2)
+    expect(mockOnDeleteForever).toHaveBeenCalledTimes(1)
+    expect(mockOnDeleteForever).toHaveBeenCalledWith(['card-apple', 'card-pear'])
+  })
+
+  it('says so when the trash is empty', () => {
+    renderTrashList([])
+
+    expect(screen.getByText('The trash is empty')).toBeTruthy()
+    expect(screen.queryByText('Empty trash')).toBeNull()
+  })
+})
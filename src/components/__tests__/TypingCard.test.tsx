@@ -0,0 +1,77 @@
+import React from 'react'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { TypingCard } from '../TypingCard'
+import { Card } from '@/types/card'
+import { createInitialSchedule } from '@/utils/scheduler'
+
+describe('TypingCard', () => {
+  const mockOnReview = jest.fn()
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  const baseCard: Card = {
+    id: '1',
+    word: 'hello',
+    translation: 'hola',
+    isKnown: false,
+    createdAt: new Date(),
+    examples: [],
+    deckId: 'default',
+    tags: [],
+    ...createInitialSchedule(),
+  }
+
+  const typeAnswer = (answer: string) => {
+    fireEvent.change(screen.getByLabelText('Your answer'), { target: { value: answer } })
+    fireEvent.click(screen.getByText('Check'))
+  }
+
+  it('should ask for the translation of the word', () => {
+    render(<TypingCard card={baseCard} onReview={mockOnReview} />)
+
+    expect(screen.getByText('hello')).toBeInTheDocument()
+    expect(screen.getByText('⌨️ Type the translation')).toBeInTheDocument()
+  })
+
+  it('should ask for the word in reverse mode', () => {
+    render(<TypingCard card={baseCard} onReview={mockOnReview} showTranslationFirst={true} />)
+
+    expect(screen.getByText('hola')).toBeInTheDocument()
+    expect(screen.getByText('⌨️ Type the original word')).toBeInTheDocument()
+  })
+
+  it('should record a correct answer as good', () => {
+    render(<TypingCard card={baseCard} onReview={mockOnReview} />)
+
+    typeAnswer('Hola!')
+    expect(screen.getByText('Correct!')).toBeInTheDocument()
+    expect(mockOnReview).not.toHaveBeenCalled()
+
+    fireEvent.click(screen.getByText('Next'))
+    expect(mockOnReview).toHaveBeenCalledWith('good', expect.any(Number))
+  })
+
+  it('should accept a typo within the allowed distance as hard and show the diff', () => {
+    render(<TypingCard card={baseCard} onReview={mockOnReview} maxDistance={1} />)
+
+    typeAnswer('hla')
+    expect(screen.getByText('Almost - accepted with a typo')).toBeInTheDocument()
+    expect(screen.getByTestId('answer-diff').textContent).toBe('hola')
+
+    fireEvent.click(screen.getByText('Next'))
+    expect(mockOnReview).toHaveBeenCalledWith('hard', expect.any(Number))
+  })
+
+  it('should record a wrong answer as again', () => {
+    render(<TypingCard card={baseCard} onReview={mockOnReview} />)
+
+    typeAnswer('adiós')
+    expect(screen.getByText('Not quite')).toBeInTheDocument()
+    expect(screen.getByText('Answer: hola')).toBeInTheDocument()
+
+    fireEvent.keyDown(screen.getByLabelText('Your answer'), { key: 'Enter' })
+    expect(mockOnReview).toHaveBeenCalledWith('again', expect.any(Number))
+  })
+})
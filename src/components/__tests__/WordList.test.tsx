@@ -0,0 +1,207 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { WordList } from '../WordList'
+import { Card, CardQuery, CardSort } from '@/types/card'
+import { queryCardsInMemory } from '@/utils/cardQuery'
+import { createTestCard } from '@/test/cards'
+
+const createCard = (index: number): Card => createTestCard(`card-${index}`, {
+  word: `word ${index}`,
+  translation: `translation ${index}`,
+  examples: [{ id: `example-${index}`, text: `example sentence ${index}`, translation: '' }],
+  createdAt: new Date(2023, 0, 1, 0, 0, index),
+})
+
+const cards = Array.from({ length: 60 }, (_, index) => createCard(index))
+const oldestFirst: CardSort = { field: 'createdAt', direction: 'asc' }
+
+describe('WordList', () => {
+  let mockQueryCards: jest.Mock
+  const mockOnSortChange = jest.fn()
+  const mockOnMarkCardsKnown = jest.fn()
+  const mockOnDeleteCards = jest.fn()
+  const mockOnMergeCards = jest.fn()
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockQueryCards = jest.fn(async (query: CardQuery) => queryCardsInMemory(cards, query))
+  })
+
+  const wordList = (sort = oldestFirst, listCards = cards) => (
+    <WordList
+      cards={listCards}
+      deckId="default"
+      decks={[]}
+      queryCards={mockQueryCards}
+      sort={sort}
+      onSortChange={mockOnSortChange}
+      onMarkKnown={jest.fn()}
+      onMarkUnknown={jest.fn()}
+      onDeleteCard={jest.fn()}
+      onUpdateCard={jest.fn()}
+      onMarkCardsKnown={mockOnMarkCardsKnown}
+      onMarkCardsUnknown={jest.fn()}
+      onPatchCards={jest.fn()}
+      onDeleteCards={mockOnDeleteCards}
+      onMergeCards={mockOnMergeCards}
+    />
+  )
+
+  const renderWordList = (sort = oldestFirst) => render(wordList(sort))
+
+  it('renders only the rows in view', async () => {
+    renderWordList()
+
+    await waitFor(() => expect(screen.getByText('word 0')).toBeTruthy())
+    expect(screen.getByText('word 14')).toBeTruthy()
+    expect(screen.queryByText('word 15')).toBeNull()
+    expect(mockQueryCards).toHaveBeenCalledWith({ text: undefined, deckId: 'default', sort: oldestFirst, limit: 50 })
+  })
+
+  it('loads the next page when scrolling near the end', async () => {
+    renderWordList()
+    await waitFor(() => expect(screen.getByText('word 0')).toBeTruthy())
+
+    fireEvent.scroll(screen.getByTestId('word-list-scroll'), { target: { scrollTop: 64 * 40 } })
+
+    await waitFor(() => expect(screen.getByText('word 54')).toBeTruthy())
+    expect(screen.queryByText('word 0')).toBeNull()
+    expect(mockQueryCards).toHaveBeenLastCalledWith(expect.objectContaining({ cursor: expect.any(String) }))
+  })
+
+  it('stops loading more after a failed page until retried', async () => {
+    renderWordList()
+    await waitFor(() => expect(screen.getByText('word 0')).toBeTruthy())
+
+    mockQueryCards.mockRejectedValueOnce(new Error('Server unreachable'))
+    fireEvent.scroll(screen.getByTestId('word-list-scroll'), { target: { scrollTop: 64 * 40 } })
+
+    await waitFor(() => expect(screen.getByText('Failed to load more words: Server unreachable')).toBeTruthy())
+    expect(mockQueryCards).toHaveBeenCalledTimes(2)
+
+    fireEvent.click(screen.getByText('Retry'))
+
+    await waitFor(() => expect(screen.getByText('word 54')).toBeTruthy())
+    expect(mockQueryCards).toHaveBeenCalledTimes(3)
+    expect(screen.queryByText('Failed to load more words: Server unreachable')).toBeNull()
+  })
+
+  it('updates changed rows in place without reading the pages again', async () => {
+    const { rerender } = renderWordList()
+    await waitFor(() => expect(screen.getByText('word 0')).toBeTruthy())
+
+    const editedCards = cards
+      .map(card => card.id === 'card-1' ? { ...card, word: 'edited word' } : card)
+      .filter(card => card.id !== 'card-2')
+    rerender(wordList(oldestFirst, editedCards))
+
+    expect(screen.getByText('edited word')).toBeTruthy()
+    expect(screen.queryByText('word 2')).toBeNull()
+    expect(mockQueryCards).toHaveBeenCalledTimes(1)
+  })
+
+  it('reads the pages again when words are added', async () => {
+    const { rerender } = renderWordList()
+    await waitFor(() => expect(screen.getByText('word 0')).toBeTruthy())
+
+    const addedCard = { ...createCard(-1), word: 'added word' }
+    mockQueryCards.mockImplementation(async (query: CardQuery) => queryCardsInMemory([addedCard, ...cards], query))
+    rerender(wordList(oldestFirst, [addedCard, ...cards]))
+
+    await waitFor(() => expect(screen.getByText('added word')).toBeTruthy())
+    expect(mockQueryCards).toHaveBeenCalledTimes(2)
+  })
+
+  it('sorts by a column and flips the direction of the current one', async () => {
+    renderWordList()
+    await waitFor(() => expect(screen.getByText('word 0')).toBeTruthy())
+
+    fireEvent.click(screen.getByText('Translation'))
+    fireEvent.click(screen.getByText('Added'))
+
+    expect(mockOnSortChange).toHaveBeenNthCalledWith(1, { field: 'translation', direction: 'asc' })
+    expect(mockOnSortChange).toHaveBeenNthCalledWith(2, { field: 'createdAt', direction: 'desc' })
+  })
+
+  it('searches the examples through the provider', async () => {
+    renderWordList()
+
+    fireEvent.change(screen.getByPlaceholderText('Search words, translations, tags, or examples...'), {
+      target: { value: 'sentence 5' }
+    })
+
+    await waitFor(() => expect(screen.getByText('Showing 11 of 60 words')).toBeTruthy(), { timeout: 3000 })
+    expect(mockQueryCards).toHaveBeenLastCalledWith(expect.objectContaining({ text: 'sentence 5' }))
+    expect(screen.getByText('"example sentence 5"')).toBeTruthy()
+  })
+
+  it('selects a range with shift-click and keeps the failed words selected', async () => {
+    mockOnMarkCardsKnown.mockResolvedValue({
+      succeeded: ['card-1', 'card-2'],
+      failed: [{ cardId: 'card-3', error: 'Card with id card-3 not found' }]
+    })
+    renderWordList()
+    await waitFor(() => expect(screen.getByText('word 0')).toBeTruthy())
+
+    fireEvent.click(screen.getByLabelText('Select word 1'))
+    fireEvent.click(screen.getByLabelText('Select word 3'), { shiftKey: true })
+    expect(screen.getByText('3 selected')).toBeTruthy()
+
+    fireEvent.click(screen.getByText('Mark known'))
+
+    await waitFor(() => expect(screen.getByText('Marked as known: 2 succeeded, 1 failed')).toBeTruthy())
+    expect(mockOnMarkCardsKnown).toHaveBeenCalledWith(['card-1', 'card-2', 'card-3'])
+    expect(screen.getByText('Card with id card-3 not found')).toBeTruthy()
+    expect(screen.getByText('1 selected')).toBeTruthy()
+  })
+
+  it('selects every matching word, including the pages not loaded yet', async () => {
+    mockOnDeleteCards.mockImplementation(async (cardIds: string[]) => ({ succeeded: cardIds, failed: [] }))
+    jest.spyOn(window, 'confirm').mockReturnValue(true)
+    renderWordList()
+    await waitFor(() => expect(screen.getByText('word 0')).toBeTruthy())
+
+    fireEvent.click(screen.getByLabelText('Select all matching words'))
+    await waitFor(() => expect(screen.getByText('60 selected')).toBeTruthy())
+
+    fireEvent.click(screen.getByText('Delete'))
+
+    await waitFor(() => expect(mockOnDeleteCards).toHaveBeenCalledTimes(1))
+    expect(mockOnDeleteCards.mock.calls[0][0]).toHaveLength(60)
+  })
+
+  it('merges a group of similar words into the one studied the most', async () => {
+    mockOnMergeCards.mockResolvedValue(undefined)
+    const similar = [
+      { ...createCard(100), id: 'colour', word: 'colour' },
+      { ...createCard(101), id: 'color', word: 'Color', repetitions: 2 },
+      { ...createCard(102), id: 'the-colour', word: 'the colour' },
+    ]
+    render(
+      <WordList
+        cards={cards.slice(0, 1).concat(similar)}
+        deckId="default"
+        decks={[]}
+        queryCards={mockQueryCards}
+        sort={oldestFirst}
+        onSortChange={mockOnSortChange}
+        onMarkKnown={jest.fn()}
+        onMarkUnknown={jest.fn()}
+        onDeleteCard={jest.fn()}
+        onUpdateCard={jest.fn()}
+        onMarkCardsKnown={mockOnMarkCardsKnown}
+        onMarkCardsUnknown={jest.fn()}
+        onPatchCards={jest.fn()}
+        onDeleteCards={mockOnDeleteCards}
+        onMergeCards={mockOnMergeCards}
+      />
+    )
+
+    fireEvent.click(screen.getByText('Find duplicates'))
+
+    expect(screen.getAllByTestId('duplicate-cluster')).toHaveLength(1)
+    fireEvent.click(screen.getByLabelText('Merge the colour'))
+    fireEvent.click(screen.getByText('Merge 2 words'))
+
+    await waitFor(() => expect(mockOnMergeCards).toHaveBeenCalledWith('color', ['colour']))
+  })
+})
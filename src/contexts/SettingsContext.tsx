@@ -4,11 +4,17 @@ import React, { createContext, useContext, useEffect, useState, ReactNode } from
 import { MongoDBConfig, ProviderConfig, AppSettings } from '../providers/types'
 import { validateProviderConfiguration } from '../utils/settingsValidation'
 import { loadSettings, saveSettings, isStorageAvailable } from '../utils/settingsStorage'
+import { DEFAULT_NEW_CARDS_PER_DAY } from '../utils/studyQueue'
+import { DEFAULT_MAX_ANSWER_DISTANCE } from '../utils/answerChecking'
+import { StudyMode } from '../types/review'
+import { CardSort } from '../types/card'
+import { DEFAULT_CARD_SORT } from '../utils/cardQuery'
+import { DEFAULT_TRASH_RETENTION_DAYS } from '../utils/trash'
 
 /**
  * Available data provider types
  */
-export type DataProviderType = 'localhost' | 'mongodb'
+export type DataProviderType = 'localhost' | 'indexeddb' | 'mongodb'
 
 /**
  * Settings context type definition
@@ -26,6 +32,18 @@ export interface SettingsContextType {
   showTranslationFirst: boolean
   setShowTranslationFirst: (show: boolean) => void
   
+  // Study preferences
+  newCardsPerDay: number
+  setNewCardsPerDay: (count: number) => void
+  studyMode: StudyMode
+  setStudyMode: (mode: StudyMode) => void
+  maxAnswerDistance: number
+  setMaxAnswerDistance: (distance: number) => void
+  wordListSort: CardSort
+  setWordListSort: (sort: CardSort) => void
+  trashRetentionDays: number
+  setTrashRetentionDays: (days: number) => void
+  
   // Full settings object
   settings: AppSettings
   updateSettings: (settings: Partial<AppSettings>) => void
@@ -58,6 +76,11 @@ const DEFAULT_SETTINGS: AppSettings = {
       displayName: 'Local Storage',
       isDefault: true
     },
+    indexeddb: {
+      name: 'indexeddb',
+      displayName: 'IndexedDB',
+      isDefault: false
+    },
     mongodb: {
       name: 'mongodb',
       displayName: 'MongoDB',
@@ -65,7 +88,12 @@ const DEFAULT_SETTINGS: AppSettings = {
       config: DEFAULT_MONGO_CONFIG
     }
   },
-  showTranslationFirst: false
+  showTranslationFirst: false,
+  newCardsPerDay: DEFAULT_NEW_CARDS_PER_DAY,
+  studyMode: 'flashcard',
+  maxAnswerDistance: DEFAULT_MAX_ANSWER_DISTANCE,
+  wordListSort: DEFAULT_CARD_SORT,
+  trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS
 }
 
 /**
@@ -140,6 +168,41 @@ export function SettingsProvider({ children }: SettingsProviderProps) {
     }))
   }
 
+  const setNewCardsPerDay = (count: number) => {
+    setSettings(prev => ({
+      ...prev,
+      newCardsPerDay: count
+    }))
+  }
+
+  const setStudyMode = (mode: StudyMode) => {
+    setSettings(prev => ({
+      ...prev,
+      studyMode: mode
+    }))
+  }
+
+  const setMaxAnswerDistance = (distance: number) => {
+    setSettings(prev => ({
+      ...prev,
+      maxAnswerDistance: distance
+    }))
+  }
+
+  const setWordListSort = (sort: CardSort) => {
+    setSettings(prev => ({
+      ...prev,
+      wordListSort: sort
+    }))
+  }
+
+  const setTrashRetentionDays = (days: number) => {
+    setSettings(prev => ({
+      ...prev,
+      trashRetentionDays: days
+    }))
+  }
+
   const updateSettings = (newSettings: Partial<AppSettings>) => {
     setSettings(prev => ({
       ...prev,
@@ -167,6 +230,16 @@ export function SettingsProvider({ children }: SettingsProviderProps) {
     setMongoConfig,
     showTranslationFirst: settings.showTranslationFirst,
     setShowTranslationFirst,
+    newCardsPerDay: settings.newCardsPerDay,
+    setNewCardsPerDay,
+    studyMode: settings.studyMode,
+    setStudyMode,
+    maxAnswerDistance: settings.maxAnswerDistance,
+    setMaxAnswerDistance,
+    wordListSort: settings.wordListSort,
+    setWordListSort,
+    trashRetentionDays: settings.trashRetentionDays,
+    setTrashRetentionDays,
     settings,
     updateSettings,
     isValidConfiguration,
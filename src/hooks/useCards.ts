@@ -1,26 +1,87 @@
 'use client'
 
-import { useState, useEffect, useCallback, useMemo } from 'react'
-import { Card, Example } from '@/types/card'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { Card, CardPatch, CardQuery, CardSchedule } from '@/types/card'
+import { DuplicateResolutions, ImportConflict, ImportData, ImportResult, ImportSummary } from '@/types/import'
+import { Deck, DEFAULT_DECK_ID } from '@/types/deck'
 import { DataProviderManager } from '@/providers/DataProviderManager'
 import { LocalStorageProvider } from '@/providers/LocalStorageProvider'
+import { HttpProvider } from '@/providers/HttpProvider'
+import { IndexedDBProvider } from '@/providers/IndexedDBProvider'
+import { DataMigrationService } from '@/providers/DataMigration'
+import { SyncProvider, SyncState } from '@/providers/SyncProvider'
 import { useSettings } from '@/contexts/SettingsContext'
-import { ProviderError, DataProviderError } from '@/providers/types'
+import { BulkOperationResult, MongoDBConfig, ProviderError } from '@/providers/types'
+import { applyGrade, createInitialSchedule, isCardDue, migrateCardSchedule, resetSchedule, ReviewGrade } from '@/utils/scheduler'
+import { buildStudyQueue, getStudyQueueCounts, mergeStudyQueue } from '@/utils/studyQueue'
+import { createReviewLog, ReviewContext } from '@/utils/reviewLog'
+import { createDeck as buildDeck, filterCardsByDeck, migrateCardDeck } from '@/utils/decks'
+import { filterCardsByTags, getAllTags, migrateCardTags, normalizeTags } from '@/utils/tags'
+import { hasClozeExercise } from '@/utils/cloze'
+import { filterActiveCards, getExpiredTrashCards, getTrashedCards, isCardDeleted } from '@/utils/trash'
+import { createCardChange, getCardChangeWrites, loadCardHistory, recordCardChange, saveCardHistory } from '@/utils/cardHistory'
+import { formatAnkiNotes } from '@/utils/anki'
+import { findImportConflicts as findConflicts, mergeImportedCard, overwriteImportedCard, toImportCardList } from '@/utils/importDuplicates'
+import { CardChange, CardHistory } from '@/types/history'
+import { ReviewLog } from '@/types/review'
+
+const SYNC_INTERVAL_MS = 30000
+
+// MongoDB is reached through the /api routes, which wrap MongoDBProvider on the server.
+// A local IndexedDB copy keeps the app working while the server is out of reach.
+// Without a client configuration the server connects with its own MONGODB_URI
+const createMongoDBProvider = (mongoConfig?: MongoDBConfig) =>
+  new SyncProvider(new IndexedDBProvider('english-cards-mongodb'), new HttpProvider({ mongoConfig }))
+
+// The fields a review changes, so reviews can be saved as patches
+const getScheduleChanges = (reviewedCard: Card): CardPatch => ({
+  easeFactor: reviewedCard.easeFactor,
+  interval: reviewedCard.interval,
+  repetitions: reviewedCard.repetitions,
+  dueAt: reviewedCard.dueAt,
+  isKnown: reviewedCard.isKnown,
+  lastReviewed: reviewedCard.lastReviewed
+})
+
+// Save text to a file through a temporary download link
+const downloadFile = (content: string, type: string, fileName: string) => {
+  const dataBlob = new Blob([content], { type })
+
+  const url = URL.createObjectURL(dataBlob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
 
 export const useCards = () => {
   const [cards, setCards] = useState<Card[]>([])
+  const [decks, setDecks] = useState<Deck[]>([])
+  const [selectedDeckId, setSelectedDeckId] = useState<string | null>(null) // null = all decks
+  const [selectedTags, setSelectedTags] = useState<string[]>([]) // empty = no tag filter
   const [currentCardIndex, setCurrentCardIndex] = useState(0)
   const [isShuffled, setIsShuffled] = useState(false)
   const [includeKnownWords, setIncludeKnownWords] = useState(false)
   const [mounted, setMounted] = useState(false)
-  const [shuffledOrder, setShuffledOrder] = useState<Card[]>([]) // Static shuffled order
+  const [studyQueue, setStudyQueue] = useState<Card[]>([]) // Static queue for the current session
 
   // Loading states for provider operations
   const [isLoading, setIsLoading] = useState(false)
   const [isSwitchingProvider, setIsSwitchingProvider] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [syncState, setSyncState] = useState<SyncState | null>(null) // null when the provider does not sync
 
-  const { dataProvider, mongoConfig, isValidConfiguration } = useSettings()
+  // Undo/redo history of card changes, read from the browser session once mounted
+  const [history, setHistory] = useState<CardHistory | null>(null)
+  const [lastRecordedChange, setLastRecordedChange] = useState<CardChange | null>(null)
+
+  // Review history, used to count the new cards already studied today when the queue is rebuilt
+  const reviewLogs = useRef<ReviewLog[]>([])
+
+  const { dataProvider, setDataProvider, mongoConfig, isValidConfiguration, newCardsPerDay, studyMode, trashRetentionDays } = useSettings()
 
   // Shuffle function - defined early to avoid initialization issues
   const shuffleArray = useCallback((array: Card[]) => {
@@ -32,6 +93,31 @@ export const useCards = () => {
     return shuffled
   }, [])
 
+  // Cards that can be studied in the current mode, cloze exercises need an example containing the word
+  const filterCardsByStudyMode = useCallback((cardList: Card[]) => {
+    return studyMode === 'cloze' ? cardList.filter(hasClozeExercise) : cardList
+  }, [studyMode])
+
+  // Build the session queue for the selected deck and tags: due cards plus today's new cards,
+  // or every card when known words are included
+  const buildQueue = useCallback((
+    cardList: Card[],
+    shuffle: boolean,
+    includeKnown: boolean,
+    deckId: string | null = selectedDeckId,
+    tags: string[] = selectedTags
+  ) => {
+    const studyCards = filterCardsByStudyMode(filterCardsByTags(filterCardsByDeck(filterActiveCards(cardList), deckId), tags))
+    const queue = includeKnown
+      ? studyCards
+      : buildStudyQueue(studyCards, { newCardsPerDay, reviewLogs: reviewLogs.current })
+    return shuffle ? shuffleArray(queue) : queue
+  }, [newCardsPerDay, shuffleArray, selectedDeckId, selectedTags, filterCardsByStudyMode])
+
+  // isValidConfiguration changes with every settings change, only its answer should rebuild the providers.
+  // An invalid configuration is not sent to the server, which may have its own
+  const isMongoConfigValid = isValidConfiguration('mongodb')
+
   // Initialize DataProviderManager with error handling
   const providerManager = useMemo(() => {
     const manager = new DataProviderManager((error: ProviderError) => {
@@ -44,20 +130,12 @@ export const useCards = () => {
 
     // Register providers
     manager.registerProvider('localhost', new LocalStorageProvider())
+    manager.registerProvider('indexeddb', new IndexedDBProvider())
 
-    // Only register MongoDB if configuration is valid and we're in a server environment
-    if (isValidConfiguration('mongodb') && typeof window === 'undefined') {
-      // Dynamic import for MongoDB provider to avoid client-side bundling issues
-      import('@/providers/MongoDBProvider').then(({ MongoDBProvider }) => {
-        manager.registerProvider('mongodb', new MongoDBProvider(mongoConfig))
-      }).catch(error => {
-        console.error('Failed to load MongoDB provider:', error)
-        setError('MongoDB provider is not available in this environment')
-      })
-    }
+    manager.registerProvider('mongodb', createMongoDBProvider(isMongoConfigValid ? mongoConfig : undefined))
 
     return manager
-  }, [mongoConfig, isValidConfiguration])
+  }, [mongoConfig, isMongoConfigValid])
 
   // Load cards from current provider
   const loadCards = useCallback(async () => {
@@ -67,16 +145,16 @@ export const useCards = () => {
     setError(null)
 
     try {
-      const loadedCards = await providerManager.getCards()
+      const [loadedCards, loadedDecks, loadedReviewLogs] = await Promise.all([
+        providerManager.getCards(),
+        providerManager.getDecks(),
+        // Without the history the queue falls back to the cards' last review dates
+        providerManager.getReviewLogs().catch(() => [] as ReviewLog[])
+      ])
+      reviewLogs.current = loadedReviewLogs
       setCards(loadedCards)
-
-      // Initialize shuffled order if currently shuffled
-      if (isShuffled) {
-        const activeCards = includeKnownWords
-          ? loadedCards
-          : loadedCards.filter(card => !card.isKnown)
-        setShuffledOrder(shuffleArray(activeCards))
-      }
+      setDecks(loadedDecks)
+      setStudyQueue(buildQueue(loadedCards, isShuffled, includeKnownWords))
     } catch (error) {
       console.error('Failed to load cards:', error)
       const errorMessage = error instanceof ProviderError
@@ -86,9 +164,14 @@ export const useCards = () => {
     } finally {
       setIsLoading(false)
     }
-  }, [mounted, providerManager, isShuffled, includeKnownWords, shuffleArray])
+  }, [mounted, providerManager, isShuffled, includeKnownWords, buildQueue])
+
+  // Latest loadCards for the provider effects, which should not reconnect when the study filters change
+  const latestLoadCards = useRef(loadCards)
+  latestLoadCards.current = loadCards
 
-  // Switch provider when dataProvider setting changes
+  // Switch provider when dataProvider setting changes. The providers are registered
+  // with the manager, which is only rebuilt when the MongoDB settings change
   useEffect(() => {
     if (!mounted) return
 
@@ -97,24 +180,8 @@ export const useCards = () => {
       setError(null)
 
       try {
-        // Register MongoDB provider if switching to it and config is valid
-        if (dataProvider === 'mongodb' && isValidConfiguration('mongodb')) {
-          if (typeof window === 'undefined') {
-            // Server-side: dynamically import MongoDB provider
-            const { MongoDBProvider } = await import('@/providers/MongoDBProvider')
-            providerManager.registerProvider('mongodb', new MongoDBProvider(mongoConfig))
-          } else {
-            // Client-side: MongoDB is not available
-            throw new ProviderError(
-              DataProviderError.PROVIDER_UNAVAILABLE,
-              'MongoDB provider is not available in the browser. Please use localhost storage.',
-              'mongodb'
-            )
-          }
-        }
-
         await providerManager.switchProvider(dataProvider)
-        await loadCards()
+        await latestLoadCards.current()
       } catch (error) {
         console.error('Failed to switch provider:', error)
         const errorMessage = error instanceof ProviderError
@@ -127,7 +194,70 @@ export const useCards = () => {
     }
 
     switchProvider()
-  }, [dataProvider, mongoConfig, isValidConfiguration, mounted, providerManager, loadCards])
+  }, [dataProvider, mounted, providerManager])
+
+  // Follow the sync state of an offline-first provider, syncing periodically
+  // and as soon as the browser is back online
+  useEffect(() => {
+    if (!mounted || isSwitchingProvider) return
+
+    const provider = providerManager.getProvider(dataProvider)
+    if (!(provider instanceof SyncProvider) || providerManager.getCurrentProvider() !== provider) {
+      setSyncState(null)
+      return
+    }
+
+    provider.onSyncStateChange = setSyncState
+    provider.onRemoteChange = () => {
+      latestLoadCards.current()
+    }
+    setSyncState(provider.getSyncState())
+
+    const sync = () => {
+      provider.sync()
+    }
+    const interval = setInterval(sync, SYNC_INTERVAL_MS)
+    window.addEventListener('online', sync)
+
+    return () => {
+      clearInterval(interval)
+      window.removeEventListener('online', sync)
+      provider.onSyncStateChange = undefined
+      provider.onRemoteChange = undefined
+    }
+  }, [mounted, isSwitchingProvider, dataProvider, providerManager])
+
+  // Latest session queue for the cross-tab listener, which should not resubscribe after every grade
+  const latestStudyQueue = useRef({ studyQueue, currentCardIndex })
+  latestStudyQueue.current = { studyQueue, currentCardIndex }
+
+  // Take in changes saved by other tabs. The session queue keeps its order and
+  // stays on the same card, deleted cards drop out of it
+  useEffect(() => {
+    if (!mounted || isSwitchingProvider) return
+
+    return providerManager.subscribe(async (change) => {
+      try {
+        if (change === 'cards') {
+          const updatedCards = await providerManager.getCards()
+          const { studyQueue: queue, currentCardIndex: queueIndex } = latestStudyQueue.current
+          const updatedQueue = mergeStudyQueue(queue, filterActiveCards(updatedCards))
+          const currentCardId = queue[queueIndex]?.id
+          const currentIndex = updatedQueue.findIndex(card => card.id === currentCardId)
+
+          setCards(updatedCards)
+          setStudyQueue(updatedQueue)
+          setCurrentCardIndex(currentIndex >= 0
+            ? currentIndex
+            : Math.max(0, Math.min(queueIndex, updatedQueue.length - 1)))
+        } else if (change === 'decks') {
+          setDecks(await providerManager.getDecks())
+        }
+      } catch (error) {
+        console.error('Failed to load changes from another tab:', error)
+      }
+    })
+  }, [mounted, isSwitchingProvider, providerManager])
 
   // Initial load
   useEffect(() => {
@@ -141,28 +271,58 @@ export const useCards = () => {
     }
   }, [mounted, loadCards])
 
-  // Save cards using current provider
-  const saveCards = useCallback(async (newCards: Card[], preserveShuffledOrder = false) => {
+  // Each provider has its own history, kept for the browser session so it survives a reload
+  useEffect(() => {
+    if (mounted) {
+      setHistory(loadCardHistory(dataProvider))
+    }
+  }, [mounted, dataProvider])
+
+  useEffect(() => {
+    if (history) {
+      saveCardHistory(history)
+    }
+  }, [history])
+
+  const recordChange = useCallback((change: CardChange) => {
+    setHistory(prev => prev && recordCardChange(prev, change))
+    setLastRecordedChange(change)
+  }, [])
+
+  // Insert or replace the changed cards and delete the given ones using the current
+  // provider, the rest of the collection is not rewritten
+  const writeCards = useCallback(async (
+    changedCards: Card[],
+    { preserveQueue = false, deletedCardIds = [] }: { preserveQueue?: boolean, deletedCardIds?: string[] } = {}
+  ) => {
     setIsLoading(true)
     setError(null)
 
     try {
-      await providerManager.saveCards(newCards)
+      await providerManager.upsertCards(changedCards)
+      if (deletedCardIds.length > 0) {
+        await providerManager.deleteCards(deletedCardIds)
+      }
+
+      const changedById = new Map(changedCards.map(card => [card.id, card] as [string, Card]))
+      const deletedIds = new Set(deletedCardIds)
+      const existingIds = new Set(cards.map(card => card.id))
+      const newCards = cards
+        .filter(card => !deletedIds.has(card.id))
+        .map(card => changedById.get(card.id) || card)
+        .concat(changedCards.filter(card => !existingIds.has(card.id)))
       setCards(newCards)
 
-      // Only regenerate shuffled order if explicitly requested (e.g., when importing new cards)
-      if (isShuffled && !preserveShuffledOrder) {
-        const activeCards = includeKnownWords
-          ? newCards
-          : newCards.filter(card => !card.isKnown)
-        setShuffledOrder(shuffleArray(activeCards))
-      } else if (isShuffled && preserveShuffledOrder) {
-        // Update existing cards in shuffled order while preserving the order
-        setShuffledOrder(prev =>
-          prev.map(shuffledCard => {
-            const updatedCard = newCards.find(card => card.id === shuffledCard.id)
-            return updatedCard || shuffledCard
-          })
+      // Only rebuild the queue if explicitly requested (e.g., when importing new cards)
+      if (!preserveQueue) {
+        setStudyQueue(buildQueue(newCards, isShuffled, includeKnownWords))
+      } else {
+        // Update existing cards in the queue while preserving the order, cards moved to the trash leave it
+        setStudyQueue(prev =>
+          prev.map(queuedCard => {
+            const updatedCard = newCards.find(card => card.id === queuedCard.id)
+            return updatedCard || queuedCard
+          }).filter(card => !isCardDeleted(card))
         )
       }
     } catch (error) {
@@ -175,107 +335,282 @@ export const useCards = () => {
     } finally {
       setIsLoading(false)
     }
-  }, [providerManager, isShuffled, includeKnownWords, shuffleArray])
+  }, [providerManager, cards, isShuffled, includeKnownWords, buildQueue])
+
+  // Change some fields of a card using the current provider, keeping its place in the session queue
+  const patchCard = useCallback(async (cardId: string, changes: CardPatch) => {
+    setIsLoading(true)
+    setError(null)
 
-  const importCards = useCallback(async (jsonData: Record<string, string> | Array<{ word: string, translation: string, examples?: Example[] }>) => {
+    try {
+      const patchedCard = await providerManager.patchCard(cardId, changes)
+      setCards(prevCards => prevCards.map(card => card.id === cardId ? patchedCard : card))
+      setStudyQueue(prev => prev.map(card => card.id === cardId ? patchedCard : card))
+      return patchedCard
+    } catch (error) {
+      console.error('Failed to update card:', error)
+      const errorMessage = error instanceof ProviderError
+        ? error.message
+        : 'Failed to update card'
+      setError(errorMessage)
+      throw error // Re-throw to allow caller to handle
+    } finally {
+      setIsLoading(false)
+    }
+  }, [providerManager])
+
+  // Change some fields of many cards with a single provider call. Cards that could not be
+  // changed are reported in the result and keep their current state
+  const patchCards = useCallback(async (
+    cardIds: string[],
+    getChanges: (card: Card) => CardPatch,
+    label: string = `Changed ${cardIds.length} words`
+  ): Promise<BulkOperationResult> => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const cardsById = new Map(cards.map(card => [card.id, card] as [string, Card]))
+      const missing = cardIds.filter(cardId => !cardsById.has(cardId))
+      const changesById = new Map(cardIds
+        .filter(cardId => cardsById.has(cardId))
+        .map(cardId => [cardId, getChanges(cardsById.get(cardId)!)] as [string, CardPatch]))
+
+      const result = await providerManager.patchCards(
+        Array.from(changesById.entries()).map(([cardId, changes]) => ({ cardId, changes }))
+      )
+      const succeeded = new Set(result.succeeded)
+      const applyChanges = (card: Card) => succeeded.has(card.id) ? { ...card, ...changesById.get(card.id) } : card
+      setCards(prevCards => prevCards.map(applyChanges))
+      setStudyQueue(prev => prev.map(applyChanges))
+
+      const changedCards = cards.filter(card => succeeded.has(card.id))
+      if (changedCards.length > 0) {
+        recordChange(createCardChange(label, changedCards, changedCards.map(applyChanges)))
+      }
+
+      return {
+        succeeded: result.succeeded,
+        failed: result.failed.concat(missing.map(cardId => ({ cardId, error: `Card with id ${cardId} not found` })))
+      }
+    } catch (error) {
+      console.error('Failed to update cards:', error)
+      const errorMessage = error instanceof ProviderError
+        ? error.message
+        : 'Failed to update cards'
+      setError(errorMessage)
+      throw error // Re-throw to allow caller to handle
+    } finally {
+      setIsLoading(false)
+    }
+  }, [providerManager, cards, recordChange])
+
+  // Find the imported words that are already in the deck, so the user can choose what to do with them
+  const findImportConflicts = useCallback((jsonData: ImportData, deckId: string = selectedDeckId || DEFAULT_DECK_ID) =>
+    findConflicts(toImportCardList(jsonData), filterCardsByDeck(filterActiveCards(cards), deckId)),
+  [cards, selectedDeckId])
+
+  // Add the imported words to a deck. Words already in the deck are skipped unless
+  // another resolution was chosen for them
+  const importCards = useCallback(async (
+    jsonData: ImportData,
+    deckId: string = selectedDeckId || DEFAULT_DECK_ID,
+    resolutions: DuplicateResolutions = {}
+  ): Promise<ImportResult> => {
     const timestamp = new Date().getTime()
-    let candidateCards: Card[]
+    const incoming = toImportCardList(jsonData)
+    const conflicts = new Map(findConflicts(incoming, filterCardsByDeck(filterActiveCards(cards), deckId))
+      .map(conflict => [conflict.index, conflict] as [number, ImportConflict]))
+
+    const newCards: Card[] = []
+    const updatedById = new Map<string, Card>()
+    const summary: ImportSummary = { added: [], skipped: [], overwritten: [], merged: [], keptBoth: [] }
+
+    incoming.forEach((cardData, index) => {
+      const conflict = conflicts.get(index)
+      const resolution = conflict ? resolutions[index] || 'skip' : null
+
+      if (conflict && resolution !== 'keepBoth') {
+        // A word can be imported more than once, each change builds on the previous one
+        const existing = updatedById.get(conflict.existing.id) || conflict.existing
+        if (resolution === 'overwrite') {
+          updatedById.set(existing.id, overwriteImportedCard(existing, cardData))
+          summary.overwritten.push(cardData.word)
+        } else if (resolution === 'merge') {
+          updatedById.set(existing.id, mergeImportedCard(existing, cardData))
+          summary.merged.push(cardData.word)
+        } else {
+          summary.skipped.push(cardData.word)
+        }
+        return
+      }
 
-    if (Array.isArray(jsonData)) {
-      // Handle array format with full card objects
-      candidateCards = jsonData.map((cardData, index) => ({
+      newCards.push({
         id: `card-${timestamp}-${index}`,
+        deckId,
         word: cardData.word,
         translation: cardData.translation,
         examples: cardData.examples || [],
+        tags: normalizeTags(cardData.tags || []),
         isKnown: false,
         createdAt: new Date(),
-      }))
-    } else {
-      // Handle simple object format (backward compatibility)
-      candidateCards = Object.entries(jsonData).map(([word, translation], index) => ({
-        id: `card-${timestamp}-${index}`,
-        word: word,
-        translation: translation,
-        examples: [],
-        isKnown: false,
-        createdAt: new Date(),
-      }))
-    }
-
-    // Filter out duplicates - only add words that don't already exist
-    const existingWords = new Set(cards.map(card => card.word.toLowerCase()))
-    const newCards = candidateCards.filter(card => !existingWords.has(card.word.toLowerCase()))
+        ...createInitialSchedule(),
+      })
+      summary[conflict ? 'keptBoth' : 'added'].push(cardData.word)
+    })
 
-    const updatedCards = [...cards, ...newCards]
-    await saveCards(updatedCards) // Don't preserve order when importing new cards
+    const updatedCards = Array.from(updatedById.values())
+    await writeCards(newCards.concat(updatedCards)) // Don't preserve order when importing new cards
+    if (newCards.length > 0 || updatedCards.length > 0) {
+      const before = cards.filter(card => updatedById.has(card.id))
+      const label = updatedCards.length > 0
+        ? `Imported ${newCards.length} words and updated ${updatedCards.length}`
+        : `Imported ${newCards.length} words`
+      recordChange(createCardChange(label, before, newCards.concat(updatedCards)))
+    }
 
     return {
       imported: newCards.length,
-      skipped: candidateCards.length - newCards.length
+      skipped: summary.skipped.length,
+      summary
     }
-  }, [cards, saveCards])
+  }, [cards, writeCards, selectedDeckId, recordChange])
+
+  // Reschedule a card from its grade. Reviews made while studying pass a context
+  // and are added to the card's review history
+  const reviewCard = useCallback(async (cardId: string, grade: ReviewGrade, context?: ReviewContext) => {
+    const card = cards.find(c => c.id === cardId)
+    if (!card) return
 
+    const reviewedAt = new Date()
+    const reviewedCard = applyGrade(card, grade, reviewedAt)
+    const patchedCard = await patchCard(cardId, getScheduleChanges(reviewedCard))
+
+    // Study reviews can be undone along with their history entry, the known/unknown toggles record their own change
+    if (context) {
+      let savedLogs: ReviewLog[] = []
+      try {
+        const log = await providerManager.saveReviewLog(createReviewLog(card, reviewedCard, grade, context, reviewedAt))
+        reviewLogs.current = reviewLogs.current.concat(log)
+        savedLogs = [log]
+      } catch (error) {
+        // The review itself is saved, a missing history entry should not interrupt studying
+        console.error('Failed to save review log:', error)
+      }
+      recordChange(createCardChange(`Reviewed "${card.word}"`, [card], [patchedCard], false, savedLogs))
+    }
+    return patchedCard
+  }, [cards, patchCard, providerManager, recordChange])
+
+  // Manual known/unknown toggles (e.g. from the word list) are recorded as easy and again grades
   const markAsKnown = useCallback(async (cardId: string) => {
-    const updatedCards = cards.map(card =>
-      card.id === cardId
-        ? { ...card, isKnown: true, lastReviewed: new Date() }
-        : card
-    )
-    await saveCards(updatedCards, true) // Preserve shuffled order
-  }, [cards, saveCards])
+    const card = cards.find(c => c.id === cardId)
+    const markedCard = await reviewCard(cardId, 'easy')
+    if (card && markedCard) {
+      recordChange(createCardChange(`Marked "${card.word}" as known`, [card], [markedCard]))
+    }
+  }, [cards, reviewCard, recordChange])
 
   const markAsUnknown = useCallback(async (cardId: string) => {
-    const updatedCards = cards.map(card =>
-      card.id === cardId
-        ? { ...card, isKnown: false, lastReviewed: new Date() }
-        : card
+    const card = cards.find(c => c.id === cardId)
+    const markedCard = await reviewCard(cardId, 'again')
+    if (card && markedCard) {
+      recordChange(createCardChange(`Marked "${card.word}" as unknown`, [card], [markedCard]))
+    }
+  }, [cards, reviewCard, recordChange])
+
+  const markCardsAsKnown = useCallback(async (cardIds: string[]) => {
+    const reviewedAt = new Date()
+    return patchCards(
+      cardIds,
+      card => getScheduleChanges(applyGrade(card, 'easy', reviewedAt)),
+      `Marked ${cardIds.length} words as known`
+    )
+  }, [patchCards])
+
+  const markCardsAsUnknown = useCallback(async (cardIds: string[]) => {
+    const reviewedAt = new Date()
+    return patchCards(
+      cardIds,
+      card => getScheduleChanges(applyGrade(card, 'again', reviewedAt)),
+      `Marked ${cardIds.length} words as unknown`
     )
-    await saveCards(updatedCards, true) // Preserve shuffled order
-  }, [cards, saveCards])
+  }, [patchCards])
 
+  // Return the session queue. Reviewed cards stay in it until the queue is rebuilt,
+  // navigation logic skips the ones that are no longer due
   const getActiveCards = useCallback(() => {
-    if (isShuffled && shuffledOrder.length > 0) {
-      // In shuffled mode, return the complete shuffled order
-      // Navigation logic will handle skipping known cards if needed
-      return shuffledOrder
-    }
-
-    // In sequential mode, filter based on includeKnownWords setting
-    return includeKnownWords
-      ? cards
-      : cards.filter(card => !card.isKnown)
-  }, [cards, includeKnownWords, isShuffled, shuffledOrder])
+    return studyQueue
+  }, [studyQueue])
+
+  // Cards outside the trash, the only ones studied, counted and listed
+  const activeCards = useMemo(() => filterActiveCards(cards), [cards])
+
+  // Cards of the selected deck, or all cards when no deck is selected
+  const deckCards = useMemo(
+    () => filterCardsByDeck(activeCards, selectedDeckId),
+    [activeCards, selectedDeckId]
+  )
+
+  // Trashed cards of the selected deck, most recently deleted first
+  const trashedCards = useMemo(
+    () => getTrashedCards(filterCardsByDeck(cards, selectedDeckId)),
+    [cards, selectedDeckId]
+  )
+
+  // Tags used in the selected deck, offered by the tag filter and the word dialogs
+  const availableTags = useMemo(() => getAllTags(deckCards), [deckCards])
+
+  // Number of due reviews and new cards left to study today
+  const studyCounts = useMemo(
+    () => getStudyQueueCounts(
+      filterCardsByStudyMode(filterCardsByTags(deckCards, selectedTags)),
+      { newCardsPerDay, reviewLogs: reviewLogs.current }
+    ),
+    [deckCards, selectedTags, newCardsPerDay, filterCardsByStudyMode]
+  )
+
+  // Whether every card in the session queue has been reviewed
+  const isQueueComplete = useMemo(
+    () => !includeKnownWords && !studyQueue.some(card => isCardDue(card)),
+    [includeKnownWords, studyQueue]
+  )
 
   const toggleShuffle = useCallback(() => {
     const newShuffledState = !isShuffled
     setIsShuffled(newShuffledState)
-
-    if (newShuffledState) {
-      // Create a new shuffled order when enabling shuffle
-      const activeCards = includeKnownWords
-        ? cards
-        : cards.filter(card => !card.isKnown)
-      setShuffledOrder(shuffleArray(activeCards))
-    }
-
+    setStudyQueue(buildQueue(cards, newShuffledState, includeKnownWords))
     setCurrentCardIndex(0) // Reset to first card when toggling shuffle
-  }, [isShuffled, cards, includeKnownWords, shuffleArray])
+  }, [isShuffled, cards, includeKnownWords, buildQueue])
 
   const toggleIncludeKnownWords = useCallback(() => {
     const newIncludeKnownWords = !includeKnownWords
     setIncludeKnownWords(newIncludeKnownWords)
+    setStudyQueue(buildQueue(cards, isShuffled, newIncludeKnownWords))
+    setCurrentCardIndex(0) // Reset to first card when toggling mode
+  }, [includeKnownWords, isShuffled, cards, buildQueue])
+
+  // Switch to another deck, or to all decks with null. The tag filter is cleared
+  // because the tags of the previous deck may not exist in the new one
+  const selectDeck = useCallback((deckId: string | null) => {
+    setSelectedDeckId(deckId)
+    setSelectedTags([])
+    setStudyQueue(buildQueue(cards, isShuffled, includeKnownWords, deckId, []))
+    setCurrentCardIndex(0)
+  }, [cards, isShuffled, includeKnownWords, buildQueue])
 
-    // Update shuffled order if currently shuffled
-    if (isShuffled) {
-      const activeCards = newIncludeKnownWords
-        ? cards
-        : cards.filter(card => !card.isKnown)
-      setShuffledOrder(shuffleArray(activeCards))
-    }
+  // Only study cards with at least one of the tags, or every card with an empty list
+  const selectTags = useCallback((tags: string[]) => {
+    setSelectedTags(tags)
+    setStudyQueue(buildQueue(cards, isShuffled, includeKnownWords, selectedDeckId, tags))
+    setCurrentCardIndex(0)
+  }, [cards, isShuffled, includeKnownWords, selectedDeckId, buildQueue])
 
-    setCurrentCardIndex(0) // Reset to first card when toggling mode
-  }, [includeKnownWords, isShuffled, cards, shuffleArray])
+  // Rebuild the queue, e.g. to pick up cards that became due or when the daily limit changes
+  const rebuildStudyQueue = useCallback(() => {
+    setStudyQueue(buildQueue(cards, isShuffled, includeKnownWords))
+    setCurrentCardIndex(0)
+  }, [cards, isShuffled, includeKnownWords, buildQueue])
 
   // Helper function to find next valid card index
   const findNextValidCardIndex = useCallback((currentIndex: number, direction: 'next' | 'prev' = 'next') => {
@@ -297,8 +632,8 @@ export const useCards = () => {
       const card = allCards[nextIndex]
       if (!card) break
 
-      // If includeKnownWords is true, or card is not known, this is valid
-      if (includeKnownWords || !card.isKnown) {
+      // If includeKnownWords is true, or card is still due, this is valid
+      if (includeKnownWords || isCardDue(card)) {
         return nextIndex
       }
     } while (attempts < maxAttempts)
@@ -319,30 +654,29 @@ export const useCards = () => {
   }, [currentCardIndex, findNextValidCardIndex])
 
   const resetProgress = useCallback(async () => {
-    const resetCards = cards.map(card => ({ ...card, isKnown: false }))
-    await saveCards(resetCards, true) // Preserve shuffled order when resetting progress
+    const resetCards = cards.map(card => resetSchedule(card))
+    await writeCards(resetCards) // Rebuild the queue so every card is studied again
     setCurrentCardIndex(0)
-  }, [cards, saveCards])
+    recordChange(createCardChange('Reset progress', cards, resetCards, true))
+  }, [cards, writeCards, recordChange])
 
+  // Cards in the trash are kept apart so the counts and the list only cover the words in use
   const exportProgress = () => {
     const exportData = {
       exportDate: new Date().toISOString(),
-      totalCards: cards.length,
-      knownCards: cards.filter(card => card.isKnown).length,
-      cards: cards
+      totalCards: activeCards.length,
+      knownCards: activeCards.filter(card => card.isKnown).length,
+      cards: activeCards,
+      trashedCards: getTrashedCards(cards)
     }
 
     const dataStr = JSON.stringify(exportData, null, 2)
-    const dataBlob = new Blob([dataStr], { type: 'application/json' })
-
-    const url = URL.createObjectURL(dataBlob)
-    const link = document.createElement('a')
-    link.href = url
-    link.download = `english-cards-progress-${new Date().toISOString().split('T')[0]}.json`
-    document.body.appendChild(link)
-    link.click()
-    document.body.removeChild(link)
-    URL.revokeObjectURL(url)
+    downloadFile(dataStr, 'application/json', `english-cards-progress-${new Date().toISOString().split('T')[0]}.json`)
+  }
+
+  // Export the words of the selected deck for Anki's "Notes in Plain Text" import
+  const exportAnkiNotes = () => {
+    downloadFile(formatAnkiNotes(deckCards), 'text/plain', `english-cards-anki-${new Date().toISOString().split('T')[0]}.txt`)
   }
 
   const importProgress = useCallback((file: File) => {
@@ -357,17 +691,26 @@ export const useCards = () => {
           if (!importData.cards || !Array.isArray(importData.cards)) {
             throw new Error('Invalid progress file format')
           }
+          if (importData.trashedCards !== undefined && !Array.isArray(importData.trashedCards)) {
+            throw new Error('Invalid progress file format')
+          }
 
-          // Convert date strings back to Date objects
-          const importedCards = importData.cards.map((card: any) => ({
+          // Convert date strings back to Date objects and migrate older progress files,
+          // which kept the trashed cards in the same list
+          const importedCards = importData.cards.concat(importData.trashedCards || []).map((card: any) => migrateCardSchedule(migrateCardTags(migrateCardDeck({
             ...card,
             createdAt: new Date(card.createdAt),
             lastReviewed: card.lastReviewed ? new Date(card.lastReviewed) : undefined,
-          }))
+            deletedAt: card.deletedAt ? new Date(card.deletedAt) : undefined,
+          }))))
 
           // Replace current cards with imported ones
-          await saveCards(importedCards) // Don't preserve order when importing progress
+          const importedIds = new Set(importedCards.map((card: Card) => card.id))
+          await writeCards(importedCards, {
+            deletedCardIds: cards.filter(card => !importedIds.has(card.id)).map(card => card.id)
+          }) // Don't preserve order when importing progress
           setCurrentCardIndex(0)
+          recordChange(createCardChange('Imported progress', cards, importedCards, true))
           resolve()
         } catch (error) {
           reject(new Error('Failed to import progress file'))
@@ -376,53 +719,172 @@ export const useCards = () => {
       reader.onerror = () => reject(new Error('Failed to read file'))
       reader.readAsText(file)
     })
-  }, [saveCards])
+  }, [cards, writeCards, recordChange])
+
+  // Remove cards from the session queue, keeping the current card in range
+  const dropFromQueue = useCallback((cardIds: Set<string>) => {
+    const updatedQueue = studyQueue.filter(card => !cardIds.has(card.id))
+    setStudyQueue(updatedQueue)
+    if (currentCardIndex >= updatedQueue.length) {
+      setCurrentCardIndex(Math.max(updatedQueue.length - 1, 0))
+    }
+  }, [studyQueue, currentCardIndex])
 
+  // Move a card to the trash, it can be restored until it is purged
   const deleteCard = useCallback(async (cardId: string) => {
     setIsLoading(true)
     setError(null)
 
     try {
-      await providerManager.deleteCard(cardId)
+      const deletedCard = await providerManager.patchCard(cardId, { deletedAt: new Date() })
 
       // Update local state
-      const updatedCards = cards.filter(card => card.id !== cardId)
-      setCards(updatedCards)
+      const previousCard = cards.find(card => card.id === cardId)
+      setCards(cards.map(card => card.id === cardId ? deletedCard : card))
+      if (previousCard) {
+        recordChange(createCardChange(`Moved "${previousCard.word}" to the trash`, [previousCard], [deletedCard], true))
+      }
 
-      // Update shuffled order if currently shuffled
-      if (isShuffled) {
-        setShuffledOrder(prev => prev.filter(card => card.id !== cardId))
+      dropFromQueue(new Set([cardId]))
+    } catch (error) {
+      console.error('Failed to delete card:', error)
+      const errorMessage = error instanceof ProviderError
+        ? error.message
+        : 'Failed to delete card'
+      setError(errorMessage)
+      throw error // Re-throw to allow caller to handle
+    } finally {
+      setIsLoading(false)
+    }
+  }, [providerManager, cards, dropFromQueue, recordChange])
+
+  // Move many cards to the trash with a single provider call, the ones that could not be moved are reported
+  const deleteCards = useCallback(async (cardIds: string[]): Promise<BulkOperationResult> => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const deletedAt = new Date()
+      const result = await providerManager.patchCards(cardIds.map(cardId => ({ cardId, changes: { deletedAt } })))
+      const deletedIds = new Set(result.succeeded)
+      const previousCards = cards.filter(card => deletedIds.has(card.id))
+      const deletedCards = previousCards.map(card => ({ ...card, deletedAt }))
+      setCards(cards.map(card => deletedIds.has(card.id) ? { ...card, deletedAt } : card))
+      if (deletedIds.size > 0) {
+        recordChange(createCardChange(`Moved ${deletedIds.size} words to the trash`, previousCards, deletedCards, true))
       }
 
-      // Adjust current card index if necessary
-      // Calculate active cards based on updated cards
-      const activeCards = includeKnownWords
-        ? updatedCards
-        : updatedCards.filter(card => !card.isKnown)
+      dropFromQueue(deletedIds)
+      return result
+    } catch (error) {
+      console.error('Failed to delete cards:', error)
+      const errorMessage = error instanceof ProviderError
+        ? error.message
+        : 'Failed to delete cards'
+      setError(errorMessage)
+      throw error // Re-throw to allow caller to handle
+    } finally {
+      setIsLoading(false)
+    }
+  }, [providerManager, cards, dropFromQueue, recordChange])
+
+  // Combine duplicate words into one card: their examples, tags and translations are
+  // added to the kept card, which keeps its progress, and the others go to the trash
+  const mergeCards = useCallback(async (keptCardId: string, mergedCardIds: string[]) => {
+    const keptCard = cards.find(card => card.id === keptCardId)
+    const ids = new Set(mergedCardIds)
+    const mergedCards = cards.filter(card => ids.has(card.id) && card.id !== keptCardId)
+    if (!keptCard || mergedCards.length === 0) return
+
+    const deletedAt = new Date()
+    const changedCards = [mergedCards.reduce(mergeImportedCard, keptCard)]
+      .concat(mergedCards.map(card => ({ ...card, deletedAt })))
+    await writeCards(changedCards, { preserveQueue: true })
+    recordChange(createCardChange(
+      `Merged ${mergedCards.length + 1} words into "${keptCard.word}"`,
+      [keptCard].concat(mergedCards),
+      changedCards,
+      true
+    ))
+  }, [cards, writeCards, recordChange])
+
+  // Take cards out of the trash. They are written whole so that the deletion
+  // date is removed by every provider
+  const restoreCards = useCallback(async (cardIds: string[]) => {
+    const ids = new Set(cardIds)
+    const previousCards = cards.filter(card => ids.has(card.id) && isCardDeleted(card))
+    if (previousCards.length === 0) return
+
+    const restoredCards = previousCards.map(card => ({ ...card, deletedAt: undefined }))
+    await writeCards(restoredCards) // Rebuild the queue so the restored cards can be studied
+    recordChange(createCardChange(
+      previousCards.length === 1 ? `Restored "${previousCards[0].word}"` : `Restored ${previousCards.length} words`,
+      previousCards,
+      restoredCards
+    ))
+  }, [cards, writeCards, recordChange])
+
+  // Delete cards for good with a single provider call
+  const purgeCards = useCallback(async (cardIds: string[]): Promise<BulkOperationResult> => {
+    setIsLoading(true)
+    setError(null)
 
-      if (currentCardIndex >= activeCards.length && activeCards.length > 0) {
-        setCurrentCardIndex(activeCards.length - 1)
-      } else if (activeCards.length === 0) {
-        setCurrentCardIndex(0)
+    try {
+      const result = await providerManager.deleteCards(cardIds)
+      const purgedIds = new Set(result.succeeded)
+      const purgedCards = cards.filter(card => purgedIds.has(card.id))
+      setCards(cards.filter(card => !purgedIds.has(card.id)))
+      if (purgedCards.length > 0) {
+        recordChange(createCardChange(
+          purgedCards.length === 1 ? `Deleted "${purgedCards[0].word}" forever` : `Deleted ${purgedCards.length} words forever`,
+          purgedCards,
+          [],
+          true
+        ))
       }
+
+      dropFromQueue(purgedIds)
+      return result
     } catch (error) {
-      console.error('Failed to delete card:', error)
+      console.error('Failed to delete cards:', error)
       const errorMessage = error instanceof ProviderError
         ? error.message
-        : 'Failed to delete card'
+        : 'Failed to delete cards'
       setError(errorMessage)
       throw error // Re-throw to allow caller to handle
     } finally {
       setIsLoading(false)
     }
-  }, [providerManager, cards, currentCardIndex, includeKnownWords, isShuffled])
+  }, [providerManager, cards, dropFromQueue, recordChange])
 
-  // Add a new card using the provider
-  const addCard = useCallback(async (cardData: Omit<Card, 'id' | 'createdAt'>) => {
+  // Purge the cards kept in the trash longer than the retention period
+  const purgingCardIds = useRef(new Set<string>())
+  useEffect(() => {
+    if (!mounted || isSwitchingProvider) return
+
+    const expiredIds = getExpiredTrashCards(cards, trashRetentionDays)
+      .map(card => card.id)
+      .filter(cardId => !purgingCardIds.current.has(cardId))
+    if (expiredIds.length === 0) return
+
+    expiredIds.forEach(cardId => purgingCardIds.current.add(cardId))
+    providerManager.deleteCards(expiredIds)
+      .then(result => {
+        const purgedIds = new Set(result.succeeded)
+        setCards(prevCards => prevCards.filter(card => !purgedIds.has(card.id)))
+      })
+      .catch(error => console.error('Failed to empty the trash:', error))
+      .then(() => expiredIds.forEach(cardId => purgingCardIds.current.delete(cardId)))
+  }, [mounted, isSwitchingProvider, cards, trashRetentionDays, providerManager])
+
+  // Add a new card using the provider, to the selected deck unless a deck is given
+  const addCard = useCallback(async (cardData: Omit<Card, 'id' | 'createdAt' | 'deckId' | keyof CardSchedule> & { deckId?: string }) => {
     const newCard: Card = {
       ...cardData,
+      deckId: cardData.deckId || selectedDeckId || DEFAULT_DECK_ID,
       id: `card-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      createdAt: new Date()
+      createdAt: new Date(),
+      ...createInitialSchedule()
     }
 
     setIsLoading(true)
@@ -433,16 +895,12 @@ export const useCards = () => {
       setCards(prevCards => {
         const updatedCards = [...prevCards, newCard]
 
-        // Update shuffled order if currently shuffled
-        if (isShuffled) {
-          const activeCards = includeKnownWords
-            ? updatedCards
-            : updatedCards.filter(card => !card.isKnown)
-          setShuffledOrder(shuffleArray(activeCards))
-        }
+        // Rebuild the queue so the new card can be studied
+        setStudyQueue(buildQueue(updatedCards, isShuffled, includeKnownWords))
 
         return updatedCards
       })
+      recordChange(createCardChange(`Added "${newCard.word}"`, [], [newCard]))
       return newCard
     } catch (error) {
       console.error('Failed to add card:', error)
@@ -454,7 +912,7 @@ export const useCards = () => {
     } finally {
       setIsLoading(false)
     }
-  }, [providerManager, isShuffled, includeKnownWords, shuffleArray])
+  }, [providerManager, isShuffled, includeKnownWords, buildQueue, selectedDeckId, recordChange])
 
   // Update an existing card using the provider
   const updateCard = useCallback(async (updatedCard: Card) => {
@@ -462,23 +920,25 @@ export const useCards = () => {
     setError(null)
 
     try {
+      const previousCard = cards.find(card => card.id === updatedCard.id)
       await providerManager.updateCard(updatedCard)
       setCards(prevCards => {
         const newCards = prevCards.map(card =>
           card.id === updatedCard.id ? updatedCard : card
         )
 
-        // Update shuffled order if currently shuffled
-        if (isShuffled) {
-          setShuffledOrder(prev =>
-            prev.map(card =>
-              card.id === updatedCard.id ? updatedCard : card
-            )
+        // Update the card in the session queue
+        setStudyQueue(prev =>
+          prev.map(card =>
+            card.id === updatedCard.id ? updatedCard : card
           )
-        }
+        )
 
         return newCards
       })
+      if (previousCard) {
+        recordChange(createCardChange(`Edited "${previousCard.word}"`, [previousCard], [updatedCard]))
+      }
       return updatedCard
     } catch (error) {
       console.error('Failed to update card:', error)
@@ -490,13 +950,211 @@ export const useCards = () => {
     } finally {
       setIsLoading(false)
     }
-  }, [providerManager, isShuffled])
+  }, [providerManager, cards, recordChange])
+
+  // Undo the latest recorded change, or redo the latest undone one, by writing back
+  // the state of the cards it affected
+  const isApplyingHistory = useRef(false)
+  // Undoing a review removes its history entry, redoing it saves the entry again
+  const applyHistoryReviewLogs = useCallback(async (logs: ReviewLog[], direction: 'undo' | 'redo') => {
+    if (logs.length === 0) return
+
+    const logIds = new Set(logs.map(log => log.id))
+    try {
+      if (direction === 'undo') {
+        for (const log of logs) {
+          await providerManager.deleteReviewLog(log.id)
+        }
+        reviewLogs.current = reviewLogs.current.filter(log => !logIds.has(log.id))
+      } else {
+        await providerManager.saveReviewLogs(logs)
+        reviewLogs.current = reviewLogs.current.filter(log => !logIds.has(log.id)).concat(logs)
+      }
+    } catch (error) {
+      // The cards are already restored, the review history is not worth failing the undo for
+      console.error('Failed to update review logs:', error)
+    }
+  }, [providerManager])
+
+  const applyHistoryChange = useCallback(async (direction: 'undo' | 'redo') => {
+    const change = !history ? undefined
+      : direction === 'undo' ? history.past[history.past.length - 1] : history.future[0]
+    if (!change || isApplyingHistory.current) return null
+
+    isApplyingHistory.current = true
+    try {
+      const { cards: changedCards, deletedCardIds } = getCardChangeWrites(change, direction)
+      const existingIds = new Set(cards.map(card => card.id))
+      await writeCards(changedCards, {
+        // Edits keep the session order, restored or removed cards need a new queue
+        preserveQueue: deletedCardIds.length === 0 && changedCards.every(card => existingIds.has(card.id)),
+        deletedCardIds
+      })
+      await applyHistoryReviewLogs(change.reviewLogs || [], direction)
+      setHistory(prev => prev && (direction === 'undo'
+        ? { ...prev, past: prev.past.slice(0, -1), future: [change].concat(prev.future) }
+        : { ...prev, past: prev.past.concat(change), future: prev.future.slice(1) }))
+      return change
+    } finally {
+      isApplyingHistory.current = false
+    }
+  }, [history, cards, writeCards, applyHistoryReviewLogs])
+
+  const undo = useCallback(() => applyHistoryChange('undo'), [applyHistoryChange])
+  const redo = useCallback(() => applyHistoryChange('redo'), [applyHistoryChange])
+
+  // Create a new deck using the provider
+  const createDeck = useCallback(async (deckData: Omit<Deck, 'id' | 'createdAt'>) => {
+    const newDeck = buildDeck(deckData)
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      await providerManager.saveDeck(newDeck)
+      setDecks(prevDecks => [...prevDecks, newDeck])
+      return newDeck
+    } catch (error) {
+      console.error('Failed to create deck:', error)
+      const errorMessage = error instanceof ProviderError
+        ? error.message
+        : 'Failed to create deck'
+      setError(errorMessage)
+      throw error // Re-throw to allow caller to handle
+    } finally {
+      setIsLoading(false)
+    }
+  }, [providerManager])
+
+  // Update an existing deck using the provider
+  const updateDeck = useCallback(async (updatedDeck: Deck) => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      await providerManager.updateDeck(updatedDeck)
+      setDecks(prevDecks =>
+        prevDecks.map(deck => deck.id === updatedDeck.id ? updatedDeck : deck)
+      )
+      return updatedDeck
+    } catch (error) {
+      console.error('Failed to update deck:', error)
+      const errorMessage = error instanceof ProviderError
+        ? error.message
+        : 'Failed to update deck'
+      setError(errorMessage)
+      throw error // Re-throw to allow caller to handle
+    } finally {
+      setIsLoading(false)
+    }
+  }, [providerManager])
+
+  // Delete a deck together with its cards
+  const deleteDeck = useCallback(async (deckId: string) => {
+    // Cards without a deck go to the default deck, so it cannot be deleted
+    if (deckId === DEFAULT_DECK_ID) {
+      setError('The default deck cannot be deleted')
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      // The deck's cards go to the trash first, moved to the default deck so they can
+      // be restored after their deck is gone. Deleting the deck would delete them for good
+      const deletedAt = new Date()
+      const deckCards = cards.filter(card => card.deckId === deckId)
+      const movedCards = deckCards.map(card => ({ ...card, deckId: DEFAULT_DECK_ID }))
+      const trashedCards = movedCards.map(card => isCardDeleted(card) ? card : { ...card, deletedAt })
+      await providerManager.upsertCards(trashedCards)
+      await providerManager.deleteDeck(deckId)
+
+      const trashedById = new Map(trashedCards.map(card => [card.id, card] as [string, Card]))
+      const remainingCards = cards.map(card => trashedById.get(card.id) || card)
+      const nextDeckId = selectedDeckId === deckId ? null : selectedDeckId
+      const activeCards = movedCards.filter(card => !isCardDeleted(card))
+      if (activeCards.length > 0) {
+        const deckName = decks.find(deck => deck.id === deckId)?.name
+        recordChange(createCardChange(
+          `Moved ${activeCards.length} words of the deck "${deckName}" to the trash`,
+          activeCards,
+          activeCards.map(card => trashedById.get(card.id)!),
+          true
+        ))
+      }
+      setCards(remainingCards)
+      setDecks(prevDecks => prevDecks.filter(deck => deck.id !== deckId))
+      setSelectedDeckId(nextDeckId)
+      setStudyQueue(buildQueue(remainingCards, isShuffled, includeKnownWords, nextDeckId))
+      setCurrentCardIndex(0)
+    } catch (error) {
+      console.error('Failed to delete deck:', error)
+      const errorMessage = error instanceof ProviderError
+        ? error.message
+        : 'Failed to delete deck'
+      setError(errorMessage)
+      throw error // Re-throw to allow caller to handle
+    } finally {
+      setIsLoading(false)
+    }
+  }, [providerManager, cards, decks, selectedDeckId, isShuffled, includeKnownWords, buildQueue, recordChange])
+
+  // Hide the error once the user has seen it
+  const clearError = useCallback(() => setError(null), [])
 
   // Add a function to manually refresh cards from provider
   const refreshCards = useCallback(async () => {
     await loadCards()
   }, [loadCards])
 
+  // One filtered and sorted page of cards, read by the provider instead of from the loaded cards
+  const queryCards = useCallback((query: CardQuery) => {
+    return providerManager.queryCards(query)
+  }, [providerManager])
+
+  // Sync the offline-first provider right away instead of waiting for the next interval
+  const syncNow = useCallback(async () => {
+    const provider = providerManager.getProvider(dataProvider)
+    if (provider instanceof SyncProvider) {
+      await provider.sync()
+    }
+  }, [providerManager, dataProvider])
+
+  // Copy everything from localStorage into IndexedDB, then switch to it
+  const migrateToIndexedDB = useCallback(async () => {
+    const source = providerManager.getProvider('localhost')
+    const target = providerManager.getProvider('indexeddb')
+    if (!source || !target) return false
+
+    setIsSwitchingProvider(true)
+    setError(null)
+
+    try {
+      const result = await new DataMigrationService().migrateData(source, target, {
+        createBackup: false,
+        overwriteExisting: true
+      })
+
+      if (!result.success) {
+        setError(result.errors[0]?.message ?? 'Failed to move cards to IndexedDB')
+        return false
+      }
+
+      setDataProvider('indexeddb')
+      return true
+    } catch (error) {
+      console.error('Failed to move cards to IndexedDB:', error)
+      const errorMessage = error instanceof ProviderError
+        ? error.message
+        : 'Failed to move cards to IndexedDB'
+      setError(errorMessage)
+      throw error // Re-throw to allow caller to handle
+    } finally {
+      setIsSwitchingProvider(false)
+    }
+  }, [providerManager, setDataProvider])
+
   // Add function to get current provider info
   const getProviderInfo = useCallback(() => {
     try {
@@ -518,13 +1176,20 @@ export const useCards = () => {
 
   return {
     // Original interface (maintained for backward compatibility)
-    cards,
+    cards: activeCards,
     currentCardIndex,
     setCurrentCardIndex,
     importCards,
+    findImportConflicts,
+    reviewCard,
     markAsKnown,
     markAsUnknown,
+    markCardsAsKnown,
+    markCardsAsUnknown,
     getActiveCards,
+    studyCounts,
+    isQueueComplete,
+    rebuildStudyQueue,
     resetProgress,
     isShuffled,
     toggleShuffle,
@@ -532,16 +1197,51 @@ export const useCards = () => {
     toggleIncludeKnownWords,
     exportProgress,
     importProgress,
+    exportAnkiNotes,
     deleteCard,
+    deleteCards,
+    mergeCards,
+
+    // Trash
+    trashedCards,
+    restoreCards,
+    purgeCards,
+
+    // Undo/redo
+    undo,
+    redo,
+    canUndo: !!history && history.past.length > 0,
+    canRedo: !!history && history.future.length > 0,
+    lastRecordedChange,
+
+    // Decks
+    decks,
+    selectedDeckId,
+    selectDeck,
+    deckCards,
+    createDeck,
+    updateDeck,
+    deleteDeck,
+
+    // Tags
+    availableTags,
+    selectedTags,
+    selectTags,
 
     // New provider-related functionality
     addCard,
     updateCard,
+    patchCards,
     isLoading,
     isSwitchingProvider,
     error,
+    clearError,
     refreshCards,
+    queryCards,
     getProviderInfo,
+    migrateToIndexedDB,
+    syncState,
+    syncNow,
 
     // Navigation helpers
     navigateToNext,
@@ -1,5 +1,7 @@
 import { Card } from '../types/card'
-import { IDataProvider, ProviderError, DataProviderError } from './types'
+import { Deck, DEFAULT_DECK_ID } from '../types/deck'
+import { ReviewLog } from '../types/review'
+import { IDataProvider, ProviderError, DataProviderError, supportsReviewLogs } from './types'
 
 /**
  * Migration status enumeration
@@ -50,6 +52,8 @@ export interface DataExport {
   sourceProvider: string
   totalCards: number
   cards: Card[]
+  decks?: Deck[] // missing in exports made before decks existed
+  reviewLogs?: ReviewLog[] // missing in exports from providers without review history
   metadata: {
     exportedBy: string
     checksum: string
@@ -105,8 +109,12 @@ export class DataMigrationService {
         startTime: new Date()
       })
 
-      // Get all cards from the provider
+      // Get all cards, decks and review history from the provider
       const cards = await provider.getCards()
+      const decks = await provider.getDecks()
+      const reviewLogs = supportsReviewLogs(provider)
+        ? await provider.getReviewLogs()
+        : undefined
       
       this.updateProgress({
         status: MigrationStatus.EXPORTING,
@@ -125,6 +133,8 @@ export class DataMigrationService {
         sourceProvider: provider.getProviderName(),
         totalCards: cards.length,
         cards: cards,
+        decks,
+        reviewLogs,
         metadata: {
           exportedBy: 'DataMigrationService',
           checksum: this.calculateChecksum(cards)
@@ -213,12 +223,24 @@ export class DataMigrationService {
       })
 
       // Check for existing data if not overwriting
-      if (!mergedOptions.overwriteExisting) {
-        const existingCards = await provider.getCards()
-        if (existingCards.length > 0) {
+      const existingCards = await provider.getCards()
+      if (!mergedOptions.overwriteExisting && existingCards.length > 0) {
+        throw new ProviderError(
+          DataProviderError.OPERATION_FAILED,
+          'Target provider contains existing data. Use overwriteExisting option to replace.',
+          provider.getProviderName()
+        )
+      }
+
+      // Overwriting replaces the target's cards, cards missing from the export are removed
+      const exportedIds = new Set(exportData.cards.map(card => card.id))
+      const removedIds = existingCards.filter(card => !exportedIds.has(card.id)).map(card => card.id)
+      if (removedIds.length > 0) {
+        const { failed } = await provider.deleteCards(removedIds)
+        if (failed.length > 0) {
           throw new ProviderError(
             DataProviderError.OPERATION_FAILED,
-            'Target provider contains existing data. Use overwriteExisting option to replace.',
+            `Failed to remove ${failed.length} cards missing from the export: ${failed[0].error}`,
             provider.getProviderName()
           )
         }
@@ -234,9 +256,22 @@ export class DataMigrationService {
         startTime: this.currentMigration!.startTime
       })
 
+      // Import decks before the cards that belong to them
+      if (exportData.decks) {
+        await this.importDecks(provider, exportData.decks)
+      }
+
       // Import cards in batches
       await this.importCardsInBatches(provider, exportData.cards, mergedOptions)
 
+      // Import review history when both sides have it
+      if (exportData.reviewLogs && supportsReviewLogs(provider)) {
+        await provider.saveReviewLogs(exportData.reviewLogs.map(log => ({
+          ...log,
+          reviewedAt: new Date(log.reviewedAt)
+        })))
+      }
+
       if (mergedOptions.validateData) {
         this.updateProgress({
           status: MigrationStatus.VALIDATING,
@@ -564,6 +599,25 @@ export class DataMigrationService {
     }
   }
 
+  /**
+   * Import decks, updating the ones the target already has. The default deck goes
+   * first because saving another deck may create it implicitly
+   */
+  private async importDecks(provider: IDataProvider, decks: Deck[]): Promise<void> {
+    const existingDeckIds = new Set((await provider.getDecks()).map(deck => deck.id))
+    const sortedDecks = [...decks].sort((a, b) => Number(b.id === DEFAULT_DECK_ID) - Number(a.id === DEFAULT_DECK_ID))
+
+    for (const deck of sortedDecks) {
+      const restoredDeck = { ...deck, createdAt: new Date(deck.createdAt) }
+      if (existingDeckIds.has(deck.id)) {
+        await provider.updateDeck(restoredDeck)
+      } else {
+        await provider.saveDeck(restoredDeck)
+        existingDeckIds.add(deck.id)
+      }
+    }
+  }
+
   /**
    * Import cards in batches for better performance
    */
@@ -590,7 +644,7 @@ export class DataMigrationService {
       
       while (retryCount <= options.retryAttempts) {
         try {
-          await provider.saveCards(batch)
+          await provider.upsertCards(batch)
           processedCount += batch.length
           
           // Update progress
@@ -627,6 +681,22 @@ export class DataMigrationService {
       )
     }
 
+    if (exportData.decks !== undefined && !Array.isArray(exportData.decks)) {
+      throw new ProviderError(
+        DataProviderError.OPERATION_FAILED,
+        'Invalid deck format',
+        'migration'
+      )
+    }
+
+    if (exportData.reviewLogs !== undefined && !Array.isArray(exportData.reviewLogs)) {
+      throw new ProviderError(
+        DataProviderError.OPERATION_FAILED,
+        'Invalid review history format',
+        'migration'
+      )
+    }
+
     if (exportData.totalCards !== exportData.cards.length) {
       throw new ProviderError(
         DataProviderError.OPERATION_FAILED,
@@ -1,11 +1,13 @@
-import { Card } from '../types/card'
-import { IDataProvider, IDataProviderWithStatus, ProviderError, DataProviderError, ProviderStatus, ProviderStatusInfo } from './types'
+import { Card, CardPatch, CardPatchEntry, CardQuery, CardQueryResult } from '../types/card'
+import { Deck } from '../types/deck'
+import { ReviewLog } from '../types/review'
+import { IDataProvider, IDataProviderWithStatus, IReviewLogProvider, IChangeNotifyingProvider, DataChangeType, BulkOperationResult, ProviderError, DataProviderError, ProviderStatus, ProviderStatusInfo, supportsReviewLogs, supportsChangeNotifications } from './types'
 import { FallbackHandler, ErrorNotification, ErrorNotificationHandler } from './FallbackHandler'
 
 /**
  * Central manager for data provider operations and switching
  */
-export class DataProviderManager implements IDataProviderWithStatus {
+export class DataProviderManager implements IDataProviderWithStatus, IReviewLogProvider, IChangeNotifyingProvider {
   private currentProvider: IDataProvider | null = null
   private providers: Map<string, IDataProvider> = new Map()
   private fallbackProvider: IDataProvider | null = null
@@ -218,6 +220,147 @@ export class DataProviderManager implements IDataProviderWithStatus {
     )
   }
 
+  async patchCard(cardId: string, changes: CardPatch): Promise<Card> {
+    return await this.fallbackHandler.executeWithFallback(
+      this.getCurrentProvider(),
+      this.fallbackProvider,
+      (provider) => provider.patchCard(cardId, changes),
+      'patchCard'
+    )
+  }
+
+  async queryCards(query: CardQuery): Promise<CardQueryResult> {
+    return await this.fallbackHandler.executeWithFallback(
+      this.getCurrentProvider(),
+      this.fallbackProvider,
+      (provider) => provider.queryCards(query),
+      'queryCards'
+    )
+  }
+
+  async upsertCards(cards: Card[]): Promise<Card[]> {
+    return await this.fallbackHandler.executeWithFallback(
+      this.getCurrentProvider(),
+      this.fallbackProvider,
+      (provider) => provider.upsertCards(cards),
+      'upsertCards'
+    )
+  }
+
+  async patchCards(patches: CardPatchEntry[]): Promise<BulkOperationResult> {
+    return await this.fallbackHandler.executeWithFallback(
+      this.getCurrentProvider(),
+      this.fallbackProvider,
+      (provider) => provider.patchCards(patches),
+      'patchCards'
+    )
+  }
+
+  async deleteCards(cardIds: string[]): Promise<BulkOperationResult> {
+    return await this.fallbackHandler.executeWithFallback(
+      this.getCurrentProvider(),
+      this.fallbackProvider,
+      (provider) => provider.deleteCards(cardIds),
+      'deleteCards'
+    )
+  }
+
+  async getDecks(): Promise<Deck[]> {
+    return await this.fallbackHandler.executeWithFallback(
+      this.getCurrentProvider(),
+      this.fallbackProvider,
+      (provider) => provider.getDecks(),
+      'getDecks'
+    )
+  }
+
+  async saveDeck(deck: Deck): Promise<Deck> {
+    return await this.fallbackHandler.executeWithFallback(
+      this.getCurrentProvider(),
+      this.fallbackProvider,
+      (provider) => provider.saveDeck(deck),
+      'saveDeck'
+    )
+  }
+
+  async updateDeck(deck: Deck): Promise<Deck> {
+    return await this.fallbackHandler.executeWithFallback(
+      this.getCurrentProvider(),
+      this.fallbackProvider,
+      (provider) => provider.updateDeck(deck),
+      'updateDeck'
+    )
+  }
+
+  async deleteDeck(deckId: string): Promise<void> {
+    return await this.fallbackHandler.executeWithFallback(
+      this.getCurrentProvider(),
+      this.fallbackProvider,
+      (provider) => provider.deleteDeck(deckId),
+      'deleteDeck'
+    )
+  }
+
+  // IReviewLogProvider implementation - only available when the provider supports review history
+  async getReviewLogs(cardId?: string): Promise<ReviewLog[]> {
+    return await this.fallbackHandler.executeWithFallback(
+      this.getCurrentProvider(),
+      this.fallbackProvider,
+      (provider) => this.asReviewLogProvider(provider).getReviewLogs(cardId),
+      'getReviewLogs'
+    )
+  }
+
+  async saveReviewLog(log: ReviewLog): Promise<ReviewLog> {
+    return await this.fallbackHandler.executeWithFallback(
+      this.getCurrentProvider(),
+      this.fallbackProvider,
+      (provider) => this.asReviewLogProvider(provider).saveReviewLog(log),
+      'saveReviewLog'
+    )
+  }
+
+  async saveReviewLogs(logs: ReviewLog[]): Promise<ReviewLog[]> {
+    return await this.fallbackHandler.executeWithFallback(
+      this.getCurrentProvider(),
+      this.fallbackProvider,
+      (provider) => this.asReviewLogProvider(provider).saveReviewLogs(logs),
+      'saveReviewLogs'
+    )
+  }
+
+  async deleteReviewLog(logId: string): Promise<void> {
+    return await this.fallbackHandler.executeWithFallback(
+      this.getCurrentProvider(),
+      this.fallbackProvider,
+      (provider) => this.asReviewLogProvider(provider).deleteReviewLog(logId),
+      'deleteReviewLog'
+    )
+  }
+
+  /**
+   * Subscribe to outside changes of the current provider's data. Providers
+   * without change notifications never call the listener
+   */
+  subscribe(listener: (change: DataChangeType) => void): () => void {
+    const provider = this.getCurrentProvider()
+    return supportsChangeNotifications(provider) ? provider.subscribe(listener) : () => {}
+  }
+
+  /**
+   * Narrow a provider to the review log capability or fail the operation
+   */
+  private asReviewLogProvider(provider: IDataProvider): IReviewLogProvider {
+    if (!supportsReviewLogs(provider)) {
+      throw new ProviderError(
+        DataProviderError.OPERATION_FAILED,
+        `Provider '${provider.getProviderName()}' does not support review history`,
+        provider.getProviderName()
+      )
+    }
+    return provider
+  }
+
   getProviderName(): string {
     return this.getCurrentProvider().getProviderName()
   }
@@ -0,0 +1,409 @@
+import { Card, CardPatch, CardPatchEntry, CardQuery, CardQueryResult } from '../types/card'
+import { Deck } from '../types/deck'
+import { ReviewLog } from '../types/review'
+import { ApiErrorBody, ApiStatusBody, MONGODB_CONFIG_HEADERS, cardQueryToSearchParams, reviveCard, reviveCardQueryResult, reviveDeck, reviveReviewLog } from './httpApi'
+import { IDataProviderWithStatus, IReviewLogProvider, MongoDBConfig, BulkOperationResult, DataProviderError, ProviderError, ProviderStatus, ProviderStatusInfo } from './types'
+
+/**
+ * Configuration for the HTTP provider
+ */
+export interface HttpProviderConfig {
+  baseUrl?: string // defaults to the app's own /api routes
+  mongoConfig?: MongoDBConfig // sent along so the server can connect with the user's settings
+  providerName?: string
+  fetch?: typeof fetch
+}
+
+/**
+ * Browser-side provider talking to the /api route handlers, which wrap
+ * MongoDBProvider on the server
+ */
+export class HttpProvider implements IDataProviderWithStatus, IReviewLogProvider {
+  private readonly baseUrl: string
+  private readonly providerName: string
+  private readonly fetchImpl: typeof fetch
+  private isConnected = false
+  private currentStatus: ProviderStatus = ProviderStatus.DISCONNECTED
+  private lastError: ProviderError | null = null
+
+  public onStatusChange?: (status: ProviderStatusInfo) => void
+
+  constructor(private config: HttpProviderConfig = {}) {
+    this.baseUrl = (config.baseUrl ?? '/api').replace(/\/$/, '')
+    this.providerName = config.providerName ?? 'mongodb'
+    this.fetchImpl = config.fetch ?? ((input, init) => fetch(input, init))
+  }
+
+  /**
+   * Headers sent with every request
+   */
+  private getHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    const { mongoConfig } = this.config
+
+    if (mongoConfig) {
+      headers[MONGODB_CONFIG_HEADERS.connectionString] = mongoConfig.connectionString
+      headers[MONGODB_CONFIG_HEADERS.databaseName] = mongoConfig.databaseName
+      headers[MONGODB_CONFIG_HEADERS.collectionName] = mongoConfig.collectionName
+    }
+
+    return headers
+  }
+
+  /**
+   * Sends a request to the API and returns the parsed JSON body.
+   * Failed requests are turned into ProviderErrors
+   */
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    let response: Response
+    try {
+      response = await this.fetchImpl(`${this.baseUrl}${path}`, {
+        ...init,
+        headers: { ...this.getHeaders(), ...init.headers }
+      })
+    } catch (error) {
+      throw new ProviderError(
+        DataProviderError.CONNECTION_FAILED,
+        `Failed to reach the server: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        this.providerName,
+        error instanceof Error ? error : undefined
+      )
+    }
+
+    if (!response.ok) {
+      const body: Partial<ApiErrorBody> = await response.json().catch(() => ({}))
+      throw new ProviderError(
+        body.type ?? DataProviderError.OPERATION_FAILED,
+        body.error ?? `Request failed with status ${response.status}`,
+        this.providerName
+      )
+    }
+
+    if (response.status === 204) {
+      return undefined as T
+    }
+
+    return await response.json() as T
+  }
+
+  /**
+   * Retrieves all cards
+   */
+  async getCards(): Promise<Card[]> {
+    const cards = await this.request<unknown[]>('/cards')
+    return cards.map(reviveCard)
+  }
+
+  /**
+   * Retrieves one page of the cards matching a query, filtered and sorted by the server
+   */
+  async queryCards(query: CardQuery): Promise<CardQueryResult> {
+    const params = cardQueryToSearchParams(query).toString()
+    return reviveCardQueryResult(await this.request(`/cards/query${params ? `?${params}` : ''}`))
+  }
+
+  /**
+   * Saves a new card
+   */
+  async saveCard(card: Card): Promise<Card> {
+    return reviveCard(await this.request('/cards', {
+      method: 'POST',
+      body: JSON.stringify(card)
+    }))
+  }
+
+  /**
+   * Updates an existing card
+   */
+  async updateCard(card: Card): Promise<Card> {
+    return reviveCard(await this.request(`/cards/${encodeURIComponent(card.id)}`, {
+      method: 'PUT',
+      body: JSON.stringify(card)
+    }))
+  }
+
+  /**
+   * Deletes a card
+   */
+  async deleteCard(cardId: string): Promise<void> {
+    await this.request(`/cards/${encodeURIComponent(cardId)}`, { method: 'DELETE' })
+  }
+
+  /**
+   * Saves multiple cards, replacing the ones that already exist
+   */
+  async saveCards(cards: Card[]): Promise<Card[]> {
+    return this.upsertCards(cards)
+  }
+
+  /**
+   * Changes some fields of a card
+   */
+  async patchCard(cardId: string, changes: CardPatch): Promise<Card> {
+    return reviveCard(await this.request(`/cards/${encodeURIComponent(cardId)}`, {
+      method: 'PATCH',
+      body: JSON.stringify(changes)
+    }))
+  }
+
+  /**
+   * Inserts new cards and replaces existing ones in one request
+   */
+  async upsertCards(cards: Card[]): Promise<Card[]> {
+    if (cards.length === 0) {
+      return []
+    }
+
+    const saved = await this.request<unknown[]>('/cards', {
+      method: 'PUT',
+      body: JSON.stringify(cards)
+    })
+    return saved.map(reviveCard)
+  }
+
+  /**
+   * Changes some fields of many cards in one request
+   */
+  async patchCards(patches: CardPatchEntry[]): Promise<BulkOperationResult> {
+    if (patches.length === 0) {
+      return { succeeded: [], failed: [] }
+    }
+
+    return this.request<BulkOperationResult>('/cards', {
+      method: 'PATCH',
+      body: JSON.stringify(patches)
+    })
+  }
+
+  /**
+   * Deletes many cards in one request
+   */
+  async deleteCards(cardIds: string[]): Promise<BulkOperationResult> {
+    if (cardIds.length === 0) {
+      return { succeeded: [], failed: [] }
+    }
+
+    return this.request<BulkOperationResult>('/cards', {
+      method: 'DELETE',
+      body: JSON.stringify(cardIds)
+    })
+  }
+
+  /**
+   * Retrieves all decks
+   */
+  async getDecks(): Promise<Deck[]> {
+    const decks = await this.request<unknown[]>('/decks')
+    return decks.map(reviveDeck)
+  }
+
+  /**
+   * Saves a new deck
+   */
+  async saveDeck(deck: Deck): Promise<Deck> {
+    return reviveDeck(await this.request('/decks', {
+      method: 'POST',
+      body: JSON.stringify(deck)
+    }))
+  }
+
+  /**
+   * Updates an existing deck
+   */
+  async updateDeck(deck: Deck): Promise<Deck> {
+    return reviveDeck(await this.request(`/decks/${encodeURIComponent(deck.id)}`, {
+      method: 'PUT',
+      body: JSON.stringify(deck)
+    }))
+  }
+
+  /**
+   * Deletes a deck and its cards
+   */
+  async deleteDeck(deckId: string): Promise<void> {
+    await this.request(`/decks/${encodeURIComponent(deckId)}`, { method: 'DELETE' })
+  }
+
+  /**
+   * Retrieves review logs, optionally only for one card
+   */
+  async getReviewLogs(cardId?: string): Promise<ReviewLog[]> {
+    const query = cardId ? `?cardId=${encodeURIComponent(cardId)}` : ''
+    const logs = await this.request<unknown[]>(`/reviews${query}`)
+    return logs.map(reviveReviewLog)
+  }
+
+  /**
+   * Saves a review log, replacing the log with the same id
+   */
+  async saveReviewLog(log: ReviewLog): Promise<ReviewLog> {
+    return reviveReviewLog(await this.request('/reviews', {
+      method: 'POST',
+      body: JSON.stringify(log)
+    }))
+  }
+
+  /**
+   * Saves multiple review logs, replacing the logs with the same ids
+   */
+  async saveReviewLogs(logs: ReviewLog[]): Promise<ReviewLog[]> {
+    if (logs.length === 0) {
+      return []
+    }
+
+    const saved = await this.request<unknown[]>('/reviews', {
+      method: 'POST',
+      body: JSON.stringify(logs)
+    })
+    return saved.map(reviveReviewLog)
+  }
+
+  /**
+   * Deletes a review log
+   */
+  async deleteReviewLog(logId: string): Promise<void> {
+    await this.request(`/reviews/${encodeURIComponent(logId)}`, { method: 'DELETE' })
+  }
+
+  /**
+   * Returns the provider name
+   */
+  getProviderName(): string {
+    return this.providerName
+  }
+
+  /**
+   * Checks whether the server can reach the database
+   */
+  async isAvailable(): Promise<boolean> {
+    try {
+      const body = await this.request<ApiStatusBody>('/status')
+      return body.available
+    } catch (error) {
+      return false
+    }
+  }
+
+  /**
+   * Checks that the server can reach the database. The server keeps the
+   * actual database connection
+   */
+  async connect(): Promise<void> {
+    if (this.isConnected) {
+      return
+    }
+
+    this.updateStatus(ProviderStatus.CONNECTING, 'Contacting server...')
+
+    try {
+      const body = await this.request<ApiStatusBody>('/status')
+      if (!body.available) {
+        throw new ProviderError(
+          DataProviderError.CONNECTION_FAILED,
+          body.message || 'The server could not connect to the database',
+          this.providerName
+        )
+      }
+
+      this.isConnected = true
+      this.updateStatus(ProviderStatus.CONNECTED, 'Connected successfully')
+    } catch (error) {
+      const providerError = error instanceof ProviderError
+        ? error
+        : new ProviderError(
+            DataProviderError.CONNECTION_FAILED,
+            `Failed to connect: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            this.providerName,
+            error instanceof Error ? error : undefined
+          )
+
+      this.updateStatus(ProviderStatus.ERROR, providerError.message, providerError)
+      throw providerError
+    }
+  }
+
+  /**
+   * Forgets the connection state, the server connection is left open for other clients
+   */
+  async disconnect(): Promise<void> {
+    if (this.isConnected) {
+      this.isConnected = false
+      this.updateStatus(ProviderStatus.DISCONNECTED, 'Disconnected')
+    }
+  }
+
+  /**
+   * Updates the current status and notifies listeners
+   */
+  private updateStatus(status: ProviderStatus, message?: string, error?: ProviderError): void {
+    this.currentStatus = status
+    if (error) {
+      this.lastError = error
+    }
+
+    const statusInfo: ProviderStatusInfo = {
+      status,
+      message,
+      lastChecked: new Date(),
+      error
+    }
+
+    if (this.onStatusChange) {
+      this.onStatusChange(statusInfo)
+    }
+  }
+
+  /**
+   * Gets the current provider status as reported by the server
+   */
+  async getStatus(): Promise<ProviderStatusInfo> {
+    let status = this.currentStatus
+    let message = ''
+
+    try {
+      const body = await this.request<ApiStatusBody>('/status')
+      status = body.status
+      message = body.message || ''
+    } catch (error) {
+      status = ProviderStatus.ERROR
+      message = error instanceof Error ? error.message : 'Unknown error'
+      this.lastError = error instanceof ProviderError
+        ? error
+        : new ProviderError(DataProviderError.CONNECTION_FAILED, message, this.providerName)
+    }
+
+    this.currentStatus = status
+
+    return {
+      status,
+      message,
+      lastChecked: new Date(),
+      error: this.lastError || undefined
+    }
+  }
+
+  /**
+   * Tests whether the server can reach the database
+   */
+  async testConnection(): Promise<boolean> {
+    this.updateStatus(ProviderStatus.CONNECTING, 'Testing connection...')
+
+    const available = await this.isAvailable()
+    this.updateStatus(
+      available
+        ? (this.isConnected ? ProviderStatus.CONNECTED : ProviderStatus.DISCONNECTED)
+        : ProviderStatus.ERROR,
+      available ? 'Connection test successful' : 'Connection test failed'
+    )
+
+    return available
+  }
+
+  /**
+   * Checks the server connection again
+   */
+  async reconnect(): Promise<void> {
+    this.isConnected = false
+    await this.connect()
+  }
+}
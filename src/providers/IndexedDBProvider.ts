@@ -0,0 +1,599 @@
+import { Card, CardPatch, CardPatchEntry, CardQuery, CardQueryResult } from '../types/card'
+import { Deck, DEFAULT_DECK_ID } from '../types/deck'
+import { ReviewLog } from '../types/review'
+import { migrateCardSchedule } from '../utils/scheduler'
+import { createDefaultDeck, migrateCardDeck } from '../utils/decks'
+import { migrateCardTags } from '../utils/tags'
+import { queryCardsInMemory } from '../utils/cardQuery'
+import { IDataProviderWithStatus, IReviewLogProvider, BulkOperationResult, DataProviderError, ProviderError, ProviderStatus, ProviderStatusInfo } from './types'
+
+const DATABASE_VERSION = 1
+const CARD_STORE = 'cards'
+const DECK_STORE = 'decks'
+const REVIEW_STORE = 'reviewLogs'
+
+/**
+ * Wraps an IndexedDB request in a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Resolves when a transaction has been committed
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'))
+  })
+}
+
+/**
+ * IndexedDB provider implementation. Every card is its own record, so single
+ * card writes do not rewrite the whole collection, and batches are written in
+ * one transaction
+ */
+export class IndexedDBProvider implements IDataProviderWithStatus, IReviewLogProvider {
+  private readonly providerName = 'indexeddb'
+  private db: IDBDatabase | null = null
+  private connectionPromise: Promise<IDBDatabase> | null = null
+  private currentStatus: ProviderStatus = ProviderStatus.DISCONNECTED
+
+  public onStatusChange?: (status: ProviderStatusInfo) => void
+
+  constructor(private readonly databaseName = 'english-cards') {}
+
+  /**
+   * Opens the database, creating the stores and indexes on first use
+   */
+  async connect(): Promise<void> {
+    await this.ensureConnection()
+  }
+
+  private ensureConnection(): Promise<IDBDatabase> {
+    if (this.db) {
+      return Promise.resolve(this.db)
+    }
+
+    if (!this.connectionPromise) {
+      this.connectionPromise = this.openDatabase()
+    }
+
+    return this.connectionPromise
+  }
+
+  private async openDatabase(): Promise<IDBDatabase> {
+    this.updateStatus(ProviderStatus.CONNECTING, 'Opening database...')
+
+    try {
+      if (typeof indexedDB === 'undefined') {
+        throw new Error('IndexedDB is not available in this environment')
+      }
+
+      const request = indexedDB.open(this.databaseName, DATABASE_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+
+        const cardStore = db.createObjectStore(CARD_STORE, { keyPath: 'id' })
+        cardStore.createIndex('word', 'word')
+        cardStore.createIndex('dueAt', 'dueAt')
+        cardStore.createIndex('deckId', 'deckId')
+
+        db.createObjectStore(DECK_STORE, { keyPath: 'id' })
+
+        const reviewStore = db.createObjectStore(REVIEW_STORE, { keyPath: 'id' })
+        reviewStore.createIndex('cardId', 'cardId')
+      }
+
+      const db = await requestToPromise(request)
+      // Let another tab upgrade the database instead of blocking it
+      db.onversionchange = () => {
+        db.close()
+        this.db = null
+      }
+
+      this.db = db
+      this.connectionPromise = null
+      this.updateStatus(ProviderStatus.CONNECTED, 'Connected successfully')
+      return db
+    } catch (error) {
+      this.connectionPromise = null
+
+      const providerError = new ProviderError(
+        DataProviderError.CONNECTION_FAILED,
+        `Failed to open IndexedDB: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        this.providerName,
+        error instanceof Error ? error : undefined
+      )
+
+      this.updateStatus(ProviderStatus.ERROR, providerError.message, providerError)
+      throw providerError
+    }
+  }
+
+  /**
+   * Closes the database
+   */
+  async disconnect(): Promise<void> {
+    if (this.db) {
+      this.db.close()
+      this.db = null
+      this.updateStatus(ProviderStatus.DISCONNECTED, 'Disconnected')
+    }
+  }
+
+  /**
+   * Runs an operation in a transaction and resolves with its result once the
+   * transaction is committed. Errors are wrapped in ProviderErrors
+   */
+  private async runTransaction<T>(
+    storeNames: string[],
+    mode: IDBTransactionMode,
+    operation: (transaction: IDBTransaction) => Promise<T>,
+    errorMessage: string
+  ): Promise<T> {
+    try {
+      const db = await this.ensureConnection()
+      const transaction = db.transaction(storeNames, mode)
+      const done = transactionDone(transaction)
+
+      let result: T
+      try {
+        result = await operation(transaction)
+      } catch (error) {
+        // Roll back everything written so far
+        try {
+          transaction.abort()
+        } catch {
+          // The transaction already finished
+        }
+        done.catch(() => undefined)
+        throw error
+      }
+
+      await done
+      return result
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        throw error
+      }
+
+      if (error instanceof Error && error.name === 'QuotaExceededError') {
+        throw new ProviderError(
+          DataProviderError.OPERATION_FAILED,
+          'IndexedDB quota exceeded. Please free up space or use a different storage provider.',
+          this.providerName,
+          error
+        )
+      }
+
+      throw new ProviderError(
+        DataProviderError.OPERATION_FAILED,
+        `${errorMessage}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        this.providerName,
+        error instanceof Error ? error : undefined
+      )
+    }
+  }
+
+  /**
+   * Restores dates and fills in fields missing on cards written by older versions
+   */
+  private recordToCard(record: any): Card {
+    return migrateCardSchedule(migrateCardTags(migrateCardDeck({
+      ...record,
+      createdAt: new Date(record.createdAt),
+      lastReviewed: record.lastReviewed ? new Date(record.lastReviewed) : undefined,
+      deletedAt: record.deletedAt ? new Date(record.deletedAt) : undefined,
+      examples: record.examples || []
+    })))
+  }
+
+  /**
+   * Retrieves all cards
+   */
+  async getCards(): Promise<Card[]> {
+    return this.runTransaction([CARD_STORE], 'readonly', async transaction => {
+      const records = await requestToPromise(transaction.objectStore(CARD_STORE).getAll())
+      return records.map(record => this.recordToCard(record))
+    }, 'Failed to retrieve cards from IndexedDB')
+  }
+
+  /**
+   * Saves a new card
+   */
+  async saveCard(card: Card): Promise<Card> {
+    return this.runTransaction([CARD_STORE], 'readwrite', async transaction => {
+      const store = transaction.objectStore(CARD_STORE)
+      if (await requestToPromise(store.count(card.id)) > 0) {
+        throw new ProviderError(
+          DataProviderError.OPERATION_FAILED,
+          `Card with id ${card.id} already exists. Use updateCard instead.`,
+          this.providerName
+        )
+      }
+
+      await requestToPromise(store.add(card))
+      return card
+    }, 'Failed to save card to IndexedDB')
+  }
+
+  /**
+   * Updates an existing card
+   */
+  async updateCard(card: Card): Promise<Card> {
+    return this.runTransaction([CARD_STORE], 'readwrite', async transaction => {
+      const store = transaction.objectStore(CARD_STORE)
+      if (await requestToPromise(store.count(card.id)) === 0) {
+        throw new ProviderError(
+          DataProviderError.OPERATION_FAILED,
+          `Card with id ${card.id} not found`,
+          this.providerName
+        )
+      }
+
+      await requestToPromise(store.put(card))
+      return card
+    }, 'Failed to update card in IndexedDB')
+  }
+
+  /**
+   * Deletes a card
+   */
+  async deleteCard(cardId: string): Promise<void> {
+    return this.runTransaction([CARD_STORE], 'readwrite', async transaction => {
+      const store = transaction.objectStore(CARD_STORE)
+      if (await requestToPromise(store.count(cardId)) === 0) {
+        throw new ProviderError(
+          DataProviderError.OPERATION_FAILED,
+          `Card with id ${cardId} not found`,
+          this.providerName
+        )
+      }
+
+      await requestToPromise(store.delete(cardId))
+    }, 'Failed to delete card from IndexedDB')
+  }
+
+  /**
+   * Inserts or replaces cards in a single transaction, so either all of them are written or none
+   */
+  async saveCards(cards: Card[]): Promise<Card[]> {
+    if (!Array.isArray(cards)) {
+      throw new ProviderError(
+        DataProviderError.OPERATION_FAILED,
+        'Cards must be an array',
+        this.providerName
+      )
+    }
+
+    if (cards.length === 0) {
+      return []
+    }
+
+    return this.runTransaction([CARD_STORE], 'readwrite', async transaction => {
+      // A failing write aborts the transaction, the commit is awaited by runTransaction
+      const store = transaction.objectStore(CARD_STORE)
+      cards.forEach(card => store.put(card))
+      return cards
+    }, 'Failed to save cards to IndexedDB')
+  }
+
+  /**
+   * Filters, sorts and pages the cards in memory, reading only the deck's cards through the deckId index
+   */
+  async queryCards(query: CardQuery): Promise<CardQueryResult> {
+    return this.runTransaction([CARD_STORE], 'readonly', async transaction => {
+      const store = transaction.objectStore(CARD_STORE)
+      const records = await requestToPromise(query.deckId !== undefined
+        ? store.index('deckId').getAll(query.deckId)
+        : store.getAll())
+      return queryCardsInMemory(records.map(record => this.recordToCard(record)), query)
+    }, 'Failed to query cards in IndexedDB')
+  }
+
+  /**
+   * Cards are stored by id, so saving them already inserts or replaces each one
+   */
+  async upsertCards(cards: Card[]): Promise<Card[]> {
+    return this.saveCards(cards)
+  }
+
+  /**
+   * Changes some fields of a card, reading and writing it in one transaction
+   */
+  async patchCard(cardId: string, changes: CardPatch): Promise<Card> {
+    return this.runTransaction([CARD_STORE], 'readwrite', async transaction => {
+      const store = transaction.objectStore(CARD_STORE)
+      const record = await requestToPromise(store.get(cardId))
+      if (!record) {
+        throw new ProviderError(
+          DataProviderError.OPERATION_FAILED,
+          `Card with id ${cardId} not found`,
+          this.providerName
+        )
+      }
+
+      const patchedCard: Card = { ...this.recordToCard(record), ...changes, id: cardId }
+      await requestToPromise(store.put(patchedCard))
+      return patchedCard
+    }, 'Failed to patch card in IndexedDB')
+  }
+
+  /**
+   * Patches many cards in a single transaction, missing cards are reported as failed
+   */
+  async patchCards(patches: CardPatchEntry[]): Promise<BulkOperationResult> {
+    return this.runTransaction([CARD_STORE], 'readwrite', async transaction => {
+      const store = transaction.objectStore(CARD_STORE)
+      const result: BulkOperationResult = { succeeded: [], failed: [] }
+
+      for (const { cardId, changes } of patches) {
+        const record = await requestToPromise(store.get(cardId))
+        if (!record) {
+          result.failed.push({ cardId, error: `Card with id ${cardId} not found` })
+          continue
+        }
+
+        await requestToPromise(store.put({ ...this.recordToCard(record), ...changes, id: cardId }))
+        result.succeeded.push(cardId)
+      }
+
+      return result
+    }, 'Failed to patch cards in IndexedDB')
+  }
+
+  /**
+   * Deletes many cards in a single transaction, missing cards are reported as failed
+   */
+  async deleteCards(cardIds: string[]): Promise<BulkOperationResult> {
+    return this.runTransaction([CARD_STORE], 'readwrite', async transaction => {
+      const store = transaction.objectStore(CARD_STORE)
+      const result: BulkOperationResult = { succeeded: [], failed: [] }
+
+      for (const cardId of cardIds) {
+        if (await requestToPromise(store.count(cardId)) === 0) {
+          result.failed.push({ cardId, error: `Card with id ${cardId} not found` })
+          continue
+        }
+
+        await requestToPromise(store.delete(cardId))
+        result.succeeded.push(cardId)
+      }
+
+      return result
+    }, 'Failed to delete cards from IndexedDB')
+  }
+
+  /**
+   * Retrieves the cards due before a date, oldest first, using the due date index
+   */
+  async getDueCards(before: Date = new Date()): Promise<Card[]> {
+    return this.runTransaction([CARD_STORE], 'readonly', async transaction => {
+      const index = transaction.objectStore(CARD_STORE).index('dueAt')
+      const records = await requestToPromise(index.getAll(IDBKeyRange.upperBound(before)))
+      return records.map(record => this.recordToCard(record))
+    }, 'Failed to retrieve due cards from IndexedDB')
+  }
+
+  /**
+   * Retrieves the cards with a word, using the word index
+   */
+  async getCardsByWord(word: string): Promise<Card[]> {
+    return this.runTransaction([CARD_STORE], 'readonly', async transaction => {
+      const index = transaction.objectStore(CARD_STORE).index('word')
+      const records = await requestToPromise(index.getAll(word))
+      return records.map(record => this.recordToCard(record))
+    }, 'Failed to retrieve cards from IndexedDB')
+  }
+
+  /**
+   * Retrieves all decks. Databases without decks get the default deck
+   */
+  async getDecks(): Promise<Deck[]> {
+    return this.runTransaction([DECK_STORE], 'readonly', async transaction => {
+      const decks: Deck[] = await requestToPromise(transaction.objectStore(DECK_STORE).getAll())
+      return decks.length > 0 ? decks : [createDefaultDeck()]
+    }, 'Failed to retrieve decks from IndexedDB')
+  }
+
+  /**
+   * Saves a new deck
+   */
+  async saveDeck(deck: Deck): Promise<Deck> {
+    return this.runTransaction([DECK_STORE], 'readwrite', async transaction => {
+      const store = transaction.objectStore(DECK_STORE)
+      if (await requestToPromise(store.count(deck.id)) > 0) {
+        throw new ProviderError(
+          DataProviderError.OPERATION_FAILED,
+          `Deck with id ${deck.id} already exists. Use updateDeck instead.`,
+          this.providerName
+        )
+      }
+
+      // Persist the implicit default deck alongside the first real one
+      if (deck.id !== DEFAULT_DECK_ID && await requestToPromise(store.count()) === 0) {
+        await requestToPromise(store.add(createDefaultDeck()))
+      }
+
+      await requestToPromise(store.add(deck))
+      return deck
+    }, 'Failed to save deck to IndexedDB')
+  }
+
+  /**
+   * Updates an existing deck. The default deck only exists implicitly until it is first changed
+   */
+  async updateDeck(deck: Deck): Promise<Deck> {
+    return this.runTransaction([DECK_STORE], 'readwrite', async transaction => {
+      const store = transaction.objectStore(DECK_STORE)
+      if (deck.id !== DEFAULT_DECK_ID && await requestToPromise(store.count(deck.id)) === 0) {
+        throw new ProviderError(
+          DataProviderError.OPERATION_FAILED,
+          `Deck with id ${deck.id} not found`,
+          this.providerName
+        )
+      }
+
+      await requestToPromise(store.put(deck))
+      return deck
+    }, 'Failed to update deck in IndexedDB')
+  }
+
+  /**
+   * Deletes a deck and its cards in one transaction
+   */
+  async deleteDeck(deckId: string): Promise<void> {
+    return this.runTransaction([DECK_STORE, CARD_STORE], 'readwrite', async transaction => {
+      const deckStore = transaction.objectStore(DECK_STORE)
+      if (deckId !== DEFAULT_DECK_ID && await requestToPromise(deckStore.count(deckId)) === 0) {
+        throw new ProviderError(
+          DataProviderError.OPERATION_FAILED,
+          `Deck with id ${deckId} not found`,
+          this.providerName
+        )
+      }
+
+      const cardStore = transaction.objectStore(CARD_STORE)
+      const cardIds = await requestToPromise(cardStore.index('deckId').getAllKeys(deckId))
+
+      deckStore.delete(deckId)
+      cardIds.forEach(cardId => cardStore.delete(cardId))
+    }, 'Failed to delete deck from IndexedDB')
+  }
+
+  /**
+   * Retrieves review logs, optionally only for one card, oldest first
+   */
+  async getReviewLogs(cardId?: string): Promise<ReviewLog[]> {
+    return this.runTransaction([REVIEW_STORE], 'readonly', async transaction => {
+      const store = transaction.objectStore(REVIEW_STORE)
+      const logs: ReviewLog[] = await requestToPromise(
+        cardId ? store.index('cardId').getAll(cardId) : store.getAll()
+      )
+      return logs.sort((a, b) => a.reviewedAt.getTime() - b.reviewedAt.getTime())
+    }, 'Failed to retrieve review logs from IndexedDB')
+  }
+
+  /**
+   * Saves a review log, replacing the log with the same id
+   */
+  async saveReviewLog(log: ReviewLog): Promise<ReviewLog> {
+    return this.runTransaction([REVIEW_STORE], 'readwrite', async transaction => {
+      await requestToPromise(transaction.objectStore(REVIEW_STORE).put(log))
+      return log
+    }, 'Failed to save review log to IndexedDB')
+  }
+
+  /**
+   * Saves multiple review logs in one transaction, replacing the logs with the same ids
+   */
+  async saveReviewLogs(logs: ReviewLog[]): Promise<ReviewLog[]> {
+    if (logs.length === 0) {
+      return []
+    }
+
+    return this.runTransaction([REVIEW_STORE], 'readwrite', async transaction => {
+      const store = transaction.objectStore(REVIEW_STORE)
+      logs.forEach(log => store.put(log))
+      return logs
+    }, 'Failed to save review logs to IndexedDB')
+  }
+
+  /**
+   * Deletes a review log, a missing log is not an error
+   */
+  async deleteReviewLog(logId: string): Promise<void> {
+    return this.runTransaction([REVIEW_STORE], 'readwrite', async transaction => {
+      await requestToPromise(transaction.objectStore(REVIEW_STORE).delete(logId))
+    }, 'Failed to delete review log from IndexedDB')
+  }
+
+  /**
+   * Returns the provider name
+   */
+  getProviderName(): string {
+    return this.providerName
+  }
+
+  /**
+   * Checks if IndexedDB can be opened
+   */
+  async isAvailable(): Promise<boolean> {
+    try {
+      await this.ensureConnection()
+      return true
+    } catch (error) {
+      return false
+    }
+  }
+
+  /**
+   * Updates the current status and notifies listeners
+   */
+  private updateStatus(status: ProviderStatus, message?: string, error?: ProviderError): void {
+    this.currentStatus = status
+
+    const statusInfo: ProviderStatusInfo = {
+      status,
+      message,
+      lastChecked: new Date(),
+      error
+    }
+
+    if (this.onStatusChange) {
+      this.onStatusChange(statusInfo)
+    }
+  }
+
+  /**
+   * Gets the current provider status
+   */
+  async getStatus(): Promise<ProviderStatusInfo> {
+    const isAvailable = await this.isAvailable()
+
+    const status = isAvailable ? ProviderStatus.CONNECTED : ProviderStatus.UNAVAILABLE
+    const message = isAvailable ? 'IndexedDB is available and operational' : 'IndexedDB is not available'
+
+    this.currentStatus = status
+
+    return {
+      status,
+      message,
+      lastChecked: new Date(),
+      error: isAvailable ? undefined : new ProviderError(
+        DataProviderError.PROVIDER_UNAVAILABLE,
+        'IndexedDB is not available in this environment',
+        this.providerName
+      )
+    }
+  }
+
+  /**
+   * Tests the IndexedDB connection
+   */
+  async testConnection(): Promise<boolean> {
+    this.updateStatus(ProviderStatus.CONNECTING, 'Testing connection...')
+
+    const success = await this.isAvailable()
+    this.updateStatus(
+      success ? ProviderStatus.CONNECTED : ProviderStatus.ERROR,
+      success ? 'Connection test successful' : 'Connection test failed'
+    )
+
+    return success
+  }
+
+  /**
+   * Reopens the database
+   */
+  async reconnect(): Promise<void> {
+    await this.disconnect()
+    await this.connect()
+  }
+}
@@ -1,17 +1,56 @@
-import { Card } from '../types/card'
-import { IDataProvider, IDataProviderWithStatus, ProviderError, DataProviderError, ProviderStatus, ProviderStatusInfo } from './types'
+import { Card, CardPatch, CardPatchEntry, CardQuery, CardQueryResult } from '../types/card'
+import { Deck } from '../types/deck'
+import { ReviewLog } from '../types/review'
+import { migrateCardSchedule, REVIEW_GRADES } from '../utils/scheduler'
+import { createDefaultDeck, migrateCardDeck } from '../utils/decks'
+import { migrateCardTags } from '../utils/tags'
+import { queryCardsInMemory } from '../utils/cardQuery'
+import { IDataProvider, IDataProviderWithStatus, IReviewLogProvider, IChangeNotifyingProvider, DataChangeType, BulkOperationResult, ProviderError, DataProviderError, ProviderStatus, ProviderStatusInfo } from './types'
 
 /**
  * LocalStorage implementation of the IDataProvider interface
  * Handles all card data operations using browser localStorage
  */
-export class LocalStorageProvider implements IDataProviderWithStatus {
+export class LocalStorageProvider implements IDataProviderWithStatus, IReviewLogProvider, IChangeNotifyingProvider {
   private readonly storageKey = 'english-cards'
+  private readonly reviewStorageKey = 'english-cards-reviews'
+  private readonly deckStorageKey = 'english-cards-decks'
   private readonly providerName = 'localhost'
   private currentStatus: ProviderStatus = ProviderStatus.DISCONNECTED
   
   public onStatusChange?: (status: ProviderStatusInfo) => void
 
+  /**
+   * Notify about changes saved by other tabs. Browsers raise storage events
+   * only in the tabs that did not make the change
+   */
+  subscribe(listener: (change: DataChangeType) => void): () => void {
+    if (typeof window === 'undefined') {
+      return () => {}
+    }
+
+    const changeTypes: Record<string, DataChangeType> = {
+      [this.storageKey]: 'cards',
+      [this.deckStorageKey]: 'decks',
+      [this.reviewStorageKey]: 'reviewLogs'
+    }
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.storageArea && event.storageArea !== localStorage) {
+        return
+      }
+      if (event.key === null) {
+        // Storage was cleared
+        Object.keys(changeTypes).forEach(key => listener(changeTypes[key]))
+      } else if (changeTypes[event.key]) {
+        listener(changeTypes[event.key])
+      }
+    }
+
+    window.addEventListener('storage', handleStorage)
+    return () => window.removeEventListener('storage', handleStorage)
+  }
+
   /**
    * Retrieve all cards from localStorage
    */
@@ -126,6 +165,142 @@ export class LocalStorageProvider implements IDataProviderWithStatus {
     }
   }
 
+  /**
+   * Change some fields of a card in place
+   */
+  async patchCard(cardId: string, changes: CardPatch): Promise<Card> {
+    try {
+      const cards = await this.getCards()
+
+      const existingIndex = cards.findIndex(c => c.id === cardId)
+      if (existingIndex === -1) {
+        throw new ProviderError(
+          DataProviderError.OPERATION_FAILED,
+          `Card with id ${cardId} not found`,
+          this.providerName
+        )
+      }
+
+      const patchedCard: Card = { ...cards[existingIndex], ...changes, id: cardId }
+      this.validateCard(patchedCard)
+
+      const updatedCards = [...cards]
+      updatedCards[existingIndex] = patchedCard
+      await this.saveCards(updatedCards)
+      return patchedCard
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        throw error
+      }
+      throw new ProviderError(
+        DataProviderError.OPERATION_FAILED,
+        'Failed to patch card in localStorage',
+        this.providerName,
+        error instanceof Error ? error : new Error(String(error))
+      )
+    }
+  }
+
+  /**
+   * Patches many cards with a single write. Cards that are missing or would
+   * become invalid are reported as failed and left unchanged
+   */
+  async patchCards(patches: CardPatchEntry[]): Promise<BulkOperationResult> {
+    const result: BulkOperationResult = { succeeded: [], failed: [] }
+    if (patches.length === 0) {
+      return result
+    }
+
+    try {
+      const cards = await this.getCards()
+      const indexById = new Map(cards.map((card, index) => [card.id, index] as [string, number]))
+      const updatedCards = [...cards]
+
+      for (const { cardId, changes } of patches) {
+        const index = indexById.get(cardId)
+        if (index === undefined) {
+          result.failed.push({ cardId, error: `Card with id ${cardId} not found` })
+          continue
+        }
+
+        const patchedCard: Card = { ...updatedCards[index], ...changes, id: cardId }
+        try {
+          this.validateCard(patchedCard)
+        } catch (error) {
+          result.failed.push({ cardId, error: error instanceof Error ? error.message : String(error) })
+          continue
+        }
+
+        updatedCards[index] = patchedCard
+        result.succeeded.push(cardId)
+      }
+
+      if (result.succeeded.length > 0) {
+        await this.saveCards(updatedCards)
+      }
+      return result
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        throw error
+      }
+      throw new ProviderError(
+        DataProviderError.OPERATION_FAILED,
+        'Failed to patch cards in localStorage',
+        this.providerName,
+        error instanceof Error ? error : new Error(String(error))
+      )
+    }
+  }
+
+  /**
+   * Filters, sorts and pages the stored cards in memory
+   */
+  async queryCards(query: CardQuery): Promise<CardQueryResult> {
+    const cards = await this.getCards()
+    try {
+      return queryCardsInMemory(cards, query)
+    } catch (error) {
+      throw new ProviderError(
+        DataProviderError.OPERATION_FAILED,
+        'Failed to query cards in localStorage',
+        this.providerName,
+        error instanceof Error ? error : new Error(String(error))
+      )
+    }
+  }
+
+  /**
+   * Insert new cards and replace existing ones with the same id, other cards are kept
+   */
+  async upsertCards(cards: Card[]): Promise<Card[]> {
+    try {
+      cards.forEach(card => this.validateCard(card))
+      if (cards.length === 0) {
+        return []
+      }
+
+      const upserted = new Map(cards.map(card => [card.id, card] as [string, Card]))
+      const existingCards = await this.getCards()
+      const existingIds = new Set(existingCards.map(card => card.id))
+
+      await this.saveCards([
+        ...existingCards.map(card => upserted.get(card.id) || card),
+        ...cards.filter(card => !existingIds.has(card.id))
+      ])
+      return cards
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        throw error
+      }
+      throw new ProviderError(
+        DataProviderError.OPERATION_FAILED,
+        'Failed to upsert cards in localStorage',
+        this.providerName,
+        error instanceof Error ? error : new Error(String(error))
+      )
+    }
+  }
+
   /**
    * Delete a card from localStorage
    */
@@ -160,6 +335,46 @@ export class LocalStorageProvider implements IDataProviderWithStatus {
     }
   }
 
+  /**
+   * Deletes many cards with a single write, ids that do not exist are reported as failed
+   */
+  async deleteCards(cardIds: string[]): Promise<BulkOperationResult> {
+    const result: BulkOperationResult = { succeeded: [], failed: [] }
+    if (cardIds.length === 0) {
+      return result
+    }
+
+    try {
+      const cards = await this.getCards()
+      const existingIds = new Set(cards.map(card => card.id))
+      const deletedIds = new Set<string>()
+
+      for (const cardId of cardIds) {
+        if (existingIds.has(cardId)) {
+          deletedIds.add(cardId)
+          result.succeeded.push(cardId)
+        } else {
+          result.failed.push({ cardId, error: `Card with id ${cardId} not found` })
+        }
+      }
+
+      if (deletedIds.size > 0) {
+        await this.saveCards(cards.filter(card => !deletedIds.has(card.id)))
+      }
+      return result
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        throw error
+      }
+      throw new ProviderError(
+        DataProviderError.OPERATION_FAILED,
+        'Failed to delete cards from localStorage',
+        this.providerName,
+        error instanceof Error ? error : new Error(String(error))
+      )
+    }
+  }
+
   /**
    * Save multiple cards to localStorage (replaces all existing cards)
    */
@@ -192,6 +407,259 @@ export class LocalStorageProvider implements IDataProviderWithStatus {
     }
   }
 
+  /**
+   * Retrieve all decks from localStorage. Collections saved before decks
+   * existed get the default deck.
+   */
+  async getDecks(): Promise<Deck[]> {
+    try {
+      const savedDecks = localStorage.getItem(this.deckStorageKey)
+      if (!savedDecks) {
+        return [createDefaultDeck()]
+      }
+
+      const parsedDecks = JSON.parse(savedDecks)
+      if (!Array.isArray(parsedDecks)) {
+        throw new ProviderError(
+          DataProviderError.OPERATION_FAILED,
+          'Invalid deck data format: expected array',
+          this.providerName
+        )
+      }
+
+      const decks = parsedDecks.map((deck: any) => this.validateAndTransformDeck(deck))
+      return decks.length > 0 ? decks : [createDefaultDeck()]
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        throw error
+      }
+      throw new ProviderError(
+        DataProviderError.OPERATION_FAILED,
+        'Failed to retrieve decks from localStorage',
+        this.providerName,
+        error instanceof Error ? error : new Error(String(error))
+      )
+    }
+  }
+
+  /**
+   * Save a new deck to localStorage
+   */
+  async saveDeck(deck: Deck): Promise<Deck> {
+    try {
+      this.validateDeck(deck)
+      const decks = await this.getDecks()
+
+      if (decks.some(d => d.id === deck.id)) {
+        throw new ProviderError(
+          DataProviderError.OPERATION_FAILED,
+          `Deck with id ${deck.id} already exists. Use updateDeck instead.`,
+          this.providerName
+        )
+      }
+
+      this.writeDecks([...decks, deck])
+      return deck
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        throw error
+      }
+      throw new ProviderError(
+        DataProviderError.OPERATION_FAILED,
+        'Failed to save deck to localStorage',
+        this.providerName,
+        error instanceof Error ? error : new Error(String(error))
+      )
+    }
+  }
+
+  /**
+   * Update an existing deck in localStorage
+   */
+  async updateDeck(deck: Deck): Promise<Deck> {
+    try {
+      this.validateDeck(deck)
+      const decks = await this.getDecks()
+
+      const existingIndex = decks.findIndex(d => d.id === deck.id)
+      if (existingIndex === -1) {
+        throw new ProviderError(
+          DataProviderError.OPERATION_FAILED,
+          `Deck with id ${deck.id} not found`,
+          this.providerName
+        )
+      }
+
+      const updatedDecks = [...decks]
+      updatedDecks[existingIndex] = deck
+      this.writeDecks(updatedDecks)
+      return deck
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        throw error
+      }
+      throw new ProviderError(
+        DataProviderError.OPERATION_FAILED,
+        'Failed to update deck in localStorage',
+        this.providerName,
+        error instanceof Error ? error : new Error(String(error))
+      )
+    }
+  }
+
+  /**
+   * Delete a deck and its cards from localStorage
+   */
+  async deleteDeck(deckId: string): Promise<void> {
+    try {
+      if (!deckId || typeof deckId !== 'string') {
+        throw new Error('Invalid deck ID provided')
+      }
+
+      const decks = await this.getDecks()
+      const filteredDecks = decks.filter(deck => deck.id !== deckId)
+
+      if (filteredDecks.length === decks.length) {
+        throw new ProviderError(
+          DataProviderError.OPERATION_FAILED,
+          `Deck with id ${deckId} not found`,
+          this.providerName
+        )
+      }
+
+      const cards = await this.getCards()
+      await this.saveCards(cards.filter(card => card.deckId !== deckId))
+      this.writeDecks(filteredDecks)
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        throw error
+      }
+      throw new ProviderError(
+        DataProviderError.OPERATION_FAILED,
+        'Failed to delete deck from localStorage',
+        this.providerName,
+        error instanceof Error ? error : new Error(String(error))
+      )
+    }
+  }
+
+  /**
+   * Retrieve review logs from localStorage, optionally only for one card
+   */
+  async getReviewLogs(cardId?: string): Promise<ReviewLog[]> {
+    try {
+      const savedLogs = localStorage.getItem(this.reviewStorageKey)
+      if (!savedLogs) {
+        return []
+      }
+
+      const parsedLogs = JSON.parse(savedLogs)
+      if (!Array.isArray(parsedLogs)) {
+        throw new ProviderError(
+          DataProviderError.OPERATION_FAILED,
+          'Invalid review log format: expected array',
+          this.providerName
+        )
+      }
+
+      const logs = parsedLogs.map((log: any) => this.validateAndTransformReviewLog(log))
+      return cardId ? logs.filter(log => log.cardId === cardId) : logs
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        throw error
+      }
+      if (error instanceof SyntaxError) {
+        localStorage.removeItem(this.reviewStorageKey)
+        throw new ProviderError(
+          DataProviderError.OPERATION_FAILED,
+          'Corrupted review history detected and cleared.',
+          this.providerName,
+          error
+        )
+      }
+      throw new ProviderError(
+        DataProviderError.OPERATION_FAILED,
+        'Failed to retrieve review logs from localStorage',
+        this.providerName,
+        error instanceof Error ? error : new Error(String(error))
+      )
+    }
+  }
+
+  /**
+   * Save a review log to localStorage, replacing the log with the same id
+   */
+  async saveReviewLog(log: ReviewLog): Promise<ReviewLog> {
+    try {
+      this.validateReviewLog(log)
+      await this.saveReviewLogs([log])
+      return log
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        throw error
+      }
+      throw new ProviderError(
+        DataProviderError.OPERATION_FAILED,
+        'Failed to save review log to localStorage',
+        this.providerName,
+        error instanceof Error ? error : new Error(String(error))
+      )
+    }
+  }
+
+  /**
+   * Save multiple review logs to localStorage, replacing the logs with the same ids
+   */
+  async saveReviewLogs(logs: ReviewLog[]): Promise<ReviewLog[]> {
+    try {
+      if (!Array.isArray(logs)) {
+        throw new Error('Review logs must be an array')
+      }
+
+      logs.forEach(log => this.validateReviewLog(log))
+
+      const ids = new Set(logs.map(log => log.id))
+      const kept = (await this.getReviewLogs()).filter(log => !ids.has(log.id))
+      localStorage.setItem(this.reviewStorageKey, JSON.stringify(kept.concat(logs)))
+      return logs
+    } catch (error) {
+      if (error instanceof Error && error.name === 'QuotaExceededError') {
+        throw new ProviderError(
+          DataProviderError.OPERATION_FAILED,
+          'localStorage quota exceeded. Please free up space or use a different storage provider.',
+          this.providerName,
+          error
+        )
+      }
+      throw new ProviderError(
+        DataProviderError.OPERATION_FAILED,
+        'Failed to save review logs to localStorage',
+        this.providerName,
+        error instanceof Error ? error : new Error(String(error))
+      )
+    }
+  }
+
+  /**
+   * Delete a review log from localStorage, a missing log is not an error
+   */
+  async deleteReviewLog(logId: string): Promise<void> {
+    try {
+      const kept = (await this.getReviewLogs()).filter(log => log.id !== logId)
+      localStorage.setItem(this.reviewStorageKey, JSON.stringify(kept))
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        throw error
+      }
+      throw new ProviderError(
+        DataProviderError.OPERATION_FAILED,
+        'Failed to delete review log from localStorage',
+        this.providerName,
+        error instanceof Error ? error : new Error(String(error))
+      )
+    }
+  }
+
   /**
    * Get the provider name
    */
@@ -283,10 +751,37 @@ export class LocalStorageProvider implements IDataProviderWithStatus {
       }
     }
 
+    if (card.deletedAt !== undefined) {
+      if (!(card.deletedAt instanceof Date) || isNaN(card.deletedAt.getTime())) {
+        throw new Error('Card deletedAt must be a valid Date or undefined')
+      }
+    }
+
     if (!Array.isArray(card.examples)) {
       throw new Error('Card examples must be an array')
     }
 
+    if (card.deckId !== undefined && (typeof card.deckId !== 'string' || card.deckId.trim() === '')) {
+      throw new Error('Card deckId must be a non-empty string')
+    }
+
+    if (card.tags !== undefined && (!Array.isArray(card.tags) || card.tags.some(tag => typeof tag !== 'string'))) {
+      throw new Error('Card tags must be an array of strings')
+    }
+
+    // Scheduling fields are validated when present; legacy cards are migrated on read
+    for (const field of ['easeFactor', 'interval', 'repetitions'] as const) {
+      if (card[field] !== undefined && (typeof card[field] !== 'number' || isNaN(card[field]))) {
+        throw new Error(`Card ${field} must be a number`)
+      }
+    }
+
+    if (card.dueAt !== undefined) {
+      if (!(card.dueAt instanceof Date) || isNaN(card.dueAt.getTime())) {
+        throw new Error('Card dueAt must be a valid Date')
+      }
+    }
+
     card.examples.forEach((example: any, index: number) => {
       if (!example || typeof example !== 'object') {
         throw new Error(`Example at index ${index} must be an object`)
@@ -311,19 +806,139 @@ export class LocalStorageProvider implements IDataProviderWithStatus {
       throw new Error('Invalid card data')
     }
 
-    // Transform date strings to Date objects and ensure examples array exists
-    const card: Card = {
+    // Transform date strings to Date objects, ensure examples array exists
+    // and fill in scheduling state, deck and tags for cards saved before they existed
+    const card: Card = migrateCardSchedule(migrateCardTags(migrateCardDeck({
       ...cardData,
       createdAt: new Date(cardData.createdAt),
       lastReviewed: cardData.lastReviewed ? new Date(cardData.lastReviewed) : undefined,
+      deletedAt: cardData.deletedAt ? new Date(cardData.deletedAt) : undefined,
       examples: cardData.examples || [],
-    }
+    })))
 
     // Validate the transformed card
     this.validateCard(card)
     return card
   }
 
+  /**
+   * Write decks to localStorage (replaces all existing decks)
+   */
+  private writeDecks(decks: Deck[]): void {
+    try {
+      localStorage.setItem(this.deckStorageKey, JSON.stringify(decks))
+    } catch (error) {
+      if (error instanceof Error && error.name === 'QuotaExceededError') {
+        throw new ProviderError(
+          DataProviderError.OPERATION_FAILED,
+          'localStorage quota exceeded. Please free up space or use a different storage provider.',
+          this.providerName,
+          error
+        )
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Validate deck structure and required fields
+   */
+  private validateDeck(deck: Deck): void {
+    if (!deck || typeof deck !== 'object') {
+      throw new Error('Deck must be an object')
+    }
+
+    if (typeof deck.id !== 'string' || deck.id.trim() === '') {
+      throw new Error('Deck id must be a non-empty string')
+    }
+
+    if (typeof deck.name !== 'string' || deck.name.trim() === '') {
+      throw new Error('Deck name must be a non-empty string')
+    }
+
+    for (const field of ['description', 'sourceLanguage', 'targetLanguage'] as const) {
+      if (typeof deck[field] !== 'string') {
+        throw new Error(`Deck ${field} must be a string`)
+      }
+    }
+
+    if (!(deck.createdAt instanceof Date) || isNaN(deck.createdAt.getTime())) {
+      throw new Error('Deck createdAt must be a valid Date')
+    }
+  }
+
+  /**
+   * Validate and transform deck data from storage
+   */
+  private validateAndTransformDeck(deckData: any): Deck {
+    if (!deckData || typeof deckData !== 'object') {
+      throw new Error('Invalid deck data')
+    }
+
+    const deck: Deck = {
+      ...deckData,
+      description: deckData.description || '',
+      sourceLanguage: deckData.sourceLanguage || '',
+      targetLanguage: deckData.targetLanguage || '',
+      createdAt: new Date(deckData.createdAt)
+    }
+
+    this.validateDeck(deck)
+    return deck
+  }
+
+  /**
+   * Validate review log structure and required fields
+   */
+  private validateReviewLog(log: ReviewLog): void {
+    if (!log || typeof log !== 'object') {
+      throw new Error('Review log must be an object')
+    }
+
+    if (typeof log.id !== 'string' || log.id.trim() === '') {
+      throw new Error('Review log id must be a non-empty string')
+    }
+
+    if (typeof log.cardId !== 'string' || log.cardId.trim() === '') {
+      throw new Error('Review log cardId must be a non-empty string')
+    }
+
+    if (!(log.reviewedAt instanceof Date) || isNaN(log.reviewedAt.getTime())) {
+      throw new Error('Review log reviewedAt must be a valid Date')
+    }
+
+    if (!REVIEW_GRADES.includes(log.grade)) {
+      throw new Error(`Review log grade must be one of: ${REVIEW_GRADES.join(', ')}`)
+    }
+
+    for (const field of ['responseTimeMs', 'previousInterval', 'nextInterval'] as const) {
+      if (typeof log[field] !== 'number' || isNaN(log[field])) {
+        throw new Error(`Review log ${field} must be a number`)
+      }
+    }
+
+    if (typeof log.studyMode !== 'string') {
+      throw new Error('Review log studyMode must be a string')
+    }
+  }
+
+  /**
+   * Validate and transform review log data from storage
+   */
+  private validateAndTransformReviewLog(logData: any): ReviewLog {
+    if (!logData || typeof logData !== 'object') {
+      throw new Error('Invalid review log data')
+    }
+
+    const log: ReviewLog = {
+      ...logData,
+      reviewedAt: new Date(logData.reviewedAt)
+    }
+
+    this.validateReviewLog(log)
+    return log
+  }
+
   /**
    * Updates the current status and notifies listeners
    */
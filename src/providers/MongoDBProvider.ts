@@ -1,6 +1,17 @@
-import { MongoClient, Db, Collection, ObjectId } from 'mongodb'
-import { Card, Example } from '../types/card'
-import { IDataProvider, IDataProviderWithStatus, MongoDBConfig, DataProviderError, ProviderError, ProviderStatus, ProviderStatusInfo } from './types'
+import { MongoClient, Db, Collection, Filter, ObjectId } from 'mongodb'
+import type { MongoBulkWriteError, WriteError } from 'mongodb'
+import { Card, CardPatch, CardPatchEntry, CardQuery, CardQueryResult, CardSort, Example } from '../types/card'
+import { Deck, DEFAULT_DECK_ID } from '../types/deck'
+import { ReviewLog } from '../types/review'
+import { migrateCardSchedule } from '../utils/scheduler'
+import { createDefaultDeck, migrateCardDeck } from '../utils/decks'
+import { migrateCardTags } from '../utils/tags'
+import { CARD_SORT_FIELDS, DEFAULT_CARD_SORT, decodeCardCursor, encodeCardCursor } from '../utils/cardQuery'
+import { escapeRegExp } from '../utils/cloze'
+import { IDataProvider, IDataProviderWithStatus, IReviewLogProvider, MongoDBConfig, BulkOperationResult, DataProviderError, ProviderError, ProviderStatus, ProviderStatusInfo } from './types'
+
+// Sorts words alphabetically instead of by byte value, the query indexes use it too
+const CARD_QUERY_COLLATION = { locale: 'en' }
 
 /**
  * MongoDB document interface for cards
@@ -8,21 +19,46 @@ import { IDataProvider, IDataProviderWithStatus, MongoDBConfig, DataProviderErro
 interface CardDocument {
   _id?: ObjectId
   id: string
+  deckId?: string // missing on documents written before decks existed
   word: string
   translation: string
   isKnown: boolean
   createdAt: Date
   lastReviewed?: Date
+  deletedAt?: Date
   examples: Example[]
+  tags?: string[] // missing on documents written before tags existed
+  // Scheduling fields are missing on documents written before the scheduler existed
+  easeFactor?: number
+  interval?: number
+  repetitions?: number
+  dueAt?: Date
+  fieldUpdatedAt?: Record<string, number>
+}
+
+/**
+ * MongoDB document interface for decks
+ */
+interface DeckDocument extends Deck {
+  _id?: ObjectId
+}
+
+/**
+ * MongoDB document interface for review logs
+ */
+interface ReviewLogDocument extends ReviewLog {
+  _id?: ObjectId
 }
 
 /**
  * MongoDB provider implementation
  */
-export class MongoDBProvider implements IDataProviderWithStatus {
+export class MongoDBProvider implements IDataProviderWithStatus, IReviewLogProvider {
   private client: MongoClient | null = null
   private db: Db | null = null
   private collection: Collection<CardDocument> | null = null
+  private deckCollection: Collection<DeckDocument> | null = null
+  private reviewCollection: Collection<ReviewLogDocument> | null = null
   private isConnected = false
   private connectionPromise: Promise<void> | null = null
   private currentStatus: ProviderStatus = ProviderStatus.DISCONNECTED
@@ -105,6 +141,20 @@ export class MongoDBProvider implements IDataProviderWithStatus {
       
       // Create index on id field for better performance
       await this.collection.createIndex({ id: 1 }, { unique: true })
+
+      // queryCards sorts within a deck by any of the sort fields
+      for (const field of CARD_SORT_FIELDS) {
+        await this.collection.createIndex({ deckId: 1, [field]: 1, id: 1 }, { collation: CARD_QUERY_COLLATION })
+      }
+      await this.collection.createIndex({ tags: 1 }, { collation: CARD_QUERY_COLLATION })
+
+      // Decks and review history live next to the cards collection
+      this.deckCollection = this.db.collection<DeckDocument>(`${this.config.collectionName}_decks`)
+      await this.deckCollection.createIndex({ id: 1 }, { unique: true })
+
+      this.reviewCollection = this.db.collection<ReviewLogDocument>(`${this.config.collectionName}_reviews`)
+      await this.reviewCollection.createIndex({ id: 1 }, { unique: true })
+      await this.reviewCollection.createIndex({ cardId: 1 })
       
       this.isConnected = true
       this.connectionPromise = null
@@ -135,6 +185,8 @@ export class MongoDBProvider implements IDataProviderWithStatus {
       this.client = null
       this.db = null
       this.collection = null
+      this.deckCollection = null
+      this.reviewCollection = null
       this.isConnected = false
       this.connectionPromise = null
       this.connectionStartTime = null
@@ -162,19 +214,95 @@ export class MongoDBProvider implements IDataProviderWithStatus {
     return this.collection
   }
 
+  /**
+   * Ensures connection is established before deck operations
+   */
+  private async ensureDeckConnection(): Promise<Collection<DeckDocument>> {
+    if (!this.isConnected || !this.deckCollection) {
+      await this.connect()
+    }
+
+    if (!this.deckCollection) {
+      throw new ProviderError(
+        DataProviderError.CONNECTION_FAILED,
+        'MongoDB deck collection is not available',
+        'mongodb'
+      )
+    }
+
+    return this.deckCollection
+  }
+
+  /**
+   * Ensures connection is established before review log operations
+   */
+  private async ensureReviewConnection(): Promise<Collection<ReviewLogDocument>> {
+    if (!this.isConnected || !this.reviewCollection) {
+      await this.connect()
+    }
+
+    if (!this.reviewCollection) {
+      throw new ProviderError(
+        DataProviderError.CONNECTION_FAILED,
+        'MongoDB review collection is not available',
+        'mongodb'
+      )
+    }
+
+    return this.reviewCollection
+  }
+
+  /**
+   * Converts MongoDB document to Deck interface
+   */
+  private documentToDeck(doc: DeckDocument): Deck {
+    return {
+      id: doc.id,
+      name: doc.name,
+      description: doc.description || '',
+      sourceLanguage: doc.sourceLanguage || '',
+      targetLanguage: doc.targetLanguage || '',
+      createdAt: doc.createdAt
+    }
+  }
+
+  /**
+   * Converts MongoDB document to ReviewLog interface
+   */
+  private documentToReviewLog(doc: ReviewLogDocument): ReviewLog {
+    return {
+      id: doc.id,
+      cardId: doc.cardId,
+      reviewedAt: doc.reviewedAt,
+      grade: doc.grade,
+      responseTimeMs: doc.responseTimeMs,
+      previousInterval: doc.previousInterval,
+      nextInterval: doc.nextInterval,
+      studyMode: doc.studyMode
+    }
+  }
+
   /**
    * Converts MongoDB document to Card interface
    */
   private documentToCard(doc: CardDocument): Card {
-    return {
+    return migrateCardSchedule(migrateCardTags(migrateCardDeck({
       id: doc.id,
+      deckId: doc.deckId,
       word: doc.word,
       translation: doc.translation,
       isKnown: doc.isKnown,
       createdAt: doc.createdAt,
       lastReviewed: doc.lastReviewed,
-      examples: doc.examples || []
-    }
+      deletedAt: doc.deletedAt || undefined,
+      examples: doc.examples || [],
+      tags: doc.tags,
+      easeFactor: doc.easeFactor,
+      interval: doc.interval,
+      repetitions: doc.repetitions,
+      dueAt: doc.dueAt,
+      fieldUpdatedAt: doc.fieldUpdatedAt
+    })))
   }
 
   /**
@@ -183,12 +311,20 @@ export class MongoDBProvider implements IDataProviderWithStatus {
   private cardToDocument(card: Card): Omit<CardDocument, '_id'> {
     return {
       id: card.id,
+      deckId: card.deckId,
       word: card.word,
       translation: card.translation,
       isKnown: card.isKnown,
       createdAt: card.createdAt,
       lastReviewed: card.lastReviewed,
-      examples: card.examples
+      deletedAt: card.deletedAt,
+      examples: card.examples,
+      tags: card.tags,
+      easeFactor: card.easeFactor,
+      interval: card.interval,
+      repetitions: card.repetitions,
+      dueAt: card.dueAt,
+      fieldUpdatedAt: card.fieldUpdatedAt
     }
   }
 
@@ -214,6 +350,120 @@ export class MongoDBProvider implements IDataProviderWithStatus {
     }
   }
 
+  /**
+   * Builds the MongoDB filter for the filters of a card query
+   */
+  private buildCardFilter(query: CardQuery): Filter<CardDocument> {
+    // Cards restored from the trash may keep a null deletedAt, so the type is checked
+    const conditions: Filter<CardDocument>[] = [
+      query.deleted ? { deletedAt: { $type: 'date' } } : { deletedAt: { $not: { $type: 'date' } } }
+    ]
+
+    if (query.deckId !== undefined) {
+      // Documents written before decks existed belong to the default deck
+      conditions.push(query.deckId === DEFAULT_DECK_ID
+        ? { $or: [{ deckId: DEFAULT_DECK_ID }, { deckId: { $exists: false } }] }
+        : { deckId: query.deckId })
+    }
+    if (query.known !== undefined) {
+      conditions.push({ isKnown: query.known })
+    }
+    if (query.dueBefore) {
+      conditions.push({ dueAt: { $lte: query.dueBefore } })
+    }
+    if (query.tags && query.tags.length > 0) {
+      conditions.push({ tags: { $in: query.tags.map(tag => new RegExp(`^${escapeRegExp(tag)}$`, 'i')) } })
+    }
+
+    const text = query.text ? query.text.trim() : ''
+    if (text) {
+      const pattern = new RegExp(escapeRegExp(text), 'i')
+      conditions.push({
+        $or: [
+          { word: pattern },
+          { translation: pattern },
+          { tags: pattern },
+          { 'examples.text': pattern },
+          { 'examples.translation': pattern }
+        ]
+      })
+    }
+
+    return { $and: conditions }
+  }
+
+  /**
+   * Builds the MongoDB filter for the cards after a cursor. Missing dates are
+   * null, which MongoDB sorts before every date
+   */
+  private buildCursorFilter(sort: CardSort, cursor: string): Filter<CardDocument> {
+    const [value, id] = decodeCardCursor(cursor, sort)
+    const after = typeof value === 'number' ? new Date(value) : value
+    const operator = sort.direction === 'asc' ? '$gt' : '$lt'
+    const sameValue = { [sort.field]: after, id: { [operator]: id } }
+
+    if (after === null) {
+      return sort.direction === 'asc'
+        ? { $or: [{ [sort.field]: { $ne: null } }, sameValue] }
+        : sameValue
+    }
+
+    return {
+      $or: [
+        { [sort.field]: { [operator]: after } },
+        ...(sort.direction === 'desc' ? [{ [sort.field]: null }] : []),
+        sameValue
+      ]
+    }
+  }
+
+  /**
+   * Retrieves one page of the cards matching a query. Pages continue from the
+   * last card of the previous page (sort value, then id), so deep pages stay
+   * as fast as the first one
+   */
+  async queryCards(query: CardQuery): Promise<CardQueryResult> {
+    try {
+      const collection = await this.ensureConnection()
+      const sort = query.sort || DEFAULT_CARD_SORT
+      const direction = sort.direction === 'asc' ? 1 : -1
+      const filter = this.buildCardFilter(query)
+      const pageFilter = query.cursor
+        ? { $and: [filter, this.buildCursorFilter(sort, query.cursor)] }
+        : filter
+
+      const total = await collection.countDocuments(filter, { collation: CARD_QUERY_COLLATION })
+      let cursor = collection.find(pageFilter)
+        .collation(CARD_QUERY_COLLATION)
+        .sort({ [sort.field]: direction, id: direction })
+      if (query.limit !== undefined) {
+        // One extra card tells whether there is a next page
+        cursor = cursor.limit(query.limit + 1)
+      }
+
+      const documents = await cursor.toArray()
+      const hasMore = query.limit !== undefined && documents.length > query.limit
+      const cards = documents.slice(0, query.limit).map(doc => this.documentToCard(doc))
+
+      return {
+        cards,
+        total,
+        nextCursor: hasMore && cards.length > 0 ? encodeCardCursor(cards[cards.length - 1], sort) : null
+      }
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        throw error
+      }
+
+      throw new ProviderError(
+        DataProviderError.OPERATION_FAILED,
+        `Failed to query cards: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'mongodb',
+        error instanceof Error ? error : undefined
+      )
+    }
+  }
+
   /**
    * Saves a new card to MongoDB
    */
@@ -343,6 +593,444 @@ export class MongoDBProvider implements IDataProviderWithStatus {
     }
   }
 
+  /**
+   * Changes only the given fields of a card with $set
+   */
+  async patchCard(cardId: string, changes: CardPatch): Promise<Card> {
+    try {
+      const collection = await this.ensureConnection()
+      const document = await collection.findOneAndUpdate(
+        { id: cardId },
+        { $set: changes },
+        { returnDocument: 'after' }
+      )
+
+      if (!document) {
+        throw new ProviderError(
+          DataProviderError.OPERATION_FAILED,
+          `Card with ID ${cardId} not found`,
+          'mongodb'
+        )
+      }
+
+      return this.documentToCard(document)
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        throw error
+      }
+
+      throw new ProviderError(
+        DataProviderError.OPERATION_FAILED,
+        `Failed to patch card: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'mongodb',
+        error instanceof Error ? error : undefined
+      )
+    }
+  }
+
+  /**
+   * Retrieves a single card from MongoDB, or null when it does not exist
+   */
+  async getCard(cardId: string): Promise<Card | null> {
+    try {
+      const collection = await this.ensureConnection()
+      const document = await collection.findOne({ id: cardId })
+      return document ? this.documentToCard(document) : null
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        throw error
+      }
+
+      throw new ProviderError(
+        DataProviderError.OPERATION_FAILED,
+        `Failed to retrieve card: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'mongodb',
+        error instanceof Error ? error : undefined
+      )
+    }
+  }
+
+  /**
+   * Inserts new cards and replaces existing ones with the same id (batch operation)
+   */
+  async upsertCards(cards: Card[]): Promise<Card[]> {
+    if (cards.length === 0) {
+      return []
+    }
+
+    try {
+      const collection = await this.ensureConnection()
+      await collection.bulkWrite(
+        cards.map(card => ({
+          replaceOne: {
+            filter: { id: card.id },
+            replacement: this.cardToDocument(card),
+            upsert: true
+          }
+        })),
+        { ordered: false }
+      )
+      return cards
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        throw error
+      }
+
+      throw new ProviderError(
+        DataProviderError.OPERATION_FAILED,
+        `Failed to upsert cards: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'mongodb',
+        error instanceof Error ? error : undefined
+      )
+    }
+  }
+
+  /**
+   * Patches many cards with one unordered bulk write. Missing cards and
+   * rejected updates are reported as failed, the rest are applied
+   */
+  async patchCards(patches: CardPatchEntry[]): Promise<BulkOperationResult> {
+    const result: BulkOperationResult = { succeeded: [], failed: [] }
+    if (patches.length === 0) {
+      return result
+    }
+
+    try {
+      const collection = await this.ensureConnection()
+      const existingIds = await this.findExistingCardIds(collection, patches.map(patch => patch.cardId))
+      const updates = patches.filter(({ cardId }) => {
+        if (!existingIds.has(cardId)) {
+          result.failed.push({ cardId, error: `Card with ID ${cardId} not found` })
+        }
+        return existingIds.has(cardId)
+      })
+      if (updates.length === 0) {
+        return result
+      }
+
+      const writeErrors = new Map<number, string>()
+      try {
+        await collection.bulkWrite(
+          updates.map(({ cardId, changes }) => ({
+            updateOne: { filter: { id: cardId }, update: { $set: changes } }
+          })),
+          { ordered: false }
+        )
+      } catch (error) {
+        const bulkWriteErrors = (error as Partial<MongoBulkWriteError> | null)?.writeErrors
+        if (!bulkWriteErrors) {
+          throw error
+        }
+        ([] as WriteError[]).concat(bulkWriteErrors).forEach(writeError => {
+          writeErrors.set(writeError.index, writeError.errmsg || 'Update rejected')
+        })
+      }
+
+      updates.forEach(({ cardId }, index) => {
+        const error = writeErrors.get(index)
+        if (error === undefined) {
+          result.succeeded.push(cardId)
+        } else {
+          result.failed.push({ cardId, error })
+        }
+      })
+      return result
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        throw error
+      }
+
+      throw new ProviderError(
+        DataProviderError.OPERATION_FAILED,
+        `Failed to patch cards: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'mongodb',
+        error instanceof Error ? error : undefined
+      )
+    }
+  }
+
+  /**
+   * Deletes many cards with one deleteMany, missing cards are reported as failed
+   */
+  async deleteCards(cardIds: string[]): Promise<BulkOperationResult> {
+    const result: BulkOperationResult = { succeeded: [], failed: [] }
+    if (cardIds.length === 0) {
+      return result
+    }
+
+    try {
+      const collection = await this.ensureConnection()
+      const existingIds = await this.findExistingCardIds(collection, cardIds)
+      cardIds.forEach(cardId => {
+        if (existingIds.has(cardId)) {
+          result.succeeded.push(cardId)
+        } else {
+          result.failed.push({ cardId, error: `Card with ID ${cardId} not found` })
+        }
+      })
+
+      if (result.succeeded.length > 0) {
+        await collection.deleteMany({ id: { $in: result.succeeded } })
+      }
+      return result
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        throw error
+      }
+
+      throw new ProviderError(
+        DataProviderError.OPERATION_FAILED,
+        `Failed to delete cards: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'mongodb',
+        error instanceof Error ? error : undefined
+      )
+    }
+  }
+
+  private async findExistingCardIds(collection: Collection<CardDocument>, cardIds: string[]): Promise<Set<string>> {
+    const documents = await collection.find({ id: { $in: cardIds } }, { projection: { id: 1 } }).toArray()
+    return new Set(documents.map(document => document.id))
+  }
+
+  /**
+   * Retrieves all decks from MongoDB. Collections created before decks
+   * existed get the default deck.
+   */
+  async getDecks(): Promise<Deck[]> {
+    try {
+      const collection = await this.ensureDeckConnection()
+      const documents = await collection.find({}).toArray()
+      return documents.length > 0
+        ? documents.map(doc => this.documentToDeck(doc))
+        : [createDefaultDeck()]
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        throw error
+      }
+
+      throw new ProviderError(
+        DataProviderError.OPERATION_FAILED,
+        `Failed to retrieve decks: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'mongodb',
+        error instanceof Error ? error : undefined
+      )
+    }
+  }
+
+  /**
+   * Saves a new deck to MongoDB
+   */
+  async saveDeck(deck: Deck): Promise<Deck> {
+    try {
+      const collection = await this.ensureDeckConnection()
+
+      // Persist the implicit default deck alongside the first real one
+      if (deck.id !== DEFAULT_DECK_ID && await collection.countDocuments({}) === 0) {
+        await collection.insertOne({ ...createDefaultDeck() })
+      }
+
+      await collection.insertOne({ ...deck })
+      return deck
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        throw error
+      }
+
+      if (error instanceof Error && 'code' in error && error.code === 11000) {
+        throw new ProviderError(
+          DataProviderError.OPERATION_FAILED,
+          `Deck with ID ${deck.id} already exists`,
+          'mongodb',
+          error
+        )
+      }
+
+      throw new ProviderError(
+        DataProviderError.OPERATION_FAILED,
+        `Failed to save deck: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'mongodb',
+        error instanceof Error ? error : undefined
+      )
+    }
+  }
+
+  /**
+   * Updates an existing deck in MongoDB
+   */
+  async updateDeck(deck: Deck): Promise<Deck> {
+    try {
+      const collection = await this.ensureDeckConnection()
+
+      // The default deck only exists implicitly until it is first changed
+      const result = await collection.replaceOne(
+        { id: deck.id },
+        { ...deck },
+        { upsert: deck.id === DEFAULT_DECK_ID }
+      )
+
+      if (result.matchedCount === 0 && result.upsertedCount === 0) {
+        throw new ProviderError(
+          DataProviderError.OPERATION_FAILED,
+          `Deck with ID ${deck.id} not found`,
+          'mongodb'
+        )
+      }
+
+      return deck
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        throw error
+      }
+
+      throw new ProviderError(
+        DataProviderError.OPERATION_FAILED,
+        `Failed to update deck: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'mongodb',
+        error instanceof Error ? error : undefined
+      )
+    }
+  }
+
+  /**
+   * Deletes a deck and its cards from MongoDB
+   */
+  async deleteDeck(deckId: string): Promise<void> {
+    try {
+      const deckCollection = await this.ensureDeckConnection()
+      const cardCollection = await this.ensureConnection()
+
+      const result = await deckCollection.deleteOne({ id: deckId })
+      if (result.deletedCount === 0 && deckId !== DEFAULT_DECK_ID) {
+        throw new ProviderError(
+          DataProviderError.OPERATION_FAILED,
+          `Deck with ID ${deckId} not found`,
+          'mongodb'
+        )
+      }
+
+      // Cards without a deck belong to the default deck
+      await cardCollection.deleteMany(
+        deckId === DEFAULT_DECK_ID
+          ? { $or: [{ deckId }, { deckId: { $exists: false } }] }
+          : { deckId }
+      )
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        throw error
+      }
+
+      throw new ProviderError(
+        DataProviderError.OPERATION_FAILED,
+        `Failed to delete deck: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'mongodb',
+        error instanceof Error ? error : undefined
+      )
+    }
+  }
+
+  /**
+   * Retrieves review logs from MongoDB, optionally only for one card
+   */
+  async getReviewLogs(cardId?: string): Promise<ReviewLog[]> {
+    try {
+      const collection = await this.ensureReviewConnection()
+      const documents = await collection
+        .find(cardId ? { cardId } : {})
+        .sort({ reviewedAt: 1 })
+        .toArray()
+      return documents.map(doc => this.documentToReviewLog(doc))
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        throw error
+      }
+
+      throw new ProviderError(
+        DataProviderError.OPERATION_FAILED,
+        `Failed to retrieve review logs: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'mongodb',
+        error instanceof Error ? error : undefined
+      )
+    }
+  }
+
+  /**
+   * Saves a review log to MongoDB, replacing the log with the same id
+   */
+  async saveReviewLog(log: ReviewLog): Promise<ReviewLog> {
+    try {
+      const collection = await this.ensureReviewConnection()
+      await collection.replaceOne({ id: log.id }, { ...log }, { upsert: true })
+      return log
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        throw error
+      }
+
+      throw new ProviderError(
+        DataProviderError.OPERATION_FAILED,
+        `Failed to save review log: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'mongodb',
+        error instanceof Error ? error : undefined
+      )
+    }
+  }
+
+  /**
+   * Saves multiple review logs to MongoDB (batch operation), replacing the logs with the same ids
+   */
+  async saveReviewLogs(logs: ReviewLog[]): Promise<ReviewLog[]> {
+    if (logs.length === 0) {
+      return []
+    }
+
+    try {
+      const collection = await this.ensureReviewConnection()
+      await collection.bulkWrite(
+        logs.map(log => ({
+          replaceOne: {
+            filter: { id: log.id },
+            replacement: { ...log },
+            upsert: true
+          }
+        })),
+        { ordered: false }
+      )
+      return logs
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        throw error
+      }
+
+      throw new ProviderError(
+        DataProviderError.OPERATION_FAILED,
+        `Failed to save review logs: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'mongodb',
+        error instanceof Error ? error : undefined
+      )
+    }
+  }
+
+  /**
+   * Deletes a review log from MongoDB, a missing log is not an error
+   */
+  async deleteReviewLog(logId: string): Promise<void> {
+    try {
+      const collection = await this.ensureReviewConnection()
+      await collection.deleteOne({ id: logId })
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        throw error
+      }
+
+      throw new ProviderError(
+        DataProviderError.OPERATION_FAILED,
+        `Failed to delete review log: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'mongodb',
+        error instanceof Error ? error : undefined
+      )
+    }
+  }
+
   /**
    * Returns the provider name
    */
@@ -0,0 +1,87 @@
+/**
+ * Kind of record a queued change applies to
+ */
+export type SyncEntity = 'card' | 'deck' | 'reviewLog'
+
+/**
+ * A local change waiting to be sent to the remote provider. Only the id of the
+ * changed record is kept, its latest local version is read when the change is sent
+ */
+export interface SyncOperation {
+  id: string
+  entity: SyncEntity
+  action: 'upsert' | 'delete'
+  entityId: string
+  timestamp: number // epoch ms of the change
+}
+
+/**
+ * Persisted queue of local changes that have not reached the remote provider yet.
+ * Only the latest change to each record is kept
+ */
+export class SyncOutbox {
+  private operations: SyncOperation[]
+
+  constructor(private readonly storageKey = 'english-cards-sync-outbox') {
+    this.operations = this.load()
+  }
+
+  /**
+   * Queues a change, replacing any earlier change to the same record
+   */
+  add(entity: SyncEntity, action: SyncOperation['action'], entityId: string, timestamp: number = Date.now()): SyncOperation {
+    const operation: SyncOperation = {
+      id: `sync-${timestamp}-${Math.random().toString(36).substr(2, 9)}`,
+      entity,
+      action,
+      entityId,
+      timestamp
+    }
+
+    this.operations = this.operations
+      .filter(existing => existing.entity !== entity || existing.entityId !== entityId)
+      .concat(operation)
+    this.persist()
+    return operation
+  }
+
+  /**
+   * Drops changes that have been sent. Changes queued since then stay
+   */
+  remove(operations: SyncOperation[]): void {
+    const sentIds = new Set(operations.map(operation => operation.id))
+    this.operations = this.operations.filter(operation => !sentIds.has(operation.id))
+    this.persist()
+  }
+
+  getAll(): SyncOperation[] {
+    return [...this.operations]
+  }
+
+  /**
+   * Whether a record has a change waiting to be sent
+   */
+  has(entity: SyncEntity, entityId: string): boolean {
+    return this.operations.some(operation => operation.entity === entity && operation.entityId === entityId)
+  }
+
+  get size(): number {
+    return this.operations.length
+  }
+
+  private load(): SyncOperation[] {
+    try {
+      const saved = typeof localStorage === 'undefined' ? null : localStorage.getItem(this.storageKey)
+      const parsed = saved ? JSON.parse(saved) : []
+      return Array.isArray(parsed) ? parsed : []
+    } catch {
+      return []
+    }
+  }
+
+  private persist(): void {
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.operations))
+    }
+  }
+}
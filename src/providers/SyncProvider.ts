@@ -0,0 +1,452 @@
+import { Card, CardPatch, CardPatchEntry, CardQuery, CardQueryResult } from '../types/card'
+import { Deck, DEFAULT_DECK_ID } from '../types/deck'
+import { ReviewLog } from '../types/review'
+import { isSameCard, isSameDeck, mergeCards, stampCardChanges } from '../utils/sync'
+import { BulkOperationResult, IDataProvider, IReviewLogProvider, supportsReviewLogs } from './types'
+import { SyncEntity, SyncOperation, SyncOutbox } from './SyncOutbox'
+
+/**
+ * Where the local copy stands compared to the remote provider
+ */
+export type SyncStatus = 'synced' | 'pending' | 'syncing' | 'offline' | 'error'
+
+export interface SyncState {
+  status: SyncStatus
+  pendingChanges: number
+  lastSyncedAt: Date | null
+  error?: string
+}
+
+export interface SyncProviderOptions {
+  outbox?: SyncOutbox
+  syncDelayMs?: number // wait after a local change before syncing, so bursts of changes go out together
+}
+
+function byId<T extends { id: string }>(items: T[]): Map<string, T> {
+  const map = new Map<string, T>()
+  items.forEach(item => map.set(item.id, item))
+  return map
+}
+
+/**
+ * Offline-first provider. Reads and writes go to the local provider, every
+ * change is queued in a persisted outbox, and sync() sends the queued changes
+ * to the remote provider and pulls the remote changes back. Both sides keep
+ * when each card field was changed, so concurrent edits are merged per field
+ * with the latest change winning
+ */
+export class SyncProvider implements IDataProvider, IReviewLogProvider {
+  private readonly outbox: SyncOutbox
+  private readonly syncDelayMs: number
+  private state: SyncState
+  private syncPromise: Promise<void> | null = null
+  private syncTimer: ReturnType<typeof setTimeout> | null = null
+
+  public onSyncStateChange?: (state: SyncState) => void
+  public onRemoteChange?: () => void // called when a sync brought changes into the local data
+
+  constructor(
+    private readonly local: IDataProvider & IReviewLogProvider,
+    private readonly remote: IDataProvider,
+    options: SyncProviderOptions = {}
+  ) {
+    this.outbox = options.outbox ?? new SyncOutbox()
+    this.syncDelayMs = options.syncDelayMs ?? 1000
+    this.state = {
+      status: this.outbox.size > 0 ? 'pending' : 'synced',
+      pendingChanges: this.outbox.size,
+      lastSyncedAt: null
+    }
+  }
+
+  getSyncState(): SyncState {
+    return this.state
+  }
+
+  /**
+   * Sends queued changes and pulls remote changes. Failures are reported
+   * through the sync state, the local data stays usable either way
+   */
+  async sync(): Promise<void> {
+    if (this.syncPromise) {
+      return this.syncPromise
+    }
+
+    this.clearSyncTimer()
+    this.syncPromise = this.runSync()
+    try {
+      await this.syncPromise
+    } finally {
+      this.syncPromise = null
+    }
+  }
+
+  private async runSync(): Promise<void> {
+    this.setState({ status: 'syncing', error: undefined })
+
+    try {
+      if (!(await this.remote.isAvailable())) {
+        this.setState({ status: 'offline' })
+        return
+      }
+
+      const operations = this.outbox.getAll()
+      await this.push(operations)
+      this.outbox.remove(operations)
+
+      const changed = await this.pull()
+
+      this.setState({
+        status: this.outbox.size > 0 ? 'pending' : 'synced',
+        pendingChanges: this.outbox.size,
+        lastSyncedAt: new Date()
+      })
+
+      if (changed) {
+        this.onRemoteChange?.()
+      }
+    } catch (error) {
+      console.error('Sync failed:', error)
+      this.setState({
+        status: 'error',
+        pendingChanges: this.outbox.size,
+        error: error instanceof Error ? error.message : 'Sync failed'
+      })
+    }
+  }
+
+  /**
+   * Replays the queued changes against the remote provider, decks before the
+   * cards that may belong to them and deck deletions last
+   */
+  private async push(operations: SyncOperation[]): Promise<void> {
+    if (operations.length === 0) {
+      return
+    }
+
+    const [localCards, localDecks, remoteCards, remoteDecks] = await Promise.all([
+      this.local.getCards().then(byId),
+      this.local.getDecks().then(byId),
+      this.remote.getCards().then(byId),
+      this.remote.getDecks().then(byId)
+    ])
+
+    const queued = (entity: SyncEntity, action: SyncOperation['action']) => operations
+      .filter(operation => operation.entity === entity && operation.action === action)
+      .map(operation => operation.entityId)
+
+    for (const deckId of queued('deck', 'upsert')) {
+      const deck = localDecks.get(deckId)
+      if (deck) {
+        await (remoteDecks.has(deckId) ? this.remote.updateDeck(deck) : this.remote.saveDeck(deck))
+      }
+    }
+
+    const cards = queued('card', 'upsert')
+      .filter(cardId => localCards.has(cardId))
+      .map(cardId => {
+        const card = localCards.get(cardId)!
+        const remoteCard = remoteCards.get(cardId)
+        return remoteCard ? mergeCards(card, remoteCard) : card
+      })
+    await this.remote.upsertCards(cards)
+
+    for (const cardId of queued('card', 'delete')) {
+      if (remoteCards.has(cardId)) {
+        await this.remote.deleteCard(cardId)
+      }
+    }
+
+    for (const deckId of queued('deck', 'delete')) {
+      if (remoteDecks.has(deckId)) {
+        await this.remote.deleteDeck(deckId)
+      }
+    }
+
+    const logIds = new Set(queued('reviewLog', 'upsert'))
+    if (logIds.size > 0 && supportsReviewLogs(this.remote)) {
+      const logs = (await this.local.getReviewLogs()).filter(log => logIds.has(log.id))
+      if (logs.length > 0) {
+        await this.remote.saveReviewLogs(logs)
+      }
+    }
+
+    if (supportsReviewLogs(this.remote)) {
+      for (const logId of queued('reviewLog', 'delete')) {
+        await this.remote.deleteReviewLog(logId)
+      }
+    }
+  }
+
+  /**
+   * Brings remote changes into the local data. Records with changes still
+   * waiting in the outbox are left alone until the next sync sends them.
+   * Returns whether any decks or cards changed
+   */
+  private async pull(): Promise<boolean> {
+    const decksChanged = await this.pullDecks()
+    const cardsChanged = await this.pullCards()
+    await this.pullReviewLogs()
+    return decksChanged || cardsChanged
+  }
+
+  private async pullDecks(): Promise<boolean> {
+    const [localDecks, remoteDecks] = await Promise.all([
+      this.local.getDecks().then(byId),
+      this.remote.getDecks()
+    ])
+    let changed = false
+
+    for (const remoteDeck of remoteDecks) {
+      const localDeck = localDecks.get(remoteDeck.id)
+      if (this.outbox.has('deck', remoteDeck.id) || (localDeck && isSameDeck(localDeck, remoteDeck))) {
+        continue
+      }
+      await (localDeck ? this.local.updateDeck(remoteDeck) : this.local.saveDeck(remoteDeck))
+      changed = true
+    }
+
+    const remoteIds = new Set(remoteDecks.map(deck => deck.id))
+    for (const localDeck of Array.from(localDecks.values())) {
+      if (localDeck.id !== DEFAULT_DECK_ID && !remoteIds.has(localDeck.id) && !this.outbox.has('deck', localDeck.id)) {
+        await this.local.deleteDeck(localDeck.id)
+        changed = true
+      }
+    }
+
+    return changed
+  }
+
+  private async pullCards(): Promise<boolean> {
+    const [localCards, remoteCards] = await Promise.all([
+      this.local.getCards(),
+      this.remote.getCards()
+    ])
+    const localById = byId(localCards)
+    const remoteIds = new Set(remoteCards.map(card => card.id))
+    const changedCards: Card[] = []
+    let deleted = false
+
+    for (const remoteCard of remoteCards) {
+      // Local changes still waiting to be pushed win, including a delete of a card no longer stored here
+      if (this.outbox.has('card', remoteCard.id)) {
+        continue
+      }
+
+      const localCard = localById.get(remoteCard.id)
+
+      const next = localCard ? mergeCards(localCard, remoteCard) : remoteCard
+      if (!localCard || !isSameCard(localCard, next)) {
+        changedCards.push(next)
+      }
+    }
+
+    for (const localCard of localCards) {
+      if (!remoteIds.has(localCard.id) && !this.outbox.has('card', localCard.id)) {
+        // Deleted on another device
+        await this.local.deleteCard(localCard.id)
+        deleted = true
+      }
+    }
+
+    await this.local.upsertCards(changedCards)
+    return deleted || changedCards.length > 0
+  }
+
+  private async pullReviewLogs(): Promise<void> {
+    if (!supportsReviewLogs(this.remote)) {
+      return
+    }
+
+    const [localLogs, remoteLogs] = await Promise.all([
+      this.local.getReviewLogs(),
+      this.remote.getReviewLogs()
+    ])
+    const localIds = new Set(localLogs.map(log => log.id))
+    const missing = remoteLogs.filter(log => !localIds.has(log.id) && !this.outbox.has('reviewLog', log.id))
+
+    if (missing.length > 0) {
+      await this.local.saveReviewLogs(missing)
+    }
+  }
+
+  /**
+   * Queues a local change and schedules a sync
+   */
+  private queue(entity: SyncEntity, action: SyncOperation['action'], entityId: string): void {
+    this.outbox.add(entity, action, entityId)
+    this.setState({
+      status: this.syncPromise ? 'syncing' : 'pending',
+      pendingChanges: this.outbox.size
+    })
+
+    this.clearSyncTimer()
+    this.syncTimer = setTimeout(() => {
+      this.syncTimer = null
+      this.sync()
+    }, this.syncDelayMs)
+  }
+
+  private clearSyncTimer(): void {
+    if (this.syncTimer) {
+      clearTimeout(this.syncTimer)
+      this.syncTimer = null
+    }
+  }
+
+  private setState(changes: Partial<SyncState>): void {
+    this.state = { ...this.state, ...changes }
+    this.onSyncStateChange?.(this.state)
+  }
+
+  // IDataProvider implementation - local first, changes are queued for the remote provider
+  async getCards(): Promise<Card[]> {
+    return await this.local.getCards()
+  }
+
+  async queryCards(query: CardQuery): Promise<CardQueryResult> {
+    return await this.local.queryCards(query)
+  }
+
+  async saveCard(card: Card): Promise<Card> {
+    const saved = await this.local.saveCard(stampCardChanges(undefined, card))
+    this.queue('card', 'upsert', saved.id)
+    return saved
+  }
+
+  async updateCard(card: Card): Promise<Card> {
+    const previous = (await this.local.getCards()).find(existing => existing.id === card.id)
+    const saved = await this.local.updateCard(stampCardChanges(previous, card))
+    this.queue('card', 'upsert', saved.id)
+    return saved
+  }
+
+  async deleteCard(cardId: string): Promise<void> {
+    await this.local.deleteCard(cardId)
+    this.queue('card', 'delete', cardId)
+  }
+
+  async saveCards(cards: Card[]): Promise<Card[]> {
+    const previous = byId(await this.local.getCards())
+    const stamped = cards.map(card => stampCardChanges(previous.get(card.id), card))
+    const saved = await this.local.saveCards(stamped)
+    this.queueChangedCards(previous, stamped)
+    return saved
+  }
+
+  private queueChangedCards(previous: Map<string, Card>, cards: Card[]): void {
+    cards.forEach(card => {
+      const previousCard = previous.get(card.id)
+      if (!previousCard || !isSameCard(previousCard, card)) {
+        this.queue('card', 'upsert', card.id)
+      }
+    })
+  }
+
+  async patchCard(cardId: string, changes: CardPatch): Promise<Card> {
+    const previous = (await this.local.getCards()).find(existing => existing.id === cardId)
+    const { fieldUpdatedAt } = previous
+      ? stampCardChanges(previous, { ...previous, ...changes })
+      : { fieldUpdatedAt: undefined }
+    const patched = await this.local.patchCard(cardId, { ...changes, fieldUpdatedAt })
+    this.queue('card', 'upsert', cardId)
+    return patched
+  }
+
+  async upsertCards(cards: Card[]): Promise<Card[]> {
+    const previous = byId(await this.local.getCards())
+    const stamped = cards.map(card => stampCardChanges(previous.get(card.id), card))
+    const saved = await this.local.upsertCards(stamped)
+    this.queueChangedCards(previous, stamped)
+    return saved
+  }
+
+  async patchCards(patches: CardPatchEntry[]): Promise<BulkOperationResult> {
+    const previous = byId(await this.local.getCards())
+    const stamped = patches.map(({ cardId, changes }) => {
+      const previousCard = previous.get(cardId)
+      if (!previousCard) {
+        return { cardId, changes }
+      }
+      const { fieldUpdatedAt } = stampCardChanges(previousCard, { ...previousCard, ...changes })
+      return { cardId, changes: { ...changes, fieldUpdatedAt } }
+    })
+    const result = await this.local.patchCards(stamped)
+    result.succeeded.forEach(cardId => this.queue('card', 'upsert', cardId))
+    return result
+  }
+
+  async deleteCards(cardIds: string[]): Promise<BulkOperationResult> {
+    const result = await this.local.deleteCards(cardIds)
+    result.succeeded.forEach(cardId => this.queue('card', 'delete', cardId))
+    return result
+  }
+
+  async getDecks(): Promise<Deck[]> {
+    return await this.local.getDecks()
+  }
+
+  async saveDeck(deck: Deck): Promise<Deck> {
+    const saved = await this.local.saveDeck(deck)
+    this.queue('deck', 'upsert', saved.id)
+    return saved
+  }
+
+  async updateDeck(deck: Deck): Promise<Deck> {
+    const saved = await this.local.updateDeck(deck)
+    this.queue('deck', 'upsert', saved.id)
+    return saved
+  }
+
+  async deleteDeck(deckId: string): Promise<void> {
+    await this.local.deleteDeck(deckId)
+    this.queue('deck', 'delete', deckId)
+  }
+
+  // IReviewLogProvider implementation
+  async getReviewLogs(cardId?: string): Promise<ReviewLog[]> {
+    return await this.local.getReviewLogs(cardId)
+  }
+
+  async saveReviewLog(log: ReviewLog): Promise<ReviewLog> {
+    const saved = await this.local.saveReviewLog(log)
+    this.queue('reviewLog', 'upsert', saved.id)
+    return saved
+  }
+
+  async saveReviewLogs(logs: ReviewLog[]): Promise<ReviewLog[]> {
+    const saved = await this.local.saveReviewLogs(logs)
+    saved.forEach(log => this.queue('reviewLog', 'upsert', log.id))
+    return saved
+  }
+
+  async deleteReviewLog(logId: string): Promise<void> {
+    await this.local.deleteReviewLog(logId)
+    this.queue('reviewLog', 'delete', logId)
+  }
+
+  getProviderName(): string {
+    return this.remote.getProviderName()
+  }
+
+  /**
+   * Available whenever the local provider is, the remote provider may be offline
+   */
+  async isAvailable(): Promise<boolean> {
+    return await this.local.isAvailable()
+  }
+
+  /**
+   * Opens the local data and syncs once, so a new device starts with the remote data
+   */
+  async connect(): Promise<void> {
+    await this.local.connect()
+    await this.sync()
+  }
+
+  async disconnect(): Promise<void> {
+    this.clearSyncTimer()
+    await this.local.disconnect()
+    await this.remote.disconnect()
+  }
+}
@@ -1,6 +1,9 @@
 import { DataMigrationService, MigrationStatus, MigrationOptions } from '../DataMigration'
 import { LocalStorageProvider } from '../LocalStorageProvider'
-import { Card } from '../../types/card'
+import { Card, CardPatch, CardPatchEntry, CardQuery, CardQueryResult } from '../../types/card'
+import { Deck } from '../../types/deck'
+import { ReviewLog } from '../../types/review'
+import { queryCardsInMemory } from '../../utils/cardQuery'
 
 // Mock localStorage
 const localStorageMock = (() => {
@@ -34,6 +37,7 @@ Object.defineProperty(window, 'localStorage', {
 // Mock provider for testing
 class MockProvider {
   private cards: Card[] = []
+  private decks: Deck[] = []
   private shouldFail = false
 
   constructor(private name: string, initialCards: Card[] = []) {
@@ -85,6 +89,50 @@ class MockProvider {
     return cards
   }
 
+  async patchCard(cardId: string, changes: CardPatch): Promise<Card> {
+    const card = { ...this.cards.find(c => c.id === cardId)!, ...changes }
+    return this.updateCard(card)
+  }
+
+  async upsertCards(cards: Card[]): Promise<Card[]> {
+    if (this.shouldFail) {
+      throw new Error('Mock provider failure')
+    }
+    const ids = new Set(cards.map(c => c.id))
+    this.cards = [...this.cards.filter(c => !ids.has(c.id)), ...cards]
+    return cards
+  }
+
+  async queryCards(query: CardQuery): Promise<CardQueryResult> {
+    return queryCardsInMemory(this.cards, query)
+  }
+
+  async patchCards(patches: CardPatchEntry[]) {
+    for (const { cardId, changes } of patches) {
+      await this.patchCard(cardId, changes)
+    }
+    return { succeeded: patches.map(patch => patch.cardId), failed: [] }
+  }
+
+  async deleteCards(cardIds: string[]) {
+    this.cards = this.cards.filter(card => !cardIds.includes(card.id))
+    return { succeeded: cardIds, failed: [] }
+  }
+
+  async getDecks(): Promise<Deck[]> {
+    return [...this.decks]
+  }
+
+  async saveDeck(deck: Deck): Promise<Deck> {
+    this.decks.push(deck)
+    return deck
+  }
+
+  async updateDeck(deck: Deck): Promise<Deck> {
+    this.decks = this.decks.map(d => d.id === deck.id ? deck : d)
+    return deck
+  }
+
   getProviderName(): string {
     return this.name
   }
@@ -104,6 +152,29 @@ class MockProvider {
   }
 }
 
+// Mock provider that also keeps review history
+class MockReviewLogProvider extends MockProvider {
+  private reviewLogs: ReviewLog[] = []
+
+  async getReviewLogs(cardId?: string): Promise<ReviewLog[]> {
+    return this.reviewLogs.filter(log => !cardId || log.cardId === cardId)
+  }
+
+  async saveReviewLog(log: ReviewLog): Promise<ReviewLog> {
+    this.reviewLogs.push(log)
+    return log
+  }
+
+  async saveReviewLogs(logs: ReviewLog[]): Promise<ReviewLog[]> {
+    this.reviewLogs = [...logs]
+    return logs
+  }
+
+  async deleteReviewLog(logId: string): Promise<void> {
+    this.reviewLogs = this.reviewLogs.filter(log => log.id !== logId)
+  }
+}
+
 describe('DataMigrationService', () => {
   let migrationService: DataMigrationService
   let sourceProvider: MockProvider
@@ -205,6 +276,98 @@ describe('DataMigrationService', () => {
       const targetCards = await targetProvider.getCards()
       expect(targetCards).toHaveLength(3)
     })
+
+    it('should remove cards missing from the export in one bulk delete', async () => {
+      await targetProvider.saveCard(createTestCard('old-1', 'old'))
+      await targetProvider.saveCard(createTestCard('old-2', 'older'))
+      const deleteCards = jest.spyOn(targetProvider, 'deleteCards')
+      const deleteCard = jest.spyOn(targetProvider, 'deleteCard')
+
+      const exportData = await migrationService.exportData(sourceProvider as any)
+      await migrationService.importData(targetProvider as any, exportData, { overwriteExisting: true })
+
+      expect(deleteCards).toHaveBeenCalledTimes(1)
+      expect(deleteCards).toHaveBeenCalledWith(['old-1', 'old-2'])
+      expect(deleteCard).not.toHaveBeenCalled()
+      expect((await targetProvider.getCards()).map(card => card.id)).toEqual(['1', '2', '3'])
+    })
+  })
+
+  describe('review history', () => {
+    const reviewLog: ReviewLog = {
+      id: 'review-1',
+      cardId: '1',
+      reviewedAt: new Date('2024-01-01T10:00:00.000Z'),
+      grade: 'good',
+      responseTimeMs: 1800,
+      previousInterval: 0,
+      nextInterval: 1,
+      studyMode: 'flashcard'
+    }
+
+    it('should include review logs in the export', async () => {
+      const provider = new MockReviewLogProvider('source', [createTestCard('1', 'hello')])
+      await provider.saveReviewLog(reviewLog)
+
+      const exportData = await migrationService.exportData(provider as any)
+
+      expect(exportData.reviewLogs).toEqual([reviewLog])
+    })
+
+    it('should leave review logs out for providers without review history', async () => {
+      const exportData = await migrationService.exportData(sourceProvider as any)
+
+      expect(exportData.reviewLogs).toBeUndefined()
+    })
+
+    it('should import review logs and restore their dates', async () => {
+      const source = new MockReviewLogProvider('source', [createTestCard('1', 'hello')])
+      await source.saveReviewLog(reviewLog)
+      const target = new MockReviewLogProvider('target')
+
+      // Simulate an export that went through JSON, e.g. a backup
+      const exportData = JSON.parse(JSON.stringify(await migrationService.exportData(source as any)))
+      exportData.cards[0].createdAt = new Date(exportData.cards[0].createdAt)
+
+      await migrationService.importData(target as any, exportData, { validateData: false })
+
+      const importedLogs = await target.getReviewLogs()
+      expect(importedLogs).toHaveLength(1)
+      expect(importedLogs[0].reviewedAt).toEqual(reviewLog.reviewedAt)
+    })
+  })
+
+  describe('decks', () => {
+    const createTestDeck = (id: string, name: string): Deck => ({
+      id,
+      name,
+      description: '',
+      sourceLanguage: 'en',
+      targetLanguage: 'es',
+      createdAt: new Date('2024-01-01T00:00:00.000Z')
+    })
+
+    it('should migrate decks along with the cards', async () => {
+      await sourceProvider.saveDeck(createTestDeck('default', 'Default'))
+      await sourceProvider.saveDeck(createTestDeck('travel', 'Travel'))
+      await targetProvider.saveDeck(createTestDeck('default', 'Old name'))
+
+      const result = await migrationService.migrateData(sourceProvider as any, targetProvider as any, {
+        createBackup: false,
+        overwriteExisting: true
+      })
+
+      expect(result.success).toBe(true)
+      expect((await targetProvider.getDecks()).map(deck => deck.name)).toEqual(['Default', 'Travel'])
+    })
+
+    it('should reject exports with an invalid deck list', async () => {
+      const exportData = await migrationService.exportData(sourceProvider as any)
+
+      await expect(
+        migrationService.importData(targetProvider as any, { ...exportData, decks: 'invalid' as any })
+      ).rejects.toThrow('Invalid deck format')
+    })
   })
 
   describe('migrateData', () => {
@@ -1,7 +1,8 @@
 import { DataProviderManager } from '../DataProviderManager'
-import { IDataProvider, IDataProviderWithStatus, ProviderError, DataProviderError, ProviderStatus, ProviderStatusInfo } from '../types'
+import { IDataProvider, IDataProviderWithStatus, BulkOperationResult, ProviderError, DataProviderError, ProviderStatus, ProviderStatusInfo } from '../types'
 import { ErrorNotification } from '../FallbackHandler'
-import { Card } from '../../types/card'
+import { Card, CardPatch, CardPatchEntry, CardQuery, CardQueryResult } from '../../types/card'
+import { Deck } from '../../types/deck'
 
 // Mock provider implementation for testing
 class MockProvider implements IDataProviderWithStatus {
@@ -70,6 +71,77 @@ class MockProvider implements IDataProviderWithStatus {
     return cards
   }
 
+  async patchCard(cardId: string, changes: CardPatch): Promise<Card> {
+    this.callCount++
+    if (this.shouldFail) {
+      throw new ProviderError(this.failureType, this.failureMessage, this.name)
+    }
+    return { id: cardId, ...changes } as Card
+  }
+
+  async upsertCards(cards: Card[]): Promise<Card[]> {
+    this.callCount++
+    if (this.shouldFail) {
+      throw new ProviderError(this.failureType, this.failureMessage, this.name)
+    }
+    return cards
+  }
+
+  async queryCards(query: CardQuery): Promise<CardQueryResult> {
+    this.callCount++
+    if (this.shouldFail) {
+      throw new ProviderError(this.failureType, this.failureMessage, this.name)
+    }
+    return { cards: [], total: 0, nextCursor: null }
+  }
+
+  async patchCards(patches: CardPatchEntry[]): Promise<BulkOperationResult> {
+    this.callCount++
+    if (this.shouldFail) {
+      throw new ProviderError(this.failureType, this.failureMessage, this.name)
+    }
+    return { succeeded: patches.map(patch => patch.cardId), failed: [] }
+  }
+
+  async deleteCards(cardIds: string[]): Promise<BulkOperationResult> {
+    this.callCount++
+    if (this.shouldFail) {
+      throw new ProviderError(this.failureType, this.failureMessage, this.name)
+    }
+    return { succeeded: cardIds, failed: [] }
+  }
+
+  async getDecks(): Promise<Deck[]> {
+    this.callCount++
+    if (this.shouldFail) {
+      throw new ProviderError(this.failureType, this.failureMessage, this.name)
+    }
+    return []
+  }
+
+  async saveDeck(deck: Deck): Promise<Deck> {
+    this.callCount++
+    if (this.shouldFail) {
+      throw new ProviderError(this.failureType, this.failureMessage, this.name)
+    }
+    return deck
+  }
+
+  async updateDeck(deck: Deck): Promise<Deck> {
+    this.callCount++
+    if (this.shouldFail) {
+      throw new ProviderError(this.failureType, this.failureMessage, this.name)
+    }
+    return deck
+  }
+
+  async deleteDeck(deckId: string): Promise<void> {
+    this.callCount++
+    if (this.shouldFail) {
+      throw new ProviderError(this.failureType, this.failureMessage, this.name)
+    }
+  }
+
   getProviderName(): string {
     return this.name
   }
@@ -478,6 +550,15 @@ describe('DataProviderManager', () => {
         async updateCard(card: Card) { return card },
         async deleteCard() {},
         async saveCards(cards: Card[]) { return cards },
+        async patchCard(cardId: string, changes: CardPatch) { return { id: cardId, ...changes } as Card },
+        async upsertCards(cards: Card[]) { return cards },
+        async queryCards() { return { cards: [], total: 0, nextCursor: null } },
+        async patchCards() { return { succeeded: [], failed: [] } },
+        async deleteCards() { return { succeeded: [], failed: [] } },
+        async getDecks() { return [] },
+        async saveDeck(deck: Deck) { return deck },
+        async updateDeck(deck: Deck) { return deck },
+        async deleteDeck() {},
         getProviderName() { return 'basic' },
         async isAvailable() { return true },
         async connect() {},
@@ -1,6 +1,7 @@
 import { FallbackHandler, ErrorNotification, RetryConfig } from '../FallbackHandler'
-import { IDataProvider, ProviderError, DataProviderError } from '../types'
-import { Card } from '../../types/card'
+import { IDataProvider, BulkOperationResult, ProviderError, DataProviderError } from '../types'
+import { Card, CardPatch, CardPatchEntry, CardQuery, CardQueryResult } from '../../types/card'
+import { Deck } from '../../types/deck'
 
 // Mock provider implementation for testing
 class MockProvider implements IDataProvider {
@@ -64,6 +65,77 @@ class MockProvider implements IDataProvider {
     return cards
   }
 
+  async patchCard(cardId: string, changes: CardPatch): Promise<Card> {
+    this.callCount++
+    if (this.shouldFail) {
+      throw new ProviderError(this.failureType, this.failureMessage, this.name)
+    }
+    return { id: cardId, ...changes } as Card
+  }
+
+  async upsertCards(cards: Card[]): Promise<Card[]> {
+    this.callCount++
+    if (this.shouldFail) {
+      throw new ProviderError(this.failureType, this.failureMessage, this.name)
+    }
+    return cards
+  }
+
+  async queryCards(query: CardQuery): Promise<CardQueryResult> {
+    this.callCount++
+    if (this.shouldFail) {
+      throw new ProviderError(this.failureType, this.failureMessage, this.name)
+    }
+    return { cards: [], total: 0, nextCursor: null }
+  }
+
+  async patchCards(patches: CardPatchEntry[]): Promise<BulkOperationResult> {
+    this.callCount++
+    if (this.shouldFail) {
+      throw new ProviderError(this.failureType, this.failureMessage, this.name)
+    }
+    return { succeeded: patches.map(patch => patch.cardId), failed: [] }
+  }
+
+  async deleteCards(cardIds: string[]): Promise<BulkOperationResult> {
+    this.callCount++
+    if (this.shouldFail) {
+      throw new ProviderError(this.failureType, this.failureMessage, this.name)
+    }
+    return { succeeded: cardIds, failed: [] }
+  }
+
+  async getDecks(): Promise<Deck[]> {
+    this.callCount++
+    if (this.shouldFail) {
+      throw new ProviderError(this.failureType, this.failureMessage, this.name)
+    }
+    return []
+  }
+
+  async saveDeck(deck: Deck): Promise<Deck> {
+    this.callCount++
+    if (this.shouldFail) {
+      throw new ProviderError(this.failureType, this.failureMessage, this.name)
+    }
+    return deck
+  }
+
+  async updateDeck(deck: Deck): Promise<Deck> {
+    this.callCount++
+    if (this.shouldFail) {
+      throw new ProviderError(this.failureType, this.failureMessage, this.name)
+    }
+    return deck
+  }
+
+  async deleteDeck(deckId: string): Promise<void> {
+    this.callCount++
+    if (this.shouldFail) {
+      throw new ProviderError(this.failureType, this.failureMessage, this.name)
+    }
+  }
+
   getProviderName(): string {
     return this.name
   }
@@ -0,0 +1,168 @@
+import { HttpProvider } from '../HttpProvider'
+import { MONGODB_CONFIG_HEADERS, parseCardQuery } from '../httpApi'
+import { DataProviderError, MongoDBConfig, ProviderError, ProviderStatus } from '../types'
+import { Card } from '../../types/card'
+import { createInitialSchedule } from '../../utils/scheduler'
+
+describe('HttpProvider', () => {
+  const mongoConfig: MongoDBConfig = {
+    connectionString: 'mongodb://localhost:27017',
+    databaseName: 'testdb',
+    collectionName: 'cards'
+  }
+
+  const sampleCard: Card = {
+    id: '1',
+    deckId: 'default',
+    word: 'hello',
+    translation: 'hola',
+    isKnown: false,
+    createdAt: new Date('2024-01-01T00:00:00.000Z'),
+    examples: [],
+    tags: [],
+    ...createInitialSchedule(new Date('2024-01-01T00:00:00.000Z'))
+  }
+
+  // Responses as the API routes send them, with dates as strings
+  const jsonResponse = (body: unknown, status = 200) => ({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => JSON.parse(JSON.stringify(body))
+  } as Response)
+
+  let mockFetch: jest.Mock
+  let provider: HttpProvider
+
+  beforeEach(() => {
+    mockFetch = jest.fn()
+    provider = new HttpProvider({ mongoConfig, fetch: mockFetch })
+  })
+
+  it('should send the MongoDB settings with every request', async () => {
+    mockFetch.mockResolvedValue(jsonResponse([]))
+
+    await provider.getCards()
+
+    const [url, init] = mockFetch.mock.calls[0]
+    expect(url).toBe('/api/cards')
+    expect(init.headers).toEqual(expect.objectContaining({
+      [MONGODB_CONFIG_HEADERS.connectionString]: 'mongodb://localhost:27017',
+      [MONGODB_CONFIG_HEADERS.databaseName]: 'testdb',
+      [MONGODB_CONFIG_HEADERS.collectionName]: 'cards'
+    }))
+  })
+
+  it('should restore dates in received cards', async () => {
+    mockFetch.mockResolvedValue(jsonResponse([sampleCard]))
+
+    const cards = await provider.getCards()
+
+    expect(cards).toEqual([sampleCard])
+    expect(cards[0].createdAt).toBeInstanceOf(Date)
+    expect(cards[0].dueAt).toBeInstanceOf(Date)
+  })
+
+  it('should map card operations to the card routes', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(sampleCard))
+    await provider.saveCard(sampleCard)
+    await provider.updateCard(sampleCard)
+
+    mockFetch.mockResolvedValue(jsonResponse([sampleCard]))
+    await provider.saveCards([sampleCard])
+
+    await provider.patchCard('1', { isKnown: true })
+
+    mockFetch.mockResolvedValue(jsonResponse(null, 204))
+    await provider.deleteCard('1')
+
+    expect(mockFetch.mock.calls.map(([url, init]) => [init.method, url])).toEqual([
+      ['POST', '/api/cards'],
+      ['PUT', '/api/cards/1'],
+      ['PUT', '/api/cards'],
+      ['PATCH', '/api/cards/1'],
+      ['DELETE', '/api/cards/1']
+    ])
+    expect(JSON.parse(mockFetch.mock.calls[2][1].body)).toHaveLength(1)
+  })
+
+  it('should not send a request for an empty batch', async () => {
+    expect(await provider.saveCards([])).toEqual([])
+    expect(await provider.saveReviewLogs([])).toEqual([])
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should filter review logs by card', async () => {
+    mockFetch.mockResolvedValue(jsonResponse([]))
+
+    await provider.getReviewLogs('card 1')
+
+    expect(mockFetch.mock.calls[0][0]).toBe('/api/reviews?cardId=card%201')
+  })
+
+  it('should send card queries as search parameters the route can read back', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ cards: [sampleCard], total: 3, nextCursor: 'next' }))
+    const query = {
+      text: 'hel',
+      tags: ['travel', 'food'],
+      deckId: 'default',
+      known: false,
+      dueBefore: new Date('2024-02-01T00:00:00.000Z'),
+      sort: { field: 'word' as const, direction: 'desc' as const },
+      limit: 1,
+      cursor: JSON.stringify(['hal', '0'])
+    }
+
+    const result = await provider.queryCards(query)
+
+    const url = new URL(mockFetch.mock.calls[0][0], 'http://localhost')
+    expect(url.pathname).toBe('/api/cards/query')
+    expect(parseCardQuery(url.searchParams)).toEqual(query)
+    expect(result).toEqual({ cards: [sampleCard], total: 3, nextCursor: 'next' })
+  })
+
+  it('should reject invalid query parameters', () => {
+    expect(parseCardQuery(new URLSearchParams('limit=-1'))).toBeNull()
+    expect(parseCardQuery(new URLSearchParams('sort=random&direction=asc'))).toBeNull()
+    expect(parseCardQuery(new URLSearchParams('sort=word'))).toBeNull()
+    expect(parseCardQuery(new URLSearchParams('sort=dueAt&direction=asc&cursor=%5B%22a%22%2C%221%22%5D'))).toBeNull()
+  })
+
+  it('should turn error responses into provider errors', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({
+      error: 'Card with ID 1 not found',
+      type: DataProviderError.OPERATION_FAILED
+    }, 500))
+
+    await expect(provider.updateCard(sampleCard)).rejects.toThrow('Card with ID 1 not found')
+  })
+
+  it('should report network failures as connection errors', async () => {
+    mockFetch.mockRejectedValue(new Error('Network down'))
+
+    const error = await provider.getCards().catch(error => error)
+
+    expect(error).toBeInstanceOf(ProviderError)
+    expect(error.type).toBe(DataProviderError.CONNECTION_FAILED)
+    expect(error.provider).toBe('mongodb')
+  })
+
+  describe('connection', () => {
+    it('should connect when the server reaches the database', async () => {
+      mockFetch.mockResolvedValue(jsonResponse({ available: true, status: ProviderStatus.CONNECTED }))
+
+      await expect(provider.connect()).resolves.toBeUndefined()
+      expect(mockFetch.mock.calls[0][0]).toBe('/api/status')
+    })
+
+    it('should fail to connect when the server cannot reach the database', async () => {
+      mockFetch.mockResolvedValue(jsonResponse({
+        available: false,
+        status: ProviderStatus.ERROR,
+        message: 'Failed to connect to MongoDB: timeout'
+      }))
+
+      await expect(provider.connect()).rejects.toThrow('Failed to connect to MongoDB: timeout')
+      expect(await provider.isAvailable()).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,157 @@
+/**
+ * @jest-environment node
+ */
+import 'fake-indexeddb/auto'
+import { IndexedDBProvider } from '../IndexedDBProvider'
+import { ProviderError } from '../types'
+import { Card } from '../../types/card'
+import { Deck, DEFAULT_DECK_ID } from '../../types/deck'
+import { ReviewLog } from '../../types/review'
+import { createTestCard } from '../../test/cards'
+
+describe('IndexedDBProvider', () => {
+  let provider: IndexedDBProvider
+  let databaseCount = 0
+
+  const createCard = (id: string, word: string, overrides: Partial<Card> = {}): Card =>
+    createTestCard(id, { word, translation: `${word} translation`, ...overrides })
+
+  const createDeck = (id: string, name: string): Deck => ({
+    id,
+    name,
+    description: '',
+    sourceLanguage: 'en',
+    targetLanguage: 'es',
+    createdAt: new Date('2024-01-01T00:00:00.000Z')
+  })
+
+  beforeEach(() => {
+    // A fresh database for every test
+    provider = new IndexedDBProvider(`test-db-${++databaseCount}`)
+  })
+
+  afterEach(async () => {
+    await provider.disconnect()
+  })
+
+  it('should be available and report its name', async () => {
+    expect(await provider.isAvailable()).toBe(true)
+    expect(provider.getProviderName()).toBe('indexeddb')
+  })
+
+  describe('cards', () => {
+    it('should save, update and delete single cards', async () => {
+      const card = createCard('1', 'hello')
+
+      await provider.saveCard(card)
+      expect(await provider.getCards()).toEqual([card])
+
+      await provider.updateCard({ ...card, translation: 'hola' })
+      expect((await provider.getCards())[0].translation).toBe('hola')
+
+      await provider.deleteCard('1')
+      expect(await provider.getCards()).toEqual([])
+    })
+
+    it('should keep dates as dates', async () => {
+      await provider.saveCard(createCard('1', 'hello'))
+
+      const [card] = await provider.getCards()
+      expect(card.createdAt).toBeInstanceOf(Date)
+      expect(card.dueAt).toBeInstanceOf(Date)
+    })
+
+    it('should reject duplicate and missing cards', async () => {
+      await provider.saveCard(createCard('1', 'hello'))
+
+      await expect(provider.saveCard(createCard('1', 'hello'))).rejects.toThrow('Card with id 1 already exists')
+      await expect(provider.updateCard(createCard('2', 'bye'))).rejects.toThrow('Card with id 2 not found')
+      await expect(provider.deleteCard('2')).rejects.toThrow(ProviderError)
+    })
+
+    it('should insert and replace cards in bulk', async () => {
+      await provider.saveCard(createCard('1', 'hello'))
+
+      await provider.saveCards([createCard('1', 'hello', { isKnown: true }), createCard('2', 'bye')])
+
+      const cards = await provider.getCards()
+      expect(cards.map(card => card.id).sort()).toEqual(['1', '2'])
+      expect(cards.find(card => card.id === '1')?.isKnown).toBe(true)
+    })
+
+    it('should patch single fields of a card', async () => {
+      await provider.saveCard(createCard('1', 'hello'))
+
+      const patched = await provider.patchCard('1', { isKnown: true })
+
+      expect(patched).toEqual({ ...createCard('1', 'hello'), isKnown: true })
+      expect((await provider.getCards())[0].isKnown).toBe(true)
+      await expect(provider.patchCard('2', { isKnown: true })).rejects.toThrow('Card with id 2 not found')
+    })
+
+    it('should write nothing when a bulk write fails', async () => {
+      const invalidCard = { ...createCard('2', 'bye'), id: undefined } as unknown as Card
+
+      await expect(provider.saveCards([createCard('1', 'hello'), invalidCard])).rejects.toThrow(ProviderError)
+      expect(await provider.getCards()).toEqual([])
+    })
+
+    it('should look cards up by word and due date', async () => {
+      await provider.saveCards([
+        createCard('1', 'hello', { dueAt: new Date('2024-01-01T00:00:00.000Z') }),
+        createCard('2', 'bye', { dueAt: new Date('2024-03-01T00:00:00.000Z') })
+      ])
+
+      expect((await provider.getCardsByWord('bye')).map(card => card.id)).toEqual(['2'])
+      expect((await provider.getDueCards(new Date('2024-02-01T00:00:00.000Z'))).map(card => card.id)).toEqual(['1'])
+    })
+  })
+
+  describe('decks', () => {
+    it('should start with the default deck', async () => {
+      const decks = await provider.getDecks()
+      expect(decks.map(deck => deck.id)).toEqual([DEFAULT_DECK_ID])
+    })
+
+    it('should keep the default deck when the first deck is saved', async () => {
+      await provider.saveDeck(createDeck('travel', 'Travel'))
+
+      const decks = await provider.getDecks()
+      expect(decks.map(deck => deck.id).sort()).toEqual([DEFAULT_DECK_ID, 'travel'])
+    })
+
+    it('should delete a deck together with its cards', async () => {
+      await provider.saveDeck(createDeck('travel', 'Travel'))
+      await provider.saveCards([createCard('1', 'hello'), createCard('2', 'airport', { deckId: 'travel' })])
+
+      await provider.deleteDeck('travel')
+
+      expect((await provider.getDecks()).map(deck => deck.id)).toEqual([DEFAULT_DECK_ID])
+      expect((await provider.getCards()).map(card => card.id)).toEqual(['1'])
+    })
+  })
+
+  describe('review logs', () => {
+    const createLog = (id: string, cardId: string, reviewedAt: string): ReviewLog => ({
+      id,
+      cardId,
+      reviewedAt: new Date(reviewedAt),
+      grade: 'good',
+      responseTimeMs: 1000,
+      previousInterval: 0,
+      nextInterval: 1,
+      studyMode: 'flashcard'
+    })
+
+    it('should return logs oldest first, optionally for one card', async () => {
+      await provider.saveReviewLogs([
+        createLog('b', '1', '2024-01-02T00:00:00.000Z'),
+        createLog('a', '1', '2024-01-01T00:00:00.000Z')
+      ])
+      await provider.saveReviewLog(createLog('c', '2', '2024-01-03T00:00:00.000Z'))
+
+      expect((await provider.getReviewLogs()).map(log => log.id)).toEqual(['a', 'b', 'c'])
+      expect((await provider.getReviewLogs('1')).map(log => log.id)).toEqual(['a', 'b'])
+    })
+  })
+})
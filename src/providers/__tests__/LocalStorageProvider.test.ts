@@ -1,5 +1,8 @@
 import { LocalStorageProvider } from '../LocalStorageProvider'
 import { Card } from '../../types/card'
+import { Deck, DEFAULT_DECK_ID } from '../../types/deck'
+import { ReviewLog } from '../../types/review'
+import { createInitialSchedule } from '../../utils/scheduler'
 import { ProviderError, DataProviderError } from '../types'
 
 // Mock localStorage
@@ -251,6 +254,103 @@ describe('LocalStorageProvider', () => {
     })
   })
 
+  describe('patchCard', () => {
+    const card: Card = {
+      id: 'patched',
+      deckId: DEFAULT_DECK_ID,
+      word: 'hello',
+      translation: 'hola',
+      isKnown: false,
+      createdAt: new Date('2023-01-01T00:00:00.000Z'),
+      examples: [],
+      tags: [],
+      ...createInitialSchedule(new Date('2023-01-01T00:00:00.000Z'))
+    }
+
+    it('should change only the given fields', async () => {
+      await provider.upsertCards([card, { ...card, id: 'other' }])
+
+      const result = await provider.patchCard(card.id, { isKnown: true })
+
+      expect(result.isKnown).toBe(true)
+      expect(result.word).toBe(card.word)
+      const cards = await provider.getCards()
+      expect(cards.map(card => [card.id, card.isKnown])).toEqual([[card.id, true], ['other', false]])
+    })
+
+    it('should throw ProviderError when card does not exist', async () => {
+      await expect(provider.patchCard('non-existent', { isKnown: true })).rejects.toThrow('Card with id non-existent not found')
+    })
+  })
+
+  describe('upsertCards', () => {
+    const card: Card = {
+      id: 'upserted',
+      deckId: DEFAULT_DECK_ID,
+      word: 'hello',
+      translation: 'hola',
+      isKnown: false,
+      createdAt: new Date('2023-01-01T00:00:00.000Z'),
+      examples: [],
+      tags: [],
+      ...createInitialSchedule(new Date('2023-01-01T00:00:00.000Z'))
+    }
+
+    it('should replace existing cards and add new ones, keeping the rest', async () => {
+      await provider.upsertCards([card, { ...card, id: 'kept' }])
+
+      await provider.upsertCards([{ ...card, word: 'updated' }, { ...card, id: 'new' }])
+
+      const cards = await provider.getCards()
+      expect(cards.map(card => card.id)).toEqual([card.id, 'kept', 'new'])
+      expect(cards[0].word).toBe('updated')
+    })
+  })
+
+  describe('patchCards and deleteCards', () => {
+    const card: Card = {
+      id: 'bulk',
+      deckId: DEFAULT_DECK_ID,
+      word: 'hello',
+      translation: 'hola',
+      isKnown: false,
+      createdAt: new Date('2023-01-01T00:00:00.000Z'),
+      examples: [],
+      tags: [],
+      ...createInitialSchedule(new Date('2023-01-01T00:00:00.000Z'))
+    }
+
+    it('should apply the valid patches and report the rest', async () => {
+      await provider.upsertCards([card, { ...card, id: 'other' }])
+
+      const result = await provider.patchCards([
+        { cardId: card.id, changes: { tags: ['travel'] } },
+        { cardId: 'other', changes: { translation: '' } },
+        { cardId: 'missing', changes: { isKnown: true } }
+      ])
+
+      expect(result.succeeded).toEqual([card.id])
+      expect(result.failed.map(failure => failure.cardId)).toEqual(['other', 'missing'])
+      expect(result.failed[1].error).toBe('Card with id missing not found')
+      const cards = await provider.getCards()
+      expect(cards.map(card => [card.translation, card.tags])).toEqual([['hola', ['travel']], ['hola', []]])
+    })
+
+    it('should delete the existing cards in one write', async () => {
+      await provider.upsertCards([card, { ...card, id: 'other' }, { ...card, id: 'kept' }])
+      localStorageMock.setItem.mockClear()
+
+      const result = await provider.deleteCards([card.id, 'missing', 'other'])
+
+      expect(result).toEqual({
+        succeeded: [card.id, 'other'],
+        failed: [{ cardId: 'missing', error: 'Card with id missing not found' }]
+      })
+      expect(localStorageMock.setItem).toHaveBeenCalledTimes(1)
+      expect((await provider.getCards()).map(card => card.id)).toEqual(['kept'])
+    })
+  })
+
   describe('deleteCard', () => {
     it('should delete an existing card successfully', async () => {
       // First save the card directly to mock storage
@@ -381,6 +481,225 @@ describe('LocalStorageProvider', () => {
     })
   })
 
+  describe('scheduling state', () => {
+    it('should migrate legacy cards without scheduling fields on read', async () => {
+      const legacyCard = {
+        id: 'legacy-card',
+        word: 'known',
+        translation: 'conocido',
+        isKnown: true,
+        createdAt: '2023-01-01T00:00:00.000Z',
+        lastReviewed: '2023-01-05T00:00:00.000Z',
+        examples: [],
+      }
+      localStorageMock.store['english-cards'] = JSON.stringify([legacyCard])
+
+      const cards = await provider.getCards()
+      expect(cards[0].repetitions).toBe(2)
+      expect(cards[0].interval).toBe(6)
+      expect(cards[0].dueAt).toEqual(new Date('2023-01-11T00:00:00.000Z'))
+    })
+
+    it('should persist and restore scheduling fields', async () => {
+      const scheduledCard = {
+        ...mockCard,
+        examples: [],
+        easeFactor: 2.36,
+        interval: 15,
+        repetitions: 3,
+        dueAt: new Date('2023-01-20T00:00:00.000Z'),
+      }
+
+      await provider.saveCards([scheduledCard])
+      const cards = await provider.getCards()
+
+      expect(cards[0].easeFactor).toBe(2.36)
+      expect(cards[0].interval).toBe(15)
+      expect(cards[0].repetitions).toBe(3)
+      expect(cards[0].dueAt).toEqual(scheduledCard.dueAt)
+    })
+
+    it('should reject invalid scheduling fields', async () => {
+      const invalidCards = [
+        { ...mockCard, examples: [], easeFactor: 'high' as any },
+        { ...mockCard, examples: [], dueAt: 'tomorrow' as any },
+      ]
+
+      for (const invalidCard of invalidCards) {
+        await expect(provider.saveCards([invalidCard])).rejects.toThrow(ProviderError)
+      }
+    })
+  })
+
+  describe('tags', () => {
+    const taggedCard: Card = {
+      id: 'tagged',
+      deckId: DEFAULT_DECK_ID,
+      word: 'airport',
+      translation: 'aeropuerto',
+      isKnown: false,
+      createdAt: new Date('2023-01-01T00:00:00.000Z'),
+      examples: [],
+      tags: ['travel', 'nouns'],
+      ...createInitialSchedule(new Date('2023-01-01T00:00:00.000Z'))
+    }
+
+    it('should round-trip card tags', async () => {
+      await provider.saveCard(taggedCard)
+
+      const cards = await provider.getCards()
+      expect(cards[0].tags).toEqual(['travel', 'nouns'])
+    })
+
+    it('should give legacy cards an empty tag list', async () => {
+      const { tags, ...legacyCard } = taggedCard
+      localStorageMock.store['english-cards'] = JSON.stringify([legacyCard])
+
+      const cards = await provider.getCards()
+      expect(cards[0].tags).toEqual([])
+    })
+
+    it('should reject tags that are not strings', async () => {
+      await expect(provider.saveCard({ ...taggedCard, tags: [42] as any })).rejects.toThrow(ProviderError)
+    })
+  })
+
+  describe('decks', () => {
+    const travelDeck: Deck = {
+      id: 'deck-travel',
+      name: 'Travel',
+      description: 'Words for trips',
+      sourceLanguage: 'English',
+      targetLanguage: 'Spanish',
+      createdAt: new Date('2023-01-01T00:00:00.000Z')
+    }
+
+    const createDeckCard = (id: string, deckId: string): Card => ({
+      id,
+      deckId,
+      tags: [],
+      word: id,
+      translation: `${id}-translation`,
+      isKnown: false,
+      createdAt: new Date('2023-01-01T00:00:00.000Z'),
+      examples: [],
+      ...createInitialSchedule(new Date('2023-01-01T00:00:00.000Z'))
+    })
+
+    it('should return the default deck when no decks are stored', async () => {
+      const decks = await provider.getDecks()
+      expect(decks).toHaveLength(1)
+      expect(decks[0].id).toBe(DEFAULT_DECK_ID)
+    })
+
+    it('should assign legacy cards to the default deck', async () => {
+      const { deckId, ...legacyCard } = createDeckCard('legacy', DEFAULT_DECK_ID)
+      localStorageMock.store['english-cards'] = JSON.stringify([legacyCard])
+
+      const cards = await provider.getCards()
+      expect(cards[0].deckId).toBe(DEFAULT_DECK_ID)
+    })
+
+    it('should save, update and restore decks', async () => {
+      await provider.saveDeck(travelDeck)
+      await provider.updateDeck({ ...travelDeck, name: 'Trips' })
+
+      const decks = await provider.getDecks()
+      expect(decks.map(deck => deck.id)).toEqual([DEFAULT_DECK_ID, 'deck-travel'])
+      expect(decks[1].name).toBe('Trips')
+      expect(decks[1].createdAt).toEqual(travelDeck.createdAt)
+    })
+
+    it('should reject duplicate and invalid decks', async () => {
+      await provider.saveDeck(travelDeck)
+
+      await expect(provider.saveDeck(travelDeck)).rejects.toThrow('already exists')
+      await expect(provider.saveDeck({ ...travelDeck, id: 'deck-2', name: ' ' })).rejects.toThrow(ProviderError)
+      await expect(provider.updateDeck({ ...travelDeck, id: 'missing' })).rejects.toThrow('not found')
+    })
+
+    it('should delete a deck together with its cards', async () => {
+      await provider.saveDeck(travelDeck)
+      await provider.saveCards([
+        createDeckCard('kept', DEFAULT_DECK_ID),
+        createDeckCard('removed', 'deck-travel')
+      ])
+
+      await provider.deleteDeck('deck-travel')
+
+      const decks = await provider.getDecks()
+      const cards = await provider.getCards()
+      expect(decks.map(deck => deck.id)).toEqual([DEFAULT_DECK_ID])
+      expect(cards.map(card => card.id)).toEqual(['kept'])
+    })
+  })
+
+  describe('review logs', () => {
+    const createLog = (id: string, cardId: string): ReviewLog => ({
+      id,
+      cardId,
+      reviewedAt: new Date('2023-01-03T10:00:00.000Z'),
+      grade: 'good',
+      responseTimeMs: 2500,
+      previousInterval: 1,
+      nextInterval: 6,
+      studyMode: 'flashcard'
+    })
+
+    it('should return empty array when no review history exists', async () => {
+      const logs = await provider.getReviewLogs()
+      expect(logs).toEqual([])
+    })
+
+    it('should append review logs under a separate storage key', async () => {
+      await provider.saveReviewLog(createLog('review-1', 'card-1'))
+      await provider.saveReviewLog(createLog('review-2', 'card-2'))
+
+      const logs = await provider.getReviewLogs()
+      expect(logs).toHaveLength(2)
+      expect(logs[0].reviewedAt).toEqual(new Date('2023-01-03T10:00:00.000Z'))
+      expect(localStorageMock.store['english-cards-reviews']).toBeDefined()
+      expect(localStorageMock.store['english-cards']).toBeUndefined()
+    })
+
+    it('should filter review logs by card', async () => {
+      await provider.saveReviewLogs([
+        createLog('review-1', 'card-1'),
+        createLog('review-2', 'card-2'),
+        createLog('review-3', 'card-1')
+      ])
+
+      const logs = await provider.getReviewLogs('card-1')
+      expect(logs.map(log => log.id)).toEqual(['review-1', 'review-3'])
+    })
+
+    it('should replace a review log saved again instead of adding it twice', async () => {
+      await provider.saveReviewLogs([createLog('review-1', 'card-1'), createLog('review-2', 'card-2')])
+      await provider.saveReviewLogs([{ ...createLog('review-1', 'card-1'), grade: 'easy' }])
+      await provider.saveReviewLog(createLog('review-2', 'card-2'))
+
+      const logs = await provider.getReviewLogs()
+      expect(logs.map(log => log.id).sort()).toEqual(['review-1', 'review-2'])
+      expect(logs.find(log => log.id === 'review-1')!.grade).toBe('easy')
+    })
+
+    it('should delete a review log', async () => {
+      await provider.saveReviewLogs([createLog('review-1', 'card-1'), createLog('review-2', 'card-2')])
+
+      await provider.deleteReviewLog('review-1')
+      await provider.deleteReviewLog('missing')
+
+      expect((await provider.getReviewLogs()).map(log => log.id)).toEqual(['review-2'])
+    })
+
+    it('should reject invalid review logs', async () => {
+      await expect(provider.saveReviewLog({ ...createLog('review-1', 'card-1'), grade: 'perfect' as any }))
+        .rejects.toThrow(ProviderError)
+      await expect(provider.saveReviewLog({ ...createLog('review-1', ''), }))
+        .rejects.toThrow(ProviderError)
+    })
+  })
+
   describe('status management', () => {
     it('should get current status', async () => {
       const status = await provider.getStatus()
@@ -487,4 +806,31 @@ describe('LocalStorageProvider', () => {
       }
     })
   })
-})
\ No newline at end of file
+
+  describe('subscribe', () => {
+    it('should report changes saved by other tabs', () => {
+      const listener = jest.fn()
+      const unsubscribe = provider.subscribe(listener)
+
+      window.dispatchEvent(new StorageEvent('storage', { key: 'english-cards' }))
+      window.dispatchEvent(new StorageEvent('storage', { key: 'english-cards-decks' }))
+      window.dispatchEvent(new StorageEvent('storage', { key: 'unrelated' }))
+
+      expect(listener.mock.calls).toEqual([['cards'], ['decks']])
+
+      unsubscribe()
+      window.dispatchEvent(new StorageEvent('storage', { key: 'english-cards' }))
+      expect(listener).toHaveBeenCalledTimes(2)
+    })
+
+    it('should report everything when storage is cleared', () => {
+      const listener = jest.fn()
+      const unsubscribe = provider.subscribe(listener)
+
+      window.dispatchEvent(new StorageEvent('storage', { key: null }))
+      unsubscribe()
+
+      expect(listener.mock.calls).toEqual([['cards'], ['decks'], ['reviewLogs']])
+    })
+  })
+})
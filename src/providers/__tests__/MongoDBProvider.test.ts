@@ -9,7 +9,12 @@ const mockCollection = {
   insertMany: jest.fn(),
   replaceOne: jest.fn(),
   deleteOne: jest.fn(),
-  createIndex: jest.fn()
+  deleteMany: jest.fn(),
+  createIndex: jest.fn(),
+  findOne: jest.fn(),
+  findOneAndUpdate: jest.fn(),
+  countDocuments: jest.fn(),
+  bulkWrite: jest.fn()
 }
 
 const mockDb = {
@@ -361,6 +366,234 @@ describe('MongoDBProvider', () => {
     })
   })
 
+  describe('getCard', () => {
+    beforeEach(async () => {
+      mockClient.connect.mockResolvedValue(undefined)
+      mockDb.command.mockResolvedValue({ ok: 1 })
+      mockCollection.createIndex.mockResolvedValue('id_1')
+    })
+
+    it('should return the card with the id', async () => {
+      mockCollection.findOne.mockResolvedValue({ _id: 'objectid1', ...sampleCard })
+
+      const result = await provider.getCard('1')
+
+      expect(mockCollection.findOne).toHaveBeenCalledWith({ id: '1' })
+      expect(result).toEqual(expect.objectContaining({ id: '1', word: 'hello' }))
+    })
+
+    it('should return null for a missing card', async () => {
+      mockCollection.findOne.mockResolvedValue(null)
+
+      expect(await provider.getCard('missing')).toBeNull()
+    })
+  })
+
+  describe('patchCard', () => {
+    beforeEach(async () => {
+      mockClient.connect.mockResolvedValue(undefined)
+      mockDb.command.mockResolvedValue({ ok: 1 })
+      mockCollection.createIndex.mockResolvedValue('id_1')
+    })
+
+    it('should set only the given fields', async () => {
+      mockCollection.findOneAndUpdate.mockResolvedValue({ _id: 'objectid1', ...sampleCard, isKnown: true })
+
+      const result = await provider.patchCard('1', { isKnown: true })
+
+      expect(mockCollection.findOneAndUpdate).toHaveBeenCalledWith(
+        { id: '1' },
+        { $set: { isKnown: true } },
+        { returnDocument: 'after' }
+      )
+      expect(result).toEqual(expect.objectContaining({ id: '1', isKnown: true }))
+    })
+
+    it('should throw error when card not found', async () => {
+      mockCollection.findOneAndUpdate.mockResolvedValue(null)
+
+      await expect(provider.patchCard('missing', { isKnown: true })).rejects.toThrow('Card with ID missing not found')
+    })
+  })
+
+  describe('patchCards and deleteCards', () => {
+    beforeEach(async () => {
+      mockClient.connect.mockResolvedValue(undefined)
+      mockDb.command.mockResolvedValue({ ok: 1 })
+      mockCollection.createIndex.mockResolvedValue('id_1')
+      mockCollection.find.mockReturnValue({
+        toArray: jest.fn().mockResolvedValue([{ id: '1' }, { id: '2' }])
+      } as any)
+    })
+
+    it('should report missing cards and rejected updates of an unordered bulk write', async () => {
+      mockCollection.bulkWrite.mockRejectedValue(Object.assign(new Error('Bulk write failed'), {
+        writeErrors: [{ index: 1, errmsg: 'Document failed validation' }]
+      }))
+
+      const result = await provider.patchCards([
+        { cardId: '1', changes: { isKnown: true } },
+        { cardId: 'missing', changes: { isKnown: true } },
+        { cardId: '2', changes: { isKnown: true } }
+      ])
+
+      expect(mockCollection.bulkWrite).toHaveBeenCalledWith([
+        { updateOne: { filter: { id: '1' }, update: { $set: { isKnown: true } } } },
+        { updateOne: { filter: { id: '2' }, update: { $set: { isKnown: true } } } }
+      ], { ordered: false })
+      expect(result).toEqual({
+        succeeded: ['1'],
+        failed: [
+          { cardId: 'missing', error: 'Card with ID missing not found' },
+          { cardId: '2', error: 'Document failed validation' }
+        ]
+      })
+    })
+
+    it('should delete the existing cards with one deleteMany', async () => {
+      mockCollection.deleteMany.mockResolvedValue({ deletedCount: 2 })
+
+      const result = await provider.deleteCards(['1', '2', 'missing'])
+
+      expect(mockCollection.deleteMany).toHaveBeenCalledWith({ id: { $in: ['1', '2'] } })
+      expect(result.succeeded).toEqual(['1', '2'])
+      expect(result.failed).toEqual([{ cardId: 'missing', error: 'Card with ID missing not found' }])
+    })
+  })
+
+  describe('queryCards', () => {
+    const createCursor = (documents: unknown[]) => {
+      const cursor = {
+        collation: jest.fn().mockReturnThis(),
+        sort: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        toArray: jest.fn().mockResolvedValue(documents)
+      }
+      return cursor
+    }
+
+    beforeEach(async () => {
+      mockClient.connect.mockResolvedValue(undefined)
+      mockDb.command.mockResolvedValue({ ok: 1 })
+      mockCollection.createIndex.mockResolvedValue('id_1')
+      mockCollection.countDocuments.mockResolvedValue(3)
+    })
+
+    it('should filter, sort and fetch one extra card to find the next page', async () => {
+      const cursor = createCursor([
+        { ...sampleCard, id: '1', word: 'apple' },
+        { ...sampleCard, id: '2', word: 'banana' }
+      ])
+      mockCollection.find.mockReturnValue(cursor as any)
+
+      const result = await provider.queryCards({ deckId: 'travel', known: false, sort: { field: 'word', direction: 'asc' }, limit: 1 })
+
+      const filter = { $and: [{ deletedAt: { $not: { $type: 'date' } } }, { deckId: 'travel' }, { isKnown: false }] }
+      expect(mockCollection.find).toHaveBeenCalledWith(filter)
+      expect(mockCollection.countDocuments).toHaveBeenCalledWith(filter, expect.anything())
+      expect(cursor.sort).toHaveBeenCalledWith({ word: 1, id: 1 })
+      expect(cursor.limit).toHaveBeenCalledWith(2)
+      expect(result.cards.map(card => card.word)).toEqual(['apple'])
+      expect(result.total).toBe(3)
+      expect(result.nextCursor).toBe(JSON.stringify(['apple', '1']))
+    })
+
+    it('should continue after the cursor', async () => {
+      mockCollection.find.mockReturnValue(createCursor([]) as any)
+
+      const result = await provider.queryCards({ sort: { field: 'createdAt', direction: 'desc' }, cursor: JSON.stringify([1000, '5']) })
+
+      expect(mockCollection.find).toHaveBeenCalledWith({
+        $and: [{ $and: [{ deletedAt: { $not: { $type: 'date' } } }] }, {
+          $or: [
+            { createdAt: { $lt: new Date(1000) } },
+            { createdAt: null },
+            { createdAt: new Date(1000), id: { $lt: '5' } }
+          ]
+        }]
+      })
+      expect(result.nextCursor).toBeNull()
+    })
+
+    it('should query only the trash when asked for deleted cards', async () => {
+      mockCollection.find.mockReturnValue(createCursor([]) as any)
+
+      await provider.queryCards({ deleted: true })
+
+      expect(mockCollection.find).toHaveBeenCalledWith({ $and: [{ deletedAt: { $type: 'date' } }] })
+    })
+
+    it('should throw ProviderError for an invalid cursor', async () => {
+      await expect(provider.queryCards({ sort: { field: 'word', direction: 'asc' }, cursor: 'bad' })).rejects.toThrow('Failed to query cards')
+    })
+  })
+
+  describe('upsertCards', () => {
+    beforeEach(async () => {
+      mockClient.connect.mockResolvedValue(undefined)
+      mockDb.command.mockResolvedValue({ ok: 1 })
+      mockCollection.createIndex.mockResolvedValue('id_1')
+    })
+
+    it('should replace or insert every card by id', async () => {
+      const cards = [sampleCard, { ...sampleCard, id: '2', word: 'goodbye' }]
+      mockCollection.bulkWrite.mockResolvedValue({ upsertedCount: 1, modifiedCount: 1 })
+
+      const result = await provider.upsertCards(cards)
+
+      expect(result).toEqual(cards)
+      expect(mockCollection.bulkWrite).toHaveBeenCalledWith(
+        [
+          { replaceOne: { filter: { id: '1' }, replacement: expect.objectContaining({ word: 'hello' }), upsert: true } },
+          { replaceOne: { filter: { id: '2' }, replacement: expect.objectContaining({ word: 'goodbye' }), upsert: true } }
+        ],
+        { ordered: false }
+      )
+    })
+
+    it('should handle empty array', async () => {
+      expect(await provider.upsertCards([])).toEqual([])
+      expect(mockCollection.bulkWrite).not.toHaveBeenCalled()
+    })
+
+    it('should handle database errors', async () => {
+      mockCollection.bulkWrite.mockRejectedValue(new Error('Database error'))
+
+      await expect(provider.upsertCards([sampleCard])).rejects.toThrow('Failed to upsert cards')
+    })
+  })
+
+  describe('saveReviewLogs', () => {
+    const log = {
+      id: 'review-1',
+      cardId: '1',
+      reviewedAt: new Date('2024-01-02T00:00:00.000Z'),
+      grade: 'good' as const,
+      responseTimeMs: 1000,
+      previousInterval: 0,
+      nextInterval: 1,
+      studyMode: 'flashcard' as const
+    }
+
+    beforeEach(async () => {
+      mockClient.connect.mockResolvedValue(undefined)
+      mockDb.command.mockResolvedValue({ ok: 1 })
+      mockCollection.createIndex.mockResolvedValue('id_1')
+    })
+
+    it('should upsert the logs by id so logs sent again are not duplicated', async () => {
+      mockCollection.bulkWrite.mockResolvedValue({ upsertedCount: 0, modifiedCount: 1 })
+
+      expect(await provider.saveReviewLogs([log])).toEqual([log])
+      expect(mockCollection.bulkWrite).toHaveBeenCalledWith(
+        [{ replaceOne: { filter: { id: 'review-1' }, replacement: log, upsert: true } }],
+        { ordered: false }
+      )
+      expect(mockCollection.createIndex).toHaveBeenCalledWith({ id: 1 }, { unique: true })
+      expect(mockCollection.insertMany).not.toHaveBeenCalled()
+    })
+  })
+
   describe('getProviderName', () => {
     it('should return mongodb', () => {
       expect(provider.getProviderName()).toBe('mongodb')
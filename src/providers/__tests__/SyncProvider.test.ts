@@ -0,0 +1,286 @@
+import { SyncProvider } from '../SyncProvider'
+import { SyncOutbox } from '../SyncOutbox'
+import { LocalStorageProvider } from '../LocalStorageProvider'
+import { IDataProvider, IReviewLogProvider } from '../types'
+import { Card, CardPatch, CardPatchEntry, CardQuery } from '../../types/card'
+import { Deck } from '../../types/deck'
+import { ReviewLog } from '../../types/review'
+import { createDefaultDeck } from '../../utils/decks'
+import { queryCardsInMemory } from '../../utils/cardQuery'
+import { createTestCard } from '../../test/cards'
+
+// In-memory remote provider that can go offline
+class RemoteProvider implements IDataProvider, IReviewLogProvider {
+  cards: Card[] = []
+  decks: Deck[] = [createDefaultDeck()]
+  reviewLogs: ReviewLog[] = []
+  online = true
+
+  private check() {
+    if (!this.online) {
+      throw new Error('Remote is offline')
+    }
+  }
+
+  async getCards() { this.check(); return [...this.cards] }
+  async saveCard(card: Card) { this.check(); this.cards.push(card); return card }
+  async updateCard(card: Card) {
+    this.check()
+    this.cards = this.cards.map(existing => existing.id === card.id ? card : existing)
+    return card
+  }
+  async deleteCard(cardId: string) { this.check(); this.cards = this.cards.filter(card => card.id !== cardId) }
+  async saveCards(cards: Card[]) { this.check(); this.cards = [...cards]; return cards }
+  async patchCard(cardId: string, changes: CardPatch) {
+    this.check()
+    const card = { ...this.cards.find(existing => existing.id === cardId)!, ...changes }
+    return this.updateCard(card)
+  }
+  async upsertCards(cards: Card[]) {
+    this.check()
+    const ids = new Set(cards.map(card => card.id))
+    this.cards = this.cards.filter(card => !ids.has(card.id)).concat(cards)
+    return cards
+  }
+  async queryCards(query: CardQuery) { this.check(); return queryCardsInMemory(this.cards, query) }
+  async patchCards(patches: CardPatchEntry[]) {
+    this.check()
+    for (const { cardId, changes } of patches) await this.patchCard(cardId, changes)
+    return { succeeded: patches.map(patch => patch.cardId), failed: [] }
+  }
+  async deleteCards(cardIds: string[]) {
+    this.check()
+    this.cards = this.cards.filter(card => !cardIds.includes(card.id))
+    return { succeeded: cardIds, failed: [] }
+  }
+  async getDecks() { this.check(); return [...this.decks] }
+  async saveDeck(deck: Deck) { this.check(); this.decks.push(deck); return deck }
+  async updateDeck(deck: Deck) {
+    this.check()
+    this.decks = this.decks.map(existing => existing.id === deck.id ? deck : existing)
+    return deck
+  }
+  async deleteDeck(deckId: string) {
+    this.check()
+    this.decks = this.decks.filter(deck => deck.id !== deckId)
+    this.cards = this.cards.filter(card => card.deckId !== deckId)
+  }
+  async getReviewLogs() { this.check(); return [...this.reviewLogs] }
+  async saveReviewLog(log: ReviewLog) { this.check(); this.reviewLogs.push(log); return log }
+  async saveReviewLogs(logs: ReviewLog[]) { this.check(); this.reviewLogs.push(...logs); return logs }
+  async deleteReviewLog(logId: string) {
+    this.check()
+    this.reviewLogs = this.reviewLogs.filter(log => log.id !== logId)
+  }
+  getProviderName() { return 'mongodb' }
+  async isAvailable() { return this.online }
+  async connect() {}
+  async disconnect() {}
+}
+
+describe('SyncProvider', () => {
+  const createCard = (id: string, overrides: Partial<Card> = {}): Card =>
+    createTestCard(id, { word: `word ${id}`, translation: `translation ${id}`, ...overrides })
+
+  let remote: RemoteProvider
+  let provider: SyncProvider
+
+  // Long delay so the tests decide when to sync
+  const createProvider = () => new SyncProvider(new LocalStorageProvider(), remote, { syncDelayMs: 60000 })
+
+  beforeEach(() => {
+    localStorage.clear()
+    remote = new RemoteProvider()
+    provider = createProvider()
+  })
+
+  afterEach(async () => {
+    await provider.disconnect()
+    jest.restoreAllMocks()
+  })
+
+  it('should keep working offline and queue the changes', async () => {
+    remote.online = false
+
+    await provider.saveCard(createCard('1'))
+    await provider.sync()
+
+    expect(await provider.getCards()).toHaveLength(1)
+    expect(remote.cards).toEqual([])
+    expect(provider.getSyncState()).toEqual(expect.objectContaining({ status: 'offline', pendingChanges: 1 }))
+  })
+
+  it('should replay the queued changes when the remote comes back', async () => {
+    remote.online = false
+    await provider.saveCard(createCard('1'))
+    await provider.saveCard(createCard('2'))
+    await provider.deleteCard('2')
+
+    remote.online = true
+    await provider.sync()
+
+    expect(remote.cards.map(card => card.id)).toEqual(['1'])
+    expect(provider.getSyncState()).toEqual(expect.objectContaining({ status: 'synced', pendingChanges: 0 }))
+    expect(provider.getSyncState().lastSyncedAt).toBeInstanceOf(Date)
+  })
+
+  it('should keep the queue across reloads', async () => {
+    remote.online = false
+    await provider.saveCard(createCard('1'))
+    await provider.disconnect()
+
+    remote.online = true
+    provider = createProvider()
+    expect(provider.getSyncState().pendingChanges).toBe(1)
+
+    await provider.sync()
+    expect(remote.cards.map(card => card.id)).toEqual(['1'])
+  })
+
+  it('should pull remote additions and deletions', async () => {
+    await provider.saveCard(createCard('1'))
+    await provider.sync()
+
+    const onRemoteChange = jest.fn()
+    provider.onRemoteChange = onRemoteChange
+    remote.cards = [createCard('2')]
+    await provider.sync()
+
+    expect((await provider.getCards()).map(card => card.id)).toEqual(['2'])
+    expect(onRemoteChange).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not pull back a card deleted while its delete is still queued', async () => {
+    await provider.saveCard(createCard('1'))
+    await provider.sync()
+
+    // The card is deleted here after the sync took its list of changes to send
+    await provider.saveCard(createCard('2'))
+    const getRemoteCards = remote.getCards.bind(remote)
+    jest.spyOn(remote, 'getCards').mockImplementationOnce(async () => {
+      await provider.deleteCard('1')
+      return getRemoteCards()
+    })
+    await provider.sync()
+
+    expect((await provider.getCards()).map(card => card.id)).toEqual(['2'])
+    expect(provider.getSyncState().pendingChanges).toBe(1)
+
+    await provider.sync()
+    expect(remote.cards.map(card => card.id)).toEqual(['2'])
+  })
+
+  it('should merge concurrent edits of a card field by field', async () => {
+    await provider.saveCard(createCard('1'))
+    await provider.sync()
+
+    // Another device changed the tags after this one went offline
+    const [remoteCard] = remote.cards
+    remote.cards = [{
+      ...remoteCard,
+      tags: ['travel'],
+      fieldUpdatedAt: { ...remoteCard.fieldUpdatedAt, tags: Date.now() + 1000 }
+    }]
+
+    remote.online = false
+    const [localCard] = await provider.getCards()
+    await provider.updateCard({ ...localCard, translation: 'hola' })
+
+    remote.online = true
+    await provider.sync()
+
+    for (const card of [remote.cards[0], (await provider.getCards())[0]]) {
+      expect(card.translation).toBe('hola')
+      expect(card.tags).toEqual(['travel'])
+    }
+  })
+
+  it('should stamp and queue patched fields', async () => {
+    await provider.saveCard(createCard('1'))
+    await provider.sync()
+
+    // Stamp the patch strictly after the save
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 1000)
+    const patched = await provider.patchCard('1', { isKnown: true })
+    expect(patched.fieldUpdatedAt?.isKnown).toBeGreaterThan(patched.fieldUpdatedAt?.word ?? Infinity)
+    expect(provider.getSyncState().pendingChanges).toBe(1)
+
+    await provider.sync()
+    expect(remote.cards[0].isKnown).toBe(true)
+  })
+
+  it('should send new review logs', async () => {
+    await provider.saveReviewLog({
+      id: 'review-1',
+      cardId: '1',
+      reviewedAt: new Date('2024-01-02T00:00:00.000Z'),
+      grade: 'good',
+      responseTimeMs: 1000,
+      previousInterval: 0,
+      nextInterval: 1,
+      studyMode: 'flashcard'
+    })
+    await provider.sync()
+
+    expect(remote.reviewLogs.map(log => log.id)).toEqual(['review-1'])
+  })
+
+  it('should send deleted review logs without pulling them back', async () => {
+    await provider.saveReviewLog({
+      id: 'review-1',
+      cardId: '1',
+      reviewedAt: new Date('2024-01-02T00:00:00.000Z'),
+      grade: 'good',
+      responseTimeMs: 1000,
+      previousInterval: 0,
+      nextInterval: 1,
+      studyMode: 'flashcard'
+    })
+    await provider.sync()
+
+    await provider.deleteReviewLog('review-1')
+    await provider.sync()
+
+    expect(remote.reviewLogs).toEqual([])
+    expect(await provider.getReviewLogs()).toEqual([])
+  })
+
+  it('should report failures through the sync state', async () => {
+    const onSyncStateChange = jest.fn()
+    provider.onSyncStateChange = onSyncStateChange
+    jest.spyOn(remote, 'getCards').mockRejectedValueOnce(new Error('Server error'))
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    await provider.saveCard(createCard('1'))
+    await provider.sync()
+
+    expect(provider.getSyncState()).toEqual(expect.objectContaining({ status: 'error', error: 'Server error', pendingChanges: 1 }))
+    expect(onSyncStateChange).toHaveBeenCalledWith(expect.objectContaining({ status: 'syncing' }))
+  })
+})
+
+describe('SyncOutbox', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('should keep only the latest change to a record', () => {
+    const outbox = new SyncOutbox()
+
+    outbox.add('card', 'upsert', '1', 100)
+    outbox.add('card', 'delete', '1', 200)
+
+    expect(outbox.getAll()).toEqual([expect.objectContaining({ action: 'delete', entityId: '1', timestamp: 200 })])
+  })
+
+  it('should keep changes queued after the sent ones', () => {
+    const outbox = new SyncOutbox()
+    const sent = [outbox.add('card', 'upsert', '1')]
+    outbox.add('card', 'upsert', '1')
+
+    outbox.remove(sent)
+
+    expect(outbox.size).toBe(1)
+    expect(new SyncOutbox().size).toBe(1)
+  })
+})
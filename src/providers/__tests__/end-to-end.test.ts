@@ -2,6 +2,7 @@ import { DataProviderManager } from '../DataProviderManager'
 import { LocalStorageProvider } from '../LocalStorageProvider'
 import { MongoDBProvider } from '../MongoDBProvider'
 import { Card } from '../../types/card'
+import { createInitialSchedule } from '../../utils/scheduler'
 import { MongoDBConfig, ProviderStatus } from '../types'
 
 // Mock localStorage for tests
@@ -344,7 +345,10 @@ describe('End-to-End Provider Workflows', () => {
         lastReviewed: new Date('2023-01-02T15:30:00Z'),
         examples: [
           { id: 'ex1', text: 'This is a complex example', translation: 'Este es un ejemplo complejo' }
-        ]
+        ],
+        deckId: 'default',
+        tags: [],
+        ...createInitialSchedule(new Date('2023-01-02T15:30:00Z'))
       }
 
       const savedCard = await manager.saveCard(complexCard)
@@ -0,0 +1,169 @@
+import { Card, CardPatch, CardQuery, CardQueryResult } from '../types/card'
+import { Deck } from '../types/deck'
+import { ReviewLog } from '../types/review'
+import { migrateCardSchedule } from '../utils/scheduler'
+import { migrateCardDeck } from '../utils/decks'
+import { migrateCardTags } from '../utils/tags'
+import { DEFAULT_CARD_SORT, decodeCardCursor, isCardSort } from '../utils/cardQuery'
+import { DataProviderError, MongoDBConfig, ProviderStatus } from './types'
+
+/**
+ * Request headers carrying the MongoDB settings from the browser to the API routes
+ */
+export const MONGODB_CONFIG_HEADERS = {
+  connectionString: 'x-mongodb-connection-string',
+  databaseName: 'x-mongodb-database',
+  collectionName: 'x-mongodb-collection'
+} as const satisfies Record<keyof MongoDBConfig, string>
+
+/**
+ * Body of an error response from the API routes
+ */
+export interface ApiErrorBody {
+  error: string
+  type: DataProviderError
+}
+
+/**
+ * Body of the status route response
+ */
+export interface ApiStatusBody {
+  available: boolean
+  status: ProviderStatus
+  message?: string
+}
+
+/**
+ * Restores a card sent as JSON: date strings become Dates and fields missing
+ * on older cards are filled in
+ */
+export function reviveCard(data: any): Card {
+  return migrateCardSchedule(migrateCardTags(migrateCardDeck({
+    ...data,
+    createdAt: new Date(data.createdAt),
+    lastReviewed: data.lastReviewed ? new Date(data.lastReviewed) : undefined,
+    deletedAt: data.deletedAt ? new Date(data.deletedAt) : undefined,
+    examples: data.examples || []
+  })))
+}
+
+/**
+ * Restores the changed fields of a card sent as JSON, the id cannot be changed
+ */
+export function reviveCardPatch(data: any): CardPatch {
+  const changes = { ...data }
+  delete changes.id
+  for (const field of ['createdAt', 'lastReviewed', 'dueAt', 'deletedAt']) {
+    if (changes[field]) {
+      changes[field] = new Date(changes[field])
+    }
+  }
+  return changes
+}
+
+/**
+ * Writes a card query as URL search parameters, tags repeat the tag parameter
+ */
+export function cardQueryToSearchParams(query: CardQuery): URLSearchParams {
+  const params = new URLSearchParams()
+  if (query.text) params.set('text', query.text)
+  query.tags?.forEach(tag => params.append('tag', tag))
+  if (query.deckId !== undefined) params.set('deckId', query.deckId)
+  if (query.known !== undefined) params.set('known', String(query.known))
+  if (query.dueBefore) params.set('dueBefore', query.dueBefore.toISOString())
+  if (query.deleted) params.set('deleted', 'true')
+  if (query.sort) {
+    params.set('sort', query.sort.field)
+    params.set('direction', query.sort.direction)
+  }
+  if (query.limit !== undefined) params.set('limit', String(query.limit))
+  if (query.cursor) params.set('cursor', query.cursor)
+  return params
+}
+
+/**
+ * Reads a card query written by cardQueryToSearchParams, returns null when a parameter is invalid
+ */
+export function parseCardQuery(params: URLSearchParams): CardQuery | null {
+  const query: CardQuery = {}
+  const text = params.get('text')
+  const tags = params.getAll('tag')
+  const deckId = params.get('deckId')
+  const known = params.get('known')
+  const dueBefore = params.get('dueBefore')
+  const deleted = params.get('deleted')
+  const sort = params.get('sort')
+  const direction = params.get('direction')
+  const limit = params.get('limit')
+  const cursor = params.get('cursor')
+
+  if (text) query.text = text
+  if (tags.length > 0) query.tags = tags
+  if (deckId !== null) query.deckId = deckId
+  if (cursor) query.cursor = cursor
+
+  if (known !== null) {
+    if (known !== 'true' && known !== 'false') return null
+    query.known = known === 'true'
+  }
+  if (dueBefore !== null) {
+    query.dueBefore = new Date(dueBefore)
+    if (isNaN(query.dueBefore.getTime())) return null
+  }
+  if (deleted !== null) {
+    if (deleted !== 'true' && deleted !== 'false') return null
+    query.deleted = deleted === 'true'
+  }
+  if (sort !== null || direction !== null) {
+    const cardSort = { field: sort, direction }
+    if (!isCardSort(cardSort)) return null
+    query.sort = cardSort
+  }
+  if (limit !== null) {
+    query.limit = Number(limit)
+    if (!Number.isInteger(query.limit) || query.limit < 0) return null
+  }
+  if (query.cursor) {
+    try {
+      decodeCardCursor(query.cursor, query.sort || DEFAULT_CARD_SORT)
+    } catch {
+      return null
+    }
+  }
+
+  return query
+}
+
+/**
+ * Restores a page of cards sent as JSON
+ */
+export function reviveCardQueryResult(data: any): CardQueryResult {
+  return {
+    cards: data.cards.map(reviveCard),
+    total: data.total,
+    nextCursor: data.nextCursor
+  }
+}
+
+/**
+ * Restores a deck sent as JSON
+ */
+export function reviveDeck(data: any): Deck {
+  return {
+    ...data,
+    description: data.description || '',
+    sourceLanguage: data.sourceLanguage || '',
+    targetLanguage: data.targetLanguage || '',
+    createdAt: new Date(data.createdAt)
+  }
+}
+
+/**
+ * Restores a review log sent as JSON
+ */
+export function reviveReviewLog(data: any): ReviewLog {
+  return {
+    ...data,
+    reviewedAt: new Date(data.reviewedAt)
+  }
+}
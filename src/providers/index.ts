@@ -1,6 +1,9 @@
 // Core interfaces and types
 export type { 
   IDataProvider, 
+  IReviewLogProvider,
+  IChangeNotifyingProvider,
+  DataChangeType,
   MongoDBConfig, 
   ProviderConfig, 
   AppSettings 
@@ -8,7 +11,9 @@ export type {
 
 export { 
   DataProviderError, 
-  ProviderError 
+  ProviderError,
+  supportsReviewLogs,
+  supportsChangeNotifications
 } from './types'
 
 // Core infrastructure
@@ -17,7 +22,16 @@ export { FallbackHandler } from './FallbackHandler'
 
 // Data providers
 export { LocalStorageProvider } from './LocalStorageProvider'
+export { IndexedDBProvider } from './IndexedDBProvider'
 export { MongoDBProvider } from './MongoDBProvider'
+export { HttpProvider } from './HttpProvider'
+export type { HttpProviderConfig } from './HttpProvider'
+
+// Offline sync
+export { SyncProvider } from './SyncProvider'
+export type { SyncState, SyncStatus, SyncProviderOptions } from './SyncProvider'
+export { SyncOutbox } from './SyncOutbox'
+export type { SyncOperation, SyncEntity } from './SyncOutbox'
 
 // Migration services
 export { DataMigrationService } from './DataMigration'
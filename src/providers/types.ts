@@ -1,4 +1,6 @@
-import { Card } from '../types/card'
+import { Card, CardPatch, CardPatchEntry, CardQuery, CardQueryResult, CardSort } from '../types/card'
+import { Deck } from '../types/deck'
+import { ReviewLog, StudyMode } from '../types/review'
 
 /**
  * Error types for data provider operations
@@ -25,6 +27,15 @@ export class ProviderError extends Error {
   }
 }
 
+/**
+ * Outcome of a bulk operation. Cards that could not be changed are reported
+ * one by one instead of failing the whole batch
+ */
+export interface BulkOperationResult {
+  succeeded: string[] // card ids
+  failed: Array<{ cardId: string, error: string }>
+}
+
 /**
  * Common interface for all data providers
  */
@@ -35,6 +46,17 @@ export interface IDataProvider {
   updateCard(card: Card): Promise<Card>
   deleteCard(cardId: string): Promise<void>
   saveCards(cards: Card[]): Promise<Card[]>
+  patchCard(cardId: string, changes: CardPatch): Promise<Card> // changes only the given fields
+  upsertCards(cards: Card[]): Promise<Card[]> // inserts new cards and replaces existing ones
+  queryCards(query: CardQuery): Promise<CardQueryResult> // filtered, sorted page of cards
+  patchCards(patches: CardPatchEntry[]): Promise<BulkOperationResult> // patchCard for many cards at once
+  deleteCards(cardIds: string[]): Promise<BulkOperationResult>
+
+  // Deck operations
+  getDecks(): Promise<Deck[]>
+  saveDeck(deck: Deck): Promise<Deck>
+  updateDeck(deck: Deck): Promise<Deck>
+  deleteDeck(deckId: string): Promise<void> // also deletes the deck's cards
 
   // Provider metadata
   getProviderName(): string
@@ -45,6 +67,49 @@ export interface IDataProvider {
   disconnect(): Promise<void>
 }
 
+/**
+ * Optional capability for providers that persist review history. Saving upserts
+ * by id, so sending the same log again does not add it twice
+ */
+export interface IReviewLogProvider {
+  getReviewLogs(cardId?: string): Promise<ReviewLog[]>
+  saveReviewLog(log: ReviewLog): Promise<ReviewLog>
+  saveReviewLogs(logs: ReviewLog[]): Promise<ReviewLog[]>
+  deleteReviewLog(logId: string): Promise<void> // undoing a review removes its entry
+}
+
+/**
+ * Checks whether a provider supports the review log capability
+ */
+export function supportsReviewLogs(provider: IDataProvider): provider is IDataProvider & IReviewLogProvider {
+  return 'getReviewLogs' in provider &&
+    typeof (provider as Partial<IReviewLogProvider>).getReviewLogs === 'function' &&
+    typeof (provider as Partial<IReviewLogProvider>).saveReviewLog === 'function' &&
+    typeof (provider as Partial<IReviewLogProvider>).saveReviewLogs === 'function' &&
+    typeof (provider as Partial<IReviewLogProvider>).deleteReviewLog === 'function'
+}
+
+/**
+ * Part of a provider's data that changed
+ */
+export type DataChangeType = 'cards' | 'decks' | 'reviewLogs'
+
+/**
+ * Optional capability for providers whose data can be changed from outside
+ * this app instance, such as another browser tab
+ */
+export interface IChangeNotifyingProvider {
+  subscribe(listener: (change: DataChangeType) => void): () => void // returns the unsubscribe function
+}
+
+/**
+ * Checks whether a provider supports the change notification capability
+ */
+export function supportsChangeNotifications(provider: IDataProvider): provider is IDataProvider & IChangeNotifyingProvider {
+  return 'subscribe' in provider &&
+    typeof (provider as Partial<IChangeNotifyingProvider>).subscribe === 'function'
+}
+
 /**
  * Configuration for MongoDB provider
  */
@@ -106,10 +171,17 @@ export interface AppSettings {
   selectedProvider: string
   providers: {
     localhost: ProviderConfig
+    indexeddb: ProviderConfig
     mongodb: ProviderConfig & {
       config: MongoDBConfig
     }
   }
   // UI preferences
   showTranslationFirst: boolean
+  // Study preferences
+  newCardsPerDay: number
+  studyMode: StudyMode
+  maxAnswerDistance: number // typing mistakes accepted in typed answers
+  wordListSort: CardSort
+  trashRetentionDays: number // deleted cards are purged from the trash after this many days
 }
\ No newline at end of file
@@ -0,0 +1,24 @@
+import { Card } from '../types/card'
+import { DEFAULT_DECK_ID } from '../types/deck'
+import { createInitialSchedule } from '../utils/scheduler'
+
+const TEST_CARD_DATE = new Date('2024-01-01T00:00:00.000Z')
+
+/**
+ * Card for tests: a new card of the default deck, with the id as its word
+ * unless the overrides give another one
+ */
+export function createTestCard(id: string, overrides: Partial<Card> = {}): Card {
+  return {
+    id,
+    deckId: DEFAULT_DECK_ID,
+    word: id,
+    translation: `${id}-translation`,
+    isKnown: false,
+    createdAt: TEST_CARD_DATE,
+    examples: [],
+    tags: [],
+    ...createInitialSchedule(TEST_CARD_DATE),
+    ...overrides
+  }
+}
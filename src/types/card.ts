@@ -4,12 +4,76 @@ export interface Example {
   translation: string
 }
 
-export interface Card {
+/**
+ * Spaced-repetition state maintained by the SM-2 scheduler
+ */
+export interface CardSchedule {
+  easeFactor: number
+  interval: number // days until the next review
+  repetitions: number // consecutive successful reviews
+  dueAt: Date
+}
+
+export interface Card extends CardSchedule {
   id: string
+  deckId: string
   word: string
   translation: string
   isKnown: boolean
   createdAt: Date
   lastReviewed?: Date
   examples: Example[]
-}
\ No newline at end of file
+  tags: string[]
+  deletedAt?: Date // set while the card is in the trash
+  fieldUpdatedAt?: Record<string, number> // when each field was last changed (epoch ms), used to merge offline edits
+}
+
+/**
+ * Fields to change on an existing card
+ */
+export type CardPatch = Partial<Omit<Card, 'id'>>
+
+/**
+ * Changes for one card of a bulk patch
+ */
+export interface CardPatchEntry {
+  cardId: string
+  changes: CardPatch
+}
+
+/**
+ * Card fields that card queries can sort by
+ */
+export type CardSortField = 'word' | 'translation' | 'createdAt' | 'lastReviewed' | 'dueAt' | 'isKnown'
+
+/**
+ * Order of a card query, cards never reviewed come first when sorting by lastReviewed ascending
+ */
+export interface CardSort {
+  field: CardSortField
+  direction: 'asc' | 'desc'
+}
+
+/**
+ * Filters, order and page of a card query, every filter is optional
+ */
+export interface CardQuery {
+  text?: string // matches word, translation, tags and examples, case-insensitive
+  tags?: string[] // cards with at least one of the tags
+  deckId?: string
+  known?: boolean
+  dueBefore?: Date
+  deleted?: boolean // true for the cards in the trash, which are left out otherwise
+  sort?: CardSort // defaults to oldest first
+  limit?: number // all matching cards when not set
+  cursor?: string // nextCursor of the previous page
+}
+
+/**
+ * One page of a card query
+ */
+export interface CardQueryResult {
+  cards: Card[]
+  total: number // matching cards across all pages
+  nextCursor: string | null // null on the last page
+}
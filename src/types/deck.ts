@@ -0,0 +1,16 @@
+/**
+ * Named collection of cards
+ */
+export interface Deck {
+  id: string
+  name: string
+  description: string
+  sourceLanguage: string // language of the card words
+  targetLanguage: string // language of the translations
+  createdAt: Date
+}
+
+/**
+ * Deck that cards created before decks existed belong to
+ */
+export const DEFAULT_DECK_ID = 'default'
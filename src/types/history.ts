@@ -0,0 +1,24 @@
+import { Card } from './card'
+import { ReviewLog } from './review'
+
+/**
+ * A recorded change to some cards, kept as their state before and after it.
+ * Cards missing from before were added by the change, cards missing from after were deleted
+ */
+export interface CardChange {
+  id: string
+  label: string // shown to the user, e.g. Deleted "apple"
+  destructive: boolean // deletions and resets, which offer an undo right away
+  before: Card[]
+  after: Card[]
+  reviewLogs?: ReviewLog[] // review history added by the change, removed again when it is undone
+}
+
+/**
+ * Undo and redo stacks of card changes, for one data provider
+ */
+export interface CardHistory {
+  provider: string
+  past: CardChange[] // most recent last
+  future: CardChange[] // next to redo first
+}
@@ -0,0 +1,55 @@
+import { Card, Example } from './card'
+
+/**
+ * A word to import, in the array format of the import dialog
+ */
+export interface ImportCardData {
+  word: string
+  translation: string
+  examples?: Example[]
+  tags?: string[]
+}
+
+/**
+ * Words to import: simple word-translation pairs or an array of words
+ */
+export type ImportData = Record<string, string> | ImportCardData[]
+
+/**
+ * What to do with an imported word that is already in the deck.
+ * `overwrite` replaces the word's content but keeps its progress,
+ * `merge` adds the new examples, tags and translations to it
+ */
+export type DuplicateResolution = 'skip' | 'overwrite' | 'keepBoth' | 'merge'
+
+/**
+ * Resolutions chosen for the duplicates, by the index of the imported word.
+ * Duplicates without one are skipped
+ */
+export type DuplicateResolutions = Record<number, DuplicateResolution>
+
+/**
+ * An imported word that matches a word already in the deck
+ */
+export interface ImportConflict {
+  index: number // of the imported word
+  incoming: ImportCardData
+  existing: Card
+}
+
+/**
+ * Words affected by an import, as they were imported
+ */
+export interface ImportSummary {
+  added: string[]
+  skipped: string[]
+  overwritten: string[]
+  merged: string[]
+  keptBoth: string[]
+}
+
+export interface ImportResult {
+  imported: number // new cards, including the duplicates kept as separate cards
+  skipped: number
+  summary?: ImportSummary
+}
@@ -0,0 +1,23 @@
+/**
+ * Answer buttons offered after a card is flipped
+ */
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy'
+
+/**
+ * Way a card was studied when it was reviewed
+ */
+export type StudyMode = 'flashcard' | 'typing' | 'quiz' | 'dictation' | 'cloze'
+
+/**
+ * Single entry in a card's review history
+ */
+export interface ReviewLog {
+  id: string
+  cardId: string
+  reviewedAt: Date
+  grade: ReviewGrade
+  responseTimeMs: number // time from showing the card to grading it
+  previousInterval: number // days
+  nextInterval: number // days
+  studyMode: StudyMode
+}
@@ -0,0 +1,84 @@
+import { formatAnkiNotes, parseAnkiNotes, stripHtml } from '../anki'
+import { createTestCard } from '../../test/cards'
+
+describe('anki', () => {
+  describe('formatAnkiNotes', () => {
+    it('should write tab-separated notes with the header lines', () => {
+      const card = createTestCard('fish & chips', {
+        translation: 'pescado\tcon patatas',
+        examples: [
+          { id: 'e1', text: 'I like <b>fish</b>', translation: 'Me gusta el pescado' },
+          { id: 'e2', text: 'Chips, please', translation: 'Patatas, por favor' }
+        ],
+        tags: ['food', 'phrasal verbs']
+      })
+
+      expect(formatAnkiNotes([card]).split('\n')).toEqual([
+        '#separator:tab',
+        '#html:true',
+        '#columns:Word\tTranslation\tExample\tExample translation\tTags',
+        '#tags column:5',
+        'fish &amp; chips\t"pescado\tcon patatas"\tI like &lt;b&gt;fish&lt;/b&gt;<br>Chips, please\tMe gusta el pescado<br>Patatas, por favor\tfood phrasal_verbs',
+        ''
+      ])
+    })
+
+    it('should read back what it writes', () => {
+      const card = createTestCard('hello "there"', {
+        examples: [{ id: 'e1', text: 'Hello <there>', translation: 'Hola & adiós' }],
+        tags: ['greetings']
+      })
+
+      expect(parseAnkiNotes(formatAnkiNotes([card]))).toEqual({
+        cards: [{
+          word: 'hello "there"',
+          translation: 'hello "there"-translation',
+          examples: [{ id: 'example-1-1', text: 'Hello <there>', translation: 'Hola & adiós' }],
+          tags: ['greetings']
+        }],
+        invalid: 0
+      })
+    })
+  })
+
+  describe('parseAnkiNotes', () => {
+    it('should honour the separator, tags and special column headers', () => {
+      const text = [
+        '#separator:Semicolon',
+        '#html:true',
+        '#notetype column:1',
+        '#tags column:4',
+        'Basic;<div>cat</div>;"<i>gato</i>&nbsp;[sound:cat.mp3]";animals pets',
+        'Basic;;perro;',
+      ].join('\n')
+
+      expect(parseAnkiNotes(text)).toEqual({
+        cards: [{ word: 'cat', translation: 'gato', examples: [], tags: ['animals', 'pets'] }],
+        invalid: 1
+      })
+    })
+
+    it('should keep markup as text when the file is not HTML', () => {
+      const result = parseAnkiNotes('#separator:tab\n#html:false\n<b>bold</b>\tnegrita\n')
+
+      expect(result.cards[0].word).toBe('<b>bold</b>')
+    })
+
+    it('should read files without header lines', () => {
+      const result = parseAnkiNotes('dog\tperro\tThe dog barks\tEl perro ladra\n')
+
+      expect(result.cards).toEqual([{
+        word: 'dog',
+        translation: 'perro',
+        examples: [{ id: 'example-1-1', text: 'The dog barks', translation: 'El perro ladra' }],
+        tags: []
+      }])
+    })
+  })
+
+  describe('stripHtml', () => {
+    it('should turn simple HTML into lines of plain text', () => {
+      expect(stripHtml('<p>One&#39;s</p><p>two&#x21; &lt;3</p>one<br/>more')).toBe("One's\ntwo! <3\none\nmore")
+    })
+  })
+})
@@ -0,0 +1,71 @@
+import { checkAnswer, diffAnswer, getAcceptedAnswers, gradeAnswer, levenshteinDistance, normalizeAnswer } from '../answerChecking'
+
+describe('answerChecking', () => {
+  describe('normalizeAnswer', () => {
+    it('should ignore case, punctuation, articles and extra whitespace', () => {
+      expect(normalizeAnswer('  The Apple! ')).toBe('apple')
+      expect(normalizeAnswer('an  old-fashioned car.')).toBe('old fashioned car')
+      expect(normalizeAnswer('¿Cómo estás?')).toBe('cómo estás')
+    })
+  })
+
+  describe('getAcceptedAnswers', () => {
+    it('should accept every listed alternative as well as the full answer', () => {
+      expect(getAcceptedAnswers('hi, hello / hey')).toEqual(['hi, hello / hey', 'hi', 'hello', 'hey'])
+      expect(getAcceptedAnswers('hello')).toEqual(['hello'])
+    })
+  })
+
+  describe('levenshteinDistance', () => {
+    it('should count inserted, deleted and replaced characters', () => {
+      expect(levenshteinDistance('kitten', 'sitting')).toBe(3)
+      expect(levenshteinDistance('', 'abc')).toBe(3)
+      expect(levenshteinDistance('same', 'same')).toBe(0)
+    })
+  })
+
+  describe('diffAnswer', () => {
+    it('should mark extra and missing characters', () => {
+      expect(diffAnswer('helo', 'hello')).toEqual([
+        { type: 'match', text: 'hel' },
+        { type: 'missing', text: 'l' },
+        { type: 'match', text: 'o' }
+      ])
+      expect(diffAnswer('cat', 'car')).toEqual([
+        { type: 'match', text: 'ca' },
+        { type: 'extra', text: 't' },
+        { type: 'missing', text: 'r' }
+      ])
+    })
+  })
+
+  describe('checkAnswer', () => {
+    it('should accept exact answers regardless of case, punctuation and articles', () => {
+      const result = checkAnswer('the house', 'House.')
+      expect(result.verdict).toBe('exact')
+      expect(gradeAnswer(result)).toBe('good')
+    })
+
+    it('should accept answers within the allowed distance as close', () => {
+      const result = checkAnswer('helo', 'hello', 1)
+      expect(result.verdict).toBe('close')
+      expect(result.distance).toBe(1)
+      expect(gradeAnswer(result)).toBe('hard')
+    })
+
+    it('should reject answers beyond the allowed distance', () => {
+      expect(checkAnswer('helo', 'hello', 0).verdict).toBe('wrong')
+      expect(gradeAnswer(checkAnswer('goodbye', 'hello'))).toBe('again')
+    })
+
+    it('should compare against the closest alternative', () => {
+      const result = checkAnswer('hey', 'hi, hello / hey')
+      expect(result.verdict).toBe('exact')
+      expect(result.expected).toBe('hey')
+    })
+
+    it('should never accept an empty answer', () => {
+      expect(checkAnswer('the', 'a', 5).verdict).toBe('wrong')
+    })
+  })
+})
@@ -0,0 +1,91 @@
+import {
+  MAX_HISTORY_LENGTH,
+  createCardChange,
+  createCardHistory,
+  getCardChangeWrites,
+  loadCardHistory,
+  recordCardChange,
+  saveCardHistory
+} from '../cardHistory'
+import { ReviewLog } from '../../types/review'
+import { createTestCard } from '../../test/cards'
+
+describe('cardHistory', () => {
+  beforeEach(() => {
+    sessionStorage.clear()
+  })
+
+  describe('getCardChangeWrites', () => {
+    const kept = createTestCard('kept')
+    const change = createCardChange(
+      'Edited and deleted',
+      [kept, createTestCard('deleted')],
+      [{ ...kept, isKnown: true }, createTestCard('added')]
+    )
+
+    it('should restore the previous state when undoing', () => {
+      const writes = getCardChangeWrites(change, 'undo')
+
+      expect(writes.cards.map(card => [card.id, card.isKnown])).toEqual([['kept', false], ['deleted', false]])
+      expect(writes.deletedCardIds).toEqual(['added'])
+    })
+
+    it('should apply the change again when redoing', () => {
+      const writes = getCardChangeWrites(change, 'redo')
+
+      expect(writes.cards.map(card => [card.id, card.isKnown])).toEqual([['kept', true], ['added', false]])
+      expect(writes.deletedCardIds).toEqual(['deleted'])
+    })
+  })
+
+  describe('recordCardChange', () => {
+    it('should clear the redo stack and keep only the latest changes', () => {
+      let history = { ...createCardHistory('localhost'), future: [createCardChange('Undone', [], [])] }
+
+      for (let i = 0; i < MAX_HISTORY_LENGTH + 1; i++) {
+        history = recordCardChange(history, createCardChange(`Change ${i}`, [], []))
+      }
+
+      expect(history.future).toEqual([])
+      expect(history.past).toHaveLength(MAX_HISTORY_LENGTH)
+      expect(history.past[0].label).toBe('Change 1')
+    })
+  })
+
+  describe('loadCardHistory', () => {
+    it('should read back the saved history of the same provider with dates', () => {
+      const card = createTestCard('1', { lastReviewed: new Date('2024-01-02T00:00:00.000Z') })
+      saveCardHistory(recordCardChange(createCardHistory('localhost'), createCardChange('Deleted "1"', [card], [], true)))
+
+      const history = loadCardHistory('localhost')
+
+      expect(history.past).toHaveLength(1)
+      expect(history.past[0].destructive).toBe(true)
+      expect(history.past[0].before[0]).toEqual(card)
+      expect(loadCardHistory('indexeddb').past).toEqual([])
+    })
+
+    it('should read back the review logs a change added with dates', () => {
+      const card = createTestCard('1')
+      const log: ReviewLog = {
+        id: 'review-1',
+        cardId: '1',
+        reviewedAt: new Date('2024-01-02T00:00:00.000Z'),
+        grade: 'good',
+        responseTimeMs: 1000,
+        previousInterval: 0,
+        nextInterval: 1,
+        studyMode: 'flashcard'
+      }
+      saveCardHistory(recordCardChange(createCardHistory('localhost'), createCardChange('Reviewed "1"', [card], [card], false, [log])))
+
+      expect(loadCardHistory('localhost').past[0].reviewLogs).toEqual([log])
+    })
+
+    it('should start empty when nothing usable was saved', () => {
+      sessionStorage.setItem('english-cards-history-localhost', 'not json')
+
+      expect(loadCardHistory('localhost')).toEqual(createCardHistory('localhost'))
+    })
+  })
+})
@@ -0,0 +1,95 @@
+import { decodeCardCursor, encodeCardCursor, matchesCardQuery, queryCardsInMemory } from '../cardQuery'
+import { CardSort } from '../../types/card'
+import { createTestCard } from '../../test/cards'
+
+describe('cardQuery', () => {
+  describe('matchesCardQuery', () => {
+    const card = createTestCard('airport', {
+      tags: ['Travel'],
+      examples: [{ id: 'e1', text: 'We met at the airport', translation: 'Nos vimos en el aeropuerto' }]
+    })
+
+    it('should search the word, translation, tags and examples', () => {
+      expect(matchesCardQuery(card, { text: 'PORT' })).toBe(true)
+      expect(matchesCardQuery(card, { text: 'travel' })).toBe(true)
+      expect(matchesCardQuery(card, { text: 'vimos' })).toBe(true)
+      expect(matchesCardQuery(card, { text: 'train' })).toBe(false)
+    })
+
+    it('should apply every given filter', () => {
+      expect(matchesCardQuery(card, { deckId: 'default', known: false, tags: ['travel', 'food'] })).toBe(true)
+      expect(matchesCardQuery(card, { deckId: 'other' })).toBe(false)
+      expect(matchesCardQuery(card, { known: true })).toBe(false)
+      expect(matchesCardQuery(card, { tags: ['food'] })).toBe(false)
+      expect(matchesCardQuery(card, { dueBefore: new Date(2023, 11, 31) })).toBe(false)
+    })
+
+    it('should keep the trash apart from the other cards', () => {
+      const deleted = { ...card, deletedAt: new Date(2024, 0, 2) }
+
+      expect(matchesCardQuery(deleted, {})).toBe(false)
+      expect(matchesCardQuery(deleted, { deleted: true })).toBe(true)
+      expect(matchesCardQuery(card, { deleted: true })).toBe(false)
+    })
+  })
+
+  describe('queryCardsInMemory', () => {
+    const byWord: CardSort = { field: 'word', direction: 'asc' }
+    const newest: CardSort = { field: 'createdAt', direction: 'desc' }
+    const cards = ['delta', 'alpha', 'charlie', 'bravo', 'echo'].map((word, index) =>
+      createTestCard(word, { createdAt: new Date(2024, 0, index + 1) }))
+
+    it('should page through the cards in the given order', () => {
+      const first = queryCardsInMemory(cards, { sort: byWord, limit: 2 })
+      const second = queryCardsInMemory(cards, { sort: byWord, limit: 2, cursor: first.nextCursor! })
+      const last = queryCardsInMemory(cards, { sort: byWord, limit: 2, cursor: second.nextCursor! })
+
+      expect(first.cards.map(card => card.word)).toEqual(['alpha', 'bravo'])
+      expect(second.cards.map(card => card.word)).toEqual(['charlie', 'delta'])
+      expect(last.cards.map(card => card.word)).toEqual(['echo'])
+      expect(last.nextCursor).toBeNull()
+      expect(first.total).toBe(5)
+    })
+
+    it('should keep the place when cards before the cursor are deleted', () => {
+      const first = queryCardsInMemory(cards, { sort: newest, limit: 2 })
+      const remaining = cards.filter(card => !first.cards.includes(card))
+
+      const second = queryCardsInMemory(remaining, { sort: newest, limit: 2, cursor: first.nextCursor! })
+
+      expect(first.cards.map(card => card.word)).toEqual(['echo', 'bravo'])
+      expect(second.cards.map(card => card.word)).toEqual(['charlie', 'alpha'])
+    })
+
+    it('should put cards never reviewed first when sorting by last review', () => {
+      const reviewed = cards.map((card, index) => index % 2 === 0
+        ? card
+        : { ...card, lastReviewed: new Date(2024, 1, 10 - index) })
+      const sort: CardSort = { field: 'lastReviewed', direction: 'asc' }
+
+      const first = queryCardsInMemory(reviewed, { sort, limit: 2 })
+      const rest = queryCardsInMemory(reviewed, { sort, cursor: first.nextCursor! })
+
+      expect(first.cards.map(card => card.word)).toEqual(['charlie', 'delta'])
+      expect(rest.cards.map(card => card.word)).toEqual(['echo', 'bravo', 'alpha'])
+    })
+
+    it('should return every matching card without a limit', () => {
+      const result = queryCardsInMemory(cards, { text: 'ha' })
+
+      expect(result.cards.map(card => card.word)).toEqual(['alpha', 'charlie'])
+      expect(result.nextCursor).toBeNull()
+    })
+  })
+
+  describe('decodeCardCursor', () => {
+    it('should reject cursors of another sort order', () => {
+      const byWord: CardSort = { field: 'word', direction: 'asc' }
+      const cursor = encodeCardCursor(createTestCard('alpha'), byWord)
+
+      expect(decodeCardCursor(cursor, byWord)).toEqual(['alpha', 'alpha'])
+      expect(() => decodeCardCursor(cursor, { field: 'dueAt', direction: 'asc' })).toThrow('Invalid cursor')
+      expect(() => decodeCardCursor('not json', byWord)).toThrow('Invalid cursor')
+    })
+  })
+})
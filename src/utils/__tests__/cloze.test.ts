@@ -0,0 +1,63 @@
+import { checkCloze, findWordInText, getClozeExercises, getWordForms, hasClozeExercise, pickClozeExercise } from '../cloze'
+import { Card } from '../../types/card'
+import { createTestCard } from '../../test/cards'
+
+describe('cloze', () => {
+  const createCard = (word: string, examples: Card['examples']): Card =>
+    createTestCard('1', { word, translation: 'correr', examples })
+
+  describe('getWordForms', () => {
+    it('should include simple inflections', () => {
+      expect(getWordForms('run')).toEqual(expect.arrayContaining(['run', 'runs', 'running']))
+      expect(getWordForms('study')).toEqual(expect.arrayContaining(['studies', 'studied', 'studying']))
+      expect(getWordForms('make')).toEqual(expect.arrayContaining(['makes', 'making']))
+      expect(getWordForms('watch')).toEqual(expect.arrayContaining(['watches', 'watched']))
+    })
+
+    it('should drop a leading "to" and inflect the first word of a phrase', () => {
+      expect(getWordForms('to give up')).toEqual(expect.arrayContaining(['give up', 'gives up', 'giving up']))
+      expect(getWordForms('  ')).toEqual([])
+    })
+  })
+
+  describe('findWordInText', () => {
+    it('should match whole words only, ignoring case', () => {
+      expect(findWordInText('Running every day is fun', 'run')).toEqual({ index: 0, match: 'Running' })
+      expect(findWordInText('She stopped the car', 'stop')).toEqual({ index: 4, match: 'stopped' })
+      expect(findWordInText('The cathedral is old', 'cat')).toBeNull()
+    })
+  })
+
+  describe('getClozeExercises', () => {
+    it('should blank the word in every example that contains it', () => {
+      const card = createCard('run', [
+        { id: 'ex1', text: 'He runs fast.', translation: 'Él corre rápido.' },
+        { id: 'ex2', text: 'Nothing to see here.', translation: 'Nada que ver aquí.' }
+      ])
+
+      expect(getClozeExercises(card)).toEqual([
+        { exampleId: 'ex1', before: 'He ', after: ' fast.', answer: 'runs', hint: 'Él corre rápido.' }
+      ])
+      expect(hasClozeExercise(card)).toBe(true)
+      expect(pickClozeExercise(card, () => 0.5)?.exampleId).toBe('ex1')
+    })
+
+    it('should skip cards without a matching example', () => {
+      const card = createCard('run', [{ id: 'ex1', text: 'Nothing to see here.', translation: '' }])
+
+      expect(hasClozeExercise(card)).toBe(false)
+      expect(hasClozeExercise(createCard('run', []))).toBe(false)
+      expect(pickClozeExercise(card)).toBeNull()
+    })
+  })
+
+  describe('checkCloze', () => {
+    it('should check the typed text against the blanked form', () => {
+      const [exercise] = getClozeExercises(createCard('run', [{ id: 'ex1', text: 'He is running.', translation: '' }]))
+
+      expect(checkCloze('Running', exercise).verdict).toBe('exact')
+      expect(checkCloze('runing', exercise).verdict).toBe('close')
+      expect(checkCloze('run', exercise).verdict).toBe('wrong')
+    })
+  })
+})
@@ -0,0 +1,53 @@
+import { createDeck, createDefaultDeck, filterCardsByDeck, getDeckProgress, migrateCardDeck } from '../decks'
+import { Card } from '../../types/card'
+import { DEFAULT_DECK_ID } from '../../types/deck'
+import { createTestCard } from '../../test/cards'
+
+describe('decks', () => {
+  const createCard = (id: string, deckId: string, isKnown = false): Card => createTestCard(id, { deckId, isKnown })
+
+  const travel = createDeck({ name: 'Travel', description: '', sourceLanguage: 'English', targetLanguage: 'Spanish' })
+  const cards = [
+    createCard('a', DEFAULT_DECK_ID, true),
+    createCard('b', DEFAULT_DECK_ID),
+    createCard('c', travel.id, true)
+  ]
+
+  describe('createDeck', () => {
+    it('should generate an id and creation date', () => {
+      expect(travel.id).toMatch(/^deck-/)
+      expect(travel.createdAt).toBeInstanceOf(Date)
+      expect(travel.name).toBe('Travel')
+    })
+  })
+
+  describe('migrateCardDeck', () => {
+    it('should assign cards without a deck to the default deck', () => {
+      const { deckId, ...legacyCard } = createCard('legacy', DEFAULT_DECK_ID)
+
+      expect(migrateCardDeck<Partial<Card>>(legacyCard).deckId).toBe(DEFAULT_DECK_ID)
+      expect(migrateCardDeck(createCard('kept', travel.id)).deckId).toBe(travel.id)
+    })
+  })
+
+  describe('filterCardsByDeck', () => {
+    it('should return the cards of one deck or all cards', () => {
+      expect(filterCardsByDeck(cards, travel.id).map(card => card.id)).toEqual(['c'])
+      expect(filterCardsByDeck(cards, null)).toHaveLength(3)
+    })
+  })
+
+  describe('getDeckProgress', () => {
+    it('should count known and total cards per deck', () => {
+      const empty = createDeck({ name: 'Empty', description: '', sourceLanguage: '', targetLanguage: '' })
+      const progress = getDeckProgress([createDefaultDeck(), travel, empty], cards)
+
+      expect(progress.map(({ deck, knownCards, totalCards, completionRate }) => [deck.name, knownCards, totalCards, completionRate]))
+        .toEqual([
+          ['My Cards', 1, 2, 50],
+          ['Travel', 1, 1, 100],
+          ['Empty', 0, 0, 0]
+        ])
+    })
+  })
+})
@@ -0,0 +1,93 @@
+import {
+  buildDelimitedImportRows,
+  detectDelimiter,
+  guessColumnMapping,
+  hasHeaderRow,
+  looksLikeJson,
+  parseDelimitedText,
+  parseTagList,
+  validateColumnMapping,
+} from '../delimitedImport'
+
+describe('delimitedImport', () => {
+  describe('parseDelimitedText', () => {
+    it('should handle quoted fields with delimiters, quotes and line breaks', () => {
+      const text = 'word,translation\r\n"hello, there","hola ""amigo"""\n"two\nlines",dos\n\n'
+
+      expect(parseDelimitedText(text, ',')).toEqual([
+        ['word', 'translation'],
+        ['hello, there', 'hola "amigo"'],
+        ['two\nlines', 'dos'],
+      ])
+    })
+
+    it('should trim unquoted fields and keep empty ones', () => {
+      expect(parseDelimitedText(' cat \t gato \t\t pets ', '\t')).toEqual([['cat', 'gato', '', 'pets']])
+    })
+  })
+
+  describe('detectDelimiter', () => {
+    it('should pick the delimiter that splits every line the same way', () => {
+      expect(detectDelimiter('cat\tgato, el gato\ndog\tperro')).toBe('\t')
+      expect(detectDelimiter('cat;gato\ndog;perro')).toBe(';')
+      expect(detectDelimiter('"cat, big",gato\ndog,perro')).toBe(',')
+    })
+
+    it('should fall back to commas for a single column', () => {
+      expect(detectDelimiter('cat\ndog')).toBe(',')
+    })
+  })
+
+  describe('column mapping', () => {
+    it('should recognise the header names', () => {
+      const rows = [['Tags', 'Term', 'Meaning', 'Notes', 'Example sentence']]
+
+      expect(hasHeaderRow(rows)).toBe(true)
+      expect(guessColumnMapping(rows, true)).toEqual(['tags', 'word', 'translation', 'ignore', 'example'])
+    })
+
+    it('should use the usual column order without a header', () => {
+      const rows = [['cat', 'gato'], ['dog', 'perro', 'The dog barks', 'El perro ladra', 'pets', 'extra']]
+
+      expect(hasHeaderRow(rows)).toBe(false)
+      expect(guessColumnMapping(rows, false)).toEqual(['word', 'translation', 'example', 'exampleTranslation', 'tags', 'ignore'])
+    })
+
+    it('should require the word and translation columns', () => {
+      expect(validateColumnMapping(['word', 'ignore'])).toEqual(['Choose the column holding the translations'])
+      expect(validateColumnMapping(['word', 'translation'])).toEqual([])
+    })
+  })
+
+  describe('buildDelimitedImportRows', () => {
+    it('should build cards and report the invalid rows by line', () => {
+      const rows = [
+        ['word', 'translation', 'example', 'example translation', 'tags'],
+        ['dog', 'perro', 'The dog barks', 'El perro ladra', 'pets; animals'],
+        ['', 'gato', '', '', ''],
+        ['bird', 'pájaro', '', 'Un pájaro', ''],
+      ]
+      const mapping = guessColumnMapping(rows, true)
+
+      const result = buildDelimitedImportRows(rows, mapping, true)
+
+      expect(result[0].card).toEqual({
+        word: 'dog',
+        translation: 'perro',
+        examples: [{ id: 'example-2', text: 'The dog barks', translation: 'El perro ladra' }],
+        tags: ['pets', 'animals'],
+      })
+      expect(result[1]).toEqual(expect.objectContaining({ line: 3, card: null, errors: ['Word is missing'] }))
+      expect(result[2].errors).toEqual(['Example translation has no example'])
+    })
+  })
+
+  it('should tell JSON apart from spreadsheet text', () => {
+    expect(looksLikeJson('  [{"word": "cat"}]')).toBe(true)
+    expect(looksLikeJson('cat,gato')).toBe(false)
+  })
+
+  it('should split tags on commas, semicolons and bars', () => {
+    expect(parseTagList('travel, food|Travel;; verbs')).toEqual(['travel', 'food', 'verbs'])
+  })
+})
@@ -0,0 +1,58 @@
+import { checkDictation, getDictationItems, getDictationTolerance, pickDictationItem } from '../dictation'
+import { createInitialSchedule } from '../scheduler'
+import { Card } from '../../types/card'
+
+describe('dictation', () => {
+  const card: Card = {
+    id: '1',
+    deckId: 'default',
+    word: 'hello',
+    translation: 'hola',
+    isKnown: false,
+    createdAt: new Date('2024-01-01T00:00:00.000Z'),
+    examples: [
+      { id: 'ex1', text: 'Hello, how are you?', translation: 'Hola, ¿cómo estás?' },
+      { id: 'ex2', text: ' ', translation: '' }
+    ],
+    tags: [],
+    ...createInitialSchedule(new Date('2024-01-01T00:00:00.000Z'))
+  }
+
+  describe('getDictationItems', () => {
+    it('should offer the word and every non-empty example', () => {
+      expect(getDictationItems(card)).toEqual([
+        { kind: 'word', text: 'hello', translation: 'hola' },
+        { kind: 'example', text: 'Hello, how are you?', translation: 'Hola, ¿cómo estás?' }
+      ])
+    })
+  })
+
+  describe('pickDictationItem', () => {
+    it('should pick the word or an example', () => {
+      expect(pickDictationItem(card, () => 0).kind).toBe('word')
+      expect(pickDictationItem(card, () => 0.99).kind).toBe('example')
+      expect(pickDictationItem({ ...card, examples: [] }, () => 0.99).kind).toBe('word')
+    })
+  })
+
+  describe('getDictationTolerance', () => {
+    it('should allow the configured mistakes per word', () => {
+      expect(getDictationTolerance('hello', 1)).toBe(1)
+      expect(getDictationTolerance('Hello, how are you?', 1)).toBe(4)
+      expect(getDictationTolerance('Hello, how are you?', 0)).toBe(0)
+    })
+  })
+
+  describe('checkDictation', () => {
+    const sentence = getDictationItems(card)[1]
+
+    it('should accept a sentence with small typos', () => {
+      expect(checkDictation('hello how are you', sentence).verdict).toBe('exact')
+      expect(checkDictation('helo, how ar you', sentence).verdict).toBe('close')
+    })
+
+    it('should not accept part of a sentence split at a comma', () => {
+      expect(checkDictation('hello', sentence).verdict).toBe('wrong')
+    })
+  })
+})
@@ -0,0 +1,78 @@
+import {
+  combineTranslations,
+  findImportConflicts,
+  mergeImportedCard,
+  overwriteImportedCard,
+  toImportCardList,
+} from '../importDuplicates'
+import { Card } from '../../types/card'
+import { createTestCard } from '../../test/cards'
+
+describe('importDuplicates', () => {
+  const createCard = (word: string, overrides: Partial<Card> = {}): Card =>
+    createTestCard(`card-${word}`, { word, ...overrides })
+
+  it('should list simple word-translation pairs as words', () => {
+    expect(toImportCardList({ cat: 'gato' })).toEqual([{ word: 'cat', translation: 'gato' }])
+  })
+
+  it('should find the imported words already in the deck, ignoring case', () => {
+    const existing = createCard('Cat')
+    const conflicts = findImportConflicts(
+      [{ word: 'dog', translation: 'perro' }, { word: ' cat ', translation: 'gata' }],
+      [existing, createCard('bird')]
+    )
+
+    expect(conflicts).toEqual([{ index: 1, incoming: { word: ' cat ', translation: 'gata' }, existing }])
+  })
+
+  it('should find imported words spelled slightly differently, closest first', () => {
+    const color = createCard('color')
+    const conflicts = findImportConflicts(
+      [{ word: 'colour', translation: 'цвет' }, { word: 'colors', translation: 'цвета' }, { word: 'dollar', translation: 'доллар' }],
+      [createCard('colors'), color]
+    )
+
+    expect(conflicts.map(conflict => [conflict.incoming.word, conflict.existing.word])).toEqual([
+      ['colour', 'color'],
+      ['colors', 'colors'],
+    ])
+  })
+
+  it('should add only the translations not given yet', () => {
+    expect(combineTranslations('gato, minino', 'Gato; felino')).toBe('gato, minino, felino')
+  })
+
+  it('should merge examples and tags into the existing card', () => {
+    const existing = createCard('cat', {
+      translation: 'gato',
+      examples: [{ id: 'e1', text: 'The cat sleeps', translation: 'El gato duerme' }],
+      tags: ['animals'],
+      repetitions: 3
+    })
+
+    const merged = mergeImportedCard(existing, {
+      word: 'cat',
+      translation: 'minino',
+      examples: [
+        { id: 'e1', text: 'the cat sleeps', translation: 'El gato duerme' },
+        { id: 'e1', text: 'A black cat', translation: 'Un gato negro' }
+      ],
+      tags: ['Animals', 'pets']
+    })
+
+    expect(merged.translation).toBe('gato, minino')
+    expect(merged.examples.map(example => example.text)).toEqual(['The cat sleeps', 'A black cat'])
+    expect(merged.examples[1].id).not.toBe('e1')
+    expect(merged.tags).toEqual(['animals', 'pets'])
+    expect(merged.repetitions).toBe(3)
+  })
+
+  it('should replace the content but keep the progress when overwriting', () => {
+    const existing = createCard('cat', { tags: ['animals'], repetitions: 3 })
+
+    const overwritten = overwriteImportedCard(existing, { word: 'Cat', translation: 'gato' })
+
+    expect(overwritten).toEqual({ ...existing, word: 'Cat', translation: 'gato', examples: [], tags: [] })
+  })
+})
@@ -0,0 +1,100 @@
+import { buildQuizOptions, gradeQuizAnswer, guessPartOfSpeech, pickDistractors } from '../quiz'
+import { Card } from '../../types/card'
+import { createTestCard } from '../../test/cards'
+
+describe('quiz', () => {
+  const createCard = (id: string, word: string, translation: string, overrides: Partial<Card> = {}): Card =>
+    createTestCard(id, { word, translation, ...overrides })
+
+  describe('guessPartOfSpeech', () => {
+    it('should recognize infinitives and common suffixes', () => {
+      expect(guessPartOfSpeech('to run')).toBe('verb')
+      expect(guessPartOfSpeech('quickly')).toBe('adverb')
+      expect(guessPartOfSpeech('happiness')).toBe('noun')
+      expect(guessPartOfSpeech('beautiful')).toBe('adjective')
+      expect(guessPartOfSpeech('cat')).toBe('unknown')
+    })
+  })
+
+  describe('pickDistractors', () => {
+    it('should only draw from the same deck when it has enough cards', () => {
+      const card = createCard('1', 'cat', 'gato')
+      const cards = [
+        card,
+        createCard('2', 'dog', 'perro'),
+        createCard('3', 'bird', 'pájaro'),
+        createCard('4', 'fish', 'pez'),
+        createCard('5', 'house', 'casa', { deckId: 'other' })
+      ]
+
+      expect(pickDistractors(card, cards).sort()).toEqual(['perro', 'pez', 'pájaro'])
+    })
+
+    it('should fall back to other decks when the deck is too small', () => {
+      const card = createCard('1', 'cat', 'gato')
+      const cards = [card, createCard('2', 'dog', 'perro'), createCard('3', 'house', 'casa', { deckId: 'other' })]
+
+      expect(pickDistractors(card, cards)).toEqual(['perro', 'casa'])
+    })
+
+    it('should prefer the same part of speech, then a similar length', () => {
+      const card = createCard('1', 'to run', 'correr')
+      const cards = [
+        card,
+        createCard('2', 'to eat', 'comer'),
+        createCard('3', 'to sleep', 'dormir'),
+        createCard('4', 'table', 'mesa'),
+        createCard('5', 'window', 'ventana'),
+        createCard('6', 'refrigerator', 'refrigerador')
+      ]
+
+      expect(pickDistractors(card, cards).slice(0, 2).sort()).toEqual(['comer', 'dormir'])
+      expect(pickDistractors(card, cards)[2]).toBe('ventana')
+    })
+
+    it('should prefer cards sharing a tag', () => {
+      const card = createCard('1', 'give up', 'rendirse', { tags: ['phrasal verbs'] })
+      const cards = [
+        card,
+        createCard('2', 'table', 'mesa'),
+        createCard('3', 'look after', 'cuidar', { tags: ['Phrasal Verbs'] }),
+        createCard('4', 'window', 'ventana'),
+        createCard('5', 'chair', 'silla')
+      ]
+
+      expect(pickDistractors(card, cards)[0]).toBe('cuidar')
+    })
+
+    it('should skip duplicates of the answer and of each other', () => {
+      const card = createCard('1', 'hi', 'hola')
+      const cards = [card, createCard('2', 'hello', 'Hola'), createCard('3', 'bye', 'adiós'), createCard('4', 'goodbye', 'adiós')]
+
+      expect(pickDistractors(card, cards)).toEqual(['adiós'])
+    })
+  })
+
+  describe('buildQuizOptions', () => {
+    it('should include the correct answer among four options', () => {
+      const card = createCard('1', 'cat', 'gato')
+      const cards = [card, createCard('2', 'dog', 'perro'), createCard('3', 'bird', 'pájaro'), createCard('4', 'fish', 'pez')]
+
+      const options = buildQuizOptions(card, cards)
+      expect(options).toHaveLength(4)
+      expect(options).toContain('gato')
+    })
+
+    it('should offer words instead of translations in reverse', () => {
+      const card = createCard('1', 'cat', 'gato')
+      const cards = [card, createCard('2', 'dog', 'perro')]
+
+      expect(buildQuizOptions(card, cards, { reverse: true }).sort()).toEqual(['cat', 'dog'])
+    })
+  })
+
+  describe('gradeQuizAnswer', () => {
+    it('should record correct answers as good and wrong ones as again', () => {
+      expect(gradeQuizAnswer(true)).toBe('good')
+      expect(gradeQuizAnswer(false)).toBe('again')
+    })
+  })
+})
@@ -0,0 +1,205 @@
+import {
+  addDays,
+  applyGrade,
+  applyReview,
+  calculateNextSchedule,
+  createInitialSchedule,
+  DEFAULT_EASE_FACTOR,
+  EASY_FIRST_INTERVAL,
+  formatInterval,
+  isCardDue,
+  migrateCardSchedule,
+  MIGRATED_KNOWN_INTERVAL,
+  MIN_EASE_FACTOR,
+  previewIntervals,
+  resetSchedule
+} from '../scheduler'
+import { Card } from '../../types/card'
+
+describe('scheduler', () => {
+  const now = new Date('2024-03-01T12:00:00.000Z')
+
+  const newCard: Card = {
+    id: 'card-1',
+    word: 'apple',
+    translation: 'яблуко',
+    isKnown: false,
+    createdAt: new Date('2024-02-01T00:00:00.000Z'),
+    examples: [],
+    deckId: 'default',
+    tags: [],
+    ...createInitialSchedule(new Date('2024-02-01T00:00:00.000Z'))
+  }
+
+  describe('createInitialSchedule', () => {
+    it('should create a schedule that is due immediately', () => {
+      const schedule = createInitialSchedule(now)
+
+      expect(schedule).toEqual({
+        easeFactor: DEFAULT_EASE_FACTOR,
+        interval: 0,
+        repetitions: 0,
+        dueAt: now
+      })
+    })
+  })
+
+  describe('calculateNextSchedule', () => {
+    it('should follow the SM-2 interval progression for successful reviews', () => {
+      const first = calculateNextSchedule(createInitialSchedule(now), 4, now)
+      expect(first.interval).toBe(1)
+      expect(first.repetitions).toBe(1)
+      expect(first.dueAt).toEqual(addDays(now, 1))
+
+      const second = calculateNextSchedule(first, 4, now)
+      expect(second.interval).toBe(6)
+      expect(second.repetitions).toBe(2)
+
+      const third = calculateNextSchedule(second, 4, now)
+      expect(third.interval).toBe(Math.round(6 * second.easeFactor))
+      expect(third.repetitions).toBe(3)
+    })
+
+    it('should adjust the ease factor based on quality', () => {
+      const schedule = createInitialSchedule(now)
+
+      expect(calculateNextSchedule(schedule, 5, now).easeFactor).toBeCloseTo(2.6)
+      expect(calculateNextSchedule(schedule, 4, now).easeFactor).toBeCloseTo(2.5)
+      expect(calculateNextSchedule(schedule, 3, now).easeFactor).toBeCloseTo(2.36)
+    })
+
+    it('should never drop the ease factor below the minimum', () => {
+      let schedule = createInitialSchedule(now)
+      for (let i = 0; i < 10; i++) {
+        schedule = calculateNextSchedule(schedule, 0, now)
+      }
+
+      expect(schedule.easeFactor).toBe(MIN_EASE_FACTOR)
+    })
+
+    it('should restart repetitions and make the card due again on failed recall', () => {
+      const learned = { easeFactor: 2.5, interval: 15, repetitions: 3, dueAt: now }
+      const result = calculateNextSchedule(learned, 1, now)
+
+      expect(result.repetitions).toBe(0)
+      expect(result.interval).toBe(0)
+      expect(result.dueAt).toEqual(now)
+    })
+  })
+
+  describe('applyReview', () => {
+    it('should update scheduling state, known flag and review date', () => {
+      const reviewed = applyReview(newCard, 5, now)
+
+      expect(reviewed.isKnown).toBe(true)
+      expect(reviewed.lastReviewed).toEqual(now)
+      expect(reviewed.repetitions).toBe(1)
+      expect(reviewed.dueAt).toEqual(addDays(now, EASY_FIRST_INTERVAL))
+    })
+
+    it('should mark the card as unknown on failed recall', () => {
+      const reviewed = applyReview({ ...newCard, isKnown: true }, 1, now)
+
+      expect(reviewed.isKnown).toBe(false)
+      expect(isCardDue(reviewed, now)).toBe(true)
+    })
+  })
+
+  describe('applyGrade', () => {
+    it('should map grades to SM-2 quality', () => {
+      expect(applyGrade(newCard, 'again', now).isKnown).toBe(false)
+      expect(applyGrade(newCard, 'hard', now).isKnown).toBe(true)
+      expect(applyGrade(newCard, 'good', now).easeFactor).toBeCloseTo(DEFAULT_EASE_FACTOR)
+      expect(applyGrade(newCard, 'easy', now).easeFactor).toBeCloseTo(2.6)
+    })
+  })
+
+  describe('previewIntervals', () => {
+    it('should preview a distinct interval for each grade on a learned card', () => {
+      const learned = { easeFactor: 2.5, interval: 6, repetitions: 2, dueAt: now }
+
+      expect(previewIntervals(learned, now)).toEqual({
+        again: 0,
+        hard: 12,
+        good: 15,
+        easy: 20
+      })
+    })
+
+    it('should preview short intervals for a new card', () => {
+      expect(previewIntervals(createInitialSchedule(now), now)).toEqual({
+        again: 0,
+        hard: 1,
+        good: 1,
+        easy: EASY_FIRST_INTERVAL
+      })
+    })
+  })
+
+  describe('formatInterval', () => {
+    it('should format intervals as short labels', () => {
+      expect(formatInterval(0)).toBe('now')
+      expect(formatInterval(6)).toBe('6d')
+      expect(formatInterval(60)).toBe('2mo')
+      expect(formatInterval(548)).toBe('1.5y')
+    })
+  })
+
+  describe('resetSchedule', () => {
+    it('should return the card to its initial state', () => {
+      const reviewed = applyReview(applyReview(newCard, 5, now), 5, now)
+      const reset = resetSchedule(reviewed, now)
+
+      expect(reset.isKnown).toBe(false)
+      expect(reset.repetitions).toBe(0)
+      expect(reset.interval).toBe(0)
+      expect(reset.easeFactor).toBe(DEFAULT_EASE_FACTOR)
+      expect(isCardDue(reset, now)).toBe(true)
+    })
+  })
+
+  describe('migrateCardSchedule', () => {
+    const legacyCard = {
+      id: 'legacy',
+      deckId: 'default',
+      tags: [],
+      word: 'pear',
+      translation: 'груша',
+      isKnown: false,
+      createdAt: new Date('2024-01-01T00:00:00.000Z'),
+      examples: []
+    }
+
+    it('should make unknown legacy cards due immediately', () => {
+      const migrated = migrateCardSchedule(legacyCard)
+
+      expect(migrated.repetitions).toBe(0)
+      expect(migrated.interval).toBe(0)
+      expect(migrated.dueAt).toEqual(legacyCard.createdAt)
+    })
+
+    it('should give known legacy cards an interval counted from their last review', () => {
+      const lastReviewed = new Date('2024-02-10T00:00:00.000Z')
+      const migrated = migrateCardSchedule({ ...legacyCard, isKnown: true, lastReviewed })
+
+      expect(migrated.interval).toBe(MIGRATED_KNOWN_INTERVAL)
+      expect(migrated.repetitions).toBe(2)
+      expect(migrated.dueAt).toEqual(addDays(lastReviewed, MIGRATED_KNOWN_INTERVAL))
+    })
+
+    it('should keep existing scheduling state and restore dueAt as a Date', () => {
+      const migrated = migrateCardSchedule({
+        ...legacyCard,
+        easeFactor: 2.2,
+        interval: 12,
+        repetitions: 4,
+        dueAt: '2024-03-10T00:00:00.000Z' as any
+      })
+
+      expect(migrated.easeFactor).toBe(2.2)
+      expect(migrated.interval).toBe(12)
+      expect(migrated.repetitions).toBe(4)
+      expect(migrated.dueAt).toEqual(new Date('2024-03-10T00:00:00.000Z'))
+    })
+  })
+})
@@ -23,12 +23,22 @@ describe('settingsStorage', () => {
   const defaultSettings: AppSettings = {
     selectedProvider: 'localhost',
     showTranslationFirst: false,
+    newCardsPerDay: 20,
+    studyMode: 'flashcard',
+    maxAnswerDistance: 1,
+    wordListSort: { field: 'createdAt', direction: 'asc' },
+    trashRetentionDays: 30,
     providers: {
       localhost: {
         name: 'localhost',
         displayName: 'Local Storage',
         isDefault: true
       },
+      indexeddb: {
+        name: 'indexeddb',
+        displayName: 'IndexedDB',
+        isDefault: false
+      },
       mongodb: {
         name: 'mongodb',
         displayName: 'MongoDB',
@@ -61,12 +71,22 @@ describe('settingsStorage', () => {
       const storedSettings: AppSettings = {
         selectedProvider: 'mongodb',
         showTranslationFirst: true,
+        newCardsPerDay: 20,
+        studyMode: 'flashcard',
+        maxAnswerDistance: 1,
+        wordListSort: { field: 'createdAt', direction: 'asc' },
+        trashRetentionDays: 30,
         providers: {
           localhost: {
             name: 'localhost',
             displayName: 'Local Storage',
             isDefault: true
           },
+          indexeddb: {
+            name: 'indexeddb',
+            displayName: 'IndexedDB',
+            isDefault: false
+          },
           mongodb: {
             name: 'mongodb',
             displayName: 'MongoDB',
@@ -143,12 +163,22 @@ describe('settingsStorage', () => {
       const validSettings: AppSettings = {
         selectedProvider: 'mongodb',
         showTranslationFirst: false,
+        newCardsPerDay: 20,
+        studyMode: 'flashcard',
+        maxAnswerDistance: 1,
+        wordListSort: { field: 'createdAt', direction: 'asc' },
+        trashRetentionDays: 30,
         providers: {
           localhost: {
             name: 'localhost',
             displayName: 'Local Storage',
             isDefault: true
           },
+          indexeddb: {
+            name: 'indexeddb',
+            displayName: 'IndexedDB',
+            isDefault: false
+          },
           mongodb: {
             name: 'mongodb',
             displayName: 'MongoDB',
@@ -175,12 +205,22 @@ describe('settingsStorage', () => {
       const invalidSettings: AppSettings = {
         selectedProvider: 'mongodb',
         showTranslationFirst: false,
+        newCardsPerDay: 20,
+        studyMode: 'flashcard',
+        maxAnswerDistance: 1,
+        wordListSort: { field: 'createdAt', direction: 'asc' },
+        trashRetentionDays: 30,
         providers: {
           localhost: {
             name: 'localhost',
             displayName: 'Local Storage',
             isDefault: true
           },
+          indexeddb: {
+            name: 'indexeddb',
+            displayName: 'IndexedDB',
+            isDefault: false
+          },
           mongodb: {
             name: 'mongodb',
             displayName: 'MongoDB',
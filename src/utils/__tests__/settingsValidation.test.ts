@@ -160,12 +160,22 @@ describe('settingsValidation', () => {
     const validSettings: AppSettings = {
       selectedProvider: 'localhost',
       showTranslationFirst: false,
+      newCardsPerDay: 20,
+      studyMode: 'flashcard',
+      maxAnswerDistance: 1,
+      wordListSort: { field: 'createdAt', direction: 'asc' },
+      trashRetentionDays: 30,
       providers: {
         localhost: {
           name: 'localhost',
           displayName: 'Local Storage',
           isDefault: true
         },
+        indexeddb: {
+          name: 'indexeddb',
+          displayName: 'IndexedDB',
+          isDefault: false
+        },
         mongodb: {
           name: 'mongodb',
           displayName: 'MongoDB',
@@ -185,6 +195,12 @@ describe('settingsValidation', () => {
       expect(result.errors).toHaveLength(0)
     })
 
+    it('should validate indexeddb provider', () => {
+      const result = validateProviderConfiguration('indexeddb', validSettings)
+      expect(result.isValid).toBe(true)
+      expect(result.errors).toHaveLength(0)
+    })
+
     it('should validate mongodb provider with valid config', () => {
       const result = validateProviderConfiguration('mongodb', validSettings)
       expect(result.isValid).toBe(true)
@@ -217,12 +233,22 @@ describe('settingsValidation', () => {
     const validSettings: AppSettings = {
       selectedProvider: 'localhost',
       showTranslationFirst: false,
+      newCardsPerDay: 20,
+      studyMode: 'flashcard',
+      maxAnswerDistance: 1,
+      wordListSort: { field: 'createdAt', direction: 'asc' },
+      trashRetentionDays: 30,
       providers: {
         localhost: {
           name: 'localhost',
           displayName: 'Local Storage',
           isDefault: true
         },
+        indexeddb: {
+          name: 'indexeddb',
+          displayName: 'IndexedDB',
+          isDefault: false
+        },
         mongodb: {
           name: 'mongodb',
           displayName: 'MongoDB',
@@ -270,5 +296,22 @@ describe('settingsValidation', () => {
       expect(result.isValid).toBe(false)
       expect(result.errors.length).toBeGreaterThan(0)
     })
+
+    it('should reject an unknown word list sort', () => {
+      const result = validateAppSettings({
+        ...validSettings,
+        wordListSort: { field: 'example', direction: 'asc' } as any
+      })
+
+      expect(result.isValid).toBe(false)
+      expect(result.errors).toContain('Word list sort must name a card field and a direction')
+    })
+
+    it('should reject a trash retention shorter than a day', () => {
+      const result = validateAppSettings({ ...validSettings, trashRetentionDays: 0 })
+
+      expect(result.isValid).toBe(false)
+      expect(result.errors).toContain('Trash retention must be a whole number of days, at least one')
+    })
   })
 })
\ No newline at end of file
@@ -0,0 +1,73 @@
+import { areWordsSimilar, createSimilarCardFinder, findDuplicateClusters, findSimilarCards, normalizeWord } from '../similarity'
+import { Card } from '../../types/card'
+import { createTestCard } from '../../test/cards'
+
+describe('similarity', () => {
+  const createCard = (word: string, overrides: Partial<Card> = {}): Card =>
+    createTestCard(`card-${word}`, { word, ...overrides })
+
+  describe('normalizeWord', () => {
+    it('should fold case, accents, punctuation, articles and whitespace', () => {
+      expect(normalizeWord('  The Café-au-lait! ')).toBe('cafe au lait')
+      expect(normalizeWord('naïve')).toBe('naive')
+    })
+
+    it('should keep words made only of articles', () => {
+      expect(normalizeWord('The')).toBe('the')
+    })
+  })
+
+  describe('areWordsSimilar', () => {
+    it('should match spelling variants and articles', () => {
+      expect(areWordsSimilar('colour', 'color')).toBe(true)
+      expect(areWordsSimilar('the cat', 'cat ')).toBe(true)
+      expect(areWordsSimilar('accommodation', 'acomodation')).toBe(true)
+    })
+
+    it('should not match short words that differ by a letter', () => {
+      expect(areWordsSimilar('cat', 'car')).toBe(false)
+      expect(areWordsSimilar('colour', 'flavour')).toBe(false)
+    })
+  })
+
+  it('should find similar cards, closest first', () => {
+    const cards = [createCard('colors'), createCard('Colour'), createCard('dog')]
+
+    expect(findSimilarCards('colour', cards).map(match => [match.card.word, match.distance])).toEqual([['Colour', 0]])
+    expect(findSimilarCards('color', cards).map(match => match.card.word)).toEqual(['colors', 'Colour'])
+    expect(findSimilarCards('  ', cards)).toEqual([])
+  })
+
+  it('should look up many words after normalizing the cards once', () => {
+    const cards = [createCard('Colour'), createCard('dog')]
+    const findSimilar = createSimilarCardFinder(cards)
+    cards[0].word = 'changed' // the words are read when the finder is created
+
+    expect(findSimilar('color').map(match => match.card.id)).toEqual(['card-Colour'])
+    expect(findSimilar('The dog').map(match => match.card.id)).toEqual(['card-dog'])
+    expect(findSimilar('cat')).toEqual([])
+  })
+
+  it('should group similar words of the same deck', () => {
+    const cards = [
+      createCard('color'),
+      createCard('dog'),
+      createCard('colour'),
+      createCard('the colours'),
+      createCard('colour', { id: 'other-deck-colour', deckId: 'other' }),
+      createCard('dogs'),
+    ]
+
+    expect(findDuplicateClusters(cards).map(cluster => cluster.map(card => card.id))).toEqual([
+      ['card-color', 'card-colour']
+    ])
+  })
+
+  it('should not chain small differences into one group', () => {
+    const cards = ['bake', 'baker', 'bakers', 'bakery'].map(word => createCard(word))
+
+    expect(findDuplicateClusters(cards).map(cluster => cluster.map(card => card.word))).toEqual([
+      ['baker', 'bakers', 'bakery']
+    ])
+  })
+})
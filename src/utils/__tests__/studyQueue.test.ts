@@ -0,0 +1,160 @@
+import { buildStudyQueue, getStudyQueueCounts, isNewCard, mergeStudyQueue } from '../studyQueue'
+import { addDays, applyGrade } from '../scheduler'
+import { Card } from '../../types/card'
+import { createTestCard } from '../../test/cards'
+
+describe('studyQueue', () => {
+  const now = new Date(2024, 2, 10, 12, 0, 0)
+
+  const reviewedCard = (id: string, dueAt: Date): Card => ({
+    ...createTestCard(id),
+    isKnown: true,
+    lastReviewed: addDays(dueAt, -1),
+    repetitions: 1,
+    interval: 1,
+    dueAt
+  })
+
+  describe('isNewCard', () => {
+    it('should only treat never-reviewed cards as new', () => {
+      const card = createTestCard('new')
+
+      expect(isNewCard(card)).toBe(true)
+      expect(isNewCard(applyGrade(card, 'good', now))).toBe(false)
+      expect(isNewCard(applyGrade(card, 'again', now))).toBe(false)
+    })
+  })
+
+  describe('buildStudyQueue', () => {
+    it('should exclude cards that are not due yet', () => {
+      const queue = buildStudyQueue(
+        [reviewedCard('future', addDays(now, 2)), reviewedCard('due', addDays(now, -0.1))],
+        { newCardsPerDay: 0, now }
+      )
+
+      expect(queue.map(card => card.id)).toEqual(['due'])
+    })
+
+    it('should put overdue cards first, most overdue first', () => {
+      const queue = buildStudyQueue(
+        [
+          reviewedCard('today', new Date(2024, 2, 10, 8)),
+          reviewedCard('yesterday', new Date(2024, 2, 9, 8)),
+          reviewedCard('last-week', new Date(2024, 2, 3, 8))
+        ],
+        { newCardsPerDay: 0, now }
+      )
+
+      expect(queue.map(card => card.id)).toEqual(['last-week', 'yesterday', 'today'])
+    })
+
+    it('should limit new cards to the daily amount, oldest first', () => {
+      const cards = [
+        createTestCard('new-3', { createdAt: new Date(2024, 0, 3) }),
+        createTestCard('new-1', { createdAt: new Date(2024, 0, 1) }),
+        createTestCard('new-2', { createdAt: new Date(2024, 0, 2) })
+      ]
+
+      const queue = buildStudyQueue(cards, { newCardsPerDay: 2, now })
+
+      expect(queue.map(card => card.id)).toEqual(['new-1', 'new-2'])
+    })
+
+    it('should keep to the daily amount when the queue is rebuilt on the same day', () => {
+      const cards = ['new-1', 'new-2', 'new-3', 'new-4'].map((id, index) =>
+        createTestCard(id, { createdAt: new Date(2024, 0, index + 1) }))
+
+      const firstQueue = buildStudyQueue(cards, { newCardsPerDay: 2, now })
+      expect(firstQueue.map(card => card.id)).toEqual(['new-1', 'new-2'])
+
+      // new-1 is studied, then the queue is rebuilt later that day
+      const studied = cards.map(card => card.id === 'new-1' ? applyGrade(card, 'good', now) : card)
+      const reviewLogs = [{
+        id: 'review-1',
+        cardId: 'new-1',
+        reviewedAt: now,
+        grade: 'good' as const,
+        responseTimeMs: 1000,
+        previousInterval: 0,
+        nextInterval: 1,
+        studyMode: 'flashcard' as const
+      }]
+      const later = new Date(2024, 2, 10, 18)
+
+      expect(buildStudyQueue(studied, { newCardsPerDay: 2, now: later, reviewLogs }).map(card => card.id)).toEqual(['new-2'])
+      expect(buildStudyQueue(studied, { newCardsPerDay: 2, now: addDays(now, 1), reviewLogs }).map(card => card.id))
+        .toEqual(['new-1', 'new-2', 'new-3'])
+    })
+
+    it('should count cards added and studied today when there is no review history', () => {
+      const addedToday = applyGrade(createTestCard('added-today', { createdAt: new Date(2024, 2, 10, 9) }), 'again', now)
+      const cards = [addedToday, createTestCard('new-1'), createTestCard('new-2', { createdAt: new Date(2024, 0, 2) })]
+
+      expect(buildStudyQueue(cards, { newCardsPerDay: 2, now }).map(card => card.id)).toContain('new-1')
+      expect(buildStudyQueue(cards, { newCardsPerDay: 2, now }).map(card => card.id)).not.toContain('new-2')
+    })
+
+    it('should not count cards first studied on an earlier day against today', () => {
+      const relearned = applyGrade(reviewedCard('old', addDays(now, 1)), 'again', now)
+      const reviewLogs = [{
+        id: 'review-1',
+        cardId: 'old',
+        reviewedAt: addDays(now, -5),
+        grade: 'good' as const,
+        responseTimeMs: 1000,
+        previousInterval: 0,
+        nextInterval: 1,
+        studyMode: 'flashcard' as const
+      }]
+
+      const queue = buildStudyQueue([relearned, createTestCard('new-1')], { newCardsPerDay: 1, now, reviewLogs })
+
+      expect(queue.map(card => card.id)).toContain('new-1')
+      expect(buildStudyQueue([relearned, createTestCard('new-1')], { newCardsPerDay: 1, now }).map(card => card.id))
+        .toContain('new-1')
+    })
+
+    it('should mix new cards between reviews due today', () => {
+      const cards = [
+        reviewedCard('review-1', new Date(2024, 2, 10, 1)),
+        reviewedCard('review-2', new Date(2024, 2, 10, 2)),
+        reviewedCard('review-3', new Date(2024, 2, 10, 3)),
+        reviewedCard('review-4', new Date(2024, 2, 10, 4)),
+        createTestCard('new-1', { createdAt: new Date(2024, 0, 1) }),
+        createTestCard('new-2', { createdAt: new Date(2024, 0, 2) })
+      ]
+
+      const queue = buildStudyQueue(cards, { newCardsPerDay: 10, now })
+
+      expect(queue.map(card => card.id)).toEqual([
+        'review-1', 'review-2', 'new-1', 'review-3', 'review-4', 'new-2'
+      ])
+    })
+  })
+
+  describe('getStudyQueueCounts', () => {
+    it('should count due reviews and new cards separately', () => {
+      const cards = [
+        reviewedCard('due', addDays(now, -1)),
+        reviewedCard('future', addDays(now, 3)),
+        createTestCard('new-1'),
+        createTestCard('new-2'),
+        createTestCard('new-3')
+      ]
+
+      expect(getStudyQueueCounts(cards, { newCardsPerDay: 2, now })).toEqual({ due: 1, new: 2 })
+    })
+  })
+
+  describe('mergeStudyQueue', () => {
+    it('should update queued cards and drop deleted ones without reordering', () => {
+      const queue = [createTestCard('c'), createTestCard('a'), createTestCard('b')]
+      const cards = [createTestCard('a', { translation: 'changed' }), createTestCard('c'), createTestCard('d')]
+
+      const merged = mergeStudyQueue(queue, cards)
+
+      expect(merged.map(card => card.id)).toEqual(['c', 'a'])
+      expect(merged[1].translation).toBe('changed')
+    })
+  })
+})
@@ -0,0 +1,75 @@
+import { isSameCard, isSameDeck, mergeCards, stampCardChanges } from '../sync'
+import { Card } from '../../types/card'
+import { createDefaultDeck } from '../decks'
+import { createTestCard } from '../../test/cards'
+
+describe('sync', () => {
+  const createCard = (overrides: Partial<Card> = {}): Card =>
+    createTestCard('1', { word: 'hello', translation: 'hola', ...overrides })
+
+  describe('stampCardChanges', () => {
+    it('should stamp every field of a new card', () => {
+      const stamped = stampCardChanges(undefined, createCard(), 100)
+
+      expect(stamped.fieldUpdatedAt).toEqual(expect.objectContaining({ word: 100, translation: 100, dueAt: 100 }))
+      expect(stamped.fieldUpdatedAt).not.toHaveProperty('id')
+    })
+
+    it('should stamp only the changed fields', () => {
+      const previous = stampCardChanges(undefined, createCard(), 100)
+
+      const stamped = stampCardChanges(previous, { ...previous, translation: 'buenos días', tags: ['greeting'] }, 200)
+
+      expect(stamped.fieldUpdatedAt).toEqual(expect.objectContaining({ word: 100, translation: 200, tags: 200 }))
+    })
+
+    it('should move a field stamp forward when edited within the same millisecond', () => {
+      const previous = stampCardChanges(undefined, createCard(), 100)
+
+      const stamped = stampCardChanges(previous, { ...previous, translation: 'buenos días' }, 100)
+      const remote = { ...previous, fieldUpdatedAt: { ...previous.fieldUpdatedAt } }
+
+      expect(stamped.fieldUpdatedAt).toEqual(expect.objectContaining({ word: 100, translation: 101 }))
+      expect(mergeCards(stamped, remote).translation).toBe('buenos días')
+    })
+  })
+
+  describe('mergeCards', () => {
+    it('should keep the most recent change of every field', () => {
+      const local = createCard({ translation: 'hola', tags: ['old'], fieldUpdatedAt: { translation: 300, tags: 100 } })
+      const remote = createCard({ translation: 'ola', tags: ['new'], fieldUpdatedAt: { translation: 200, tags: 200 } })
+
+      const merged = mergeCards(local, remote)
+
+      expect(merged.translation).toBe('hola')
+      expect(merged.tags).toEqual(['new'])
+      expect(merged.fieldUpdatedAt).toEqual({ translation: 300, tags: 200 })
+    })
+
+    it('should keep the remote value on ties and unstamped fields', () => {
+      const merged = mergeCards(createCard({ word: 'local' }), createCard({ word: 'remote' }))
+
+      expect(merged.word).toBe('remote')
+    })
+  })
+
+  describe('isSameCard', () => {
+    it('should ignore the order of the fields', () => {
+      const card = createCard({ fieldUpdatedAt: { word: 1, tags: 2 } })
+      const reordered = { ...createCard(), fieldUpdatedAt: { tags: 2, word: 1 }, id: '1' }
+
+      expect(isSameCard(card, reordered)).toBe(true)
+      expect(isSameCard(card, { ...card, fieldUpdatedAt: { word: 1, tags: 3 } })).toBe(false)
+      expect(isSameCard(card, { ...card, translation: 'ola' })).toBe(false)
+    })
+  })
+
+  describe('isSameDeck', () => {
+    it('should compare decks by their data', () => {
+      const deck = createDefaultDeck()
+
+      expect(isSameDeck(deck, { ...deck, createdAt: new Date(deck.createdAt.getTime()) })).toBe(true)
+      expect(isSameDeck(deck, { ...deck, name: 'Renamed' })).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,45 @@
+import { filterCardsByTags, getAllTags, migrateCardTags, normalizeTags } from '../tags'
+import { Card } from '../../types/card'
+import { createTestCard } from '../../test/cards'
+
+describe('tags', () => {
+  const createCard = (id: string, tags: string[]): Card => createTestCard(id, { tags })
+
+  const cards = [
+    createCard('give up', ['phrasal verbs']),
+    createCard('server', ['IT']),
+    createCard('airport', ['travel', 'nouns']),
+    createCard('hello', [])
+  ]
+
+  describe('normalizeTags', () => {
+    it('should trim tags and drop empty and duplicate ones', () => {
+      expect(normalizeTags([' travel ', '', 'IT', 'Travel', 'it'])).toEqual(['travel', 'IT'])
+    })
+  })
+
+  describe('migrateCardTags', () => {
+    it('should give cards without tags an empty list', () => {
+      const { tags, ...legacyCard } = createCard('legacy', ['IT'])
+
+      expect(migrateCardTags<Partial<Card>>(legacyCard).tags).toEqual([])
+      expect(migrateCardTags(createCard('tagged', ['IT'])).tags).toEqual(['IT'])
+    })
+  })
+
+  describe('getAllTags', () => {
+    it('should collect distinct tags in alphabetical order', () => {
+      expect(getAllTags(cards)).toEqual(['IT', 'nouns', 'phrasal verbs', 'travel'])
+    })
+  })
+
+  describe('filterCardsByTags', () => {
+    it('should keep cards with any of the tags, ignoring case', () => {
+      expect(filterCardsByTags(cards, ['it', 'travel']).map(card => card.id)).toEqual(['server', 'airport'])
+    })
+
+    it('should return every card when no tags are selected', () => {
+      expect(filterCardsByTags(cards, [])).toHaveLength(4)
+    })
+  })
+})
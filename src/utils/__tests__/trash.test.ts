@@ -0,0 +1,25 @@
+import { filterActiveCards, getExpiredTrashCards, getTrashedCards, getTrashPurgeDate } from '../trash'
+import { Card } from '../../types/card'
+import { createTestCard } from '../../test/cards'
+
+describe('trash', () => {
+  const createCard = (id: string, deletedAt?: Date): Card => createTestCard(id, { deletedAt })
+
+  const cards = [
+    createCard('active'),
+    createCard('old', new Date(2024, 0, 1)),
+    createCard('recent', new Date(2024, 0, 25))
+  ]
+
+  it('should separate the trashed cards, most recently deleted first', () => {
+    expect(filterActiveCards(cards).map(card => card.id)).toEqual(['active'])
+    expect(getTrashedCards(cards).map(card => card.id)).toEqual(['recent', 'old'])
+  })
+
+  it('should purge the cards kept longer than the retention period', () => {
+    expect(getTrashPurgeDate(cards[1], 30)).toEqual(new Date(2024, 0, 31))
+    expect(getTrashPurgeDate(cards[0], 30)).toBeNull()
+    expect(getExpiredTrashCards(cards, 30, new Date(2024, 1, 1)).map(card => card.id)).toEqual(['old'])
+    expect(getExpiredTrashCards(cards, 7, new Date(2024, 1, 1)).map(card => card.id)).toEqual(['old', 'recent'])
+  })
+})
@@ -0,0 +1,75 @@
+import { detectImportFormat, findWordListSeparator, parseWordList } from '../wordListImport'
+
+describe('wordListImport', () => {
+  describe('findWordListSeparator', () => {
+    it('should pick the first separator on the line', () => {
+      expect(findWordListSeparator('time: 10 = ten')).toEqual({ index: 4, separator: ':' })
+      expect(findWordListSeparator('apple — яблоко: фрукт')).toEqual({ index: 6, separator: '—' })
+    })
+
+    it('should not split hyphenated words', () => {
+      expect(findWordListSeparator('well-known')).toBeNull()
+      expect(findWordListSeparator('well-known - известный')).toEqual({ index: 10, separator: ' - ' })
+    })
+  })
+
+  describe('parseWordList', () => {
+    it('should detect the separator of each line', () => {
+      const { cards } = parseWordList('apple - яблоко\npear: груша\nplum — слива\ncherry = вишня\nlime–лайм')
+
+      expect(cards.map(card => [card.word, card.translation])).toEqual([
+        ['apple', 'яблоко'],
+        ['pear', 'груша'],
+        ['plum', 'слива'],
+        ['cherry', 'вишня'],
+        ['lime', 'лайм'],
+      ])
+    })
+
+    it('should read several translations separated by commas', () => {
+      const { cards } = parseWordList('run - бежать,  бегать , ')
+
+      expect(cards[0].translation).toBe('бежать, бегать')
+    })
+
+    it('should attach example lines to the word above them', () => {
+      const { cards, lines } = parseWordList('apple - яблоко\n> I ate an apple.\n>An apple a day\n\npear - груша')
+
+      expect(cards[0].examples!.map(example => example.text)).toEqual(['I ate an apple.', 'An apple a day'])
+      expect(cards[1].examples).toEqual([])
+      expect(lines.map(line => line.kind)).toEqual(['word', 'example', 'example', 'word'])
+      expect(lines[3].line).toBe(5)
+    })
+
+    it('should report unreadable lines and keep reading the others', () => {
+      const { cards, lines } = parseWordList('> orphan example\napple\n - яблоко\npear -\nplum - слива\n> Ripe plums.')
+
+      expect(cards.map(card => card.word)).toEqual(['plum'])
+      expect(cards[0].examples!.map(example => example.text)).toEqual(['Ripe plums.'])
+      expect(lines.filter(line => line.kind === 'error').map(line => [line.line, line.error])).toEqual([
+        [1, 'Example without a word above it'],
+        [2, 'No separator found, use -, —, : or ='],
+        [3, 'Word is missing'],
+        [4, 'Translation is missing'],
+      ])
+    })
+
+    it('should not attach examples to a word that could not be read', () => {
+      const { cards, lines } = parseWordList('apple - яблоко\nbroken line\n> An example')
+
+      expect(cards[0].examples).toEqual([])
+      expect(lines[2].error).toBe('Example without a word above it')
+    })
+  })
+
+  describe('detectImportFormat', () => {
+    it('should recognise JSON, Anki notes, spreadsheets and word lists', () => {
+      expect(detectImportFormat('{ "hello": "hola" }')).toBe('json')
+      expect(detectImportFormat('hello\thola')).toBe('spreadsheet')
+      expect(detectImportFormat('word,translation\nhello,hola')).toBe('spreadsheet')
+      expect(detectImportFormat('hello - hola\nbye: adiós\nbroken')).toBe('wordList')
+      expect(detectImportFormat('hello\n> Hello there')).toBe('wordList')
+      expect(detectImportFormat('#separator:tab\n#html:true\nhello\thola')).toBe('anki')
+    })
+  })
+})
@@ -0,0 +1,206 @@
+import { Card, Example } from '../types/card'
+import { DelimitedImportCard, detectDelimiter, guessColumnMapping, ImportColumn, parseDelimitedText } from './delimitedImport'
+import { normalizeTags } from './tags'
+
+/**
+ * Names Anki uses for separators in the `#separator:` header
+ */
+const ANKI_SEPARATORS: Record<string, string> = {
+  tab: '\t',
+  comma: ',',
+  semicolon: ';',
+  space: ' ',
+  pipe: '|',
+  colon: ':',
+}
+
+const ANKI_COLUMNS = ['Word', 'Translation', 'Example', 'Example translation', 'Tags']
+
+// Columns holding the note's fields in our exports and in files without a `#columns:` header
+const FIELD_COLUMN_ORDER: ImportColumn[] = ['word', 'translation', 'example', 'exampleTranslation']
+
+/**
+ * Settings read from the `#key:value` lines at the top of an Anki file
+ */
+interface AnkiFileHeader {
+  separator?: string
+  html: boolean
+  columns?: string[]
+  tagsColumn?: number // 0-based
+  otherColumns: number[] // 0-based guid, notetype and deck columns
+}
+
+/**
+ * Cards read from an Anki file, with the number of notes that lack a word or translation
+ */
+export interface AnkiImportResult {
+  cards: DelimitedImportCard[]
+  invalid: number
+}
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/\r?\n/g, '<br>')
+
+// Anki quotes fields holding the separator, quotes or line breaks, doubling the quotes
+const quoteField = (field: string) => /[\t"\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field
+
+const HTML_ENTITIES: Record<string, string> = {
+  nbsp: ' ',
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+}
+
+/**
+ * Turns simple HTML into plain text: line breaks and block ends become new
+ * lines, other tags and Anki sound references are dropped and entities decoded
+ */
+export function stripHtml(html: string): string {
+  const text = html
+    .replace(/\[sound:[^\]]*\]/g, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(div|p|li|h[1-6])>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, name: string) => {
+      if (name[0] === '#') {
+        const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10)
+        return code <= 0x10ffff ? String.fromCodePoint(code) : entity
+      }
+      const decoded = HTML_ENTITIES[name.toLowerCase()]
+      return decoded === undefined ? entity : decoded
+    })
+
+  return text.split('\n').map(line => line.trim()).filter(line => line).join('\n')
+}
+
+/**
+ * Writes cards as Anki's tab-separated "Notes in Plain Text" with HTML fields.
+ * Several examples share a field, one per line; spaces in tags become
+ * underscores as Anki tags cannot hold spaces
+ */
+export function formatAnkiNotes(cards: Card[]): string {
+  const header = [
+    '#separator:tab',
+    '#html:true',
+    `#columns:${ANKI_COLUMNS.join('\t')}`,
+    `#tags column:${ANKI_COLUMNS.length}`,
+  ]
+
+  const notes = cards.map(card => {
+    const examples = card.examples.filter(example => example.text.trim())
+    return [
+      escapeHtml(card.word),
+      escapeHtml(card.translation),
+      examples.map(example => escapeHtml(example.text)).join('<br>'),
+      examples.map(example => escapeHtml(example.translation)).join('<br>'),
+      card.tags.map(tag => tag.trim().replace(/\s+/g, '_')).join(' '),
+    ].map(quoteField).join('\t')
+  })
+
+  return header.concat(notes).join('\n') + '\n'
+}
+
+/**
+ * Whether text starts with the `#key:value` header lines of an Anki export
+ */
+export function looksLikeAnkiNotes(text: string): boolean {
+  return /^#(separator|html|columns|tags column|notetype column|deck column|guid column):/i
+    .test(text.replace(/^\uFEFF/, '').trimStart())
+}
+
+const readHeader = (lines: string[]): { header: AnkiFileHeader, length: number } => {
+  const header: AnkiFileHeader = { html: true, otherColumns: [] }
+  let length = 0
+
+  for (const line of lines) {
+    const match = line.match(/^#([^:]+):(.*)$/)
+    if (!match) break
+    length++
+
+    const key = match[1].trim().toLowerCase()
+    const value = match[2].replace(/\r$/, '')
+    const column = parseInt(value, 10) - 1
+
+    if (key === 'separator') {
+      header.separator = ANKI_SEPARATORS[value.trim().toLowerCase()] || value
+    } else if (key === 'html') {
+      header.html = value.trim().toLowerCase() === 'true'
+    } else if (key === 'columns') {
+      header.columns = value.split(header.separator || '\t')
+    } else if (key === 'tags column' && column >= 0) {
+      header.tagsColumn = column
+    } else if ((key === 'guid column' || key === 'notetype column' || key === 'deck column') && column >= 0) {
+      header.otherColumns.push(column)
+    }
+  }
+
+  return { header, length }
+}
+
+// Field columns are named by `#columns:` when it names the word and translation, otherwise
+// they are taken in our export's order. The tags and other special columns are skipped
+const getColumnMapping = (header: AnkiFileHeader, width: number): ImportColumn[] => {
+  let named = header.columns ? guessColumnMapping([header.columns], true) : null
+  if (named && (named.indexOf('word') === -1 || named.indexOf('translation') === -1)) named = null
+  const mapping: ImportColumn[] = []
+  let fieldIndex = 0
+
+  for (let index = 0; index < width; index++) {
+    if (index === header.tagsColumn) {
+      mapping.push('tags')
+    } else if (header.otherColumns.indexOf(index) !== -1) {
+      mapping.push('ignore')
+    } else {
+      const column = named ? named[index] : FIELD_COLUMN_ORDER[fieldIndex]
+      mapping.push(column && column !== 'tags' ? column : 'ignore')
+      fieldIndex++
+    }
+  }
+
+  return mapping
+}
+
+/**
+ * Reads Anki's "Notes in Plain Text", honouring the `#separator:`, `#html:`,
+ * `#columns:` and column headers. Notes without a word or translation are counted
+ * as invalid and left out
+ */
+export function parseAnkiNotes(text: string): AnkiImportResult {
+  const lines = text.replace(/^\uFEFF/, '').split('\n')
+  const { header, length } = readHeader(lines)
+  const body = lines.slice(length).join('\n')
+  const rows = parseDelimitedText(body, header.separator || detectDelimiter(body))
+  const width = rows.reduce((max, row) => Math.max(max, row.length), 0)
+  const mapping = getColumnMapping(header, width)
+
+  const clean = (value: string) => header.html ? stripHtml(value) : value.trim()
+  const getLines = (values: string[], column: ImportColumn) => {
+    const index = mapping.indexOf(column)
+    return index === -1 ? [] : clean(values[index] || '').split('\n').filter(line => line.trim())
+  }
+
+  const cards: DelimitedImportCard[] = []
+  rows.forEach((values, rowIndex) => {
+    const word = getLines(values, 'word').join(' ')
+    const translation = getLines(values, 'translation').join(' ')
+    if (!word || !translation) return
+
+    const exampleTranslations = getLines(values, 'exampleTranslation')
+    const examples: Example[] = getLines(values, 'example').map((example, index) => ({
+      id: `example-${rowIndex + 1}-${index + 1}`,
+      text: example,
+      translation: exampleTranslations[index] || '',
+    }))
+    const tagsIndex = mapping.indexOf('tags')
+    const tags = tagsIndex === -1 ? [] : normalizeTags((values[tagsIndex] || '').split(/\s+/))
+
+    cards.push({ word, translation, examples, tags })
+  })
+
+  return { cards, invalid: rows.length - cards.length }
+}
@@ -0,0 +1,184 @@
+import { ReviewGrade } from '../types/review'
+
+/**
+ * Typing mistakes tolerated by default when checking typed answers
+ */
+export const DEFAULT_MAX_ANSWER_DISTANCE = 1
+
+const ARTICLES = new Set(['a', 'an', 'the'])
+const DASHES = /[-–—]/g
+const PUNCTUATION = /[!"#$%&'()*+,./:;<=>?@[\\\]^_`{|}~¿¡«»…“”‘’]/g
+
+/**
+ * How close a typed answer is to the expected one
+ */
+export type AnswerVerdict = 'exact' | 'close' | 'wrong'
+
+/**
+ * Part of a character-level diff between a typed and an expected answer
+ */
+export interface DiffSegment {
+  type: 'match' | 'extra' | 'missing' // extra = typed but not expected, missing = expected but not typed
+  text: string
+}
+
+export interface AnswerCheckResult {
+  verdict: AnswerVerdict
+  distance: number // edit distance to the closest accepted answer
+  expected: string // closest accepted answer, as written on the card
+  diff: DiffSegment[]
+}
+
+/**
+ * Normalizes an answer for comparison: lower case, without punctuation,
+ * articles and extra whitespace
+ */
+export function normalizeAnswer(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(DASHES, ' ')
+    .replace(PUNCTUATION, '')
+    .split(/\s+/)
+    .filter(word => word && !ARTICLES.has(word))
+    .join(' ')
+}
+
+/**
+ * Splits a translation like "hi, hello / hey" into its accepted alternatives
+ */
+export function getAcceptedAnswers(expected: string): string[] {
+  const alternatives = expected
+    .split(/[,;/]/)
+    .map(answer => answer.trim())
+    .filter(Boolean)
+
+  return alternatives.length > 1 ? [expected, ...alternatives] : [expected]
+}
+
+/**
+ * Levenshtein distance: the number of inserted, deleted or replaced characters
+ */
+export function levenshteinDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+
+  return previous[b.length]
+}
+
+/**
+ * Character-level diff turning the typed answer into the expected one.
+ * Replaced characters show up as an extra segment followed by a missing one
+ */
+export function diffAnswer(typed: string, expected: string): DiffSegment[] {
+  // Edit distance table, filled from the end so the diff can be read front to back
+  const rows = typed.length + 1
+  const cols = expected.length + 1
+  const table: number[][] = Array.from({ length: rows }, () => new Array(cols).fill(0))
+
+  for (let i = typed.length; i >= 0; i--) {
+    for (let j = expected.length; j >= 0; j--) {
+      if (i === typed.length) {
+        table[i][j] = expected.length - j
+      } else if (j === expected.length) {
+        table[i][j] = typed.length - i
+      } else {
+        const cost = typed[i] === expected[j] ? 0 : 1
+        table[i][j] = Math.min(table[i + 1][j] + 1, table[i][j + 1] + 1, table[i + 1][j + 1] + cost)
+      }
+    }
+  }
+
+  const segments: DiffSegment[] = []
+  const push = (type: DiffSegment['type'], char: string) => {
+    const last = segments[segments.length - 1]
+    if (last && last.type === type) {
+      last.text += char
+    } else {
+      segments.push({ type, text: char })
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < typed.length || j < expected.length) {
+    if (i < typed.length && j < expected.length && typed[i] === expected[j] && table[i][j] === table[i + 1][j + 1]) {
+      push('match', typed[i])
+      i++
+      j++
+    } else if (i < typed.length && j < expected.length && table[i][j] === table[i + 1][j + 1] + 1) {
+      push('extra', typed[i])
+      push('missing', expected[j])
+      i++
+      j++
+    } else if (i < typed.length && table[i][j] === table[i + 1][j] + 1) {
+      push('extra', typed[i])
+      i++
+    } else {
+      push('missing', expected[j])
+      j++
+    }
+  }
+
+  return segments
+}
+
+/**
+ * Compares a typed answer with every accepted answer, ignoring case, punctuation
+ * and articles, and accepts it within `maxDistance` typing mistakes.
+ * Sentences should pass `splitAlternatives = false` so commas are not read as alternatives
+ */
+export function checkAnswer(
+  typed: string,
+  expected: string,
+  maxDistance: number = DEFAULT_MAX_ANSWER_DISTANCE,
+  splitAlternatives = true
+): AnswerCheckResult {
+  const normalizedTyped = normalizeAnswer(typed)
+  const acceptedAnswers = splitAlternatives ? getAcceptedAnswers(expected) : [expected]
+
+  const candidates = acceptedAnswers.map(answer => {
+    const normalizedAnswer = normalizeAnswer(answer)
+    return {
+      answer,
+      normalizedAnswer,
+      distance: levenshteinDistance(normalizedTyped, normalizedAnswer)
+    }
+  })
+  const closest = candidates.reduce((best, candidate) => candidate.distance < best.distance ? candidate : best)
+
+  let verdict: AnswerVerdict = 'wrong'
+  if (normalizedTyped && closest.distance === 0) {
+    verdict = 'exact'
+  } else if (normalizedTyped && closest.distance <= maxDistance) {
+    verdict = 'close'
+  }
+
+  return {
+    verdict,
+    distance: closest.distance,
+    expected: closest.answer,
+    diff: diffAnswer(normalizedTyped, closest.normalizedAnswer)
+  }
+}
+
+/**
+ * Review grade recorded for a checked answer
+ */
+export function gradeAnswer(result: AnswerCheckResult): ReviewGrade {
+  switch (result.verdict) {
+    case 'exact':
+      return 'good'
+    case 'close':
+      return 'hard'
+    default:
+      return 'again'
+  }
+}
@@ -0,0 +1,119 @@
+import { Card } from '../types/card'
+import { CardChange, CardHistory } from '../types/history'
+import { ReviewLog } from '../types/review'
+
+/**
+ * Number of changes that can be undone
+ */
+export const MAX_HISTORY_LENGTH = 50
+
+const HISTORY_STORAGE_KEY = 'english-cards-history'
+
+/**
+ * Creates a change from the affected cards before and after it, and the review logs it added
+ */
+export function createCardChange(
+  label: string,
+  before: Card[],
+  after: Card[],
+  destructive = false,
+  reviewLogs?: ReviewLog[]
+): CardChange {
+  return {
+    id: `change-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    label,
+    destructive,
+    before,
+    after,
+    ...(reviewLogs ? { reviewLogs } : {})
+  }
+}
+
+/**
+ * Creates an empty history for a data provider
+ */
+export function createCardHistory(provider: string): CardHistory {
+  return { provider, past: [], future: [] }
+}
+
+/**
+ * Adds a change to the undo stack, dropping the oldest ones and everything that could be redone
+ */
+export function recordCardChange(history: CardHistory, change: CardChange): CardHistory {
+  return {
+    provider: history.provider,
+    past: history.past.concat(change).slice(-MAX_HISTORY_LENGTH),
+    future: []
+  }
+}
+
+/**
+ * Writes that undo or redo a change: the cards to save and the ids of the cards to delete
+ */
+export function getCardChangeWrites(change: CardChange, direction: 'undo' | 'redo'): { cards: Card[], deletedCardIds: string[] } {
+  const [from, to] = direction === 'undo' ? [change.after, change.before] : [change.before, change.after]
+  const keptIds = new Set(to.map(card => card.id))
+  return {
+    cards: to,
+    deletedCardIds: from.filter(card => !keptIds.has(card.id)).map(card => card.id)
+  }
+}
+
+const reviveCard = (card: any): Card => ({
+  ...card,
+  createdAt: new Date(card.createdAt),
+  dueAt: new Date(card.dueAt),
+  lastReviewed: card.lastReviewed ? new Date(card.lastReviewed) : undefined,
+  deletedAt: card.deletedAt ? new Date(card.deletedAt) : undefined
+})
+
+const reviveChange = (change: any): CardChange => ({
+  ...change,
+  before: change.before.map(reviveCard),
+  after: change.after.map(reviveCard),
+  ...(Array.isArray(change.reviewLogs)
+    ? { reviewLogs: change.reviewLogs.map((log: any) => ({ ...log, reviewedAt: new Date(log.reviewedAt) })) }
+    : {})
+})
+
+/**
+ * Reads the history of a data provider saved in this browser session
+ */
+export function loadCardHistory(provider: string): CardHistory {
+  try {
+    const saved = typeof sessionStorage === 'undefined' ? null : sessionStorage.getItem(`${HISTORY_STORAGE_KEY}-${provider}`)
+    const parsed = saved ? JSON.parse(saved) : null
+    if (!parsed || !Array.isArray(parsed.past) || !Array.isArray(parsed.future)) {
+      return createCardHistory(provider)
+    }
+    return { provider, past: parsed.past.map(reviveChange), future: parsed.future.map(reviveChange) }
+  } catch {
+    return createCardHistory(provider)
+  }
+}
+
+/**
+ * Saves a history for the rest of the browser session. When it does not fit,
+ * the oldest changes are dropped until it does
+ */
+export function saveCardHistory(history: CardHistory): void {
+  if (typeof sessionStorage === 'undefined') return
+
+  let { past, future } = history
+  while (true) {
+    try {
+      sessionStorage.setItem(`${HISTORY_STORAGE_KEY}-${history.provider}`, JSON.stringify({ past, future }))
+      return
+    } catch (error) {
+      if (past.length === 0 && future.length === 0) {
+        console.error('Failed to save card history:', error)
+        return
+      }
+      if (past.length > 0) {
+        past = past.slice(1)
+      } else {
+        future = future.slice(0, -1)
+      }
+    }
+  }
+}
@@ -0,0 +1,132 @@
+import { Card, CardQuery, CardQueryResult, CardSort, CardSortField } from '../types/card'
+import { filterCardsByTags } from './tags'
+
+/**
+ * Type of the value each sort field has in a cursor, dates are epoch ms
+ */
+const SORT_VALUE_TYPES: Record<CardSortField, 'string' | 'number' | 'boolean'> = {
+  word: 'string',
+  translation: 'string',
+  createdAt: 'number',
+  lastReviewed: 'number',
+  dueAt: 'number',
+  isKnown: 'boolean',
+}
+
+export const CARD_SORT_FIELDS = Object.keys(SORT_VALUE_TYPES) as CardSortField[]
+
+export const DEFAULT_CARD_SORT: CardSort = { field: 'createdAt', direction: 'asc' }
+
+/**
+ * Value a card is sorted by, null for a card that was never reviewed
+ */
+type CardSortValue = string | number | boolean | null
+
+/**
+ * Checks whether a card passes the filters of a query, the sort and page are ignored
+ */
+export function matchesCardQuery(card: Card, query: CardQuery): boolean {
+  if (!!card.deletedAt !== !!query.deleted) return false
+  if (query.deckId !== undefined && card.deckId !== query.deckId) return false
+  if (query.known !== undefined && card.isKnown !== query.known) return false
+  if (query.dueBefore && card.dueAt.getTime() > query.dueBefore.getTime()) return false
+  if (query.tags && filterCardsByTags([card], query.tags).length === 0) return false
+
+  const text = query.text ? query.text.trim().toLowerCase() : ''
+  if (!text) return true
+
+  return [
+    card.word,
+    card.translation,
+    ...card.tags,
+    ...card.examples.flatMap(example => [example.text, example.translation])
+  ].some(field => field.toLowerCase().includes(text))
+}
+
+function getSortValue(card: Card, field: CardSortField): CardSortValue {
+  const value = card[field]
+  if (value instanceof Date) return value.getTime()
+  return value === undefined ? null : value
+}
+
+function compareSortValues(a: CardSortValue, b: CardSortValue): number {
+  if (a === b) return 0
+  if (a === null) return -1
+  if (b === null) return 1
+  return typeof a === 'string' ? a.localeCompare(b as string) : Number(a) - Number(b)
+}
+
+/**
+ * Orders by the sort value, then by id so that every card has its own place
+ */
+function compareSortKeys(a: [CardSortValue, string], b: [CardSortValue, string]): number {
+  const byValue = compareSortValues(a[0], b[0])
+  if (byValue !== 0) return byValue
+  return a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0
+}
+
+/**
+ * Checks whether a value can be sorted by, for sort orders read from settings or requests
+ */
+export function isCardSort(value: unknown): value is CardSort {
+  const sort = value as Partial<CardSort> | null
+  return typeof sort === 'object' && sort !== null &&
+    CARD_SORT_FIELDS.indexOf(sort.field as CardSortField) !== -1 &&
+    (sort.direction === 'asc' || sort.direction === 'desc')
+}
+
+/**
+ * Cursor pointing right after the card, for the given sort order
+ */
+export function encodeCardCursor(card: Card, sort: CardSort): string {
+  return JSON.stringify([getSortValue(card, sort.field), card.id])
+}
+
+/**
+ * Reads a cursor made by encodeCardCursor with the same sort order
+ */
+export function decodeCardCursor(cursor: string, sort: CardSort): [CardSortValue, string] {
+  let decoded: unknown = null
+  try {
+    decoded = JSON.parse(cursor)
+  } catch {
+    // Reported below
+  }
+
+  const isValidValue = (value: unknown) => typeof value === SORT_VALUE_TYPES[sort.field] ||
+    (value === null && sort.field === 'lastReviewed')
+  if (!Array.isArray(decoded) || decoded.length !== 2 || !isValidValue(decoded[0]) || typeof decoded[1] !== 'string') {
+    throw new Error(`Invalid cursor for sorting by ${sort.field}`)
+  }
+
+  return decoded as [CardSortValue, string]
+}
+
+/**
+ * Runs a query against cards held in memory, for providers without a query engine
+ */
+export function queryCardsInMemory(cards: Card[], query: CardQuery): CardQueryResult {
+  const sort = query.sort || DEFAULT_CARD_SORT
+  const direction = sort.direction === 'asc' ? 1 : -1
+  const sortKey = (card: Card): [CardSortValue, string] => [getSortValue(card, sort.field), card.id]
+
+  const matching = cards
+    .filter(card => matchesCardQuery(card, query))
+    .sort((a, b) => direction * compareSortKeys(sortKey(a), sortKey(b)))
+
+  let start = 0
+  if (query.cursor) {
+    const after = decodeCardCursor(query.cursor, sort)
+    start = matching.findIndex(card => direction * compareSortKeys(sortKey(card), after) > 0)
+    if (start === -1) start = matching.length
+  }
+
+  const end = query.limit === undefined ? matching.length : start + query.limit
+  const page = matching.slice(start, end)
+
+  return {
+    cards: page,
+    total: matching.length,
+    nextCursor: end < matching.length && page.length > 0 ? encodeCardCursor(page[page.length - 1], sort) : null
+  }
+}
@@ -0,0 +1,119 @@
+import { Card } from '../types/card'
+import { AnswerCheckResult, checkAnswer, DEFAULT_MAX_ANSWER_DISTANCE } from './answerChecking'
+
+/**
+ * Placeholder shown in place of the blanked word
+ */
+export const CLOZE_BLANK = '_____'
+
+/**
+ * Fill-in-the-blank exercise made from one of a card's examples
+ */
+export interface ClozeExercise {
+  exampleId: string
+  before: string // example text up to the blank
+  after: string // example text after the blank
+  answer: string // blanked text, as written in the example
+  hint: string // example translation
+}
+
+const VOWELS = /[aeiou]/
+const CONSONANT_VOWEL_CONSONANT = /[^aeiou][aeiou][^aeiouwxy]$/
+
+/**
+ * Simple inflections of a single word: -s, -ed and -ing with the common spelling
+ * changes (study → studies/studied, make → making, stop → stopped)
+ */
+function inflectWord(word: string): string[] {
+  const forms = [word, `${word}s`, `${word}es`, `${word}ed`, `${word}ing`]
+
+  if (word.endsWith('y') && !VOWELS.test(word.charAt(word.length - 2))) {
+    const stem = word.slice(0, -1)
+    forms.push(`${stem}ies`, `${stem}ied`)
+  }
+  if (word.endsWith('e')) {
+    const stem = word.slice(0, -1)
+    forms.push(`${word}d`, `${stem}ing`)
+  }
+  if (CONSONANT_VOWEL_CONSONANT.test(word)) {
+    const last = word.charAt(word.length - 1)
+    forms.push(`${word}${last}ed`, `${word}${last}ing`)
+  }
+
+  return forms
+}
+
+/**
+ * Forms of a card's word that can be blanked in an example. A leading "to " is
+ * dropped, and phrases are inflected on their first word ("gives up")
+ */
+export function getWordForms(word: string): string[] {
+  const words = word.trim().toLowerCase().replace(/^to\s+/, '').split(/\s+/).filter(Boolean)
+  if (words.length === 0) return []
+
+  const [first, ...rest] = words
+  const forms = inflectWord(first).map(form => [form, ...rest].join(' '))
+
+  // Longest first, so "running" wins over "run"
+  return Array.from(new Set(forms)).sort((a, b) => b.length - a.length)
+}
+
+/**
+ * Escapes the characters that have a meaning in regular expressions
+ */
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Finds the card's word in an example text, returning its position and the matched text
+ */
+export function findWordInText(text: string, word: string): { index: number, match: string } | null {
+  const forms = getWordForms(word)
+  if (forms.length === 0) return null
+
+  const pattern = forms.map(form => escapeRegExp(form).replace(/ /g, '\\s+')).join('|')
+  const match = new RegExp(`\\b(?:${pattern})\\b`, 'i').exec(text)
+  return match ? { index: match.index, match: match[0] } : null
+}
+
+/**
+ * Cloze exercises for every example that contains the card's word
+ */
+export function getClozeExercises(card: Card): ClozeExercise[] {
+  return card.examples.flatMap(example => {
+    const found = findWordInText(example.text, card.word)
+    if (!found) return []
+
+    return [{
+      exampleId: example.id,
+      before: example.text.slice(0, found.index),
+      after: example.text.slice(found.index + found.match.length),
+      answer: found.match,
+      hint: example.translation
+    }]
+  })
+}
+
+/**
+ * Whether a card can be studied as a cloze exercise
+ */
+export function hasClozeExercise(card: Card): boolean {
+  return getClozeExercises(card).length > 0
+}
+
+/**
+ * Picks one of the card's cloze exercises at random, or null when it has none
+ */
+export function pickClozeExercise(card: Card, random: () => number = Math.random): ClozeExercise | null {
+  const exercises = getClozeExercises(card)
+  if (exercises.length === 0) return null
+  return exercises[Math.floor(random() * exercises.length)]
+}
+
+/**
+ * Checks the typed text against the blanked one
+ */
+export function checkCloze(typed: string, exercise: ClozeExercise, maxDistance: number = DEFAULT_MAX_ANSWER_DISTANCE): AnswerCheckResult {
+  return checkAnswer(typed, exercise.answer, maxDistance, false)
+}
@@ -0,0 +1,71 @@
+import { Card } from '../types/card'
+import { Deck, DEFAULT_DECK_ID } from '../types/deck'
+
+/**
+ * Learning progress of a single deck
+ */
+export interface DeckProgress {
+  deck: Deck
+  totalCards: number
+  knownCards: number
+  completionRate: number // percent
+}
+
+/**
+ * Creates the deck that holds cards without an explicit deck
+ */
+export function createDefaultDeck(createdAt: Date = new Date(0)): Deck {
+  return {
+    id: DEFAULT_DECK_ID,
+    name: 'My Cards',
+    description: '',
+    sourceLanguage: 'English',
+    targetLanguage: '',
+    createdAt
+  }
+}
+
+/**
+ * Creates a new deck with a generated id
+ */
+export function createDeck(data: Omit<Deck, 'id' | 'createdAt'>): Deck {
+  return {
+    ...data,
+    id: `deck-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    createdAt: new Date()
+  }
+}
+
+/**
+ * Assigns cards stored before decks existed to the default deck
+ */
+export function migrateCardDeck<T extends { deckId?: string }>(card: T): T & { deckId: string } {
+  return {
+    ...card,
+    deckId: card.deckId || DEFAULT_DECK_ID
+  }
+}
+
+/**
+ * Returns the cards of a deck, or every card when no deck is selected
+ */
+export function filterCardsByDeck(cards: Card[], deckId: string | null): Card[] {
+  return deckId ? cards.filter(card => card.deckId === deckId) : cards
+}
+
+/**
+ * Calculates known/total counts for each deck
+ */
+export function getDeckProgress(decks: Deck[], cards: Card[]): DeckProgress[] {
+  return decks.map(deck => {
+    const deckCards = filterCardsByDeck(cards, deck.id)
+    const knownCards = deckCards.filter(card => card.isKnown).length
+
+    return {
+      deck,
+      totalCards: deckCards.length,
+      knownCards,
+      completionRate: deckCards.length > 0 ? Math.round((knownCards / deckCards.length) * 100) : 0
+    }
+  })
+}
@@ -0,0 +1,231 @@
+import { Example } from '../types/card'
+import { normalizeTags } from './tags'
+
+/**
+ * Field separators recognised in pasted or uploaded spreadsheets
+ */
+export type Delimiter = ',' | '\t' | ';'
+
+const DELIMITERS: Delimiter[] = ['\t', ',', ';']
+
+/**
+ * What a column of the spreadsheet is imported as, `ignore` leaves it out
+ */
+export type ImportColumn = 'word' | 'translation' | 'example' | 'exampleTranslation' | 'tags' | 'ignore'
+
+export const IMPORT_COLUMN_LABELS: Record<ImportColumn, string> = {
+  word: 'Word',
+  translation: 'Translation',
+  example: 'Example',
+  exampleTranslation: 'Example translation',
+  tags: 'Tags',
+  ignore: 'Ignore',
+}
+
+/**
+ * Header names each column is recognised by, compared without case, spaces or punctuation
+ */
+const COLUMN_HEADERS: Record<Exclude<ImportColumn, 'ignore'>, string[]> = {
+  word: ['word', 'term', 'front', 'english'],
+  translation: ['translation', 'meaning', 'definition', 'back'],
+  example: ['example', 'sentence', 'examplesentence'],
+  exampleTranslation: ['exampletranslation', 'sentencetranslation', 'translatedexample'],
+  tags: ['tags', 'tag', 'labels'],
+}
+
+/**
+ * Columns assumed, in order, when the first row is not a header
+ */
+const DEFAULT_COLUMN_ORDER: ImportColumn[] = ['word', 'translation', 'example', 'exampleTranslation', 'tags']
+
+/**
+ * Card read from one row, in the array format `importCards` takes
+ */
+export interface DelimitedImportCard {
+  word: string
+  translation: string
+  examples: Example[]
+  tags: string[]
+}
+
+/**
+ * One data row of the spreadsheet, with the card it becomes or why it cannot be imported
+ */
+export interface DelimitedImportRow {
+  line: number // 1-based, counting the header
+  values: string[]
+  card: DelimitedImportCard | null
+  errors: string[]
+}
+
+/**
+ * Tells JSON apart from spreadsheet text, which the import dialog accepts in the same field
+ */
+export function looksLikeJson(text: string): boolean {
+  const trimmed = text.trim()
+  return trimmed.startsWith('{') || trimmed.startsWith('[')
+}
+
+/**
+ * Splits the text into rows of fields. Quoted fields may hold the delimiter,
+ * line breaks and doubled quotes; rows with nothing in them are dropped
+ */
+export function parseDelimitedText(text: string, delimiter: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+  let fieldStarted = false
+
+  const endField = () => {
+    row.push(fieldStarted ? field : field.trim())
+    field = ''
+    fieldStarted = false
+  }
+
+  const endRow = () => {
+    endField()
+    if (row.some(value => value.trim() !== '')) rows.push(row)
+    row = []
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field.trim() === '') {
+      inQuotes = true
+      fieldStarted = true
+      field = ''
+    } else if (char === delimiter) {
+      endField()
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      endRow()
+    } else if (!fieldStarted || char.trim() !== '') {
+      field += char
+    }
+  }
+  endRow()
+
+  return rows
+}
+
+/**
+ * Picks the delimiter that splits the first lines into the same number of
+ * columns, preferring the one giving the most columns
+ */
+export function detectDelimiter(text: string): Delimiter {
+  const sample = text.split(/\r?\n/).filter(line => line.trim()).slice(0, 10).join('\n')
+  let best: Delimiter = ','
+  let bestColumns = 1
+
+  for (const delimiter of DELIMITERS) {
+    const widths = parseDelimitedText(sample, delimiter).map(row => row.length)
+    const isConsistent = widths.length > 0 && widths.every(width => width === widths[0])
+    if (isConsistent && widths[0] > bestColumns) {
+      best = delimiter
+      bestColumns = widths[0]
+    }
+  }
+
+  return best
+}
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z]/g, '')
+
+const getHeaderColumn = (value: string): ImportColumn | null => {
+  const header = normalizeHeader(value)
+  const match = (Object.keys(COLUMN_HEADERS) as Array<keyof typeof COLUMN_HEADERS>)
+    .find(column => COLUMN_HEADERS[column].indexOf(header) !== -1)
+  return match || null
+}
+
+/**
+ * Checks whether the first row names the columns rather than holding a word
+ */
+export function hasHeaderRow(rows: string[][]): boolean {
+  return rows.length > 0 && rows[0].some(value => getHeaderColumn(value) !== null)
+}
+
+/**
+ * Guesses the column mapping from the header, or from the usual column order
+ * when there is none. Each column is used once, the rest are ignored
+ */
+export function guessColumnMapping(rows: string[][], hasHeader: boolean): ImportColumn[] {
+  const width = rows.reduce((max, row) => Math.max(max, row.length), 0)
+  const mapping: ImportColumn[] = []
+
+  for (let index = 0; index < width; index++) {
+    const guess = hasHeader
+      ? getHeaderColumn(rows[0][index] || '')
+      : DEFAULT_COLUMN_ORDER[index]
+    mapping.push(guess && mapping.indexOf(guess) === -1 ? guess : 'ignore')
+  }
+
+  return mapping
+}
+
+/**
+ * Splits a tags cell on commas, semicolons or vertical bars
+ */
+export function parseTagList(value: string): string[] {
+  return normalizeTags(value.split(/[,;|]/))
+}
+
+/**
+ * Reads each data row with the given mapping and validates it
+ */
+export function buildDelimitedImportRows(
+  rows: string[][],
+  mapping: ImportColumn[],
+  hasHeader: boolean
+): DelimitedImportRow[] {
+  const getValue = (values: string[], column: ImportColumn) => {
+    const index = mapping.indexOf(column)
+    return index === -1 ? '' : (values[index] || '').trim()
+  }
+
+  return rows.slice(hasHeader ? 1 : 0).map((values, index) => {
+    const line = index + (hasHeader ? 2 : 1)
+    const word = getValue(values, 'word')
+    const translation = getValue(values, 'translation')
+    const example = getValue(values, 'example')
+    const exampleTranslation = getValue(values, 'exampleTranslation')
+    const errors: string[] = []
+
+    if (!word) errors.push('Word is missing')
+    if (!translation) errors.push('Translation is missing')
+    if (exampleTranslation && !example) errors.push('Example translation has no example')
+
+    return {
+      line,
+      values,
+      errors,
+      card: errors.length > 0 ? null : {
+        word,
+        translation,
+        examples: example ? [{ id: `example-${line}`, text: example, translation: exampleTranslation }] : [],
+        tags: parseTagList(getValue(values, 'tags')),
+      }
+    }
+  })
+}
+
+/**
+ * Problems with the mapping itself, which apply to every row
+ */
+export function validateColumnMapping(mapping: ImportColumn[]): string[] {
+  const errors: string[] = []
+  if (mapping.indexOf('word') === -1) errors.push('Choose the column holding the words')
+  if (mapping.indexOf('translation') === -1) errors.push('Choose the column holding the translations')
+  return errors
+}
@@ -0,0 +1,50 @@
+import { Card } from '../types/card'
+import { AnswerCheckResult, checkAnswer, DEFAULT_MAX_ANSWER_DISTANCE } from './answerChecking'
+
+/**
+ * Speech rate used for slow playback
+ */
+export const SLOW_SPEECH_RATE = 0.6
+
+/**
+ * Text that is read out in a dictation, the card's word or one of its example sentences
+ */
+export interface DictationItem {
+  kind: 'word' | 'example'
+  text: string
+  translation: string
+}
+
+/**
+ * Everything on a card that can be dictated: the word and every example sentence
+ */
+export function getDictationItems(card: Card): DictationItem[] {
+  const examples: DictationItem[] = card.examples
+    .filter(example => example.text.trim())
+    .map(example => ({ kind: 'example', text: example.text, translation: example.translation }))
+
+  return [{ kind: 'word', text: card.word, translation: card.translation }, ...examples]
+}
+
+/**
+ * Picks the word or one of the example sentences at random
+ */
+export function pickDictationItem(card: Card, random: () => number = Math.random): DictationItem {
+  const items = getDictationItems(card)
+  return items[Math.floor(random() * items.length)]
+}
+
+/**
+ * Typing mistakes accepted for a dictated text: `maxDistance` for each of its words
+ */
+export function getDictationTolerance(text: string, maxDistance: number = DEFAULT_MAX_ANSWER_DISTANCE): number {
+  const wordCount = text.trim().split(/\s+/).filter(Boolean).length
+  return maxDistance * Math.max(1, wordCount)
+}
+
+/**
+ * Scores what the user typed against the dictated text
+ */
+export function checkDictation(typed: string, item: DictationItem, maxDistance: number = DEFAULT_MAX_ANSWER_DISTANCE): AnswerCheckResult {
+  return checkAnswer(typed, item.text, getDictationTolerance(item.text, maxDistance), false)
+}
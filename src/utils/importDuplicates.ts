@@ -0,0 +1,94 @@
+import { Card, Example } from '../types/card'
+import { DuplicateResolution, ImportCardData, ImportConflict, ImportData } from '../types/import'
+import { normalizeTags } from './tags'
+import { createSimilarCardFinder } from './similarity'
+
+export const DUPLICATE_RESOLUTION_LABELS: Record<DuplicateResolution, string> = {
+  skip: 'Skip',
+  overwrite: 'Overwrite',
+  keepBoth: 'Keep both',
+  merge: 'Merge',
+}
+
+/**
+ * Turns the simple word-translation format into the array format, so each imported word has an index
+ */
+export function toImportCardList(data: ImportData): ImportCardData[] {
+  return Array.isArray(data)
+    ? data
+    : Object.keys(data).map(word => ({ word, translation: data[word] }))
+}
+
+/**
+ * Pairs each imported word with the closest similar card among the existing cards,
+ * ignoring case, accents, punctuation and articles and allowing small spelling
+ * differences such as "colour" and "color"
+ */
+export function findImportConflicts(incoming: ImportCardData[], existingCards: Card[]): ImportConflict[] {
+  const findSimilarCards = createSimilarCardFinder(existingCards)
+  return incoming.flatMap((card, index) => {
+    const [closest] = findSimilarCards(card.word)
+    return closest ? [{ index, incoming: card, existing: closest.card }] : []
+  })
+}
+
+/**
+ * Adds the translations not yet given, reading comma or semicolon separated lists
+ */
+export function combineTranslations(current: string, added: string): string {
+  const parts = current.split(/[,;]/).map(part => part.trim()).filter(part => part)
+  const known = new Set(parts.map(part => part.toLowerCase()))
+
+  added.split(/[,;]/).map(part => part.trim()).forEach(part => {
+    if (part && !known.has(part.toLowerCase())) {
+      known.add(part.toLowerCase())
+      parts.push(part)
+    }
+  })
+
+  return parts.join(', ')
+}
+
+// Examples with a new text are added, with an id of their own
+const combineExamples = (current: Example[], added: Example[]): Example[] => {
+  const texts = new Set(current.map(example => example.text.trim().toLowerCase()))
+  const ids = new Set(current.map(example => example.id))
+  const combined = current.slice()
+
+  added.forEach((example, index) => {
+    const text = example.text.trim().toLowerCase()
+    if (!text || texts.has(text)) return
+
+    const id = ids.has(example.id) ? `${example.id}-${Date.now()}-${index}` : example.id
+    texts.add(text)
+    ids.add(id)
+    combined.push({ ...example, id })
+  })
+
+  return combined
+}
+
+/**
+ * Adds the imported examples, tags and translations to an existing card
+ */
+export function mergeImportedCard(existing: Card, incoming: ImportCardData): Card {
+  return {
+    ...existing,
+    translation: combineTranslations(existing.translation, incoming.translation),
+    examples: combineExamples(existing.examples, incoming.examples || []),
+    tags: normalizeTags(existing.tags.concat(incoming.tags || [])),
+  }
+}
+
+/**
+ * Replaces the content of an existing card with the imported word, keeping its progress
+ */
+export function overwriteImportedCard(existing: Card, incoming: ImportCardData): Card {
+  return {
+    ...existing,
+    word: incoming.word,
+    translation: incoming.translation,
+    examples: incoming.examples || [],
+    tags: normalizeTags(incoming.tags || []),
+  }
+}
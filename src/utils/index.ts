@@ -1,2 +1,15 @@
 export * from './settingsValidation'
-export * from './settingsStorage'
\ No newline at end of file
+export * from './settingsStorage'
+export * from './scheduler'
+export * from './studyQueue'
+export * from './reviewLog'
+export * from './decks'
+export * from './tags'
+export * from './answerChecking'
+export * from './quiz'
+export * from './dictation'
+export * from './cloze'
+export * from './sync'
+export * from './cardQuery'
+export * from './cardHistory'
+export * from './trash'
\ No newline at end of file
@@ -0,0 +1,111 @@
+import { Card } from '../types/card'
+import { ReviewGrade } from '../types/review'
+
+/**
+ * Number of answers offered per question, the correct one included
+ */
+export const QUIZ_OPTION_COUNT = 4
+
+export type PartOfSpeech = 'verb' | 'noun' | 'adjective' | 'adverb' | 'unknown'
+
+export interface QuizOptionsConfig {
+  count?: number
+  reverse?: boolean // ask for the word of a translation instead
+  random?: () => number
+}
+
+const SUFFIXES: Array<[PartOfSpeech, RegExp]> = [
+  ['adverb', /ly$/],
+  ['noun', /(tion|sion|ness|ment|ity|ship|ism|ance|ence|er|or)$/],
+  ['adjective', /(ful|ous|ive|able|ible|less|ish|ic|al)$/],
+  ['verb', /(ize|ise|ify|ate|en)$/],
+]
+
+/**
+ * Rough part-of-speech guess for an English word, based on "to ..." infinitives and common suffixes
+ */
+export function guessPartOfSpeech(word: string): PartOfSpeech {
+  const normalized = word.trim().toLowerCase()
+  if (normalized.startsWith('to ')) return 'verb'
+
+  const match = SUFFIXES.find(([, suffix]) => suffix.test(normalized))
+  return match ? match[0] : 'unknown'
+}
+
+/**
+ * Text asked for in a quiz question: the translation, or the word in reverse
+ */
+export function getQuizAnswer(card: Card, reverse = false): string {
+  return reverse ? card.word : card.translation
+}
+
+/**
+ * Whether a distractor is the same kind of word as the card: a shared tag or the same guessed part of speech
+ */
+function isSimilarCard(card: Card, other: Card): boolean {
+  const tags = new Set(card.tags.map(tag => tag.toLowerCase()))
+  if (other.tags.some(tag => tags.has(tag.toLowerCase()))) return true
+
+  const partOfSpeech = guessPartOfSpeech(card.word)
+  return partOfSpeech !== 'unknown' && partOfSpeech === guessPartOfSpeech(other.word)
+}
+
+/**
+ * Picks distractors for a card from the other cards of its deck, preferring the same
+ * part of speech and a similar answer length. Cards from other decks are only used
+ * when the deck is too small
+ */
+export function pickDistractors(card: Card, cards: Card[], config: QuizOptionsConfig = {}): string[] {
+  const { count = QUIZ_OPTION_COUNT, reverse = false, random = Math.random } = config
+  const answer = getQuizAnswer(card, reverse)
+  const seen = new Set([answer.trim().toLowerCase()])
+
+  const rank = (candidates: Card[]) => shuffle(candidates, random)
+    .map(other => ({
+      text: getQuizAnswer(other, reverse),
+      similar: isSimilarCard(card, other),
+      lengthDifference: Math.abs(getQuizAnswer(other, reverse).length - answer.length)
+    }))
+    .sort((a, b) => Number(b.similar) - Number(a.similar) || a.lengthDifference - b.lengthDifference)
+
+  const others = cards.filter(other => other.id !== card.id)
+  const ranked = [
+    ...rank(others.filter(other => other.deckId === card.deckId)),
+    ...rank(others.filter(other => other.deckId !== card.deckId))
+  ]
+
+  const distractors: string[] = []
+  for (const { text } of ranked) {
+    const key = text.trim().toLowerCase()
+    if (distractors.length >= count - 1) break
+    if (!key || seen.has(key)) continue
+    seen.add(key)
+    distractors.push(text)
+  }
+
+  return distractors
+}
+
+/**
+ * Builds the shuffled answers of a quiz question, the correct one included
+ */
+export function buildQuizOptions(card: Card, cards: Card[], config: QuizOptionsConfig = {}): string[] {
+  const { reverse = false, random = Math.random } = config
+  return shuffle([getQuizAnswer(card, reverse), ...pickDistractors(card, cards, config)], random)
+}
+
+/**
+ * Review grade recorded for a quiz answer
+ */
+export function gradeQuizAnswer(isCorrect: boolean): ReviewGrade {
+  return isCorrect ? 'good' : 'again'
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const shuffled = [...items]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+  return shuffled
+}
@@ -0,0 +1,32 @@
+import { Card } from '../types/card'
+import { ReviewGrade, ReviewLog, StudyMode } from '../types/review'
+
+/**
+ * Details about how a review happened, recorded alongside the grade
+ */
+export interface ReviewContext {
+  responseTimeMs: number
+  studyMode: StudyMode
+}
+
+/**
+ * Creates the history entry for a review, given the card before and after grading
+ */
+export function createReviewLog(
+  card: Card,
+  reviewedCard: Card,
+  grade: ReviewGrade,
+  context: ReviewContext,
+  reviewedAt: Date = new Date()
+): ReviewLog {
+  return {
+    id: `review-${reviewedAt.getTime()}-${Math.random().toString(36).substr(2, 9)}`,
+    cardId: card.id,
+    reviewedAt,
+    grade,
+    responseTimeMs: Math.max(0, Math.round(context.responseTimeMs)),
+    previousInterval: card.interval,
+    nextInterval: reviewedCard.interval,
+    studyMode: context.studyMode
+  }
+}
@@ -0,0 +1,212 @@
+import { Card, CardSchedule } from '../types/card'
+import { ReviewGrade } from '../types/review'
+
+export type { ReviewGrade }
+
+/**
+ * Review quality on the SM-2 scale (0 = blackout, 5 = perfect recall)
+ */
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5
+
+/**
+ * Grades in the order they are presented to the user
+ */
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy']
+
+/**
+ * SM-2 quality recorded for each grade
+ */
+export const GRADE_QUALITY: Record<ReviewGrade, ReviewQuality> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5
+}
+
+/**
+ * Ease factor assigned to cards that have never been reviewed
+ */
+export const DEFAULT_EASE_FACTOR = 2.5
+
+/**
+ * Lower bound for the ease factor, as defined by SM-2
+ */
+export const MIN_EASE_FACTOR = 1.3
+
+/**
+ * Lowest quality that still counts as a successful recall
+ */
+export const PASSING_QUALITY: ReviewQuality = 3
+
+/**
+ * Interval given to cards that were marked as known before scheduling existed
+ */
+export const MIGRATED_KNOWN_INTERVAL = 6
+
+/**
+ * Interval given to a new card that was graded easy on its first review
+ */
+export const EASY_FIRST_INTERVAL = 4
+
+/**
+ * Scales the SM-2 interval so that hard and easy answers preview differently from good ones
+ */
+const INTERVAL_MODIFIERS: Record<number, number> = {
+  3: 0.8,
+  4: 1,
+  5: 1.3
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Adds a number of days to a date without mutating it
+ */
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * MS_PER_DAY)
+}
+
+/**
+ * Creates the schedule for a card that has never been reviewed
+ */
+export function createInitialSchedule(now: Date = new Date()): CardSchedule {
+  return {
+    easeFactor: DEFAULT_EASE_FACTOR,
+    interval: 0,
+    repetitions: 0,
+    dueAt: now
+  }
+}
+
+/**
+ * Calculates the next schedule using the SM-2 algorithm.
+ * Failed recalls restart the repetition count and are due again immediately
+ * so they can be relearned in the same session. Hard answers shorten and easy
+ * answers stretch the resulting interval.
+ */
+export function calculateNextSchedule(
+  schedule: CardSchedule,
+  quality: ReviewQuality,
+  now: Date = new Date()
+): CardSchedule {
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    schedule.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  )
+
+  if (quality < PASSING_QUALITY) {
+    return {
+      easeFactor,
+      interval: 0,
+      repetitions: 0,
+      dueAt: now
+    }
+  }
+
+  let interval: number
+  if (schedule.repetitions === 0) {
+    interval = quality === 5 ? EASY_FIRST_INTERVAL : 1
+  } else {
+    const baseInterval = schedule.repetitions === 1
+      ? 6
+      : Math.max(schedule.interval, 1) * schedule.easeFactor
+    interval = Math.max(1, Math.round(baseInterval * INTERVAL_MODIFIERS[quality]))
+  }
+
+  return {
+    easeFactor,
+    interval,
+    repetitions: schedule.repetitions + 1,
+    dueAt: addDays(now, interval)
+  }
+}
+
+/**
+ * Applies a review to a card, returning the updated card
+ */
+export function applyReview(card: Card, quality: ReviewQuality, now: Date = new Date()): Card {
+  return {
+    ...card,
+    ...calculateNextSchedule(card, quality, now),
+    isKnown: quality >= PASSING_QUALITY,
+    lastReviewed: now
+  }
+}
+
+/**
+ * Applies a graded review to a card, returning the updated card
+ */
+export function applyGrade(card: Card, grade: ReviewGrade, now: Date = new Date()): Card {
+  return applyReview(card, GRADE_QUALITY[grade], now)
+}
+
+/**
+ * Calculates the interval in days each grade would produce for a card
+ */
+export function previewIntervals(card: CardSchedule, now: Date = new Date()): Record<ReviewGrade, number> {
+  return REVIEW_GRADES.reduce((preview, grade) => {
+    preview[grade] = calculateNextSchedule(card, GRADE_QUALITY[grade], now).interval
+    return preview
+  }, {} as Record<ReviewGrade, number>)
+}
+
+/**
+ * Formats an interval in days as a short label (e.g. "now", "6d", "2mo", "1.5y")
+ */
+export function formatInterval(days: number): string {
+  if (days <= 0) return 'now'
+  if (days < 30) return `${days}d`
+  if (days < 365) return `${Math.round(days / 30)}mo`
+  return `${Math.round((days / 365) * 10) / 10}y`
+}
+
+/**
+ * Resets a card's learning progress so it is treated as new again
+ */
+export function resetSchedule(card: Card, now: Date = new Date()): Card {
+  return {
+    ...card,
+    ...createInitialSchedule(now),
+    isKnown: false
+  }
+}
+
+/**
+ * Checks whether a card is due for review
+ */
+export function isCardDue(card: Card, now: Date = new Date()): boolean {
+  return card.dueAt.getTime() <= now.getTime()
+}
+
+/**
+ * Fills in scheduling state for cards stored before the scheduler existed.
+ * Known cards start with a short interval counted from their last review,
+ * unknown cards are due right away.
+ */
+export function migrateCardSchedule(
+  card: Omit<Card, keyof CardSchedule> & Partial<CardSchedule>
+): Card {
+  if (
+    typeof card.easeFactor === 'number' &&
+    typeof card.interval === 'number' &&
+    typeof card.repetitions === 'number' &&
+    card.dueAt !== undefined
+  ) {
+    return { ...card, dueAt: new Date(card.dueAt) } as Card
+  }
+
+  if (card.isKnown) {
+    return {
+      ...card,
+      easeFactor: DEFAULT_EASE_FACTOR,
+      interval: MIGRATED_KNOWN_INTERVAL,
+      repetitions: 2,
+      dueAt: addDays(card.lastReviewed || card.createdAt, MIGRATED_KNOWN_INTERVAL)
+    }
+  }
+
+  return {
+    ...card,
+    ...createInitialSchedule(card.lastReviewed || card.createdAt)
+  }
+}
@@ -47,11 +47,20 @@ export function loadSettings(defaultSettings: AppSettings): StorageResult<AppSet
     const mergedSettings: AppSettings = {
       selectedProvider: parsed.selectedProvider || defaultSettings.selectedProvider,
       showTranslationFirst: parsed.showTranslationFirst ?? defaultSettings.showTranslationFirst,
+      newCardsPerDay: parsed.newCardsPerDay ?? defaultSettings.newCardsPerDay,
+      studyMode: parsed.studyMode ?? defaultSettings.studyMode,
+      maxAnswerDistance: parsed.maxAnswerDistance ?? defaultSettings.maxAnswerDistance,
+      wordListSort: parsed.wordListSort ?? defaultSettings.wordListSort,
+      trashRetentionDays: parsed.trashRetentionDays ?? defaultSettings.trashRetentionDays,
       providers: {
         localhost: {
           ...defaultSettings.providers.localhost,
           ...parsed.providers?.localhost
         },
+        indexeddb: {
+          ...defaultSettings.providers.indexeddb,
+          ...parsed.providers?.indexeddb
+        },
         mongodb: {
           ...defaultSettings.providers.mongodb,
           ...parsed.providers?.mongodb,
@@ -1,5 +1,6 @@
 import { MongoDBConfig, AppSettings } from '../providers/types'
 import { DataProviderType } from '../contexts/SettingsContext'
+import { isCardSort } from './cardQuery'
 
 /**
  * Validation result interface
@@ -127,6 +128,10 @@ export function validateProviderConfiguration(
     case 'localhost':
       // localStorage is always available in browser environment
       return { isValid: true, errors: [] }
+
+    case 'indexeddb':
+      // Availability is checked when switching, IndexedDB needs no configuration
+      return { isValid: true, errors: [] }
     
     case 'mongodb':
       return validateMongoDBConfig(settings.providers.mongodb.config)
@@ -157,6 +162,32 @@ export function validateAppSettings(settings: AppSettings): ValidationResult {
     }
   })
   
+  // Validate study preferences
+  if (
+    settings.newCardsPerDay !== undefined &&
+    (!Number.isInteger(settings.newCardsPerDay) || settings.newCardsPerDay < 0)
+  ) {
+    errors.push('New cards per day must be a non-negative whole number')
+  }
+
+  if (
+    settings.maxAnswerDistance !== undefined &&
+    (!Number.isInteger(settings.maxAnswerDistance) || settings.maxAnswerDistance < 0)
+  ) {
+    errors.push('Accepted typing mistakes must be a non-negative whole number')
+  }
+
+  if (settings.wordListSort !== undefined && !isCardSort(settings.wordListSort)) {
+    errors.push('Word list sort must name a card field and a direction')
+  }
+
+  if (
+    settings.trashRetentionDays !== undefined &&
+    (!Number.isInteger(settings.trashRetentionDays) || settings.trashRetentionDays < 1)
+  ) {
+    errors.push('Trash retention must be a whole number of days, at least one')
+  }
+  
   // Validate the currently selected provider
   const selectedProviderResult = validateProviderConfiguration(
     settings.selectedProvider as DataProviderType, 
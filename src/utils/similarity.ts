@@ -0,0 +1,125 @@
+import { Card } from '../types/card'
+import { levenshteinDistance, normalizeAnswer } from './answerChecking'
+
+const COMBINING_MARKS = /[\u0300-\u036f]/g
+
+/**
+ * A card whose word is close to another word, with the edit distance between their normalized forms
+ */
+export interface SimilarCard {
+  card: Card
+  distance: number
+}
+
+/**
+ * Folds a word for comparison: accents removed, lower case, without punctuation,
+ * articles and extra whitespace. A word made only of articles is kept as it is
+ */
+export function normalizeWord(word: string): string {
+  const folded = word.normalize('NFD').replace(COMBINING_MARKS, '')
+  return normalizeAnswer(folded) || folded.trim().toLowerCase()
+}
+
+/**
+ * Spelling differences tolerated between words of this normalized length,
+ * none for short words where a letter changes the meaning
+ */
+export function getSimilarityThreshold(length: number): number {
+  if (length <= 4) return 0
+  return length <= 8 ? 1 : 2
+}
+
+const getDistanceIfSimilar = (a: string, b: string): number | null => {
+  const threshold = getSimilarityThreshold(Math.min(a.length, b.length))
+  if (Math.abs(a.length - b.length) > threshold) return null
+
+  const distance = a === b ? 0 : levenshteinDistance(a, b)
+  return distance <= threshold ? distance : null
+}
+
+/**
+ * Checks whether two words are the same after normalizing, or within the spelling threshold
+ */
+export function areWordsSimilar(a: string, b: string): boolean {
+  return getDistanceIfSimilar(normalizeWord(a), normalizeWord(b)) !== null
+}
+
+interface NormalizedCard {
+  card: Card
+  key: string
+}
+
+// Groups normalized cards so only the words of the same group are compared
+const groupCards = (entries: NormalizedCard[], getGroup: (entry: NormalizedCard) => string) => {
+  const groups = new Map<string, NormalizedCard[]>()
+  entries.forEach(entry => {
+    const group = getGroup(entry)
+    const groupEntries = groups.get(group)
+    if (groupEntries) {
+      groupEntries.push(entry)
+    } else {
+      groups.set(group, [entry])
+    }
+  })
+  return groups
+}
+
+/**
+ * Prepares cards for looking up similar words many times: each word is normalized
+ * once and only words starting with the same letter are compared. Returns the
+ * lookup, which gives the cards similar to a word, closest first
+ */
+export function createSimilarCardFinder(cards: Card[]): (word: string) => SimilarCard[] {
+  const buckets = groupCards(cards.map(card => ({ card, key: normalizeWord(card.word) })), entry => entry.key.charAt(0))
+
+  return word => {
+    const normalized = normalizeWord(word)
+    if (!normalized) return []
+
+    return (buckets.get(normalized.charAt(0)) || [])
+      .map(({ card, key }) => ({ card, distance: getDistanceIfSimilar(normalized, key) }))
+      .filter((match): match is SimilarCard => match.distance !== null)
+      .sort((a, b) => a.distance - b.distance || a.card.word.localeCompare(b.card.word))
+  }
+}
+
+/**
+ * Cards with a word similar to the given one, closest first. Only words starting
+ * with the same letter are compared
+ */
+export function findSimilarCards(word: string, cards: Card[]): SimilarCard[] {
+  return createSimilarCardFinder(cards)(word)
+}
+
+/**
+ * Groups the cards of each deck whose words are similar. Each group gathers the
+ * words similar to its first word, so a chain of small differences does not pull
+ * unrelated words together. Only words starting with the same letter are compared,
+ * which keeps large decks fast. Groups of one card are left out
+ */
+export function findDuplicateClusters(cards: Card[]): Card[][] {
+  const entries = cards
+    .map(card => ({ card, key: normalizeWord(card.word) }))
+    .sort((a, b) => a.key.localeCompare(b.key))
+
+  const buckets = groupCards(entries, entry => `${entry.card.deckId}:${entry.key.charAt(0)}`)
+
+  const clusters: Card[][] = []
+  buckets.forEach(bucketEntries => {
+    const grouped = new Set<number>()
+    bucketEntries.forEach((seed, i) => {
+      if (grouped.has(i)) return
+
+      const cluster = [seed.card]
+      for (let j = i + 1; j < bucketEntries.length; j++) {
+        if (!grouped.has(j) && getDistanceIfSimilar(seed.key, bucketEntries[j].key) !== null) {
+          grouped.add(j)
+          cluster.push(bucketEntries[j].card)
+        }
+      }
+      if (cluster.length > 1) clusters.push(cluster)
+    })
+  })
+
+  return clusters.sort((a, b) => normalizeWord(a[0].word).localeCompare(normalizeWord(b[0].word)))
+}
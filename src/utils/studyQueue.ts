@@ -0,0 +1,147 @@
+import { Card } from '../types/card'
+import { ReviewLog } from '../types/review'
+import { isCardDue } from './scheduler'
+
+/**
+ * Default number of never-reviewed cards mixed into a study queue
+ */
+export const DEFAULT_NEW_CARDS_PER_DAY = 20
+
+/**
+ * Options for building a study queue
+ */
+export interface StudyQueueOptions {
+  newCardsPerDay: number
+  now?: Date
+  reviewLogs?: ReviewLog[] // tells which cards were first studied today
+}
+
+/**
+ * Number of cards waiting in a study queue
+ */
+export interface StudyQueueCounts {
+  due: number
+  new: number
+}
+
+/**
+ * Checks whether a card has never been reviewed
+ */
+export function isNewCard(card: Card): boolean {
+  return !card.lastReviewed && card.repetitions === 0
+}
+
+/**
+ * Returns the start of the local day for a date
+ */
+function startOfDay(date: Date): Date {
+  const start = new Date(date)
+  start.setHours(0, 0, 0, 0)
+  return start
+}
+
+/**
+ * Counts the cards first studied today, which used up part of today's new cards.
+ * A card's review history tells when it was first studied. Cards without history
+ * only count when they were added and reviewed today, since a card added earlier
+ * may have been reviewed before, such as a known card forgotten today
+ */
+function countCardsIntroducedToday(cards: Card[], reviewLogs: ReviewLog[], now: Date): number {
+  const today = startOfDay(now).getTime()
+  const firstReviewedAt = new Map<string, number>()
+  reviewLogs.forEach(log => {
+    const time = new Date(log.reviewedAt).getTime()
+    const first = firstReviewedAt.get(log.cardId)
+    if (first === undefined || time < first) {
+      firstReviewedAt.set(log.cardId, time)
+    }
+  })
+
+  return cards.filter(card => {
+    const first = firstReviewedAt.get(card.id)
+    if (first !== undefined) {
+      return startOfDay(new Date(first)).getTime() === today
+    }
+    return !!card.lastReviewed && startOfDay(card.lastReviewed).getTime() === today &&
+      startOfDay(card.createdAt).getTime() === today
+  }).length
+}
+
+/**
+ * Spreads new cards evenly between review cards
+ */
+function interleave(reviews: Card[], newCards: Card[]): Card[] {
+  if (newCards.length === 0) return reviews
+  if (reviews.length === 0) return newCards
+
+  const result: Card[] = []
+  const step = (reviews.length + newCards.length) / newCards.length
+  let reviewIndex = 0
+
+  newCards.forEach((card, index) => {
+    const position = Math.round((index + 1) * step) - 1
+    while (result.length < position && reviewIndex < reviews.length) {
+      result.push(reviews[reviewIndex++])
+    }
+    result.push(card)
+  })
+
+  return result.concat(reviews.slice(reviewIndex))
+}
+
+/**
+ * Splits cards into reviews that are due and new cards allowed into the queue
+ */
+function selectQueueCards(cards: Card[], options: StudyQueueOptions) {
+  const now = options.now || new Date()
+
+  const dueReviews = cards
+    .filter(card => !isNewCard(card) && isCardDue(card, now))
+    .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime())
+
+  const newCards = cards
+    .filter(isNewCard)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+    .slice(0, Math.max(0, options.newCardsPerDay - countCardsIntroducedToday(cards, options.reviewLogs || [], now)))
+
+  return { now, dueReviews, newCards }
+}
+
+/**
+ * Builds the queue of cards to study now. Cards that became due before today
+ * come first (most overdue first), followed by cards due today with up to
+ * `newCardsPerDay` never-reviewed cards mixed in between them, less the cards
+ * already first studied today.
+ */
+export function buildStudyQueue(cards: Card[], options: StudyQueueOptions): Card[] {
+  const { now, dueReviews, newCards } = selectQueueCards(cards, options)
+  const today = startOfDay(now).getTime()
+
+  const overdue = dueReviews.filter(card => card.dueAt.getTime() < today)
+  const dueToday = dueReviews.filter(card => card.dueAt.getTime() >= today)
+
+  return [...overdue, ...interleave(dueToday, newCards)]
+}
+
+/**
+ * Counts the due reviews and new cards a study queue would contain
+ */
+export function getStudyQueueCounts(cards: Card[], options: StudyQueueOptions): StudyQueueCounts {
+  const { dueReviews, newCards } = selectQueueCards(cards, options)
+
+  return {
+    due: dueReviews.length,
+    new: newCards.length
+  }
+}
+
+/**
+ * Brings a session queue up to date with changed cards: queued cards get their
+ * latest version and deleted ones are dropped, the order is kept
+ */
+export function mergeStudyQueue(queue: Card[], cards: Card[]): Card[] {
+  const latest = new Map(cards.map(card => [card.id, card] as [string, Card]))
+  return queue
+    .filter(card => latest.has(card.id))
+    .map(card => latest.get(card.id)!)
+}
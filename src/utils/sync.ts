@@ -0,0 +1,83 @@
+import { Card } from '../types/card'
+import { Deck } from '../types/deck'
+
+type CardField = Exclude<keyof Card, 'id' | 'fieldUpdatedAt'>
+
+/**
+ * Card fields that are merged independently, every field except the id and the timestamps
+ */
+function getSyncedFields(...cards: Card[]): CardField[] {
+  const fields = new Set<string>()
+  for (const card of cards) {
+    Object.keys(card).forEach(field => fields.add(field))
+  }
+  fields.delete('id')
+  fields.delete('fieldUpdatedAt')
+  return Array.from(fields) as CardField[]
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Records when the fields that differ from the previous version were changed.
+ * A new card gets every field stamped. A field's stamp always moves forward, so an
+ * edit made within the same millisecond as the previous one still wins the merge
+ */
+export function stampCardChanges(previous: Card | undefined, next: Card, timestamp: number = Date.now()): Card {
+  const fieldUpdatedAt = { ...previous?.fieldUpdatedAt, ...next.fieldUpdatedAt }
+
+  for (const field of getSyncedFields(next)) {
+    if (!previous || !isSameValue(previous[field], next[field])) {
+      fieldUpdatedAt[field] = Math.max((fieldUpdatedAt[field] ?? 0) + 1, timestamp)
+    }
+  }
+
+  return { ...next, fieldUpdatedAt }
+}
+
+/**
+ * Merges two versions of a card field by field, the most recently changed value wins.
+ * Ties and unstamped fields keep the remote value
+ */
+export function mergeCards(local: Card, remote: Card): Card {
+  const merged: Record<string, unknown> = { ...remote }
+  const fieldUpdatedAt: Record<string, number> = { ...remote.fieldUpdatedAt }
+
+  for (const field of getSyncedFields(local, remote)) {
+    const localTime = local.fieldUpdatedAt?.[field] ?? 0
+    const remoteTime = remote.fieldUpdatedAt?.[field] ?? 0
+    if (localTime > remoteTime) {
+      merged[field] = local[field]
+      fieldUpdatedAt[field] = localTime
+    }
+  }
+
+  return { ...merged, fieldUpdatedAt } as unknown as Card
+}
+
+/**
+ * Whether two versions of a card hold the same data
+ */
+export function isSameCard(a: Card, b: Card): boolean {
+  const aTimes = a.fieldUpdatedAt ?? {}
+  const bTimes = b.fieldUpdatedAt ?? {}
+  const stampedFields = new Set(Object.keys(aTimes).concat(Object.keys(bTimes)))
+
+  return a.id === b.id &&
+    getSyncedFields(a, b).every(field => isSameValue(a[field], b[field])) &&
+    Array.from(stampedFields).every(field => aTimes[field] === bTimes[field])
+}
+
+/**
+ * Whether two versions of a deck hold the same data
+ */
+export function isSameDeck(a: Deck, b: Deck): boolean {
+  return a.id === b.id &&
+    a.name === b.name &&
+    a.description === b.description &&
+    a.sourceLanguage === b.sourceLanguage &&
+    a.targetLanguage === b.targetLanguage &&
+    new Date(a.createdAt).getTime() === new Date(b.createdAt).getTime()
+}
@@ -0,0 +1,48 @@
+import { Card } from '../types/card'
+
+/**
+ * Trims tags and drops empty and duplicate ones (case-insensitive), keeping the first spelling
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>()
+  const normalized: string[] = []
+
+  for (const tag of tags) {
+    const trimmed = tag.trim()
+    const key = trimmed.toLowerCase()
+    if (trimmed && !seen.has(key)) {
+      seen.add(key)
+      normalized.push(trimmed)
+    }
+  }
+
+  return normalized
+}
+
+/**
+ * Gives cards stored before tags existed an empty tag list
+ */
+export function migrateCardTags<T extends { tags?: string[] }>(card: T): T & { tags: string[] } {
+  return {
+    ...card,
+    tags: Array.isArray(card.tags) ? card.tags : []
+  }
+}
+
+/**
+ * Collects every tag used by the cards, sorted alphabetically
+ */
+export function getAllTags(cards: Card[]): string[] {
+  return normalizeTags(cards.flatMap(card => card.tags))
+    .sort((a, b) => a.localeCompare(b))
+}
+
+/**
+ * Returns the cards that have at least one of the tags, or every card when no tags are given
+ */
+export function filterCardsByTags(cards: Card[], tags: string[]): Card[] {
+  if (tags.length === 0) return cards
+
+  const wanted = new Set(tags.map(tag => tag.toLowerCase()))
+  return cards.filter(card => card.tags.some(tag => wanted.has(tag.toLowerCase())))
+}
@@ -0,0 +1,48 @@
+import { Card } from '../types/card'
+
+/**
+ * Default number of days deleted cards stay in the trash before they are purged
+ */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Checks whether a card is in the trash
+ */
+export function isCardDeleted(card: Card): boolean {
+  return !!card.deletedAt
+}
+
+/**
+ * Returns the cards that are not in the trash
+ */
+export function filterActiveCards(cards: Card[]): Card[] {
+  return cards.filter(card => !isCardDeleted(card))
+}
+
+/**
+ * Returns the cards in the trash, most recently deleted first
+ */
+export function getTrashedCards(cards: Card[]): Card[] {
+  return cards
+    .filter(isCardDeleted)
+    .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime())
+}
+
+/**
+ * Date a deleted card is purged from the trash
+ */
+export function getTrashPurgeDate(card: Card, retentionDays: number): Date | null {
+  return card.deletedAt ? new Date(card.deletedAt.getTime() + retentionDays * DAY_MS) : null
+}
+
+/**
+ * Returns the deleted cards kept longer than the retention period
+ */
+export function getExpiredTrashCards(cards: Card[], retentionDays: number, now: Date = new Date()): Card[] {
+  return cards.filter(card => {
+    const purgeDate = getTrashPurgeDate(card, retentionDays)
+    return purgeDate !== null && purgeDate.getTime() <= now.getTime()
+  })
+}
@@ -0,0 +1,129 @@
+import { ImportCardData } from '../types/import'
+import { looksLikeAnkiNotes } from './anki'
+import { looksLikeJson } from './delimitedImport'
+
+/**
+ * Formats the import dialog reads, `auto` picks one from the text
+ */
+export type ImportFormat = 'auto' | 'json' | 'spreadsheet' | 'wordList' | 'anki'
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  auto: 'Detect automatically',
+  json: 'JSON',
+  spreadsheet: 'CSV / TSV',
+  wordList: 'Word list',
+  anki: 'Anki notes',
+}
+
+/**
+ * Separators between a word and its translation. Hyphens need spaces around
+ * them so hyphenated words stay whole
+ */
+const SEPARATORS = [' - ', '—', '–', ':', '=']
+
+const EXAMPLE_PREFIX = '>'
+
+/**
+ * One line of a word list, with the word it adds or the example it attaches,
+ * or why it could not be read
+ */
+export interface WordListLine {
+  line: number // 1-based
+  text: string
+  kind: 'word' | 'example' | 'error'
+  error?: string
+}
+
+export interface WordListParseResult {
+  lines: WordListLine[] // blank lines are left out
+  cards: ImportCardData[]
+}
+
+/**
+ * Finds the separator of a line: the one that comes first when several are used
+ */
+export function findWordListSeparator(line: string): { index: number, separator: string } | null {
+  return SEPARATORS.reduce<{ index: number, separator: string } | null>((first, separator) => {
+    const index = line.indexOf(separator)
+    return index !== -1 && (!first || index < first.index) ? { index, separator } : first
+  }, null)
+}
+
+// Several translations may be listed with commas
+const parseTranslations = (text: string) => text
+  .split(',')
+  .map(translation => translation.trim())
+  .filter(translation => translation)
+  .join(', ')
+
+/**
+ * Reads a word list with one `word - translation` entry per line. The separator
+ * is found for each line, lines starting with `>` are examples of the word
+ * above them, and lines that cannot be read are reported without stopping the others
+ */
+export function parseWordList(text: string): WordListParseResult {
+  const lines: WordListLine[] = []
+  const cards: ImportCardData[] = []
+  // Word the examples below attach to, none after a line that could not be read
+  let current: ImportCardData | null = null
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const trimmed = rawLine.trim()
+    if (!trimmed) return
+
+    const line = index + 1
+
+    if (trimmed.startsWith(EXAMPLE_PREFIX)) {
+      const example = trimmed.slice(EXAMPLE_PREFIX.length).trim()
+      if (!current) {
+        lines.push({ line, text: rawLine, kind: 'error', error: 'Example without a word above it' })
+      } else if (!example) {
+        lines.push({ line, text: rawLine, kind: 'error', error: 'Example is empty' })
+      } else {
+        current.examples = (current.examples || []).concat({ id: `example-${line}`, text: example, translation: '' })
+        lines.push({ line, text: rawLine, kind: 'example' })
+      }
+      return
+    }
+
+    // Padded so a spaced hyphen is still found at either end of the line
+    const padded = ` ${trimmed} `
+    const found = findWordListSeparator(padded)
+    if (!found) {
+      current = null
+      lines.push({ line, text: rawLine, kind: 'error', error: 'No separator found, use -, —, : or =' })
+      return
+    }
+
+    const word = padded.slice(0, found.index).trim()
+    const translation = parseTranslations(padded.slice(found.index + found.separator.length))
+    if (!word || !translation) {
+      current = null
+      lines.push({ line, text: rawLine, kind: 'error', error: word ? 'Translation is missing' : 'Word is missing' })
+      return
+    }
+
+    current = { word, translation, examples: [] }
+    cards.push(current)
+    lines.push({ line, text: rawLine, kind: 'word' })
+  })
+
+  return { lines, cards }
+}
+
+/**
+ * Picks the format of pasted text: JSON by its opening bracket, Anki notes by their
+ * header lines, a word list when it has example lines or most lines use a word list
+ * separator, otherwise a spreadsheet
+ */
+export function detectImportFormat(text: string): Exclude<ImportFormat, 'auto'> {
+  if (looksLikeJson(text)) return 'json'
+  if (looksLikeAnkiNotes(text)) return 'anki'
+  if (text.indexOf('\t') !== -1) return 'spreadsheet'
+
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line)
+  if (lines.some(line => line.startsWith(EXAMPLE_PREFIX))) return 'wordList'
+
+  const withSeparator = lines.filter(line => findWordListSeparator(line) !== null).length
+  return withSeparator > 0 && withSeparator * 2 >= lines.length ? 'wordList' : 'spreadsheet'
+}